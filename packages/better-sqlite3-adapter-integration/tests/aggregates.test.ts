@@ -5,7 +5,7 @@
 import { describe, it, before } from "mocha";
 import { expect } from "chai";
 import { from } from "@tinqerjs/tinqer";
-import { executeSelectSimple } from "@tinqerjs/better-sqlite3-adapter";
+import { executeSelect, executeSelectSimple } from "@tinqerjs/better-sqlite3-adapter";
 import { setupTestDatabase } from "./test-setup.js";
 import { dbClient } from "./shared-db.js";
 import { schema } from "./database-schema.js";
@@ -500,6 +500,46 @@ describe("Better SQLite3 Integration - Aggregates", () => {
       const statuses = results.map((r) => r.status);
       expect(statuses).to.include.members(["completed", "pending", "shipped"]);
     });
+
+    it("should filter groups with HAVING", () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("products")
+            .groupBy((p) => p.category)
+            .where((g) => g.count() >= 2)
+            .select((g) => ({
+              category: g.key,
+              count: g.count(),
+            })),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql).to.exist;
+      expect(capturedSql!.sql).to.equal(
+        'SELECT "category" AS "category", COUNT(*) AS "count" FROM "products" ' +
+          'GROUP BY "category" HAVING COUNT(*) >= @__p1',
+      );
+      expect(capturedSql!.params).to.deep.equal({ __p1: 2 });
+
+      const expected = dbClient
+        .prepare(
+          'SELECT "category", COUNT(*) AS "count" FROM "products" GROUP BY "category" HAVING COUNT(*) >= 2',
+        )
+        .all() as { category: string; count: number }[];
+      expect(results.map((r) => r.category)).to.have.members(expected.map((r) => r.category));
+      results.forEach((r) => {
+        expect(Number(r.count)).to.be.at.least(2);
+      });
+    });
   });
 
   describe("NULL-aware aggregates", () => {
@@ -960,4 +1000,217 @@ describe("Better SQLite3 Integration - Aggregates", () => {
       expect(electronics.avgPrice).to.be.lessThanOrEqual(electronics.mostExpensive);
     });
   });
+
+  describe("Correlated scalar subqueries", () => {
+    it("should count related rows per user without grouping", () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .orderBy((u) => u.id)
+            .select((u) => ({
+              name: u.name,
+              orderCount: q.from("orders").count((o) => o.user_id === u.id),
+            })),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'SELECT "name" AS "name", (SELECT COUNT(*) FROM "orders" AS "s1" WHERE "user_id" = "users"."id") AS "orderCount" FROM "users" ORDER BY "id" ASC',
+      );
+      expect(results.map((r) => r.orderCount)).to.deep.equal([2, 1, 1, 1, 1, 1, 1, 1, 1, 0]);
+    });
+
+    it("should return the latest order total and the manager name per user", () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .where((u) => u.id === 1 || u.id === 5 || u.id === 10)
+            .orderBy((u) => u.id)
+            .select((u) => ({
+              name: u.name,
+              latestTotal: q
+                .from("orders")
+                .where((o) => o.user_id === u.id)
+                .orderByDescending((o) => o.order_date)
+                .select((o) => o.total_amount)
+                .firstOrDefault(),
+              manager: q
+                .from("users")
+                .where((m) => m.id === u.manager_id)
+                .select((m) => m.name)
+                .firstOrDefault(),
+            })),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'SELECT "name" AS "name", (SELECT "total_amount" FROM "orders" AS "s1" WHERE "user_id" = "users"."id" ORDER BY "order_date" DESC LIMIT 1) AS "latestTotal", (SELECT "name" FROM "users" AS "s1" WHERE "id" = "users"."manager_id" LIMIT 1) AS "manager" FROM "users" WHERE (("id" = @__p1 OR "id" = @__p2) OR "id" = @__p3) ORDER BY "id" ASC',
+      );
+      expect(
+        results.map((r) => ({
+          name: r.name,
+          latestTotal: r.latestTotal === null ? null : Number(r.latestTotal),
+          manager: r.manager,
+        })),
+      ).to.deep.equal([
+        { name: "John Doe", latestTotal: 499.99, manager: null },
+        { name: "Bob Johnson", latestTotal: 1299.97, manager: "John Doe" },
+        { name: "Grace Hopper", latestTotal: null, manager: "John Doe" },
+      ]);
+    });
+  });
+
+  describe("String, array and JSON aggregation", () => {
+    it("should collect group values into strings, arrays and objects", () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .where((u) => u.department_id != null)
+            .groupBy((u) => u.department_id)
+            .select((g) => ({
+              departmentId: g.key,
+              names: g.stringAgg((u) => u.name, ", ", { orderBy: (u) => u.name }),
+              ids: g.arrayAgg((u) => u.id, { orderBy: (u) => u.id }),
+              people: g.jsonAgg((u) => ({ id: u.id, name: u.name }), {
+                orderBy: (u) => u.id,
+                descending: true,
+              }),
+            }))
+            .orderBy((r) => r.departmentId),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        `SELECT "department_id" AS "departmentId", GROUP_CONCAT("name", @__p1 ORDER BY "name" ASC) AS "names", JSON_GROUP_ARRAY("id" ORDER BY "id" ASC) AS "ids", JSON_GROUP_ARRAY(JSON_OBJECT('id', "id", 'name', "name") ORDER BY "id" DESC) AS "people" FROM "users" WHERE "department_id" IS NOT NULL GROUP BY "department_id" ORDER BY "departmentId" ASC`,
+      );
+      expect(results).to.have.length(4);
+      expect(results[0]!.ids).to.deep.equal([1, 5, 7, 9, 10]);
+      expect(results[1]).to.deep.equal({
+        departmentId: 2,
+        names: "Eva Green, Jane Smith",
+        ids: [2, 8],
+        people: [
+          { id: 8, name: "Eva Green" },
+          { id: 2, name: "Jane Smith" },
+        ],
+      });
+    });
+  });
+
+  describe("Filtering a grouped projection", () => {
+    it("should filter projected aggregates in an outer query", () => {
+      const results = executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("users")
+          .where((u) => u.department_id != null)
+          .groupBy((u) => u.department_id)
+          .select((g) => ({ departmentId: g.key, headcount: g.count() }))
+          .where((r) => r.headcount >= 2)
+          .orderBy((r) => r.departmentId),
+      );
+
+      expect(results).to.deep.equal([
+        { departmentId: 1, headcount: 5 },
+        { departmentId: 2, headcount: 2 },
+        { departmentId: 4, headcount: 2 },
+      ]);
+    });
+  });
+
+  describe("Conditional aggregates", () => {
+    it("should aggregate only the rows matching each predicate", () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .where((u) => u.department_id != null)
+            .groupBy((u) => u.department_id)
+            .select((g) => ({
+              departmentId: g.key,
+              active: g.count((u) => u.is_active === 1),
+              seniorPayroll: g.sum(
+                (u) => u.salary,
+                (u) => u.age !== null && u.age >= 35,
+              ),
+              topJuniorSalary: g.max(
+                (u) => u.salary,
+                (u) => u.age !== null && u.age < 35,
+              ),
+            }))
+            .orderBy((r) => r.departmentId),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        `SELECT "department_id" AS "departmentId", COUNT(*) FILTER (WHERE "is_active" = @__p1) AS "active", SUM("salary") FILTER (WHERE ("age" IS NOT NULL AND "age" >= @__p2)) AS "seniorPayroll", MAX("salary") FILTER (WHERE ("age" IS NOT NULL AND "age" < @__p3)) AS "topJuniorSalary" FROM "users" WHERE "department_id" IS NOT NULL GROUP BY "department_id" ORDER BY "departmentId" ASC`,
+      );
+      expect(results).to.deep.equal([
+        { departmentId: 1, active: 4, seniorPayroll: 288000, topJuniorSalary: 120000 },
+        { departmentId: 2, active: 2, seniorPayroll: null, topJuniorSalary: 95000 },
+        { departmentId: 3, active: 1, seniorPayroll: null, topJuniorSalary: 72000 },
+        { departmentId: 4, active: 1, seniorPayroll: 177000, topJuniorSalary: null },
+      ]);
+    });
+
+    it("should filter aggregates with method calls and IN lists", () => {
+      const results = executeSelect(
+        dbClient,
+        schema,
+        (q, params: { ids: number[] }) =>
+          q
+            .from("users")
+            .where((u) => u.department_id != null)
+            .groupBy((u) => u.department_id)
+            .select((g) => ({
+              departmentId: g.key,
+              namedJ: g.count((u) => u.name.startsWith("J")),
+              picked: g.count((u) => params.ids.includes(u.id)),
+            }))
+            .orderBy((r) => r.departmentId),
+        { ids: [1, 2, 3, 5] },
+      );
+
+      expect(results).to.deep.equal([
+        { departmentId: 1, namedJ: 1, picked: 2 },
+        { departmentId: 2, namedJ: 1, picked: 1 },
+        { departmentId: 3, namedJ: 0, picked: 0 },
+        { departmentId: 4, namedJ: 0, picked: 1 },
+      ]);
+    });
+  });
 });
@@ -244,6 +244,81 @@ describe("Better SQLite3 Integration - Arithmetic and NULL Operations", () => {
         expect(r.avgItemValue).to.be.greaterThan(0);
       });
     });
+    it("should evaluate Math functions in SELECT and WHERE", () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("products")
+            .where((p) => Math.abs(p.price - 100) < 50)
+            .select((p) => ({
+              name: p.name,
+              price: p.price,
+              stock: p.stock,
+              low: Math.floor(p.price),
+              high: Math.ceil(p.price),
+              rounded: Math.round(p.price),
+              largest: Math.max(p.price, p.stock),
+            })),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql).to.exist;
+      expect(capturedSql!.sql).to.equal(
+        'SELECT "name" AS "name", "price" AS "price", "stock" AS "stock", (CAST("price" AS INTEGER) - ("price" < CAST("price" AS INTEGER))) AS "low", (CAST("price" AS INTEGER) + ("price" > CAST("price" AS INTEGER))) AS "high", ROUND("price") AS "rounded", MAX("price", "stock") AS "largest" FROM "products" WHERE ABS(("price" - @__p1)) < @__p2',
+      );
+      expect(capturedSql!.params).to.deep.equal({ __p1: 100, __p2: 50 });
+
+      // Keyboard (79.99), Webcam (89.99)
+      expect(results.map((r) => r.name)).to.have.members(["Keyboard", "Webcam"]);
+      results.forEach((r) => {
+        expect(r.low).to.equal(Math.floor(r.price));
+        expect(r.high).to.equal(Math.ceil(r.price));
+        expect(r.rounded).to.equal(Math.round(r.price));
+        expect(r.largest).to.equal(Math.max(r.price, r.stock));
+      });
+    });
+
+    it("should round to decimal places with round()", () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = executeSelectSimple(
+        dbClient,
+        schema,
+        (q, _params, h) =>
+          q
+            .from("products")
+            .where((p) => p.price < 100)
+            .orderBy((p) => p.price)
+            .select((p) => ({
+              name: p.name,
+              price: p.price,
+              tenths: h.functions.round(p.price, 1),
+            })),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql).to.exist;
+      expect(capturedSql!.sql).to.equal(
+        'SELECT "name" AS "name", "price" AS "price", ROUND("price", @__p2) AS "tenths" FROM "products" WHERE "price" < @__p1 ORDER BY "price" ASC',
+      );
+      expect(capturedSql!.params).to.deep.equal({ __p1: 100, __p2: 1 });
+      expect(results.length).to.be.greaterThan(0);
+      results.forEach((r) => {
+        expect(Number(r.tenths)).to.be.closeTo(Math.round(Number(r.price) * 10) / 10, 1e-9);
+      });
+    });
   });
 
   describe("NULL handling", () => {
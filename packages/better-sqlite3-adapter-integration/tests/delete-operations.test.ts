@@ -574,6 +574,65 @@ describe("DELETE Operations - SQLite Integration", () => {
     });
   });
 
+  describe("DELETE with RETURNING clause", () => {
+    it("should return deleted rows with RETURNING *", () => {
+      const results = executeDelete(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .deleteFrom("test_products")
+            .where((p) => p.category === "Stationery")
+            .returning((p) => p),
+        {},
+      );
+
+      assert(Array.isArray(results));
+      assert.equal(results.length, 2);
+      const names = results.map((r) => r.name).sort();
+      assert.deepEqual(names, ["Notebook", "Pen Set"]);
+
+      const remaining = dbClient
+        .prepare("SELECT COUNT(*) as count FROM test_products WHERE category = ?")
+        .get("Stationery") as { count: number };
+      assert.equal(remaining.count, 0);
+    });
+
+    it("should return specific columns with RETURNING", () => {
+      const results = executeDelete(
+        dbClient,
+        schema,
+        (q, p: { maxPrice: number }) =>
+          q
+            .deleteFrom("test_products")
+            .where((r) => r.price! < p.maxPrice)
+            .returning((r) => ({ id: r.id, name: r.name })),
+        { maxPrice: 20 },
+      );
+
+      assert.equal(results.length, 2);
+      results.forEach((result) => {
+        assert(typeof result.id === "number");
+        assert(!("price" in result));
+      });
+    });
+
+    it("should return an empty array when no rows match", () => {
+      const results = executeDelete(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .deleteFrom("test_products")
+            .where((p) => p.name === "NonExistent")
+            .returning((p) => p.id),
+        {},
+      );
+
+      assert.deepEqual(results, []);
+    });
+  });
+
   describe("DELETE with no matches", () => {
     it("should return 0 when no rows match", () => {
       const rowCount = executeDelete(
@@ -0,0 +1,100 @@
+/**
+ * Integration tests for full-text search over FTS5 virtual tables with Better SQLite3
+ */
+
+import { describe, it, before, after } from "mocha";
+import { expect } from "chai";
+import { createSchema } from "@tinqerjs/tinqer";
+import { executeSelect } from "@tinqerjs/better-sqlite3-adapter";
+import Database from "better-sqlite3";
+
+// Use isolated in-memory database for FTS5 tests
+const dbClient: Database.Database = new Database(":memory:");
+
+interface TestSchema {
+  articles: {
+    title: string;
+    body: string;
+  };
+}
+
+const schema = createSchema<TestSchema>();
+
+const articles = [
+  { title: "Foxes", body: "The quick brown fox jumps over the lazy dog" },
+  { title: "Dogs", body: "A lazy dog sleeps all day in the sun" },
+  { title: "Fox hunting", body: "Fox fox fox: a story about a fox and its den" },
+];
+
+describe("Better SQLite3 Integration - Full-Text Search", () => {
+  before(() => {
+    dbClient.exec("CREATE VIRTUAL TABLE articles USING fts5(title, body)");
+    const insert = dbClient.prepare("INSERT INTO articles (title, body) VALUES (?, ?)");
+    for (const article of articles) {
+      insert.run(article.title, article.body);
+    }
+  });
+
+  after(() => {
+    dbClient.close();
+  });
+
+  it("should match documents and order them by rank", () => {
+    const results = executeSelect(
+      dbClient,
+      schema,
+      (q, params, h) =>
+        q
+          .from("articles")
+          .where((a) => h.functions.textSearch(a.body, params.q))
+          .orderByDescending((a) => h.functions.textRank(a.body, params.q))
+          .select((a) => ({ title: a.title })),
+      { q: "fox" },
+    );
+
+    expect(results).to.deep.equal([{ title: "Fox hunting" }, { title: "Foxes" }]);
+  });
+
+  it("should project highlights and snippets", () => {
+    const results = executeSelect(
+      dbClient,
+      schema,
+      (q, params, h) =>
+        q
+          .from("articles")
+          .where((a) => h.functions.textSearch(a.body, params.q))
+          .select((a) => ({
+            highlighted: h.functions.textHighlight(a.body, params.q, { start: "[", end: "]" }),
+            snippet: h.functions.textSnippet(a.body, params.q, { tokens: 3 }),
+          })),
+      { q: "sleeps" },
+    );
+
+    expect(results).to.deep.equal([
+      {
+        highlighted: "A lazy dog [sleeps] all day in the sun",
+        snippet: "...dog <b>sleeps</b> all...",
+      },
+    ]);
+  });
+
+  it("should search for queries with punctuation, quotes and operator words literally", () => {
+    const search = (query: string) =>
+      executeSelect(
+        dbClient,
+        schema,
+        (q, params, h) =>
+          q
+            .from("articles")
+            .where((a) => h.functions.textSearch(a.body, params.q))
+            .select((a) => ({ title: a.title })),
+        { q: query },
+      );
+
+    expect(search("fox: den")).to.deep.equal([{ title: "Fox hunting" }]);
+    expect(search('lazy "dog" -sun')).to.deep.equal([{ title: "Dogs" }]);
+    expect(search("lazy-dog AND")).to.deep.equal([]);
+    expect(search("a NEAR story")).to.deep.equal([]);
+    expect(search("\tlazy  dog\n")).to.deep.equal([{ title: "Foxes" }, { title: "Dogs" }]);
+  });
+});
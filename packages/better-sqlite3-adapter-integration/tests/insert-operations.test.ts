@@ -280,6 +280,363 @@ describe("INSERT Operations - SQLite Integration", () => {
     });
   });
 
+  describe("INSERT with RETURNING clause", () => {
+    it("should return inserted row with RETURNING *", () => {
+      const results = executeInsert(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .insertInto("products")
+            .values({
+              name: "Smartphone",
+              price: 799.99,
+              category: "Electronics",
+            })
+            .returning((p) => p),
+        {},
+      );
+
+      assert(Array.isArray(results));
+      assert.equal(results.length, 1);
+      assert.equal(results[0]!.name, "Smartphone");
+      assert.equal(parseFloat(String(results[0]!.price!)), 799.99);
+      assert(results[0]!.id! > 0); // Auto-generated ID
+    });
+
+    it("should return specific columns with RETURNING", () => {
+      const results = executeInsert(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .insertInto("products")
+            .values({
+              name: "Monitor",
+              price: 299.99,
+              category: "Electronics",
+            })
+            .returning((p) => ({ id: p.id, name: p.name })),
+        {},
+      );
+
+      assert(Array.isArray(results));
+      assert.equal(results.length, 1);
+      assert.equal(results[0]!.name, "Monitor");
+      assert(results[0]!.id! > 0);
+      // Should not have other columns
+      assert(!("price" in results[0]!));
+      assert(!("category" in results[0]!));
+    });
+
+    it("should return single column with RETURNING", () => {
+      const results = executeInsert(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .insertInto("products")
+            .values({
+              name: "Keyboard",
+              price: 79.99,
+            })
+            .returning((p) => p.id),
+        {},
+      );
+
+      assert(Array.isArray(results));
+      assert.equal(results.length, 1);
+      // Note: Currently returns {id: number}, not just number (type mismatch to fix later)
+      assert(typeof (results[0]! as unknown as { id: number }).id === "number");
+      assert((results[0]! as unknown as { id: number }).id > 0);
+    });
+  });
+
+  describe("Multi-row INSERT", () => {
+    type ProductRow = { name: string; price?: number; category?: string | null };
+
+    it("should insert every row from an array parameter", () => {
+      const rowCount = executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+        {
+          rows: [
+            { name: "Pen", price: 1.5, category: "Stationery" },
+            { name: "Pencil", price: 0.5, category: "Stationery" },
+            { name: "Eraser", price: 0.75, category: "Stationery" },
+          ],
+        },
+      );
+
+      assert.equal(rowCount, 3);
+
+      const names = dbClient.prepare("SELECT name FROM products ORDER BY id").all() as {
+        name: string;
+      }[];
+      assert.deepEqual(
+        names.map((row) => row.name),
+        ["Pen", "Pencil", "Eraser"],
+      );
+    });
+
+    it("should keep column defaults for columns missing from some rows", () => {
+      const statements: string[] = [];
+
+      executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: (ProductRow & { in_stock?: number })[] }) =>
+          q.insertInto("products").values(p.rows),
+        {
+          rows: [
+            { name: "Stapler", category: "Office", in_stock: 0 },
+            { name: "Tape", price: 2 },
+            { name: "Glue", price: 3 },
+          ],
+        },
+        { onSql: ({ sql }) => statements.push(sql) },
+      );
+
+      // SQLite has no DEFAULT inside VALUES, so rows with different columns run separately
+      assert.deepEqual(statements, [
+        `INSERT INTO "products" ("name", "category", "in_stock") VALUES (@rows_0_name, @rows_0_category, @rows_0_in_stock)`,
+        `INSERT INTO "products" ("name", "price") VALUES (@rows_0_name, @rows_0_price), (@rows_1_name, @rows_1_price)`,
+      ]);
+
+      const rows = dbClient
+        .prepare("SELECT name, price, category, in_stock FROM products ORDER BY id")
+        .all() as TestSchema["products"][];
+      assert.deepEqual(
+        rows.map((row) => [row.name, row.price, row.category, row.in_stock]),
+        [
+          ["Stapler", null, "Office", 0],
+          ["Tape", 2, null, 1],
+          ["Glue", 3, null, 1],
+        ],
+      );
+    });
+
+    it("should return all inserted rows with RETURNING", () => {
+      const results = executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) =>
+          q
+            .insertInto("products")
+            .values(p.rows)
+            .returning((product) => ({ id: product.id, name: product.name })),
+        { rows: [{ name: "Ruler" }, { name: "Compass" }] },
+      );
+
+      assert.equal(results.length, 2);
+      assert.equal(results[0]!.name, "Ruler");
+      assert.equal(results[1]!.name, "Compass");
+      assert(results[1]!.id! > results[0]!.id!);
+    });
+
+    it("should split large batches into multiple statements", () => {
+      const rows = Array.from({ length: 11000 }, (_, index) => ({
+        name: `Bulk ${index}`,
+        price: index,
+        category: "Bulk",
+      }));
+      const statements: string[] = [];
+
+      const rowCount = executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+        { rows },
+        { onSql: ({ sql }) => statements.push(sql) },
+      );
+
+      assert.equal(rowCount, 11000);
+      // 3 columns per row and 32766 bind parameters per statement gives 10922 rows per statement
+      assert.equal(statements.length, 2);
+
+      const count = dbClient.prepare("SELECT COUNT(*) AS count FROM products").get() as {
+        count: number;
+      };
+      assert.equal(count.count, 11000);
+    });
+
+    it("should split batches at a lower maxBindParameters", () => {
+      const rows = Array.from({ length: 1000 }, (_, index) => ({
+        name: `Bulk ${index}`,
+        price: index,
+        category: "Bulk",
+      }));
+      const statements: string[] = [];
+
+      const rowCount = executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+        { rows },
+        { onSql: ({ sql }) => statements.push(sql), maxBindParameters: 999 },
+      );
+
+      assert.equal(rowCount, 1000);
+      // 999 bind parameters per statement gives 333 rows per statement
+      assert.equal(statements.length, 4);
+      assert.throws(
+        () =>
+          executeInsert(
+            dbClient,
+            schema,
+            (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+            { rows },
+            { maxBindParameters: 0 },
+          ),
+        /maxBindParameters must be a positive integer/,
+      );
+    });
+
+    it("should roll back earlier statements when a later one fails", () => {
+      const rows: ProductRow[] = Array.from({ length: 1000 }, (_, index) => ({
+        name: `Bulk ${index}`,
+        price: index,
+        category: "Bulk",
+      }));
+      // name is NOT NULL; this row lands in the last statement
+      rows[999] = { name: null as unknown as string, price: 999, category: "Bulk" };
+
+      assert.throws(() => {
+        executeInsert(
+          dbClient,
+          schema,
+          (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+          { rows },
+          { maxBindParameters: 999 },
+        );
+      }, /NOT NULL constraint failed/);
+
+      const count = dbClient.prepare("SELECT COUNT(*) AS count FROM products").get() as {
+        count: number;
+      };
+      assert.equal(count.count, 0);
+    });
+
+    it("should insert nothing for an empty array", () => {
+      const rowCount = executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+        { rows: [] },
+      );
+
+      assert.equal(rowCount, 0);
+    });
+  });
+
+  describe("INSERT with ON CONFLICT (upsert)", () => {
+    it("should skip conflicting rows with DO NOTHING", () => {
+      executeInsert(
+        dbClient,
+        schema,
+        (q) => q.insertInto("customers").values({ email: "dup@example.com", name: "First" }),
+        {},
+      );
+
+      const rowCount = executeInsert(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .insertInto("customers")
+            .values({ email: "dup@example.com", name: "Second" })
+            .onConflict((c) => c.email)
+            .doNothing(),
+        {},
+      );
+
+      assert.equal(rowCount, 0);
+      const customer = dbClient
+        .prepare("SELECT name FROM customers WHERE email = ?")
+        .get("dup@example.com") as TestSchema["customers"];
+      assert.equal(customer.name, "First");
+    });
+
+    it("should update the existing row with DO UPDATE SET", () => {
+      const upsert = (name: string, age: number) =>
+        executeInsert(
+          dbClient,
+          schema,
+          (q, p: { email: string; name: string; age: number }) =>
+            q
+              .insertInto("customers")
+              .values({ email: p.email, name: p.name, age: p.age })
+              .onConflict((c) => c.email)
+              .doUpdateSet((existing, excluded) => ({
+                name: excluded.name,
+                age: existing.age! + excluded.age!,
+              })),
+          { email: "upsert@example.com", name, age },
+        );
+
+      upsert("Original", 20);
+      upsert("Renamed", 5);
+
+      const customer = dbClient
+        .prepare("SELECT name, age FROM customers WHERE email = ?")
+        .get("upsert@example.com") as TestSchema["customers"];
+      assert.equal(customer.name, "Renamed");
+      assert.equal(customer.age, 25);
+    });
+
+    it("should only update rows matching the DO UPDATE WHERE condition", () => {
+      const upsert = (age: number) =>
+        executeInsert(
+          dbClient,
+          schema,
+          (q, p: { age: number }) =>
+            q
+              .insertInto("customers")
+              .values({ email: "guarded@example.com", age: p.age })
+              .onConflict((c) => c.email)
+              .doUpdateSet((_, excluded) => ({ age: excluded.age }))
+              .where((existing, excluded) => existing.age! < excluded.age!),
+          { age },
+        );
+
+      upsert(30);
+      const skipped = upsert(10);
+      assert.equal(skipped, 0);
+
+      const customer = dbClient
+        .prepare("SELECT age FROM customers WHERE email = ?")
+        .get("guarded@example.com") as TestSchema["customers"];
+      assert.equal(customer.age, 30);
+    });
+
+    it("should return the upserted row with RETURNING", () => {
+      executeInsert(
+        dbClient,
+        schema,
+        (q) => q.insertInto("customers").values({ email: "ret@example.com", name: "Before" }),
+        {},
+      );
+
+      const results = executeInsert(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .insertInto("customers")
+            .values({ email: "ret@example.com", name: "After" })
+            .onConflict((c) => c.email)
+            .doUpdateSet((_, excluded) => ({ name: excluded.name }))
+            .returning((c) => ({ id: c.id, name: c.name })),
+        {},
+      );
+
+      assert.equal(results.length, 1);
+      assert.equal(results[0]!.id, 1);
+      assert.equal(results[0]!.name, "After");
+    });
+  });
+
   describe("Complex INSERT scenarios", () => {
     it("should handle special characters in strings", () => {
       const rowCount = executeInsert(
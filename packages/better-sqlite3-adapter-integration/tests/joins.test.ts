@@ -552,4 +552,146 @@ describe("Better SQLite3 Integration - JOINs", () => {
       expect(results.length).to.equal(40);
     });
   });
+
+  describe("leftJoin / rightJoin / fullJoin / crossJoin", () => {
+    it("should keep users without a matching order in a leftJoin", () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .leftJoin(
+              q.from("orders"),
+              (u, o) => u.id == o.user_id && o.status == "pending",
+              (u, o) => ({ u, o }),
+            )
+            .select((row) => ({ userName: row.u.name, orderId: row.o?.id }))
+            .orderBy((r) => r.userName),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'SELECT "t0"."name" AS "userName", "t1"."id" AS "orderId" FROM "users" AS "t0" LEFT OUTER JOIN "orders" AS "t1" ON ("t0"."id" = "t1"."user_id" AND "t1"."status" = @__p1) ORDER BY "userName" ASC',
+      );
+      expect(capturedSql!.params).to.deep.equal({ __p1: "pending" });
+
+      expect(results).to.have.length(10);
+      expect(results.filter((r) => r.orderId !== null).map((r) => r.userName)).to.deep.equal([
+        "Eva Green",
+        "John Doe",
+      ]);
+    });
+
+    it("should keep users without orders on the right side of a rightJoin", () => {
+      const results = executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("orders")
+          .rightJoin(
+            q.from("users"),
+            (o) => o.user_id,
+            (u) => u.id,
+            (o, u) => ({ o, u }),
+          )
+          .select((row) => ({ userName: row.u.name, orderId: row.o?.id })),
+      );
+
+      expect(results).to.have.length(11);
+      expect(results.filter((r) => r.orderId === null).map((r) => r.userName)).to.deep.equal([
+        "Grace Hopper",
+      ]);
+    });
+
+    it("should keep unmatched rows from both sides of a fullJoin", () => {
+      const results = executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("users")
+          .fullJoin(
+            q.from("orders"),
+            (u, o) => u.id == o.user_id && o.total_amount > 1000,
+            (u, o) => ({ u, o }),
+          )
+          .select((row) => ({ userId: row.u?.id, orderId: row.o?.id })),
+      );
+
+      expect(results).to.have.length(18);
+      expect(results.filter((r) => r.userId !== null && r.orderId !== null)).to.have.length(2);
+      expect(results.filter((r) => r.userId === null)).to.have.length(8);
+      expect(results.filter((r) => r.orderId === null)).to.have.length(8);
+    });
+
+    it("should resolve a chained leftJoin key through the previously joined table", () => {
+      const results = executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("users")
+          .leftJoin(
+            q.from("users"),
+            (u) => u.manager_id,
+            (m) => m.id,
+            (u, m) => ({ u, m }),
+          )
+          .leftJoin(
+            q.from("departments"),
+            (row) => row.m?.department_id,
+            (d) => d.id,
+            (row, d) => ({ ...row, d }),
+          )
+          .where((row) => row.m !== null)
+          .select((row) => ({ employee: row.u.name, managerDepartment: row.d?.name }))
+          .orderBy((r) => r.employee),
+      );
+
+      expect(results).to.deep.equal([
+        { employee: "Alice Brown", managerDepartment: "Sales" },
+        { employee: "Bob Johnson", managerDepartment: "Engineering" },
+        { employee: "Diana Prince", managerDepartment: "Engineering" },
+        { employee: "Eva Green", managerDepartment: "Sales" },
+        { employee: "Frank Castle", managerDepartment: "Engineering" },
+        { employee: "Grace Hopper", managerDepartment: "Engineering" },
+      ]);
+    });
+
+    it("should find rows a leftJoin found no match for by comparing the table to null", () => {
+      const results = executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("users")
+          .leftJoin(
+            q.from("users"),
+            (u) => u.manager_id,
+            (m) => m.id,
+            (u, m) => ({ u, m }),
+          )
+          .where((row) => row.m === null)
+          .select((row) => ({ name: row.u.name, hasManager: row.m !== null }))
+          .orderBy((r) => r.name),
+      );
+
+      expect(results.map((r) => r.name)).to.deep.equal([
+        "Charlie Wilson",
+        "Henry Ford",
+        "Jane Smith",
+        "John Doe",
+      ]);
+      expect(results.every((r) => !r.hasManager)).to.equal(true);
+    });
+
+    it("should pair every row with crossJoin", () => {
+      const results = executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("departments")
+          .crossJoin(q.from("departments"), (a, b) => ({ a, b }))
+          .where((row) => row.a.budget! > row.b.budget!)
+          .select((row) => ({ richer: row.a.name, poorer: row.b.name })),
+      );
+
+      expect(results).to.have.length(6);
+      expect(results.filter((r) => r.richer === "Engineering")).to.have.length(3);
+    });
+  });
 });
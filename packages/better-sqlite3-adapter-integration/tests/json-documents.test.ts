@@ -0,0 +1,149 @@
+/**
+ * Integration tests for JSON column path access with Better SQLite3
+ */
+
+import { describe, it, before, after } from "mocha";
+import { expect } from "chai";
+import { createSchema } from "@tinqerjs/tinqer";
+import { executeSelect } from "@tinqerjs/better-sqlite3-adapter";
+import Database from "better-sqlite3";
+
+// Use isolated in-memory database for JSON tests
+const dbClient: Database.Database = new Database(":memory:");
+
+interface TestSchema {
+  profiles: {
+    id: number;
+    name: string;
+    metadata: {
+      address: { city: string; zip: string };
+      tags: string[];
+      score: number;
+      verified: boolean;
+    };
+  };
+}
+
+const schema = createSchema<TestSchema>({ jsonColumns: { profiles: ["metadata"] } });
+
+const profiles = [
+  {
+    id: 1,
+    name: "Ada",
+    metadata: { address: { city: "London", zip: "N1" }, tags: ["vip"], score: 9, verified: true },
+  },
+  {
+    id: 2,
+    name: "Blaise",
+    metadata: { address: { city: "Paris", zip: "75001" }, tags: [], score: 12, verified: false },
+  },
+  {
+    id: 3,
+    name: "Carl",
+    metadata: {
+      address: { city: "Paris", zip: "75002" },
+      tags: ["staff", "vip"],
+      score: 30,
+      verified: true,
+    },
+  },
+];
+
+describe("Better SQLite3 Integration - JSON Documents", () => {
+  before(() => {
+    // SQLite stores JSON documents as TEXT
+    dbClient.exec("CREATE TABLE profiles (id INTEGER PRIMARY KEY, name TEXT, metadata TEXT)");
+    const insert = dbClient.prepare("INSERT INTO profiles (id, name, metadata) VALUES (?, ?, ?)");
+    for (const profile of profiles) {
+      insert.run(profile.id, profile.name, JSON.stringify(profile.metadata));
+    }
+  });
+
+  after(() => {
+    dbClient.close();
+  });
+
+  it("should filter and order by nested JSON values", () => {
+    const results = executeSelect(
+      dbClient,
+      schema,
+      (q, params) =>
+        q
+          .from("profiles")
+          .where((p) => p.metadata.address.city == params.city && p.metadata.score > 10)
+          .orderByDescending((p) => p.metadata.score)
+          .select((p) => ({ id: p.id, zip: p.metadata.address.zip })),
+      { city: "Paris" },
+    );
+
+    expect(results).to.deep.equal([
+      { id: 3, zip: "75002" },
+      { id: 2, zip: "75001" },
+    ]);
+  });
+
+  it("should project JSON scalars as SQL values and objects as JSON text", () => {
+    const results = executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("profiles")
+          .where((p) => p.metadata.verified)
+          .orderBy((p) => p.id)
+          .select((p) => ({
+            address: p.metadata.address,
+            firstTag: p.metadata.tags[0],
+            score: p.metadata.score,
+            verified: p.metadata.verified,
+          })),
+      {},
+    );
+
+    // json_extract returns SQLite values: booleans are 1/0, objects stay JSON text
+    expect(results).to.deep.equal([
+      { address: '{"city":"London","zip":"N1"}', firstTag: "vip", score: 9, verified: 1 },
+      { address: '{"city":"Paris","zip":"75002"}', firstTag: "staff", score: 30, verified: 1 },
+    ]);
+  });
+
+  it("should read JSON paths through a join", () => {
+    const results = executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("profiles")
+          .join(
+            q.from("profiles"),
+            (a) => a.id,
+            (b) => b.id,
+            (a, b) => ({ a, b }),
+          )
+          .where((row) => row.b.metadata.address.city == "Paris")
+          .orderBy((row) => row.b.metadata.score)
+          .select((row) => ({ name: row.a.name, score: row.b.metadata.score })),
+      {},
+    );
+
+    expect(results).to.deep.equal([
+      { name: "Blaise", score: 12 },
+      { name: "Carl", score: 30 },
+    ]);
+  });
+
+  it("should return null for missing paths", () => {
+    const results = executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("profiles")
+          .where((p) => p.id == 2)
+          .select((p) => ({ firstTag: p.metadata.tags[0] })),
+      {},
+    );
+
+    expect(results).to.deep.equal([{ firstTag: null }]);
+  });
+});
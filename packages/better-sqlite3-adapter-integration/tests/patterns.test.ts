@@ -0,0 +1,130 @@
+/**
+ * Integration tests for LIKE patterns and regular expressions with Better SQLite3
+ */
+
+import { describe, it, before, after } from "mocha";
+import { expect } from "chai";
+import { createSchema } from "@tinqerjs/tinqer";
+import { executeSelect, executeUpdate } from "@tinqerjs/better-sqlite3-adapter";
+import Database from "better-sqlite3";
+
+// Use isolated in-memory database for pattern tests
+const dbClient: Database.Database = new Database(":memory:");
+
+interface TestSchema {
+  invoices: {
+    id: number;
+    code: string;
+    status: string;
+  };
+}
+
+const schema = createSchema<TestSchema>();
+
+const invoices = [
+  { id: 1, code: "INV-100", status: "open" },
+  { id: 2, code: "inv-200", status: "open" },
+  { id: 3, code: "INV-30A", status: "open" },
+  { id: 4, code: "AB_1", status: "open" },
+  { id: 5, code: "ABC1", status: "open" },
+];
+
+describe("Better SQLite3 Integration - Patterns", () => {
+  before(() => {
+    dbClient.exec("CREATE TABLE invoices (id INTEGER PRIMARY KEY, code TEXT, status TEXT)");
+    const insert = dbClient.prepare("INSERT INTO invoices (id, code, status) VALUES (?, ?, ?)");
+    for (const invoice of invoices) {
+      insert.run(invoice.id, invoice.code, invoice.status);
+    }
+  });
+
+  after(() => {
+    dbClient.close();
+  });
+
+  it("should treat escaped wildcards in like() literally", () => {
+    const results = executeSelect(
+      dbClient,
+      schema,
+      (q, _params, h) =>
+        q
+          .from("invoices")
+          .where((i) => h.functions.like(i.code, "AB\\_%"))
+          .select((i) => ({ id: i.id })),
+      {},
+    );
+
+    expect(results).to.deep.equal([{ id: 4 }]);
+  });
+
+  it("should match regular expressions with and without the i flag", () => {
+    const caseSensitive = executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("invoices")
+          .where((i) => /^INV-\d+$/.test(i.code))
+          .orderBy((i) => i.id)
+          .select((i) => ({ id: i.id })),
+      {},
+    );
+    expect(caseSensitive).to.deep.equal([{ id: 1 }]);
+
+    const ignoringCase = executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("invoices")
+          .where((i) => !!i.code.match(/^inv-\d+$/i))
+          .orderBy((i) => i.id)
+          .select((i) => ({ id: i.id })),
+      {},
+    );
+    expect(ignoringCase).to.deep.equal([{ id: 1 }, { id: 2 }]);
+  });
+
+  it("should compare match() results to null", () => {
+    const matching = executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("invoices")
+          .where((i) => i.code.match(/^AB/) !== null)
+          .orderBy((i) => i.id)
+          .select((i) => ({ id: i.id })),
+      {},
+    );
+    expect(matching).to.deep.equal([{ id: 4 }, { id: 5 }]);
+
+    const notMatching = executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("invoices")
+          .where((i) => i.code.match(/^inv-\d+$/i) === null)
+          .orderBy((i) => i.id)
+          .select((i) => ({ id: i.id })),
+      {},
+    );
+    expect(notMatching).to.deep.equal([{ id: 3 }, { id: 4 }, { id: 5 }]);
+  });
+
+  it("should match regular expressions in UPDATE predicates", () => {
+    const changed = executeUpdate(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .update("invoices")
+          .set({ status: "invalid" })
+          .where((i) => !/^INV-\d+$/i.test(i.code)),
+      {},
+    );
+
+    expect(changed).to.equal(3);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Streaming query integration tests with real Better SQLite3
+ */
+
+import { describe, it, before } from "mocha";
+import { expect } from "chai";
+import { executeSelect, executeSelectStream } from "@tinqerjs/better-sqlite3-adapter";
+import { setupTestDatabase } from "./test-setup.js";
+import { dbClient } from "./shared-db.js";
+import { schema } from "./database-schema.js";
+
+describe("Better SQLite3 Integration - Streaming", () => {
+  before(() => {
+    setupTestDatabase(dbClient);
+  });
+
+  it("should stream every row of a query in order", async () => {
+    let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+    const names: string[] = [];
+
+    for await (const user of executeSelectStream(
+      dbClient,
+      schema,
+      (q, params) =>
+        q
+          .from("users")
+          .where((u) => u.department_id == params.departmentId)
+          .orderBy((u) => u.id)
+          .select((u) => ({ id: u.id, name: u.name })),
+      { departmentId: 1 },
+      {
+        onSql: (result) => {
+          capturedSql = result;
+        },
+      },
+    )) {
+      names.push(user.name);
+    }
+
+    expect(capturedSql!.sql).to.equal(
+      'SELECT "id" AS "id", "name" AS "name" FROM "users" WHERE "department_id" = @departmentId ORDER BY "id" ASC',
+    );
+    expect(names).to.deep.equal([
+      "John Doe",
+      "Bob Johnson",
+      "Diana Prince",
+      "Frank Castle",
+      "Grace Hopper",
+    ]);
+  });
+
+  it("should release the statement when the loop breaks", async () => {
+    const ids: number[] = [];
+    for await (const user of executeSelectStream(
+      dbClient,
+      schema,
+      (q) => q.from("users").orderBy((u) => u.id),
+      {},
+    )) {
+      ids.push(user.id);
+      if (ids.length === 2) {
+        break;
+      }
+    }
+
+    expect(ids).to.deep.equal([1, 2]);
+    // The connection would still be busy if the iterator had not been closed
+    const count = executeSelect(dbClient, schema, (q) => q.from("users").count(), {});
+    expect(count).to.equal(10);
+  });
+
+  it("should stream a seekBefore page in query order", async () => {
+    const ids: number[] = [];
+    for await (const user of executeSelectStream(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("users")
+          .orderBy((u) => u.id)
+          .seekBefore([6])
+          .take(2),
+      {},
+    )) {
+      ids.push(user.id);
+    }
+
+    expect(ids).to.deep.equal([4, 5]);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Integration tests for withTransaction with Better SQLite3
+ */
+
+import { describe, it, before, after, beforeEach } from "mocha";
+import { strict as assert } from "assert";
+import { createSchema } from "@tinqerjs/tinqer";
+import {
+  executeInsert,
+  executeSelect,
+  executeUpdate,
+  withTransaction,
+} from "@tinqerjs/better-sqlite3-adapter";
+import Database from "better-sqlite3";
+
+// Use isolated in-memory database for transaction tests
+const dbClient: Database.Database = new Database(":memory:");
+
+interface TestSchema {
+  accounts: {
+    id?: number;
+    owner: string;
+    balance: number;
+  };
+}
+
+const schema = createSchema<TestSchema>();
+
+function countAccounts(): number {
+  const row = dbClient.prepare("SELECT COUNT(*) AS count FROM accounts").get() as {
+    count: number;
+  };
+  return row.count;
+}
+
+function insertAccount(tx: Database.Database, owner: string, balance: number): number {
+  return executeInsert(
+    tx,
+    schema,
+    (q, p: { owner: string; balance: number }) =>
+      q.insertInto("accounts").values({ owner: p.owner, balance: p.balance }),
+    { owner, balance },
+  );
+}
+
+describe("Transactions - SQLite Integration", () => {
+  before(() => {
+    dbClient.exec(`
+      CREATE TABLE accounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        owner TEXT NOT NULL,
+        balance INTEGER NOT NULL
+      )
+    `);
+  });
+
+  after(() => {
+    dbClient.close();
+  });
+
+  beforeEach(() => {
+    dbClient.exec("DELETE FROM accounts");
+  });
+
+  describe("Commit and rollback", () => {
+    it("should commit when the callback returns", () => {
+      const inserted = withTransaction(dbClient, (tx) => {
+        insertAccount(tx, "alice", 100);
+        insertAccount(tx, "bob", 50);
+        return 2;
+      });
+
+      assert.equal(inserted, 2);
+      assert.equal(countAccounts(), 2);
+      assert.equal(dbClient.inTransaction, false);
+    });
+
+    it("should roll back when the callback throws", () => {
+      assert.throws(
+        () =>
+          withTransaction(dbClient, (tx) => {
+            insertAccount(tx, "alice", 100);
+            throw new Error("boom");
+          }),
+        /boom/,
+      );
+
+      assert.equal(countAccounts(), 0);
+      assert.equal(dbClient.inTransaction, false);
+    });
+
+    it("should commit when an async callback resolves", async () => {
+      const owners = await withTransaction(dbClient, async (tx) => {
+        insertAccount(tx, "alice", 100);
+        await Promise.resolve();
+        insertAccount(tx, "bob", 50);
+        return executeSelect(tx, schema, (q) =>
+          q
+            .from("accounts")
+            .orderBy((a) => a.owner)
+            .select((a) => ({ owner: a.owner })),
+        );
+      });
+
+      assert.deepEqual(
+        owners.map((row) => row.owner),
+        ["alice", "bob"],
+      );
+      assert.equal(countAccounts(), 2);
+    });
+
+    it("should roll back when an async callback rejects", async () => {
+      await assert.rejects(
+        withTransaction(dbClient, async (tx) => {
+          insertAccount(tx, "alice", 100);
+          await Promise.resolve();
+          throw new Error("async boom");
+        }),
+        /async boom/,
+      );
+
+      assert.equal(countAccounts(), 0);
+      assert.equal(dbClient.inTransaction, false);
+    });
+  });
+
+  describe("Nested transactions", () => {
+    it("should roll back only the inner savepoint", () => {
+      withTransaction(dbClient, (tx) => {
+        insertAccount(tx, "alice", 100);
+
+        assert.throws(
+          () =>
+            withTransaction(tx, (inner) => {
+              insertAccount(inner, "bob", 50);
+              throw new Error("inner failure");
+            }),
+          /inner failure/,
+        );
+
+        insertAccount(tx, "carol", 75);
+      });
+
+      const owners = dbClient.prepare("SELECT owner FROM accounts ORDER BY owner").all() as {
+        owner: string;
+      }[];
+      assert.deepEqual(
+        owners.map((row) => row.owner),
+        ["alice", "carol"],
+      );
+    });
+
+    it("should discard committed savepoints when the outer transaction rolls back", () => {
+      assert.throws(
+        () =>
+          withTransaction(dbClient, (tx) => {
+            withTransaction(tx, (inner) => insertAccount(inner, "bob", 50));
+            throw new Error("outer failure");
+          }),
+        /outer failure/,
+      );
+
+      assert.equal(countAccounts(), 0);
+    });
+
+    it("should nest through the handle after an await", async () => {
+      await withTransaction(dbClient, async (tx) => {
+        insertAccount(tx, "alice", 100);
+        await Promise.resolve();
+        await withTransaction(tx, async (inner) => {
+          await Promise.resolve();
+          insertAccount(inner, "bob", 50);
+        });
+      });
+
+      assert.equal(countAccounts(), 2);
+    });
+
+    it("should reject a second transaction on a connection with one open", async () => {
+      let release!: () => void;
+      const first = withTransaction(dbClient, async (tx) => {
+        insertAccount(tx, "alice", 100);
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      });
+
+      assert.throws(
+        () => withTransaction(dbClient, (tx) => insertAccount(tx, "bob", 50)),
+        /Another transaction is already open/,
+      );
+
+      release();
+      await first;
+      assert.equal(countAccounts(), 1);
+    });
+
+    it("should reject a finished transaction handle", () => {
+      let finished: Database.Database | undefined;
+      withTransaction(dbClient, (tx) => {
+        finished = tx;
+      });
+
+      assert.throws(() => withTransaction(finished!, () => undefined), /already finished/);
+      assert.equal(dbClient.inTransaction, false);
+    });
+
+    it("should reject options on nested transactions", () => {
+      withTransaction(dbClient, (tx) => {
+        assert.throws(
+          () => withTransaction(tx, () => undefined, { mode: "immediate" }),
+          /outermost transaction/,
+        );
+      });
+    });
+  });
+
+  describe("BEGIN modes", () => {
+    it("should run updates inside an IMMEDIATE transaction", () => {
+      insertAccount(dbClient, "alice", 100);
+
+      const updated = withTransaction(
+        dbClient,
+        (tx) =>
+          executeUpdate(
+            tx,
+            schema,
+            (q) =>
+              q
+                .update("accounts")
+                .set({ balance: 0 })
+                .where((a) => a.owner === "alice"),
+            {},
+          ),
+        { mode: "immediate" },
+      );
+
+      assert.equal(updated, 1);
+      const row = dbClient.prepare("SELECT balance FROM accounts").get() as { balance: number };
+      assert.equal(row.balance, 0);
+    });
+
+    it("should reject unknown modes", () => {
+      assert.throws(
+        () =>
+          withTransaction(dbClient, () => undefined, {
+            mode: "eventually" as "deferred",
+          }),
+        /Unknown transaction mode/,
+      );
+      assert.equal(dbClient.inTransaction, false);
+    });
+  });
+});
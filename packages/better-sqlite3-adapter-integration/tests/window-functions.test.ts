@@ -442,6 +442,115 @@ describe("Window Functions - SQLite Integration", () => {
     });
   });
 
+  describe("Value and Aggregate Window Functions", () => {
+    it("should compute LAG, LEAD and a running total within each department", () => {
+      const result = executeSelect(
+        dbClient,
+        schema,
+        (q, _, h) =>
+          q
+            .from("users")
+            .select((u) => ({
+              name: u.name,
+              department_id: u.department_id,
+              salary: u.salary,
+              previous_salary: h
+                .window(u)
+                .partitionBy((r) => r.department_id)
+                .orderByDescending((r) => r.salary)
+                .lag((r) => r.salary, 1, 0),
+              next_salary: h
+                .window(u)
+                .partitionBy((r) => r.department_id)
+                .orderByDescending((r) => r.salary)
+                .lead((r) => r.salary),
+              running_total: h
+                .window(u)
+                .partitionBy((r) => r.department_id)
+                .orderByDescending((r) => r.salary)
+                .rowsBetween("unboundedPreceding", "currentRow")
+                .sum((r) => r.salary),
+            }))
+            .where((u) => u.department_id === 1)
+            .orderByDescending((u) => u.salary),
+        {},
+      );
+
+      // Department 1 (Engineering): 120000, 110000, 105000, 95000, 88000
+      expect(result.map((r) => r.previous_salary)).to.deep.equal([
+        0, 120000, 110000, 105000, 95000,
+      ]);
+      expect(result.map((r) => r.next_salary)).to.deep.equal([110000, 105000, 95000, 88000, null]);
+      expect(result.map((r) => r.running_total)).to.deep.equal([
+        120000, 230000, 335000, 430000, 518000,
+      ]);
+    });
+
+    it("should compute a moving average over a sliding frame", () => {
+      const result = executeSelect(
+        dbClient,
+        schema,
+        (q, _, h) =>
+          q
+            .from("users")
+            .select((u) => ({
+              name: u.name,
+              department_id: u.department_id,
+              salary: u.salary,
+              moving_avg: h
+                .window(u)
+                .partitionBy((r) => r.department_id)
+                .orderByDescending((r) => r.salary)
+                .rowsBetween({ preceding: 1 }, { following: 1 })
+                .avg((r) => r.salary),
+            }))
+            .where((u) => u.department_id === 1)
+            .orderByDescending((u) => u.salary),
+        {},
+      );
+
+      // (120000+110000)/2, (120000+110000+105000)/3, ... , (95000+88000)/2
+      expect(result.map((r) => Math.round(Number(r.moving_avg)))).to.deep.equal([
+        115000, 111667, 103333, 96000, 91500,
+      ]);
+    });
+
+    it("should compute FIRST_VALUE, LAST_VALUE and NTILE", () => {
+      const result = executeSelect(
+        dbClient,
+        schema,
+        (q, _, h) =>
+          q
+            .from("users")
+            .where((u) => u.department_id === 1)
+            .select((u) => ({
+              name: u.name,
+              salary: u.salary,
+              top_earner: h
+                .window(u)
+                .orderByDescending((r) => r.salary)
+                .firstValue((r) => r.name),
+              lowest_earner: h
+                .window(u)
+                .orderByDescending((r) => r.salary)
+                .rowsBetween("unboundedPreceding", "unboundedFollowing")
+                .lastValue((r) => r.name),
+              half: h
+                .window(u)
+                .orderByDescending((r) => r.salary)
+                .thenBy((r) => r.name)
+                .ntile(2),
+            }))
+            .orderByDescending((u) => u.salary),
+        {},
+      );
+
+      expect(result.every((r) => r.top_earner === "John Doe")).to.be.true;
+      expect(result.every((r) => r.lowest_earner === "Frank Castle")).to.be.true;
+      expect(result.map((r) => r.half)).to.deep.equal([1, 1, 1, 2, 2]);
+    });
+  });
+
   describe("Filtering on Window Function Results", () => {
     it("should filter on ROW_NUMBER to get top 1 per department", () => {
       const result = executeSelect(
@@ -16,6 +16,8 @@ import type {
   ArithmeticExpression,
   NotExpression,
   StringMethodExpression,
+  MathFunctionExpression,
+  DateFunctionExpression,
   BooleanMethodExpression,
   CaseInsensitiveFunctionExpression,
   ObjectExpression,
@@ -27,8 +29,20 @@ import type {
   CaseExpression,
   ReferenceExpression,
   WindowFunctionExpression,
+  WindowFrameBoundary,
+  JsonPathExpression,
+  LikeExpression,
+  RegexMatchExpression,
+  TextSearchExpression,
+  TextSearchFunctionExpression,
+  QueryOperation,
 } from "@tinqerjs/tinqer";
 import type { SqlContext } from "./types.js";
+import {
+  generateExistsPredicate,
+  generateInSubquery,
+  generateScalarSubquery,
+} from "./sql-generator.js";
 
 /**
  * Generate SQL for any expression
@@ -83,6 +97,13 @@ export function generateBooleanExpression(expr: BooleanExpression, context: SqlC
     case "not":
       return generateNotExpression(expr, context);
     case "booleanColumn":
+      // Outer row references in correlated subqueries carry their table
+      if (expr.source) {
+        return generateColumnExpression(
+          { type: "column", name: expr.name, source: expr.source },
+          context,
+        );
+      }
       return `"${expr.name}"`;
     case "booleanConstant":
       return expr.value ? "TRUE" : "FALSE";
@@ -94,6 +115,22 @@ export function generateBooleanExpression(expr: BooleanExpression, context: SqlC
       return generateInExpression(expr as InExpression, context);
     case "isNull":
       return generateIsNullExpression(expr as IsNullExpression, context);
+    case "exists":
+      return generateExistsPredicate(expr, context);
+    case "jsonContains":
+      throw new Error(
+        "jsonContains() is not supported by SQLite; it relies on PostgreSQL jsonb containment (@>)",
+      );
+    case "arrayFunction":
+      throw new Error(
+        `Array column ${expr.function}() is not supported by SQLite; it has no array column type`,
+      );
+    case "like":
+      return generateLikeExpression(expr, context);
+    case "regexMatch":
+      return generateRegexMatchExpression(expr, context);
+    case "textSearch":
+      return generateTextSearchExpression(expr, context);
     default:
       throw new Error(
         `Unsupported boolean expression type: ${(expr as BooleanExpression & { type: string }).type}`,
@@ -118,6 +155,10 @@ export function generateValueExpression(expr: ValueExpression, context: SqlConte
       return generateConcatExpression(expr as ConcatExpression, context);
     case "stringMethod":
       return generateStringMethodExpression(expr as StringMethodExpression, context);
+    case "mathFunction":
+      return generateMathFunctionExpression(expr as MathFunctionExpression, context);
+    case "dateFunction":
+      return generateDateFunctionExpression(expr as DateFunctionExpression, context);
     case "aggregate":
       return generateAggregateExpression(expr as AggregateExpression, context);
     case "windowFunction":
@@ -130,6 +171,16 @@ export function generateValueExpression(expr: ValueExpression, context: SqlConte
       return generateReferenceExpression(expr as ReferenceExpression, context);
     case "allColumns":
       return "*";
+    case "scalarSubquery":
+      return generateScalarSubquery(expr, context);
+    case "jsonPath":
+      return generateJsonPathExpression(expr, context);
+    case "arrayLength":
+      throw new Error(
+        "Array column length is not supported by SQLite; it has no array column type",
+      );
+    case "textSearchFunction":
+      return generateTextSearchFunctionExpression(expr, context);
     default:
       throw new Error(
         `Unsupported value expression type: ${(expr as ValueExpression & { type: string }).type}`,
@@ -222,6 +273,10 @@ function generateNotExpression(expr: NotExpression, context: SqlContext): string
   // Special handling for NOT IN with array parameters
   if (expr.expression.type === "in") {
     const inExpr = expr.expression as InExpression;
+    if (isSubqueryList(inExpr.list)) {
+      const value = generateValueExpression(inExpr.value, context);
+      return `${value} NOT IN ${generateInSubquery(inExpr.list, context)}`;
+    }
     if (!Array.isArray(inExpr.list) && inExpr.list.type === "param") {
       const value = generateValueExpression(inExpr.value, context);
       const paramExpr = inExpr.list as ParameterExpression;
@@ -497,8 +552,8 @@ function generateArithmeticExpression(expr: ArithmeticExpression, context: SqlCo
       (expr.right.type === "constant" &&
         typeof (expr.right as ConstantExpression).value === "string") ||
       // String method results (toLowerCase, toUpperCase, substring, etc.)
-      expr.left.type === "stringMethod" ||
-      expr.right.type === "stringMethod" ||
+      isStringMethodResult(expr.left) ||
+      isStringMethodResult(expr.right) ||
       // Check if expressions are likely to produce strings
       isLikelyStringExpression(expr.left) ||
       isLikelyStringExpression(expr.right) ||
@@ -563,7 +618,7 @@ function isLikelyStringExpression(expr: Expression): boolean {
         return typeof (e as ConstantExpression).value === "string";
       }
       if (e.type === "stringMethod") {
-        return true;
+        return isStringMethodResult(e);
       }
       return false;
     });
@@ -584,20 +639,164 @@ function generateConcatExpression(expr: ConcatExpression, context: SqlContext):
 
 /**
  * Generate SQL for string method expressions
+ * JavaScript string indices are 0-based while SQL string positions are 1-based
  */
 function generateStringMethodExpression(expr: StringMethodExpression, context: SqlContext): string {
   const object = generateValueExpression(expr.object, context);
+  const args = (expr.arguments ?? []).map((arg) => generateValueExpression(arg, context));
 
   switch (expr.method) {
     case "toLowerCase":
       return `LOWER(${object})`;
     case "toUpperCase":
       return `UPPER(${object})`;
+    case "length":
+      return `LENGTH(${object})`;
+    case "trim":
+      return `TRIM(${object})`;
+    case "trimStart":
+      return `LTRIM(${object})`;
+    case "trimEnd":
+      return `RTRIM(${object})`;
+    case "substring": {
+      // Like String.prototype.substring, negative bounds count as 0 and swapped bounds are reordered
+      const [start, end] = args;
+      if (end === undefined) {
+        return `SUBSTR(${object}, MAX(${start}, 0) + 1)`;
+      }
+      const from = `MAX(${start}, 0)`;
+      const to = `MAX(${end}, 0)`;
+      return `SUBSTR(${object}, MIN(${from}, ${to}) + 1, ABS(${to} - ${from}))`;
+    }
+    case "replace": {
+      // String.prototype.replace only replaces the first occurrence
+      const [search, replacement] = args;
+      const position = `INSTR(${object}, ${search})`;
+      return (
+        `CASE WHEN ${position} = 0 THEN ${object} ` +
+        `ELSE SUBSTR(${object}, 1, ${position} - 1) || ${replacement} || ` +
+        `SUBSTR(${object}, ${position} + LENGTH(${search})) END`
+      );
+    }
+    case "replaceAll":
+      return `REPLACE(${object}, ${args[0]}, ${args[1]})`;
+    case "indexOf":
+      return `(INSTR(${object}, ${args[0]}) - 1)`;
+    case "padStart":
+      return `${generatePadding(object, args)} || ${object}`;
+    case "padEnd":
+      return `${object} || ${generatePadding(object, args)}`;
+    case "splitPart": {
+      // SQLite has no SPLIT_PART: turn the string into a JSON array and index into it.
+      // Separators become char(31) before quoting so JSON escapes cannot collide with them.
+      // Past the last part json_extract yields NULL, like split()[i] yields undefined
+      const [separator, index] = args;
+      const quoted = `json_quote(REPLACE(${object}, ${separator}, char(31)))`;
+      return `CASE WHEN ${index} >= 0 THEN json_extract('[' || REPLACE(${quoted}, '\\u001f', '","') || ']', '$[' || CAST(${index} AS INTEGER) || ']') END`;
+    }
     default:
       throw new Error(`Unsupported string method: ${expr.method}`);
   }
 }
 
+/**
+ * Generate the fill needed to pad a string to a target length (SQLite has no LPAD/RPAD)
+ * HEX(ZEROBLOB(n)) yields n copies of "00", which are replaced by the fill string
+ */
+function generatePadding(object: string, args: string[]): string {
+  const [targetLength, fill = "' '"] = args;
+  return `SUBSTR(REPLACE(HEX(ZEROBLOB(${targetLength})), '00', ${fill}), 1, ${targetLength} - LENGTH(${object}))`;
+}
+
+/**
+ * Check whether a string method produces a string (length and indexOf produce numbers)
+ */
+function isStringMethodResult(expr: Expression): boolean {
+  return (
+    expr.type === "stringMethod" &&
+    (expr as StringMethodExpression).method !== "length" &&
+    (expr as StringMethodExpression).method !== "indexOf"
+  );
+}
+
+/**
+ * Generate SQL for Math function expressions
+ * floor() and ceil() are emulated with integer casts because SQLite only provides
+ * FLOOR, CEIL, POWER and SQRT from 3.35 when compiled with SQLITE_ENABLE_MATH_FUNCTIONS
+ */
+function generateMathFunctionExpression(expr: MathFunctionExpression, context: SqlContext): string {
+  if (expr.function === "pow" || expr.function === "sqrt") {
+    throw new Error(
+      `Math.${expr.function}() is not supported by SQLite. ` +
+        `${expr.function === "pow" ? "POWER" : "SQRT"}() is not a core SQLite function ` +
+        `(it requires SQLite 3.35+ compiled with math functions).`,
+    );
+  }
+
+  const args = expr.arguments.map((arg) => generateValueExpression(arg, context));
+
+  switch (expr.function) {
+    case "round":
+      return args[1] === undefined ? `ROUND(${args[0]})` : `ROUND(${args[0]}, ${args[1]})`;
+    case "floor":
+      return `(CAST(${args[0]} AS INTEGER) - (${args[0]} < CAST(${args[0]} AS INTEGER)))`;
+    case "ceil":
+      return `(CAST(${args[0]} AS INTEGER) + (${args[0]} > CAST(${args[0]} AS INTEGER)))`;
+    case "abs":
+      return `ABS(${args[0]})`;
+    case "min":
+      // Multi-argument MIN/MAX are scalar functions in SQLite
+      return `MIN(${args.join(", ")})`;
+    case "max":
+      return `MAX(${args.join(", ")})`;
+    default:
+      throw new Error(`Unsupported Math function: ${expr.function}`);
+  }
+}
+
+/**
+ * Generate SQL for date function expressions
+ * Dates are stored as 'YYYY-MM-DD HH:MM:SS' text, so results use the same format
+ */
+function generateDateFunctionExpression(expr: DateFunctionExpression, context: SqlContext): string {
+  const args = expr.arguments.map((arg) => generateValueExpression(arg, context));
+  const unit = expr.unit ?? "day";
+
+  switch (expr.function) {
+    case "datePart": {
+      const part = `CAST(strftime('${DATE_PART_FORMATS[unit]}', ${args[0]}) AS INTEGER)`;
+      // getMonth() is 0-based
+      return unit === "month" ? `(${part} - 1)` : part;
+    }
+    case "dateAdd":
+      return `datetime(${args[0]}, ${args[1]} || ' ${unit}')`;
+    case "dateTrunc":
+      return unit === "year" || unit === "month" || unit === "day"
+        ? `datetime(${args[0]}, 'start of ${unit}')`
+        : `strftime('${DATE_TRUNC_FORMATS[unit]}', ${args[0]})`;
+    case "now":
+      // Date parameters are bound in local time
+      return "datetime('now', 'localtime')";
+    default:
+      throw new Error(`Unsupported date function: ${expr.function}`);
+  }
+}
+
+const DATE_PART_FORMATS: Record<string, string> = {
+  year: "%Y",
+  month: "%m",
+  day: "%d",
+  hour: "%H",
+  minute: "%M",
+  second: "%S",
+};
+
+const DATE_TRUNC_FORMATS: Record<string, string> = {
+  hour: "%Y-%m-%d %H:00:00",
+  minute: "%Y-%m-%d %H:%M:00",
+  second: "%Y-%m-%d %H:%M:%S",
+};
+
 /**
  * Generate SQL for IS NULL / IS NOT NULL expressions
  */
@@ -606,12 +805,24 @@ function generateIsNullExpression(expr: IsNullExpression, context: SqlContext):
   return expr.negated ? `${value} IS NOT NULL` : `${value} IS NULL`;
 }
 
+/**
+ * Check whether an IN list is a subquery rather than values or an array parameter
+ */
+function isSubqueryList(list: InExpression["list"]): list is QueryOperation {
+  return !Array.isArray(list) && "operationType" in list;
+}
+
 /**
  * Generate SQL for IN expressions
  */
 function generateInExpression(expr: InExpression, context: SqlContext): string {
   const value = generateValueExpression(expr.value, context);
 
+  // Subquery: u.id IN (SELECT "userId" FROM "admins" AS "s1")
+  if (isSubqueryList(expr.list)) {
+    return `${value} IN ${generateInSubquery(expr.list, context)}`;
+  }
+
   // Handle list as array expression, array of values, or parameter
   if (!Array.isArray(expr.list) && expr.list.type === "param") {
     // Handle parameter that represents an array
@@ -716,9 +927,150 @@ function generateCaseInsensitiveFunctionExpression(
 }
 
 /**
- * Generate SQL for aggregate expressions
+ * Generate SQL for JSON document access
+ * json_extract returns scalars as SQL values (booleans as 1/0) and objects and arrays as JSON text
+ */
+export function generateJsonPathExpression(expr: JsonPathExpression, context: SqlContext): string {
+  const column = generateColumnExpression(expr.column, context);
+  const path = expr.path
+    .map((segment) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(segment)
+          ? `.${segment}`
+          : `."${segment.replace(/"/g, '\\"')}"`,
+    )
+    .join("");
+  const literal = `'$${path.replace(/'/g, "''")}'`;
+  return `json_extract(${column}, ${literal})`;
+}
+
+/**
+ * Generate SQL for a LIKE pattern; SQLite has no default escape character, so ESCAPE
+ * declares the backslash. SQLite LIKE ignores case for ASCII letters
+ */
+function generateLikeExpression(expr: LikeExpression, context: SqlContext): string {
+  const value = generateValueExpression(expr.value, context);
+  const pattern = generateValueExpression(expr.pattern, context);
+  return `${value} LIKE ${pattern} ESCAPE '\\'`;
+}
+
+/**
+ * Generate SQL for a regular expression match through the adapter's regexp() user function
+ * X REGEXP Y calls regexp(Y, X); ignoring case needs the function form to pass the flag
+ */
+function generateRegexMatchExpression(expr: RegexMatchExpression, context: SqlContext): string {
+  const value = generateValueExpression(expr.value, context);
+  const pattern = generateValueExpression(expr.pattern, context);
+  return expr.ignoreCase ? `regexp(${pattern}, ${value}, 'i')` : `${value} REGEXP ${pattern}`;
+}
+
+/**
+ * Generate SQL for a full-text match against an FTS5 column: "body" MATCH <quoted @q>
+ * Every whitespace-separated word of the query becomes a quoted FTS5 string, so any input
+ * matches rows containing all its words instead of being parsed as FTS5 query syntax.
+ * The config option has no effect on SQLite, where the tokenizer is chosen when the
+ * FTS5 table is created
+ */
+function generateTextSearchExpression(expr: TextSearchExpression, context: SqlContext): string {
+  const document = generateColumnExpression(
+    getTextSearchColumn(expr, "textSearch", context),
+    context,
+  );
+  return `${document} MATCH ${quoteTextSearchTerms(generateValueExpression(expr.arguments[1], context))}`;
+}
+
+/**
+ * Quote each word of a text search query as an FTS5 string: quick-brown fox -> "quick-brown" "fox"
+ * Inner quotes are doubled and tabs and line breaks separate words like spaces
+ */
+function quoteTextSearchTerms(query: string): string {
+  let words = `replace(${query}, '"', '""')`;
+  for (const separator of ["char(9)", "char(10)", "char(13)"]) {
+    words = `replace(${words}, ${separator}, ' ')`;
+  }
+  return `'"' || replace(${words}, ' ', '" "') || '"'`;
+}
+
+/**
+ * Generate SQL for the FTS5 auxiliary functions behind textRank, textHighlight and textSnippet
+ * They read the match of the query's textSearch() condition, so the query argument and its
+ * config option are not used; bm25() is negated so that, as with PostgreSQL ts_rank, higher
+ * ranks match better. The functions name the FTS5 table itself, so it cannot be aliased
+ */
+function generateTextSearchFunctionExpression(
+  expr: TextSearchFunctionExpression,
+  context: SqlContext,
+): string {
+  const functionName = `text${expr.function[0]!.toUpperCase()}${expr.function.slice(1)}`;
+  const document = getTextSearchColumn(expr, functionName, context);
+  const table = context.fromTable!;
+  if (expr.function === "rank") {
+    return `-bm25("${table}")`;
+  }
+
+  const column = `(SELECT cid FROM pragma_table_info('${table.replace(/'/g, "''")}') WHERE name = '${document.name.replace(/'/g, "''")}')`;
+  const markers = `${toSqlString(expr.start!)}, ${toSqlString(expr.end!)}`;
+  return expr.function === "highlight"
+    ? `highlight("${table}", ${column}, ${markers})`
+    : `snippet("${table}", ${column}, ${markers}, ${toSqlString(expr.ellipsis!)}, ${expr.tokens})`;
+}
+
+/**
+ * Get the document column of a text search, which must belong to the FTS5 table in FROM
+ * Joins and correlated subqueries alias that table, and FTS5 only matches it by its own name
+ */
+function getTextSearchColumn(
+  expr: TextSearchExpression | TextSearchFunctionExpression,
+  functionName: string,
+  context: SqlContext,
+): ColumnExpression {
+  const document = expr.arguments[0];
+  if (
+    document.type !== "column" ||
+    document.source ||
+    context.hasJoins ||
+    !context.fromTable ||
+    context.tableAliases.has(context.fromTable)
+  ) {
+    throw new Error(
+      `${functionName}() on SQLite expects a column of the FTS5 table queried in FROM, without joins or a table alias`,
+    );
+  }
+  return document;
+}
+
+/**
+ * Quote a string as an SQL literal
+ */
+function toSqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Generate SQL for aggregate expressions, with FILTER (WHERE ...) for predicate aggregates
  */
 function generateAggregateExpression(expr: AggregateExpression, context: SqlContext): string {
+  const call = generateAggregateCall(expr, context);
+  if (!expr.filter) {
+    return call;
+  }
+  return `${call} FILTER (WHERE ${generateBooleanExpression(expr.filter, context)})`;
+}
+
+/**
+ * Generate the aggregate function call itself
+ */
+function generateAggregateCall(expr: AggregateExpression, context: SqlContext): string {
+  switch (expr.function) {
+    case "stringAgg":
+      return `GROUP_CONCAT(${generateAggregateElement(expr, context)}, ${generateValueExpression(expr.separator!, context)}${generateAggregateOrderBy(expr, context)})`;
+    case "arrayAgg":
+      return `JSON_GROUP_ARRAY(${generateAggregateElement(expr, context)}${generateAggregateOrderBy(expr, context)})`;
+    case "jsonAgg":
+      return `JSON_GROUP_ARRAY(${generateAggregateElement(expr, context)}${generateAggregateOrderBy(expr, context)})`;
+  }
+
   const func = expr.function.toUpperCase();
 
   // COUNT(*) special case
@@ -736,6 +1088,70 @@ function generateAggregateExpression(expr: AggregateExpression, context: SqlCont
   return `${func}(*)`;
 }
 
+/**
+ * Generate the value collected by stringAgg / arrayAgg / jsonAgg
+ */
+function generateAggregateElement(expr: AggregateExpression, context: SqlContext): string {
+  if (expr.object) {
+    return generateJsonObject(expr.object, context);
+  }
+  if (!expr.expression) {
+    throw new Error(`${expr.function}() requires a selector`);
+  }
+  return generateValueExpression(expr.expression, context);
+}
+
+/**
+ * Generate a JSON object from an object literal, e.g. JSON_OBJECT('id', "id", 'name', "name")
+ */
+function generateJsonObject(expr: ObjectExpression, context: SqlContext): string {
+  const args = Object.entries(expr.properties).flatMap(([key, value]) => {
+    if (key === "__spread__") {
+      throw new Error("Spread is not supported in jsonAgg() objects; list the properties instead");
+    }
+    const sqlValue = isObjectExpression(value)
+      ? generateJsonObject(value, context)
+      : generateExpression(value, context);
+    return [`'${key.replace(/'/g, "''")}'`, sqlValue];
+  });
+  return `JSON_OBJECT(${args.join(", ")})`;
+}
+
+/**
+ * Generate the ORDER BY inside an aggregate call
+ */
+function generateAggregateOrderBy(expr: AggregateExpression, context: SqlContext): string {
+  if (!expr.orderBy || expr.orderBy.length === 0) {
+    return "";
+  }
+  const keys = expr.orderBy.map(
+    (key) =>
+      `${generateValueExpression(key.expression, context)} ${key.direction === "desc" ? "DESC" : "ASC"}`,
+  );
+  return ` ORDER BY ${keys.join(", ")}`;
+}
+
+/**
+ * SQL names for window functions
+ */
+const WINDOW_FUNCTION_NAMES: Record<WindowFunctionExpression["function"], string> = {
+  rowNumber: "ROW_NUMBER",
+  rank: "RANK",
+  denseRank: "DENSE_RANK",
+  percentRank: "PERCENT_RANK",
+  cumeDist: "CUME_DIST",
+  ntile: "NTILE",
+  lag: "LAG",
+  lead: "LEAD",
+  firstValue: "FIRST_VALUE",
+  lastValue: "LAST_VALUE",
+  sum: "SUM",
+  avg: "AVG",
+  count: "COUNT",
+  min: "MIN",
+  max: "MAX",
+};
+
 /**
  * Generate SQL for window function expressions
  */
@@ -743,19 +1159,11 @@ function generateWindowFunctionExpression(
   expr: WindowFunctionExpression,
   context: SqlContext,
 ): string {
-  // Map function name to SQL
-  let funcName: string;
-  switch (expr.function) {
-    case "rowNumber":
-      funcName = "ROW_NUMBER";
-      break;
-    case "rank":
-      funcName = "RANK";
-      break;
-    case "denseRank":
-      funcName = "DENSE_RANK";
-      break;
-  }
+  const funcName = WINDOW_FUNCTION_NAMES[expr.function];
+
+  // Function arguments (COUNT without a selector counts all rows)
+  const args = (expr.arguments ?? []).map((a) => generateValueExpression(a, context));
+  const argList = args.length === 0 && expr.function === "count" ? "*" : args.join(", ");
 
   // Build OVER clause parts
   const overParts: string[] = [];
@@ -774,10 +1182,36 @@ function generateWindowFunctionExpression(
   });
   overParts.push(`ORDER BY ${orders.join(", ")}`);
 
+  // Frame clause (optional)
+  if (expr.frame) {
+    const unit = expr.frame.unit === "rows" ? "ROWS" : "RANGE";
+    overParts.push(
+      `${unit} BETWEEN ${generateWindowFrameBoundary(expr.frame.start)} AND ${generateWindowFrameBoundary(expr.frame.end)}`,
+    );
+  }
+
   // Build complete OVER clause
   const overClause = overParts.join(" ");
 
-  return `${funcName}() OVER (${overClause})`;
+  return `${funcName}(${argList}) OVER (${overClause})`;
+}
+
+/**
+ * Generate SQL for a window frame boundary
+ */
+function generateWindowFrameBoundary(boundary: WindowFrameBoundary): string {
+  switch (boundary.type) {
+    case "unboundedPreceding":
+      return "UNBOUNDED PRECEDING";
+    case "preceding":
+      return `${boundary.offset} PRECEDING`;
+    case "currentRow":
+      return "CURRENT ROW";
+    case "following":
+      return `${boundary.offset} FOLLOWING`;
+    case "unboundedFollowing":
+      return "UNBOUNDED FOLLOWING";
+  }
 }
 
 /**
@@ -862,6 +1296,11 @@ function isBooleanExpression(expr: Expression): expr is BooleanExpression {
     "booleanConstant",
     "booleanMethod",
     "exists",
+    "jsonContains",
+    "arrayFunction",
+    "like",
+    "regexMatch",
+    "textSearch",
   ].includes((expr as Expression & { type: string }).type);
 }
 
@@ -873,10 +1312,16 @@ function isValueExpression(expr: Expression): expr is ValueExpression {
     "arithmetic",
     "concat",
     "stringMethod",
+    "mathFunction",
+    "dateFunction",
     "case",
     "aggregate",
     "windowFunction",
     "coalesce",
+    "scalarSubquery",
+    "jsonPath",
+    "arrayLength",
+    "textSearchFunction",
   ].includes((expr as Expression & { type: string }).type);
 }
 
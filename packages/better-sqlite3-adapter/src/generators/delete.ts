@@ -4,10 +4,11 @@
 
 import type { DeleteOperation } from "@tinqerjs/tinqer";
 import type { SqlContext } from "../types.js";
-import { generateBooleanExpression } from "../expression-generator.js";
+import { generateExpression, generateBooleanExpression } from "../expression-generator.js";
 
 /**
  * Generate DELETE SQL statement
+ * SQLite supports RETURNING clause since version 3.35.0 (March 2021)
  */
 export function generateDelete(operation: DeleteOperation, context: SqlContext): string {
   const tableName = operation.schema
@@ -27,5 +28,16 @@ export function generateDelete(operation: DeleteOperation, context: SqlContext):
     );
   }
 
+  // SQLite supports RETURNING clause since version 3.35.0
+  if (operation.returning !== undefined) {
+    // Handle AllColumnsExpression (identity function like .returning(u => u))
+    if (operation.returning.type === "allColumns") {
+      sql += ` RETURNING *`;
+    } else {
+      const returningExpr = generateExpression(operation.returning, context);
+      sql += ` RETURNING ${returningExpr}`;
+    }
+  }
+
   return sql;
 }
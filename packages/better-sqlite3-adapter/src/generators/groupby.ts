@@ -1,10 +1,10 @@
 /**
- * GROUP BY clause generator
+ * GROUP BY and HAVING clause generator
  */
 
-import type { GroupByOperation } from "@tinqerjs/tinqer";
+import type { GroupByOperation, HavingOperation } from "@tinqerjs/tinqer";
 import type { SqlContext } from "../types.js";
-import { generateExpression } from "../expression-generator.js";
+import { generateBooleanExpression, generateExpression } from "../expression-generator.js";
 
 /**
  * Generate GROUP BY clause
@@ -38,3 +38,11 @@ export function generateGroupBy(operation: GroupByOperation, context: SqlContext
     return `GROUP BY ${groupByExpr}`;
   }
 }
+
+/**
+ * Generate HAVING clause (combine multiple with AND)
+ */
+export function generateHaving(operations: HavingOperation[], context: SqlContext): string {
+  const predicates = operations.map((op) => generateBooleanExpression(op.predicate, context));
+  return `HAVING ${predicates.join(" AND ")}`;
+}
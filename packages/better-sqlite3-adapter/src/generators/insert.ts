@@ -4,12 +4,13 @@
 
 import type {
   InsertOperation,
+  OnConflictClause,
   Expression,
   ParameterExpression,
   ConstantExpression,
 } from "@tinqerjs/tinqer";
 import type { SqlContext } from "../types.js";
-import { generateExpression } from "../expression-generator.js";
+import { generateExpression, generateBooleanExpression } from "../expression-generator.js";
 
 function shouldSkipValue(valueExpr: Expression, context: SqlContext): boolean {
   if (valueExpr.type === "param") {
@@ -33,6 +34,141 @@ function shouldSkipValue(valueExpr: Expression, context: SqlContext): boolean {
   return false;
 }
 
+/**
+ * Resolve the array bound to a multi-row INSERT
+ */
+function resolveRows(
+  rowsExpr: ParameterExpression,
+  context: SqlContext,
+): Record<string, unknown>[] {
+  const paramName = rowsExpr.property || rowsExpr.param;
+  const rows = context.params ? context.params[paramName] : undefined;
+
+  if (!Array.isArray(rows)) {
+    throw new Error(`INSERT rows parameter '${paramName}' must be an array`);
+  }
+  if (rows.length === 0) {
+    throw new Error("INSERT must specify at least one row. The rows array was empty.");
+  }
+  for (const row of rows) {
+    if (row === null || typeof row !== "object" || Array.isArray(row)) {
+      throw new Error(`INSERT rows parameter '${paramName}' must contain only objects`);
+    }
+  }
+
+  return rows as Record<string, unknown>[];
+}
+
+/**
+ * Columns for a multi-row INSERT, in first-seen order
+ * SQLite has no DEFAULT keyword inside VALUES, so every row must set the same columns;
+ * executeInsert() runs rows with different columns as separate statements
+ * Row keys come from runtime data and end up in the SQL text, so each must be a plain identifier
+ */
+function collectRowColumns(rows: Record<string, unknown>[]): string[] {
+  const columnSets = rows.map((row) =>
+    Object.entries(row)
+      .filter(([, value]) => value !== undefined)
+      .map(([column]) => validateRowColumn(column)),
+  );
+
+  const columns = columnSets[0] ?? [];
+  const key = [...columns].sort().join(",");
+  if (columnSets.some((set) => [...set].sort().join(",") !== key)) {
+    throw new Error(
+      "Every row of a multi-row INSERT must set the same columns on SQLite, which cannot fall back to column defaults inside VALUES",
+    );
+  }
+  return columns;
+}
+
+/**
+ * Reject row keys that are not plain column identifiers
+ */
+function validateRowColumn(column: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(column)) {
+    throw new Error(`INSERT row key '${column}' is not a valid column name`);
+  }
+  return column;
+}
+
+/**
+ * Generate the VALUES tuples for a multi-row INSERT
+ * Each cell binds the expanded parameter <rows>_<index>_<column>
+ */
+function generateRowTuples(
+  rowsExpr: ParameterExpression,
+  rows: Record<string, unknown>[],
+  columns: string[],
+  context: SqlContext,
+): string[] {
+  const paramName = rowsExpr.property || rowsExpr.param;
+  return rows.map((_row, index) => {
+    const cells = columns.map((column) =>
+      context.formatParameter(`${paramName}_${index}_${column}`),
+    );
+    return `(${cells.join(", ")})`;
+  });
+}
+
+/**
+ * Generate the ON CONFLICT clause of an INSERT
+ * SQLite supports ON CONFLICT (upsert) since version 3.24.0
+ */
+function generateOnConflict(
+  clause: OnConflictClause,
+  operation: InsertOperation,
+  context: SqlContext,
+): string {
+  const target =
+    clause.target.length > 0 ? ` (${clause.target.map((column) => `"${column}"`).join(", ")})` : "";
+
+  if (clause.action === undefined) {
+    throw new Error("onConflict() must be followed by doNothing() or doUpdateSet()");
+  }
+
+  if (clause.action === "nothing") {
+    return ` ON CONFLICT${target} DO NOTHING`;
+  }
+
+  if (!target) {
+    throw new Error(
+      "ON CONFLICT DO UPDATE requires a conflict target, e.g. onConflict((u) => u.email)",
+    );
+  }
+
+  // Lambda parameter 0 is the existing row (the target table), 1 is the EXCLUDED pseudo-row.
+  // Columns are qualified because both rows are in scope inside DO UPDATE.
+  const conflictContext: SqlContext = {
+    ...context,
+    tableAliases: new Map([
+      ["existing", operation.table],
+      ["excluded", "excluded"],
+    ]),
+  };
+
+  const assignments: string[] = [];
+  for (const [column, valueExpr] of Object.entries(clause.assignments?.properties ?? {})) {
+    if (shouldSkipValue(valueExpr, context)) {
+      continue;
+    }
+    assignments.push(`"${column}" = ${generateExpression(valueExpr, conflictContext)}`);
+  }
+
+  if (assignments.length === 0) {
+    throw new Error(
+      "ON CONFLICT DO UPDATE must specify at least one column assignment. All provided values were undefined.",
+    );
+  }
+
+  let sql = ` ON CONFLICT${target} DO UPDATE SET ${assignments.join(", ")}`;
+  if (clause.predicate) {
+    sql += ` WHERE ${generateBooleanExpression(clause.predicate, conflictContext)}`;
+  }
+
+  return sql;
+}
+
 /**
  * Generate INSERT SQL statement
  * SQLite supports RETURNING clause since version 3.35.0 (March 2021)
@@ -45,8 +181,14 @@ export function generateInsert(operation: InsertOperation, context: SqlContext):
   // Extract columns and values from the values object expression
   const columns: string[] = [];
   const values: string[] = [];
+  let tuples: string[] = [];
 
-  if (operation.values.type === "object") {
+  if (operation.rows) {
+    const rows = resolveRows(operation.rows, context);
+    const rowColumns = collectRowColumns(rows);
+    columns.push(...rowColumns.map((column) => `"${column}"`));
+    tuples = generateRowTuples(operation.rows, rows, rowColumns, context);
+  } else if (operation.values.type === "object") {
     for (const [column, valueExpr] of Object.entries(operation.values.properties)) {
       if (shouldSkipValue(valueExpr, context)) {
         continue;
@@ -60,7 +202,15 @@ export function generateInsert(operation: InsertOperation, context: SqlContext):
     throw new Error("INSERT must specify at least one column. All provided values were undefined.");
   }
 
-  let sql = `INSERT INTO ${tableName} (${columns.join(", ")}) VALUES (${values.join(", ")})`;
+  if (!operation.rows) {
+    tuples = [`(${values.join(", ")})`];
+  }
+
+  let sql = `INSERT INTO ${tableName} (${columns.join(", ")}) VALUES ${tuples.join(", ")}`;
+
+  if (operation.onConflict) {
+    sql += generateOnConflict(operation.onConflict, operation, context);
+  }
 
   // SQLite supports RETURNING clause since version 3.35.0
   if (operation.returning !== undefined) {
@@ -2,7 +2,7 @@
  * ORDER BY clause generator
  */
 
-import type { OrderByOperation } from "@tinqerjs/tinqer";
+import type { OrderByOperation, ValueExpression } from "@tinqerjs/tinqer";
 import type { SqlContext } from "../types.js";
 import { generateValueExpression, generateExpression } from "../expression-generator.js";
 
@@ -10,13 +10,25 @@ import { generateValueExpression, generateExpression } from "../expression-gener
  * Generate ORDER BY clause
  */
 export function generateOrderBy(operation: OrderByOperation, context: SqlContext): string {
+  const orderByExpr = generateOrderByKey(operation.keySelector, context);
+  const direction = operation.descending ? "DESC" : "ASC";
+  return `ORDER BY ${orderByExpr} ${direction}`;
+}
+
+/**
+ * Generate the SQL expression for an ordering key
+ */
+export function generateOrderByKey(
+  keySelector: string | ValueExpression,
+  context: SqlContext,
+): string {
   let orderByExpr: string;
 
-  if (typeof operation.keySelector === "string") {
+  if (typeof keySelector === "string") {
     // Simple column name - check if it maps to a source column
 
     // Special handling for "key" when we have GROUP BY
-    if (operation.keySelector === "key" && context.groupByKey) {
+    if (keySelector === "key" && context.groupByKey) {
       // Translate g.key to the actual grouped column
       if (context.groupByKey.type === "column") {
         orderByExpr = `"${context.groupByKey.name}"`;
@@ -24,40 +36,39 @@ export function generateOrderBy(operation: OrderByOperation, context: SqlContext
         // For complex GROUP BY expressions, generate the expression
         orderByExpr = generateExpression(context.groupByKey, context);
       }
-    } else if (operation.keySelector.includes(".") && context.symbolTable) {
+    } else if (keySelector.includes(".") && context.symbolTable) {
       // Check if it's a path like "o.amount"
-      const parts = operation.keySelector.split(".");
+      const parts = keySelector.split(".");
       if (parts.length === 2) {
         const tableRef = context.symbolTable.entries.get(parts[0]!);
         if (tableRef && tableRef.columnName === "*") {
           orderByExpr = `"${tableRef.tableAlias}"."${parts[1]}"`;
         } else {
           // Try full path
-          const pathRef = context.symbolTable.entries.get(operation.keySelector);
+          const pathRef = context.symbolTable.entries.get(keySelector);
           if (pathRef) {
             orderByExpr = `"${pathRef.tableAlias}"."${pathRef.columnName}"`;
           } else {
-            orderByExpr = `"${operation.keySelector}"`;
+            orderByExpr = `"${keySelector}"`;
           }
         }
       } else {
-        orderByExpr = `"${operation.keySelector}"`;
+        orderByExpr = `"${keySelector}"`;
       }
     } else if (context.symbolTable) {
-      const sourceRef = context.symbolTable.entries.get(operation.keySelector);
+      const sourceRef = context.symbolTable.entries.get(keySelector);
       if (sourceRef) {
         orderByExpr = `"${sourceRef.tableAlias}"."${sourceRef.columnName}"`;
       } else {
-        orderByExpr = `"${operation.keySelector}"`;
+        orderByExpr = `"${keySelector}"`;
       }
     } else {
-      orderByExpr = `"${operation.keySelector}"`;
+      orderByExpr = `"${keySelector}"`;
     }
   } else {
     // Complex expression
-    orderByExpr = generateValueExpression(operation.keySelector, context);
+    orderByExpr = generateValueExpression(keySelector, context);
   }
 
-  const direction = operation.descending ? "DESC" : "ASC";
-  return `ORDER BY ${orderByExpr} ${direction}`;
+  return orderByExpr;
 }
@@ -0,0 +1,121 @@
+/**
+ * SEEK generator (keyset pagination)
+ */
+
+import type {
+  OrderByOperation,
+  QueryOperation,
+  SeekOperation,
+  SelectOperation,
+  ThenByOperation,
+  ValueExpression,
+} from "@tinqerjs/tinqer";
+import type { SqlContext } from "../types.js";
+import { generateExpression } from "../expression-generator.js";
+import { generateOrderByKey } from "./orderby.js";
+
+/**
+ * Generate the WHERE predicate that keeps the rows after (or before) the cursor
+ * Keys expand into an OR chain of per-key comparisons:
+ * ("a" > @c_0) OR ("a" = @c_0 AND "b" > @c_1)
+ * @param operations The operation chain, innermost (FROM) first
+ */
+export function generateSeek(
+  operation: SeekOperation,
+  operations: QueryOperation[],
+  context: SqlContext,
+): string {
+  const keys = getOrderingKeys(operations, context);
+  const cursorName = operation.cursor.property || operation.cursor.param;
+  const methodName = operation.direction === "after" ? "seekAfter" : "seekBefore";
+
+  const cursor = context.params?.[cursorName];
+  if (!Array.isArray(cursor)) {
+    throw new Error(`${methodName}() cursor "${cursorName}" must be an array of key values`);
+  }
+  if (cursor.length !== keys.length) {
+    throw new Error(
+      `${methodName}() cursor has ${cursor.length} value(s) but the query orders by ${keys.length} key(s)`,
+    );
+  }
+
+  const values = keys.map((_, index) => context.formatParameter(`${cursorName}_${index}`));
+  const operators = keys.map(({ descending }) =>
+    descending === (operation.direction === "after") ? "<" : ">",
+  );
+
+  if (keys.length === 1) {
+    return `${keys[0]!.sql} ${operators[0]} ${values[0]}`;
+  }
+
+  const branches = keys.map((key, index) => {
+    const equalities = keys
+      .slice(0, index)
+      .map((previous, previousIndex) => `${previous.sql} = ${values[previousIndex]}`);
+    return [...equalities, `${key.sql} ${operators[index]} ${values[index]}`].join(" AND ");
+  });
+  return `((${branches.join(") OR (")}))`;
+}
+
+/**
+ * Check whether a query reads a seekBefore page in reverse order
+ * With a limit, the rows nearest the cursor are fetched by flipping ORDER BY,
+ * so the executor must reverse them back into the query's order
+ */
+export function isBackwardSeekPage(operation: QueryOperation): boolean {
+  let seekBefore = false;
+  let hasTake = false;
+  let current: QueryOperation | undefined = operation;
+  while (current) {
+    switch (current.operationType) {
+      case "first":
+      case "firstOrDefault":
+      case "single":
+      case "singleOrDefault":
+      case "last":
+      case "lastOrDefault":
+        return false;
+      case "take":
+        hasTake = true;
+        break;
+      case "seek":
+        seekBefore = (current as SeekOperation).direction === "before";
+        break;
+    }
+    current = (current as { source?: QueryOperation }).source;
+  }
+  return seekBefore && hasTake;
+}
+
+/**
+ * Resolve the orderBy/thenBy keys to SQL, reading projected names through the SELECT
+ * that precedes the ordering (WHERE cannot reference output aliases)
+ */
+function getOrderingKeys(
+  operations: QueryOperation[],
+  context: SqlContext,
+): { sql: string; descending: boolean }[] {
+  const orderByIndex = operations.findIndex((op) => op.operationType === "orderBy");
+  const orderings = operations.filter(
+    (op, index) =>
+      index >= orderByIndex && (op.operationType === "orderBy" || op.operationType === "thenBy"),
+  ) as (OrderByOperation | ThenByOperation)[];
+
+  const selectIndex = operations.findIndex((op) => op.operationType === "select");
+  const selector =
+    selectIndex !== -1 && selectIndex < orderByIndex
+      ? (operations[selectIndex] as SelectOperation).selector
+      : null;
+  const projected = selector?.type === "object" ? selector.properties : null;
+
+  return orderings.map((ordering) => {
+    const key = ordering.keySelector;
+    const projection = typeof key === "string" ? projected?.[key] : undefined;
+    return {
+      sql: projection
+        ? generateExpression(projection as ValueExpression, context)
+        : generateOrderByKey(key, context),
+      descending: ordering.descending,
+    };
+  });
+}
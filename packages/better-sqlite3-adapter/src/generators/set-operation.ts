@@ -0,0 +1,78 @@
+/**
+ * Set operation generator (UNION, UNION ALL, INTERSECT, EXCEPT)
+ */
+
+import type { QueryOperation, SetOperation } from "@tinqerjs/tinqer";
+import type { SqlContext } from "../types.js";
+import { generateSql } from "../sql-generator.js";
+
+const SET_OPERATION_KEYWORDS: Record<SetOperation["operationType"], string> = {
+  union: "UNION",
+  concat: "UNION ALL",
+  intersect: "INTERSECT",
+  except: "EXCEPT",
+};
+
+/**
+ * Check whether an operation is a set operation
+ */
+export function isSetOperation(operation: QueryOperation): operation is SetOperation {
+  return operation.operationType in SET_OPERATION_KEYWORDS;
+}
+
+/**
+ * Check whether a query has ORDER BY or LIMIT/OFFSET of its own
+ */
+function hasOrderingOrLimit(operation: QueryOperation): boolean {
+  let current: QueryOperation | undefined = operation;
+  while (current && !isSetOperation(current)) {
+    switch (current.operationType) {
+      case "orderBy":
+      case "thenBy":
+      case "take":
+      case "skip":
+      case "first":
+      case "firstOrDefault":
+      case "single":
+      case "singleOrDefault":
+      case "last":
+      case "lastOrDefault":
+        return true;
+    }
+    current = (current as QueryOperation & { source?: QueryOperation }).source;
+  }
+  return false;
+}
+
+/**
+ * Generate one side of a set operation
+ * Operands with their own ORDER BY/LIMIT, and nested set operations that would
+ * otherwise change meaning through operator precedence, become derived tables
+ */
+function generateOperand(
+  operand: QueryOperation,
+  parentType: SetOperation["operationType"],
+  isLeft: boolean,
+  context: SqlContext,
+): string {
+  const sql = generateSql(operand, context.params);
+
+  const needsWrapping = isSetOperation(operand)
+    ? !isLeft || operand.operationType !== parentType
+    : hasOrderingOrLimit(operand);
+
+  if (needsWrapping) {
+    return `SELECT * FROM (${sql}) AS "t${context.aliasCounter++}"`;
+  }
+  return sql;
+}
+
+/**
+ * Generate a compound SELECT for a set operation
+ */
+export function generateSetOperation(operation: SetOperation, context: SqlContext): string {
+  const keyword = SET_OPERATION_KEYWORDS[operation.operationType];
+  const left = generateOperand(operation.source, operation.operationType, true, context);
+  const right = generateOperand(operation.second, operation.operationType, false, context);
+  return `${left} ${keyword} ${right}`;
+}
@@ -0,0 +1,41 @@
+/**
+ * WITH clause generator (common table expressions)
+ */
+
+import type { CommonTableExpression, FromOperation, QueryOperation } from "@tinqerjs/tinqer";
+import type { SqlContext } from "../types.js";
+import { generateSql } from "../sql-generator.js";
+import { isSetOperation } from "./set-operation.js";
+
+/**
+ * Get the CTEs declared for a query chain, if any
+ */
+export function getCommonTableExpressions(
+  operation: QueryOperation,
+): CommonTableExpression[] | undefined {
+  let current: QueryOperation | undefined = operation;
+  while (current && !isSetOperation(current)) {
+    if (current.operationType === "from") {
+      return (current as FromOperation).ctes;
+    }
+    current = (current as QueryOperation & { source?: QueryOperation }).source;
+  }
+  return undefined;
+}
+
+/**
+ * Generate WITH [RECURSIVE] clause
+ */
+export function generateWith(ctes: CommonTableExpression[], context: SqlContext): string {
+  const recursive = ctes.some((cte) => cte.recursiveStep) ? "RECURSIVE " : "";
+
+  const definitions = ctes.map((cte) => {
+    const query = generateSql(cte.query, context.params);
+    const body = cte.recursiveStep
+      ? `${query} UNION ALL ${generateSql(cte.recursiveStep, context.params)}`
+      : query;
+    return `"${cte.name}" AS (${body})`;
+  });
+
+  return `WITH ${recursive}${definitions.join(", ")}`;
+}
@@ -10,12 +10,14 @@ import {
   type QueryBuilder,
   type DatabaseSchema,
   type Insertable,
+  type InsertableWithConflict,
   type InsertableWithReturning,
   type UpdatableWithSet,
   type UpdatableComplete,
   type UpdatableWithReturning,
   type Deletable,
   type DeletableComplete,
+  type DeletableWithReturning,
   type ParseQueryOptions,
   defineSelect,
   defineInsert,
@@ -23,8 +25,10 @@ import {
   defineDelete,
   isTerminalHandle,
   type QueryOperation,
+  type SelectOperation,
   type InsertOperation,
   type UpdateOperation,
+  type DeleteOperation,
   SelectPlanHandle,
   SelectTerminalHandle,
   InsertPlanHandleInitial,
@@ -35,9 +39,22 @@ import {
   UpdatePlanHandleWithReturning,
   DeletePlanHandleInitial,
   DeletePlanHandleComplete,
+  DeletePlanHandleWithReturning,
 } from "@tinqerjs/tinqer";
-import { generateSql } from "./sql-generator.js";
-import type { ExecuteOptions } from "./types.js";
+import {
+  generateSql,
+  generateCountSql,
+  supportsWindowTotal,
+  TOTAL_COUNT_COLUMN,
+} from "./sql-generator.js";
+import { isBackwardSeekPage } from "./generators/seek.js";
+import type {
+  ExecuteOptions,
+  InsertOptions,
+  PageOptions,
+  PageResult,
+  TransactionOptions,
+} from "./types.js";
 
 /**
  * Helper function to expand array parameters into indexed parameters
@@ -50,6 +67,12 @@ function expandArrayParams(params: Record<string, unknown>): Record<string, unkn
     if (Array.isArray(value)) {
       value.forEach((item, index) => {
         expanded[`${key}_${index}`] = item;
+        // Rows of a multi-row INSERT expand one level further, e.g. rows_0_name
+        if (isPlainObject(item)) {
+          for (const [property, propertyValue] of Object.entries(item)) {
+            expanded[`${key}_${index}_${property}`] = propertyValue;
+          }
+        }
       });
     }
   }
@@ -57,6 +80,68 @@ function expandArrayParams(params: Record<string, unknown>): Record<string, unkn
   return expanded;
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * SQLite 3.32+ (bundled with better-sqlite3) accepts up to 32766 bind parameters per statement
+ * SQLite resolves named parameters with a linear scan, so a lower executeInsert()
+ * maxBindParameters prepares very large batches faster
+ */
+const MAX_BIND_PARAMETERS = 32766;
+
+/**
+ * Split the params of a multi-row INSERT so that each statement stays under the bind-parameter limit
+ * Consecutive rows that set different columns go to separate statements, so omitted columns keep
+ * their defaults. Returns one params object per statement; an empty rows array yields no statements
+ */
+function chunkInsertRows(
+  operation: InsertOperation,
+  params: Record<string, unknown>,
+  maxBindParameters: number,
+): Record<string, unknown>[] {
+  if (!operation.rows) {
+    return [params];
+  }
+
+  const rowsParam = operation.rows.property || operation.rows.param;
+  const rows = params[rowsParam];
+  if (!Array.isArray(rows) || !rows.every(isPlainObject)) {
+    // Let the generator report the invalid rows parameter
+    return [params];
+  }
+
+  // Runs of consecutive rows that set the same columns
+  const runs: { columnCount: number; rows: Record<string, unknown>[] }[] = [];
+  let runKey: string | undefined;
+  for (const row of rows) {
+    const columns = Object.keys(row)
+      .filter((column) => row[column] !== undefined)
+      .sort();
+    const key = columns.join(",");
+    if (key !== runKey || runs.length === 0) {
+      runs.push({ columnCount: columns.length, rows: [] });
+      runKey = key;
+    }
+    runs[runs.length - 1]!.rows.push(row);
+  }
+
+  // Every other param may also be bound by the statement (e.g. RETURNING constants)
+  const budget = maxBindParameters - (Object.keys(params).length - 1);
+
+  const chunks: Record<string, unknown>[] = [];
+  for (const run of runs) {
+    const rowsPerStatement = Math.max(1, Math.floor(budget / Math.max(run.columnCount, 1)));
+    for (let start = 0; start < run.rows.length; start += rowsPerStatement) {
+      chunks.push({ ...params, [rowsParam]: run.rows.slice(start, start + rowsPerStatement) });
+    }
+  }
+  return chunks;
+}
+
 function materializePlan<TParams>(
   plan: {
     finalize(params: TParams): {
@@ -179,6 +264,14 @@ export function toSql<TParams>(
   params: TParams,
 ): { sql: string; params: Record<string, unknown> };
 
+/**
+ * Convert a DELETE plan with RETURNING to SQL string with parameters
+ */
+export function toSql<TResult, TParams>(
+  plan: DeletePlanHandleWithReturning<TResult, TParams>,
+  params: TParams,
+): { sql: string; params: Record<string, unknown> };
+
 /**
  * Convert a SELECT plan (either regular or terminal) to SQL string with parameters
  */
@@ -202,7 +295,8 @@ export function toSql<TParams>(
     | UpdatePlanHandleComplete<unknown, TParams>
     | UpdatePlanHandleWithReturning<unknown, TParams>
     | DeletePlanHandleInitial<unknown, TParams>
-    | DeletePlanHandleComplete<unknown, TParams>,
+    | DeletePlanHandleComplete<unknown, TParams>
+    | DeletePlanHandleWithReturning<unknown, TParams>,
   params: TParams,
 ): { sql: string; params: Record<string, unknown> } {
   const { operation, params: mergedParams } = plan.finalize(params);
@@ -246,6 +340,27 @@ interface BetterSqlite3Database {
   };
 }
 
+/**
+ * Database interface for connections that accept user-defined SQL functions
+ */
+interface BetterSqlite3FunctionDatabase {
+  function(
+    name: string,
+    options: { deterministic?: boolean; varargs?: boolean },
+    implementation: (...args: unknown[]) => unknown,
+  ): unknown;
+}
+
+/**
+ * Database interface for streaming, whose statements can be iterated row by row
+ */
+interface BetterSqlite3StreamDatabase {
+  prepare(sql: string): {
+    all(params?: Record<string, unknown>): unknown[];
+    iterate(params?: Record<string, unknown>): IterableIterator<unknown>;
+  };
+}
+
 /**
  * Execute a query with params and helpers
  */
@@ -347,10 +462,14 @@ export function executeSelect<
   }
 
   const boundParams = normalizeSqliteParams(expandedParams);
+  ensureRegexp(db);
   const stmt = db.prepare(sql);
+  const jsonColumns = getJsonColumns(operation);
 
   if (!isTerminalHandle(plan)) {
-    return stmt.all(boundParams) as ReturnType;
+    const rows = decodeJsonColumns(stmt.all(boundParams), jsonColumns);
+    // seekBefore pages are fetched in reverse; restore the query's order
+    return (isBackwardSeekPage(operation) ? rows.reverse() : rows) as ReturnType;
   }
 
   const operationType = operation.operationType;
@@ -362,7 +481,7 @@ export function executeSelect<
     case "singleOrDefault":
     case "last":
     case "lastOrDefault": {
-      const rows = stmt.all(boundParams);
+      const rows = decodeJsonColumns(stmt.all(boundParams), jsonColumns);
       if (rows.length === 0) {
         if (operationType.includes("OrDefault")) {
           return null as ReturnType;
@@ -400,7 +519,7 @@ export function executeSelect<
     }
 
     default:
-      return stmt.all(boundParams) as ReturnType;
+      return decodeJsonColumns(stmt.all(boundParams), jsonColumns) as ReturnType;
   }
 }
 
@@ -434,6 +553,156 @@ export function executeSelectSimple<
   return executeSelect(dbClient, schema, builder, {}, options);
 }
 
+/**
+ * Execute one page of a query together with the total row count of the query
+ * The total comes from COUNT(*) OVER() on the page query; distinct and grouped queries,
+ * and pages past the last row, read it from a separate count query
+ * The page adds its own skip() and take(), so the builder must not limit its rows.
+ * A seekBefore page is returned in the query's order, like executeSelect().
+ * @param pageOptions 1-based page number and page size
+ * @returns The page's rows, the total and whether another page follows
+ */
+export function executeSelectPage<TSchema, TParams, TRecord>(
+  db: BetterSqlite3Database,
+  schema: DatabaseSchema<TSchema>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+    helpers: QueryHelpers,
+  ) => Queryable<TRecord> | OrderedQueryable<TRecord>,
+  params: TParams,
+  pageOptions: PageOptions,
+  options?: ExecuteOptions & ParseQueryOptions,
+): PageResult<TRecord> {
+  const { page, pageSize } = pageOptions;
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error(`executeSelectPage() page must be a positive integer, got ${page}`);
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new Error(`executeSelectPage() pageSize must be a positive integer, got ${pageSize}`);
+  }
+
+  const plan = defineSelect(schema, builder, options);
+  if (isTerminalHandle(plan)) {
+    throw new Error("executeSelectPage() requires a query that returns rows");
+  }
+  const basePlan = plan as unknown as SelectPlanHandle<TRecord, TParams>;
+  if (hasRowLimit(basePlan.finalize(params).operation)) {
+    throw new Error(
+      "executeSelectPage() pages the query itself; remove take() and skip() from the builder",
+    );
+  }
+
+  const { operation, params: mergedParams } = basePlan
+    .skip((page - 1) * pageSize)
+    .take(pageSize)
+    .finalize(params);
+  const windowTotal = supportsWindowTotal(operation);
+  const sql = generateSql(operation, mergedParams, { totalCount: windowTotal });
+  const expandedParams = expandArrayParams(mergedParams);
+  if (options?.onSql) {
+    options.onSql({ sql, params: expandedParams });
+  }
+
+  ensureRegexp(db);
+  const rows = db.prepare(sql).all(normalizeSqliteParams(expandedParams)) as Record<
+    string,
+    unknown
+  >[];
+  let total: number;
+  if (windowTotal && rows.length > 0) {
+    total = Number(rows[0]![TOTAL_COUNT_COLUMN]);
+    for (const row of rows) {
+      delete row[TOTAL_COUNT_COLUMN];
+    }
+  } else if (windowTotal && page === 1) {
+    total = 0;
+  } else {
+    const { operation: countOperation, params: countParams } = basePlan.finalize(params);
+    const countSql = generateCountSql(countOperation, countParams);
+    const countExpandedParams = expandArrayParams(countParams);
+    if (options?.onSql) {
+      options.onSql({ sql: countSql, params: countExpandedParams });
+    }
+    const countRow = db.prepare(countSql).get(normalizeSqliteParams(countExpandedParams)) as {
+      count: number;
+    };
+    total = Number(countRow.count);
+  }
+
+  if (isBackwardSeekPage(operation)) {
+    rows.reverse();
+  }
+
+  return {
+    items: decodeJsonColumns(rows, getJsonColumns(operation)) as TRecord[],
+    total,
+    page,
+    pageSize,
+    hasNext: page * pageSize < total,
+  };
+}
+
+/**
+ * Check whether a query already limits its rows with take() or skip()
+ */
+function hasRowLimit(operation: QueryOperation): boolean {
+  let current: QueryOperation | undefined = operation;
+  while (current) {
+    if (current.operationType === "take" || current.operationType === "skip") {
+      return true;
+    }
+    current = (current as { source?: QueryOperation }).source;
+  }
+  return false;
+}
+
+/**
+ * Stream the rows of a query one at a time with better-sqlite3's iterate()
+ * The connection stays busy until the loop ends, so run other statements on another connection.
+ * Leaving the loop early releases the statement.
+ * @returns Async iterable over the query's rows
+ */
+export async function* executeSelectStream<TSchema, TParams, TRecord>(
+  db: BetterSqlite3StreamDatabase,
+  schema: DatabaseSchema<TSchema>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+    helpers: QueryHelpers,
+  ) => Queryable<TRecord> | OrderedQueryable<TRecord>,
+  params: TParams,
+  options?: ExecuteOptions & ParseQueryOptions,
+): AsyncIterable<TRecord> {
+  const plan = defineSelect(schema, builder, options);
+  if (isTerminalHandle(plan)) {
+    throw new Error("executeSelectStream() requires a query that returns rows");
+  }
+
+  const { operation, sql, expandedParams } = materializePlan(plan, params);
+  if (options?.onSql) {
+    options.onSql({ sql, params: expandedParams });
+  }
+
+  ensureRegexp(db);
+  const stmt = db.prepare(sql);
+  const boundParams = normalizeSqliteParams(expandedParams);
+  const jsonColumns = getJsonColumns(operation);
+
+  // seekBefore pages are fetched in reverse; the limit keeps the buffered page small
+  if (isBackwardSeekPage(operation)) {
+    for (const row of decodeJsonColumns(stmt.all(boundParams), jsonColumns).reverse()) {
+      yield row as TRecord;
+    }
+    return;
+  }
+
+  // Returning from the loop early calls the iterator's return(), which resets the statement
+  for (const row of stmt.iterate(boundParams)) {
+    yield decodeJsonColumns([row], jsonColumns)[0] as TRecord;
+  }
+}
+
 // ==================== INSERT Execution ====================
 
 /**
@@ -442,13 +711,16 @@ export function executeSelectSimple<
 export function executeInsert<TSchema, TParams, TTable>(
   db: BetterSqlite3Database,
   schema: DatabaseSchema<TSchema>,
-  builder: (queryBuilder: QueryBuilder<TSchema>, params: TParams) => Insertable<TTable>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+  ) => Insertable<TTable> | InsertableWithConflict<TTable>,
   params: TParams,
-  options?: ExecuteOptions & ParseQueryOptions,
+  options?: InsertOptions & ParseQueryOptions,
 ): number;
 
 /**
- * Execute INSERT with params and RETURNING (not supported by SQLite)
+ * Execute INSERT with params and RETURNING
  */
 export function executeInsert<TSchema, TParams, TTable, TReturning>(
   db: BetterSqlite3Database,
@@ -458,8 +730,8 @@ export function executeInsert<TSchema, TParams, TTable, TReturning>(
     params: TParams,
   ) => InsertableWithReturning<TTable, TReturning>,
   params: TParams,
-  options?: ExecuteOptions & ParseQueryOptions,
-): never;
+  options?: InsertOptions & ParseQueryOptions,
+): TReturning[];
 
 /**
  * Execute INSERT without params, return row count
@@ -467,17 +739,19 @@ export function executeInsert<TSchema, TParams, TTable, TReturning>(
 export function executeInsert<TSchema, TTable>(
   db: BetterSqlite3Database,
   schema: DatabaseSchema<TSchema>,
-  builder: (queryBuilder: QueryBuilder<TSchema>) => Insertable<TTable>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+  ) => Insertable<TTable> | InsertableWithConflict<TTable>,
 ): number;
 
 /**
- * Execute INSERT without params, with RETURNING (not supported by SQLite)
+ * Execute INSERT without params, with RETURNING
  */
 export function executeInsert<TSchema, TTable, TReturning>(
   db: BetterSqlite3Database,
   schema: DatabaseSchema<TSchema>,
   builder: (queryBuilder: QueryBuilder<TSchema>) => InsertableWithReturning<TTable, TReturning>,
-): never;
+): TReturning[];
 
 // Implementation
 export function executeInsert<
@@ -492,11 +766,20 @@ export function executeInsert<
     queryBuilder: QueryBuilder<TSchema>,
     params: TParams,
     helpers?: QueryHelpers,
-  ) => Insertable<TTable> | InsertableWithReturning<TTable, TReturning>,
+  ) =>
+    | Insertable<TTable>
+    | InsertableWithConflict<TTable>
+    | InsertableWithReturning<TTable, TReturning>,
   params?: TParams,
-  options?: ExecuteOptions & ParseQueryOptions,
-): number {
+  options?: InsertOptions & ParseQueryOptions,
+): number | TReturning[] {
   const normalizedParams = params || ({} as TParams);
+  const maxBindParameters = options?.maxBindParameters ?? MAX_BIND_PARAMETERS;
+  if (!Number.isInteger(maxBindParameters) || maxBindParameters < 1) {
+    throw new Error(
+      `executeInsert() maxBindParameters must be a positive integer, got ${maxBindParameters}`,
+    );
+  }
 
   let plan;
   try {
@@ -511,20 +794,42 @@ export function executeInsert<
     throw error;
   }
 
-  const { operation, sql, expandedParams } = materializePlan(plan, normalizedParams);
+  const { operation, params: mergedParams } = plan.finalize(normalizedParams);
+  const insertOperation = operation as InsertOperation;
 
-  if (options?.onSql) {
-    options.onSql({ sql, params: expandedParams });
-  }
+  // Multi-row inserts run as one statement per chunk of rows
+  let returnedRows: TReturning[] = [];
+  let rowCount = 0;
 
-  const insertOperation = operation as InsertOperation;
-  if (insertOperation.returning) {
-    throw new Error("SQLite adapter does not support INSERT ... RETURNING clauses");
+  const runChunks = (chunks: Record<string, unknown>[]): void => {
+    for (const statementParams of chunks) {
+      const sql = generateSql(operation, statementParams);
+      const expandedParams = expandArrayParams(statementParams);
+
+      if (options?.onSql) {
+        options.onSql({ sql, params: expandedParams });
+      }
+
+      const stmt = db.prepare(sql);
+      const boundParams = normalizeSqliteParams(expandedParams);
+
+      if (insertOperation.returning) {
+        returnedRows = returnedRows.concat(stmt.all(boundParams) as TReturning[]);
+      } else {
+        rowCount += stmt.run(boundParams).changes;
+      }
+    }
+  };
+
+  const chunks = chunkInsertRows(insertOperation, mergedParams, maxBindParameters);
+  if (chunks.length > 1) {
+    // All chunks succeed or none do; a savepoint also works inside an open transaction
+    runInSavepoint(db, "tinqer_insert", () => runChunks(chunks));
+  } else {
+    runChunks(chunks);
   }
 
-  const stmt = db.prepare(sql);
-  const result = stmt.run(normalizeSqliteParams(expandedParams));
-  return result.changes;
+  return insertOperation.returning ? returnedRows : rowCount;
 }
 
 // ==================== UPDATE Execution ====================
@@ -544,7 +849,7 @@ export function executeUpdate<TSchema, TParams, TTable>(
 ): number;
 
 /**
- * Execute UPDATE with params and RETURNING (not supported by SQLite)
+ * Execute UPDATE with params and RETURNING
  */
 export function executeUpdate<TSchema, TParams, TTable, TReturning>(
   db: BetterSqlite3Database,
@@ -555,7 +860,7 @@ export function executeUpdate<TSchema, TParams, TTable, TReturning>(
   ) => UpdatableWithReturning<TTable, TReturning>,
   params: TParams,
   options?: ExecuteOptions & ParseQueryOptions,
-): never;
+): TReturning[];
 
 /**
  * Execute UPDATE without params, return row count
@@ -569,13 +874,13 @@ export function executeUpdate<TSchema, TTable>(
 ): number;
 
 /**
- * Execute UPDATE without params, with RETURNING (not supported by SQLite)
+ * Execute UPDATE without params, with RETURNING
  */
 export function executeUpdate<TSchema, TTable, TReturning>(
   db: BetterSqlite3Database,
   schema: DatabaseSchema<TSchema>,
   builder: (queryBuilder: QueryBuilder<TSchema>) => UpdatableWithReturning<TTable, TReturning>,
-): never;
+): TReturning[];
 
 // Implementation
 export function executeUpdate<
@@ -596,7 +901,7 @@ export function executeUpdate<
     | UpdatableWithReturning<TTable, TReturning>,
   params?: TParams,
   options?: ExecuteOptions & ParseQueryOptions,
-): number {
+): number | TReturning[] {
   const normalizedParams = params || ({} as TParams);
 
   let plan;
@@ -618,13 +923,16 @@ export function executeUpdate<
     options.onSql({ sql, params: expandedParams });
   }
 
+  ensureRegexp(db);
+  const stmt = db.prepare(sql);
+  const boundParams = normalizeSqliteParams(expandedParams);
+
   const updateOperation = operation as UpdateOperation;
   if (updateOperation.returning) {
-    throw new Error("SQLite adapter does not support UPDATE ... RETURNING clauses");
+    return stmt.all(boundParams) as TReturning[];
   }
 
-  const stmt = db.prepare(sql);
-  const result = stmt.run(normalizeSqliteParams(expandedParams));
+  const result = stmt.run(boundParams);
   return result.changes;
 }
 
@@ -644,6 +952,20 @@ export function executeDelete<TSchema, TParams, TResult>(
   options?: ExecuteOptions & ParseQueryOptions,
 ): number;
 
+/**
+ * Execute DELETE with params and RETURNING
+ */
+export function executeDelete<TSchema, TParams, TTable, TReturning>(
+  db: BetterSqlite3Database,
+  schema: DatabaseSchema<TSchema>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+  ) => DeletableWithReturning<TTable, TReturning>,
+  params: TParams,
+  options?: ExecuteOptions & ParseQueryOptions,
+): TReturning[];
+
 /**
  * Execute DELETE without params, return row count
  */
@@ -653,18 +975,32 @@ export function executeDelete<TSchema, TResult>(
   builder: (queryBuilder: QueryBuilder<TSchema>) => Deletable<TResult> | DeletableComplete<TResult>,
 ): number;
 
+/**
+ * Execute DELETE without params, with RETURNING
+ */
+export function executeDelete<TSchema, TTable, TReturning>(
+  db: BetterSqlite3Database,
+  schema: DatabaseSchema<TSchema>,
+  builder: (queryBuilder: QueryBuilder<TSchema>) => DeletableWithReturning<TTable, TReturning>,
+): TReturning[];
+
 // Implementation
-export function executeDelete<TSchema, TTable = unknown, TParams = Record<string, never>>(
+export function executeDelete<
+  TSchema,
+  TTable = unknown,
+  TReturning = unknown,
+  TParams = Record<string, never>,
+>(
   db: BetterSqlite3Database,
   schema: DatabaseSchema<TSchema>,
   builder: (
     queryBuilder: QueryBuilder<TSchema>,
     params: TParams,
     helpers?: QueryHelpers,
-  ) => Deletable<TTable> | DeletableComplete<TTable>,
+  ) => Deletable<TTable> | DeletableComplete<TTable> | DeletableWithReturning<TTable, TReturning>,
   params?: TParams,
   options?: ExecuteOptions & ParseQueryOptions,
-): number {
+): number | TReturning[] {
   const normalizedParams = params || ({} as TParams);
 
   const plan = defineDelete(schema, builder, options);
@@ -678,13 +1014,293 @@ export function executeDelete<TSchema, TTable = unknown, TParams = Record<string
     options.onSql({ sql, params: expandedParams });
   }
 
+  ensureRegexp(db);
   const stmt = db.prepare(sql);
-  const result = stmt.run(normalizeSqliteParams(expandedParams));
+  const boundParams = normalizeSqliteParams(expandedParams);
+
+  if ((planResult.operation as DeleteOperation).returning) {
+    return stmt.all(boundParams) as TReturning[];
+  }
+
+  const result = stmt.run(boundParams);
   return result.changes;
 }
 
+// ==================== Regular Expressions ====================
+
+// Connections that already have the regexp() user function
+const regexpConnections = new WeakSet<object>();
+
+// Compiled patterns, keyed by flags and source; cleared when it grows past the limit
+const compiledPatterns = new Map<string, RegExp>();
+const MAX_COMPILED_PATTERNS = 256;
+
+/**
+ * regexp(pattern, value[, flags]) with JavaScript regular expression semantics
+ * Returns 1 or 0, or NULL when the value or pattern is NULL
+ */
+function regexp(...args: unknown[]): number | null {
+  const [pattern, value, flags] = args;
+  if (pattern === null || pattern === undefined || value === null || value === undefined) {
+    return null;
+  }
+
+  const key = `${flags ?? ""}/${String(pattern)}`;
+  let compiled = compiledPatterns.get(key);
+  if (!compiled) {
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) {
+      compiledPatterns.clear();
+    }
+    compiled = new RegExp(String(pattern), flags ? String(flags) : "");
+    compiledPatterns.set(key, compiled);
+  }
+  return compiled.test(String(value)) ? 1 : 0;
+}
+
+/**
+ * Register the regexp() user function that SQLite's REGEXP operator calls
+ * The execute* functions register it on every connection they receive; call this to run
+ * SQL from toSql() that matches regular expressions on your own statements
+ */
+export function registerRegexp(db: BetterSqlite3FunctionDatabase): void {
+  if (regexpConnections.has(db)) {
+    return;
+  }
+  db.function("regexp", { deterministic: true, varargs: true }, regexp);
+  regexpConnections.add(db);
+}
+
+/**
+ * Register regexp() when the connection accepts user functions
+ */
+function ensureRegexp(db: object): void {
+  // Transaction handles share their connection's registration
+  const connection = transactionHandles.get(db)?.connection ?? db;
+  if (typeof (connection as Partial<BetterSqlite3FunctionDatabase>).function === "function") {
+    registerRegexp(connection as BetterSqlite3FunctionDatabase);
+  }
+}
+
+// ==================== Transactions ====================
+
+const BEGIN_MODES: Record<NonNullable<TransactionOptions["mode"]>, string> = {
+  deferred: "BEGIN DEFERRED",
+  immediate: "BEGIN IMMEDIATE",
+  exclusive: "BEGIN EXCLUSIVE",
+};
+
+/**
+ * State of the handle a withTransaction callback receives
+ * depth is the nesting level of its transaction and names the savepoint a nested call opens
+ */
+interface TransactionHandleState {
+  connection: object;
+  depth: number;
+  open: boolean;
+}
+
+const transactionHandles = new WeakMap<object, TransactionHandleState>();
+
+// Nesting depth currently open on each connection
+const openTransactionDepth = new WeakMap<object, number>();
+
+/**
+ * Create the handle a withTransaction callback receives: the connection with methods bound to it
+ */
+function createTransactionHandle<TDatabase extends BetterSqlite3Database>(
+  connection: TDatabase,
+  state: TransactionHandleState,
+): TDatabase {
+  const handle = new Proxy(connection, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+  transactionHandles.set(handle, state);
+  return handle;
+}
+
+/**
+ * Run synchronous work inside a savepoint, which starts a transaction when none is open
+ */
+function runInSavepoint(db: BetterSqlite3Database, name: string, work: () => void): void {
+  db.prepare(`SAVEPOINT ${name}`).run();
+  try {
+    work();
+  } catch (error) {
+    try {
+      db.prepare(`ROLLBACK TO ${name}`).run();
+      db.prepare(`RELEASE ${name}`).run();
+    } catch {
+      // Keep the original error; SQLite may already have rolled back
+    }
+    throw error;
+  }
+  db.prepare(`RELEASE ${name}`).run();
+}
+
+function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as PromiseLike<T>).then === "function"
+  );
+}
+
+/**
+ * Run a callback inside a transaction, returning a promise when the callback is async
+ * The callback receives a transaction handle, which every execute* function accepts.
+ * The transaction commits when the callback returns (or resolves) and rolls back when it throws.
+ * Passing the handle to a nested call opens a savepoint. A connection runs one transaction at a
+ * time, so starting another one on it while a transaction is open throws.
+ */
+export function withTransaction<TDatabase extends BetterSqlite3Database, T>(
+  db: TDatabase,
+  callback: (tx: TDatabase) => Promise<T>,
+  options?: TransactionOptions,
+): Promise<T>;
+export function withTransaction<TDatabase extends BetterSqlite3Database, T>(
+  db: TDatabase,
+  callback: (tx: TDatabase) => T,
+  options?: TransactionOptions,
+): T;
+export function withTransaction<TDatabase extends BetterSqlite3Database, T>(
+  db: TDatabase,
+  callback: (tx: TDatabase) => T | Promise<T>,
+  options?: TransactionOptions,
+): T | Promise<T> {
+  const handle = transactionHandles.get(db);
+  const connection = (handle?.connection ?? db) as TDatabase;
+  const depth = handle?.depth ?? 0;
+
+  if (handle && !handle.open) {
+    throw new Error("This transaction has already finished");
+  }
+  if ((openTransactionDepth.get(connection) ?? 0) !== depth) {
+    throw new Error(
+      "Another transaction is already open on this connection; nest by passing the transaction handle the callback receives, or wait for it to finish",
+    );
+  }
+  if (depth > 0 && options?.mode !== undefined) {
+    throw new Error("Transaction options can only be set on the outermost transaction");
+  }
+
+  let beginSql: string;
+  let commitSql: string[];
+  let rollbackSql: string[];
+  if (depth === 0) {
+    const begin = BEGIN_MODES[options?.mode ?? "deferred"];
+    if (!begin) {
+      throw new Error(`Unknown transaction mode: ${options?.mode}`);
+    }
+    beginSql = begin;
+    commitSql = ["COMMIT"];
+    rollbackSql = ["ROLLBACK"];
+  } else {
+    const savepoint = `tinqer_savepoint_${depth}`;
+    beginSql = `SAVEPOINT ${savepoint}`;
+    commitSql = [`RELEASE ${savepoint}`];
+    rollbackSql = [`ROLLBACK TO ${savepoint}`, `RELEASE ${savepoint}`];
+  }
+
+  const state: TransactionHandleState = { connection, depth: depth + 1, open: true };
+
+  const end = (statements: string[]): void => {
+    state.open = false;
+    if (depth === 0) {
+      openTransactionDepth.delete(connection);
+    } else {
+      openTransactionDepth.set(connection, depth);
+    }
+    for (const sql of statements) {
+      connection.prepare(sql).run();
+    }
+  };
+
+  const rollback = (error: unknown): never => {
+    try {
+      end(rollbackSql);
+    } catch {
+      // Keep the original error; SQLite may already have rolled back
+    }
+    throw error;
+  };
+
+  const commit = (value: T): T => {
+    try {
+      end(commitSql);
+    } catch (error) {
+      return rollback(error);
+    }
+    return value;
+  };
+
+  connection.prepare(beginSql).run();
+  openTransactionDepth.set(connection, depth + 1);
+
+  let result: T | Promise<T>;
+  try {
+    result = callback(createTransactionHandle(connection, state));
+  } catch (error) {
+    return rollback(error);
+  }
+
+  if (isPromiseLike(result)) {
+    return Promise.resolve(result).then(commit, rollback);
+  }
+  return commit(result);
+}
+
 // Export types
-export type { SqlResult, ExecuteOptions } from "./types.js";
+export type {
+  SqlResult,
+  ExecuteOptions,
+  InsertOptions,
+  PageOptions,
+  PageResult,
+  TransactionOptions,
+} from "./types.js";
+
+/**
+ * Projected columns that SQLite returns as JSON text (arrayAgg and jsonAgg results)
+ */
+function getJsonColumns(operation: QueryOperation): string[] {
+  let current: QueryOperation | undefined = operation;
+  while (current && current.operationType !== "select") {
+    current = (current as { source?: QueryOperation }).source;
+  }
+
+  const selector = current ? (current as SelectOperation).selector : undefined;
+  if (!selector || selector.type !== "object") {
+    return [];
+  }
+  return Object.entries(selector.properties)
+    .filter(
+      ([, value]) =>
+        value.type === "aggregate" &&
+        (value.function === "arrayAgg" || value.function === "jsonAgg"),
+    )
+    .map(([name]) => name);
+}
+
+/**
+ * Parse JSON text columns into arrays and objects, in place
+ */
+function decodeJsonColumns(rows: unknown[], columns: string[]): unknown[] {
+  if (columns.length === 0) {
+    return rows;
+  }
+  for (const row of rows as Record<string, unknown>[]) {
+    for (const column of columns) {
+      const value = row[column];
+      if (typeof value === "string") {
+        row[column] = JSON.parse(value);
+      }
+    }
+  }
+  return rows;
+}
 
 function extractFirstColumn(row: Record<string, unknown> | undefined): unknown {
   if (!row) {
@@ -44,6 +44,7 @@ export interface SqlContext {
   currentShape?: unknown; // The current shape of the query result (after JOINs)
   currentAlias?: string; // Current table alias for resolving column references
   hasJoins?: boolean; // Indicates if the query has JOIN operations
+  fromTable?: string; // Table named in FROM, for FTS5 functions that take the table itself
   params?: Record<string, unknown>; // Runtime parameter values for array expansion
 }
 
@@ -58,6 +59,41 @@ export interface ExecuteOptions {
   onSql?: (result: SqlResult<Record<string, unknown>, unknown>) => void;
 }
 
+/**
+ * Options for executeInsert
+ */
+export interface InsertOptions extends ExecuteOptions {
+  // Bind parameters per statement when a batch of rows is split (default 32766, SQLite's limit)
+  maxBindParameters?: number;
+}
+
+/**
+ * Page requested from executeSelectPage
+ */
+export interface PageOptions {
+  page: number; // 1-based page number
+  pageSize: number;
+}
+
+/**
+ * One page of rows together with the total row count of the query
+ */
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasNext: boolean;
+}
+
+/**
+ * Options for withTransaction
+ * Only the outermost transaction accepts options; nested calls run in a savepoint
+ */
+export interface TransactionOptions {
+  mode?: "deferred" | "immediate" | "exclusive"; // BEGIN mode, defaults to "deferred"
+}
+
 /**
  * SQL fragment for building queries
  */
@@ -142,4 +142,107 @@ describe("ANY and ALL Operations", () => {
       expect(result.params).to.deep.equal({});
     });
   });
+
+  describe("Correlated subqueries in WHERE", () => {
+    it("should generate EXISTS for any() on a nested query", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .where((u) => q.from("orders").any((o) => o.userId === u.id && o.total > 100)),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE ("userId" = "users"."id" AND "total" > @__p1))',
+      );
+      expect(result.params).to.deep.equal({ __p1: 100 });
+    });
+
+    it("should generate NOT EXISTS for negated any()", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").where((u) => !q.from("orders").any((o) => o.userId === u.id)),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE NOT EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE "userId" = "users"."id")',
+      );
+    });
+
+    it("should generate NOT EXISTS with a negated predicate for all()", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .where((u) => q.from("orders").all((o) => o.userId !== u.id || o.status === "paid")),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE NOT EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE NOT (("userId" != "users"."id" OR "status" = @__p1)))',
+      );
+      expect(result.params).to.deep.equal({ __p1: "paid" });
+    });
+
+    it("should keep outer and inner rows apart when correlating a table with itself", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("employees")
+            .where((e) =>
+              q.from("employees").any((m) => m.id === e.managerId && m.salary < e.salary),
+            )
+            .select((e) => e.name),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT "name" FROM "employees" WHERE EXISTS (SELECT 1 FROM "employees" AS "s1" WHERE ("id" = "employees"."managerId" AND "salary" < "employees"."salary"))',
+      );
+    });
+
+    it("should qualify references to an enclosing subquery by its alias", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .where((u) =>
+              q
+                .from("orders")
+                .any(
+                  (o) =>
+                    o.userId === u.id &&
+                    q.from("products").any((p) => p.id === o.productId && p.price > u.salary),
+                ),
+            ),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE ("userId" = "users"."id" AND EXISTS (SELECT 1 FROM "products" AS "s2" WHERE ("id" = "s1"."productId" AND "price" > "users"."salary"))))',
+      );
+    });
+
+    it("should share parameters between the outer query and the subquery", () => {
+      const result = toSql(
+        defineSelect(schema, (q, p: { minAge: number }) =>
+          q.from("users").where(
+            (u) =>
+              u.age >= p.minAge &&
+              q
+                .from("orders")
+                .where((o) => o.status === "shipped")
+                .any((o) => o.userId === u.id),
+          ),
+        ),
+        { minAge: 21 },
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE ("age" >= @minAge AND EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE "status" = @__p1 AND "userId" = "users"."id"))',
+      );
+      expect(result.params).to.deep.equal({ minAge: 21, __p1: "shipped" });
+    });
+  });
 });
@@ -0,0 +1,65 @@
+/**
+ * Tests for array column operations, which SQLite rejects
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, createSchema } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+
+interface Schema {
+  users: {
+    id: number;
+    name: string;
+    tags: string[];
+  };
+}
+
+const schema = createSchema<Schema>({ arrayColumns: { users: ["tags"] } });
+
+describe("Array Columns - SQL Generation", () => {
+  it("should reject includes() on an array column", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) => q.from("users").where((u) => u.tags.includes("admin"))),
+        {},
+      ),
+    ).to.throw("Array column includes() is not supported by SQLite");
+  });
+
+  it("should reject overlaps() and length", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q, params: { tags: string[] }, h) =>
+          q.from("users").where((u) => h.functions.overlaps(u.tags, params.tags)),
+        ),
+        { tags: ["a"] },
+      ),
+    ).to.throw("Array column overlaps() is not supported by SQLite");
+
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) => q.from("users").select((u) => ({ count: u.tags.length }))),
+        {},
+      ),
+    ).to.throw("Array column length is not supported by SQLite");
+  });
+
+  it("should reject selectMany() over an array column", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) => q.from("users").selectMany((u) => u.tags)),
+        {},
+      ),
+    ).to.throw("selectMany() over an array column is not supported by SQLite");
+  });
+
+  it("should keep LIKE for includes() on text columns", () => {
+    const result = toSql(
+      defineSelect(schema, (q) => q.from("users").where((u) => u.name.includes("adm"))),
+      {},
+    );
+
+    expect(result.sql).to.equal(`SELECT * FROM "users" WHERE "name" LIKE '%' || @__p1 || '%'`);
+  });
+});
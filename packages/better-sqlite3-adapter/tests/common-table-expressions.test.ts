@@ -0,0 +1,87 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+import { schema } from "./test-schema.js";
+
+describe("Common Table Expressions SQL Generation", () => {
+  it("should generate WITH for with()", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .with(
+            "bigOrders",
+            q.from("orders").where((o) => o.total > 100),
+          )
+          .from("bigOrders")
+          .select((o) => o.userId),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'WITH "bigOrders" AS (SELECT * FROM "orders" WHERE "total" > @__p1) SELECT "userId" FROM "bigOrders"',
+    );
+    expect(result.params).to.deep.equal({ __p1: 100 });
+  });
+
+  it("should list several CTEs in declaration order", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { minAge: number }) =>
+        q
+          .with(
+            "adults",
+            q.from("users").where((u) => u.age >= params.minAge),
+          )
+          .with("activeAdults", (w) =>
+            w
+              .from("adults")
+              .where((u) => u.isActive)
+              .select((u) => ({ id: u.id, name: u.name })),
+          )
+          .from("activeAdults")
+          .orderBy((u) => u.name),
+      ),
+      { minAge: 18 },
+    );
+
+    expect(result.sql).to.equal(
+      'WITH "adults" AS (SELECT * FROM "users" WHERE "age" >= @minAge), "activeAdults" AS (SELECT "id" AS "id", "name" AS "name" FROM "adults" WHERE "isActive") SELECT * FROM "activeAdults" ORDER BY "name" ASC',
+    );
+    expect(result.params).to.deep.equal({ minAge: 18 });
+  });
+
+  it("should generate WITH RECURSIVE for withRecursive()", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { rootId: number }) =>
+        q
+          .withRecursive(
+            "reports",
+            q
+              .from("employees")
+              .where((e) => e.id === params.rootId)
+              .select((e) => ({ id: e.id, name: e.name, depth: 0 })),
+            (r) =>
+              r
+                .from("employees")
+                .join(
+                  r.from("reports"),
+                  (e) => e.managerId,
+                  (m) => m.id,
+                  (e, m) => ({ e, m }),
+                )
+                .select((x) => ({ id: x.e.id, name: x.e.name, depth: x.m.depth + 1 })),
+          )
+          .from("reports")
+          .where((r) => r.depth > 0)
+          .orderBy((r) => r.depth),
+      ),
+      { rootId: 1 },
+    );
+
+    expect(result.sql).to.equal(
+      'WITH RECURSIVE "reports" AS (SELECT "id" AS "id", "name" AS "name", @__p1 AS "depth" FROM "employees" WHERE "id" = @rootId UNION ALL SELECT "t0"."id" AS "id", "t0"."name" AS "name", ("t1"."depth" + @__p2) AS "depth" FROM "employees" AS "t0" INNER JOIN "reports" AS "t1" ON "t0"."managerId" = "t1"."id") SELECT * FROM "reports" WHERE "depth" > @__p3 ORDER BY "depth" ASC',
+    );
+    expect(result.params).to.deep.equal({ rootId: 1, __p1: 0, __p2: 1, __p3: 0 });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for SQLite full-text search SQL generation over FTS5 virtual tables
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, createSchema } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+
+interface Schema {
+  articles: {
+    title: string;
+    body: string;
+  };
+  authors: {
+    name: string;
+    title: string;
+  };
+}
+
+const schema = createSchema<Schema>();
+
+// The query parameter with each of its words quoted as an FTS5 string
+const quotedQuery = `'"' || replace(replace(replace(replace(replace(@q, '"', '""'), char(9), ' '), char(10), ' '), char(13), ' '), ' ', '" "') || '"'`;
+
+describe("Full-Text Search - SQL Generation", () => {
+  it("should generate MATCH and bm25() for textSearch() and textRank()", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { q: string }, h) =>
+        q
+          .from("articles")
+          .where((a) => h.functions.textSearch(a.body, params.q, { config: "english" }))
+          .orderByDescending((a) => h.functions.textRank(a.body, params.q))
+          .select((a) => ({ title: a.title })),
+      ),
+      { q: "fox" },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "title" AS "title" FROM "articles" WHERE "body" MATCH ${quotedQuery} ORDER BY -bm25("articles") DESC`,
+    );
+    expect(result.params).to.deep.equal({ q: "fox" });
+  });
+
+  it("should generate highlight() and snippet() for the document column", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { q: string }, h) =>
+        q
+          .from("articles")
+          .where((a) => h.functions.textSearch(a.body, params.q))
+          .select((a) => ({
+            highlighted: h.functions.textHighlight(a.title, params.q),
+            snippet: h.functions.textSnippet(a.body, params.q, { ellipsis: "…", tokens: 5 }),
+          })),
+      ),
+      { q: "fox" },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT highlight("articles", (SELECT cid FROM pragma_table_info('articles') WHERE name = 'title'), '<b>', '</b>') AS "highlighted", ` +
+        `snippet("articles", (SELECT cid FROM pragma_table_info('articles') WHERE name = 'body'), '<b>', '</b>', '…', 5) AS "snippet" ` +
+        `FROM "articles" WHERE "body" MATCH ${quotedQuery}`,
+    );
+  });
+
+  it("should reject text search across joins", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q, params: { q: string }, h) =>
+          q
+            .from("articles")
+            .join(
+              q.from("authors"),
+              (a) => a.title,
+              (au) => au.title,
+              (a, au) => ({ a, au }),
+            )
+            .where((r) => h.functions.textSearch(r.a.body, params.q))
+            .select((r) => ({ name: r.au.name })),
+        ),
+        { q: "fox" },
+      ),
+    ).to.throw("textSearch() on SQLite expects a column of the FTS5 table queried in FROM");
+  });
+
+  it("should reject text search on an aliased FTS5 table in a correlated subquery", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q, params: { q: string }, h) =>
+          q.from("authors").where((au) =>
+            q
+              .from("articles")
+              .where((a) => a.title === au.title && h.functions.textSearch(a.body, params.q))
+              .any(),
+          ),
+        ),
+        { q: "fox" },
+      ),
+    ).to.throw("textSearch() on SQLite expects a column of the FTS5 table queried in FROM");
+  });
+});
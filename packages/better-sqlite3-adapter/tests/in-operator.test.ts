@@ -304,4 +304,70 @@ describe("IN Operator", () => {
       });
     });
   });
+
+  describe("IN subqueries", () => {
+    it("should generate IN (subquery) for contains() on a nested query", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").where((u) =>
+            q
+              .from("orders")
+              .select((o) => o.userId)
+              .contains(u.id),
+          ),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE "id" IN (SELECT "userId" FROM "orders" AS "s1")',
+      );
+      expect(result.params).to.deep.equal({});
+    });
+
+    it("should generate NOT IN (subquery) for negated contains()", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").where(
+            (u) =>
+              u.age >= 18 &&
+              !q
+                .from("orders")
+                .where((o) => o.status === "cancelled")
+                .select((o) => o.userId)
+                .contains(u.id),
+          ),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE ("age" >= @__p1 AND "id" NOT IN (SELECT "userId" FROM "orders" AS "s1" WHERE "status" = @__p2))',
+      );
+      expect(result.params).to.deep.equal({ __p1: 18, __p2: "cancelled" });
+    });
+
+    it("should merge query params used inside the subquery", () => {
+      const result = toSql(
+        defineSelect(schema, (q, params: { minTotal: number }) =>
+          q
+            .from("users")
+            .where((u) =>
+              q
+                .from("orders")
+                .where((o) => o.total >= params.minTotal)
+                .select((o) => o.userId)
+                .contains(u.id),
+            )
+            .select((u) => u.name),
+        ),
+        { minTotal: 100 },
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "name" FROM "users" WHERE "id" IN (SELECT "userId" FROM "orders" AS "s1" WHERE "total" >= @minTotal)',
+      );
+      expect(result.params).to.deep.equal({ minTotal: 100 });
+    });
+  });
 });
@@ -0,0 +1,121 @@
+/**
+ * Tests for JSON column path access SQL generation
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, createSchema } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+
+interface Schema {
+  profiles: {
+    id: number;
+    name: string;
+    metadata: {
+      address: { city: string; zip: string };
+      tags: string[];
+      score: number;
+      verified: boolean;
+      "display-name": string;
+    };
+  };
+}
+
+const schema = createSchema<Schema>({ jsonColumns: { profiles: ["metadata"] } });
+
+describe("JSON Path Access - SQL Generation", () => {
+  it("should extract values with json_extract in WHERE", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .where((p) => p.metadata.address.city == "Paris" && p.metadata.tags[0] == "vip"),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "profiles" WHERE (json_extract("metadata", '$.address.city') = @__p1 AND json_extract("metadata", '$.tags[0]') = @__p2)`,
+    );
+    expect(result.params).to.deep.equal({ __p1: "Paris", __p2: "vip" });
+  });
+
+  it("should compare JSON values extracted with json_extract", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { minScore: number }) =>
+        q.from("profiles").where((p) => p.metadata.score >= params.minScore && p.metadata.verified),
+      ),
+      { minScore: 10 },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "profiles" WHERE (json_extract("metadata", '$.score') >= @minScore AND json_extract("metadata", '$.verified') = TRUE)`,
+    );
+  });
+
+  it("should project and order by JSON values", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .orderByDescending((p) => p.metadata.score)
+          .select((p) => ({
+            id: p.id,
+            address: p.metadata.address,
+            displayName: p.metadata["display-name"],
+          })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "id" AS "id", json_extract("metadata", '$.address') AS "address", json_extract("metadata", '$."display-name"') AS "displayName" FROM "profiles" ORDER BY json_extract("metadata", '$.score') DESC`,
+    );
+  });
+
+  it("should read JSON paths on the columns of joined tables", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .join(
+            q.from("profiles"),
+            (a) => a.id,
+            (b) => b.id,
+            (a, b) => ({ a, b }),
+          )
+          .where((row) => row.b.metadata.address.city == "Paris")
+          .select((row) => ({ name: row.a.name, score: row.b.metadata.score })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "t0"."name" AS "name", json_extract("t1"."metadata", '$.score') AS "score" FROM "profiles" AS "t0" INNER JOIN "profiles" AS "t1" ON "t0"."id" = "t1"."id" WHERE json_extract("t1"."metadata", '$.address.city') = @__p1`,
+    );
+  });
+
+  it("should apply string methods to extracted text", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("profiles").where((p) => p.metadata.address.zip.startsWith("75")),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "profiles" WHERE json_extract("metadata", '$.address.zip') LIKE @__p1 || '%'`,
+    );
+  });
+
+  it("should reject jsonContains", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q, _params, h) =>
+          q.from("profiles").where((p) => h.functions.jsonContains(p.metadata, { tags: ["vip"] })),
+        ),
+        {},
+      ),
+    ).to.throw("jsonContains() is not supported by SQLite");
+  });
+});
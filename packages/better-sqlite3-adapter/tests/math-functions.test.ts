@@ -0,0 +1,101 @@
+/**
+ * Tests for Math function translation to SQLite numeric functions
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+import { schema } from "./test-schema.js";
+
+describe("Math function translation", () => {
+  it("should translate round, abs, min and max", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("orders").select((o) => ({
+          rounded: Math.round(o.total * 1.2),
+          delta: Math.abs(o.total - 100),
+          smallest: Math.min(o.total, o.quantity),
+          largest: Math.max(o.total, o.quantity, 0),
+        })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT ROUND(("total" * @__p1)) AS "rounded", ABS(("total" - @__p2)) AS "delta", MIN("total", "quantity") AS "smallest", MAX("total", "quantity", @__p3) AS "largest" FROM "orders"',
+    );
+    expect(result.params).to.deep.equal({ __p1: 1.2, __p2: 100, __p3: 0 });
+  });
+
+  it("should translate round with decimal places", () => {
+    const result = toSql(
+      defineSelect(schema, (q, _params, h) =>
+        q.from("products").select((p) => ({ price: h.functions.round(p.price, 2) })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal('SELECT ROUND("price", @__p1) AS "price" FROM "products"');
+    expect(result.params).to.deep.equal({ __p1: 2 });
+  });
+
+  it("should translate floor and ceil", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("products").select((p) => ({ low: Math.floor(p.price), high: Math.ceil(p.price) })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT (CAST("price" AS INTEGER) - ("price" < CAST("price" AS INTEGER))) AS "low", (CAST("price" AS INTEGER) + ("price" > CAST("price" AS INTEGER))) AS "high" FROM "products"',
+    );
+  });
+
+  it("should translate Math calls in WHERE and ORDER BY", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { tolerance: number }) =>
+        q
+          .from("orders")
+          .where((o) => Math.abs(o.total - o.quantity) <= params.tolerance)
+          .orderBy((o) => Math.round(o.total)),
+      ),
+      { tolerance: 5 },
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM "orders" WHERE ABS(("total" - "quantity")) <= @tolerance ORDER BY ROUND("total") ASC',
+    );
+    expect(result.params).to.deep.equal({ tolerance: 5 });
+  });
+
+  it("should reject pow and sqrt at SQL generation time", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) =>
+          q.from("products").select((p) => ({ root: Math.sqrt(p.rating) })),
+        ),
+        {},
+      ),
+    ).to.throw("Math.sqrt() is not supported by SQLite");
+
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) => q.from("products").where((p) => Math.pow(p.price, 2) > 100)),
+        {},
+      ),
+    ).to.throw("Math.pow() is not supported by SQLite");
+  });
+
+  it("should reject unsupported Math functions", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) =>
+          q.from("orders").select((o) => ({ r: Math.random() * o.total })),
+        ),
+        {},
+      ),
+    ).to.throw("Failed to parse query");
+  });
+});
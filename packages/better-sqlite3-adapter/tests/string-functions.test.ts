@@ -0,0 +1,148 @@
+/**
+ * Tests for JavaScript string method translation to SQLite string functions
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+import { schema } from "./test-schema.js";
+
+// replaceAll() is part of the ES2021 library; the repo compiles against ES2020, so declare the
+// method that queries written against a newer library call
+declare global {
+  interface String {
+    replaceAll(searchValue: string, replaceValue: string): string;
+  }
+}
+
+describe("String function translation", () => {
+  it("should translate length, trim, trimStart and trimEnd", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .where((u) => u.name.trim().length > 3)
+          .select((u) => ({
+            start: u.name.trimStart(),
+            end: u.name.trimEnd(),
+            len: u.name.length,
+          })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT LTRIM("name") AS "start", RTRIM("name") AS "end", LENGTH("name") AS "len" FROM "users" WHERE LENGTH(TRIM("name")) > @__p1',
+    );
+    expect(result.params).to.deep.equal({ __p1: 3 });
+  });
+
+  it("should convert 0-based substring and slice indices to 1-based positions", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("users").select((u) => ({ first: u.name.substring(0, 2), rest: u.name.slice(2) })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT SUBSTR("name", MIN(MAX(@__p1, 0), MAX(@__p2, 0)) + 1, ABS(MAX(@__p2, 0) - MAX(@__p1, 0))) AS "first", SUBSTR("name", MAX(@__p3, 0) + 1) AS "rest" FROM "users"',
+    );
+    expect(result.params).to.deep.equal({ __p1: 0, __p2: 2, __p3: 2 });
+  });
+
+  it("should return a 0-based indexOf result", () => {
+    const result = toSql(
+      defineSelect(schema, (q) => q.from("users").where((u) => u.email!.indexOf("@") > 0)),
+      {},
+    );
+
+    expect(result.sql).to.equal('SELECT * FROM "users" WHERE (INSTR("email", @__p1) - 1) > @__p2');
+    expect(result.params).to.deep.equal({ __p1: "@", __p2: 0 });
+  });
+
+  it("should keep numeric string results out of string concatenation", () => {
+    const result = toSql(
+      defineSelect(schema, (q) => q.from("users").select((u) => ({ size: u.name.length + 1 }))),
+      {},
+    );
+
+    expect(result.sql).to.equal('SELECT (LENGTH("name") + @__p1) AS "size" FROM "users"');
+  });
+
+  it("should replace only the first occurrence with replace()", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("users").select((u) => ({ name: u.name.replace("a", "b") })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT CASE WHEN INSTR("name", @__p1) = 0 THEN "name" ELSE SUBSTR("name", 1, INSTR("name", @__p1) - 1) || @__p2 || SUBSTR("name", INSTR("name", @__p1) + LENGTH(@__p1)) END AS "name" FROM "users"',
+    );
+    expect(result.params).to.deep.equal({ __p1: "a", __p2: "b" });
+  });
+
+  it("should replace every occurrence with replaceAll()", () => {
+    const result = toSql(
+      defineSelect(schema, (q, p: { from: string; to: string }) =>
+        q.from("users").where((u) => u.phone.replaceAll(p.from, p.to) == "5551234"),
+      ),
+      { from: "-", to: "" },
+    );
+
+    expect(result.sql).to.equal('SELECT * FROM "users" WHERE REPLACE("phone", @from, @to) = @__p1');
+  });
+
+  it("should pad without truncating longer values", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ left: u.city.padStart(10, "*"), right: u.city.padEnd(10) })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT SUBSTR(REPLACE(HEX(ZEROBLOB(@__p1)), \'00\', @__p2), 1, @__p1 - LENGTH("city")) || "city" AS "left", "city" || SUBSTR(REPLACE(HEX(ZEROBLOB(@__p3)), \'00\', \' \'), 1, @__p3 - LENGTH("city")) AS "right" FROM "users"',
+    );
+    expect(result.params).to.deep.equal({ __p1: 10, __p2: "*", __p3: 10 });
+  });
+
+  it("should translate split(separator)[index]", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("users").select((u) => ({ domain: u.email!.split("@")[1] })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      "SELECT CASE WHEN @__p2 >= 0 THEN json_extract('[' || REPLACE(json_quote(REPLACE(\"email\", @__p1, char(31))), '\\u001f', '\",\"') || ']', '$[' || CAST(@__p2 AS INTEGER) || ']') END AS \"domain\" FROM \"users\"",
+    );
+    expect(result.params).to.deep.equal({ __p1: "@", __p2: 1 });
+  });
+
+  it("should reject negative slice indices", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) => q.from("users").where((u) => u.name.slice(-3) == "son")),
+        {},
+      ),
+    ).to.throw("Failed to parse query");
+  });
+
+  it("should reject regular expression arguments", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").where((u) => u.name.replace(/a/g, "b") == "bob"),
+        ),
+        {},
+      ),
+    ).to.throw("Failed to parse query");
+  });
+});
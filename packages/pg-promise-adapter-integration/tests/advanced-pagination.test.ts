@@ -5,10 +5,15 @@
 
 import { describe, it, before } from "mocha";
 import { expect } from "chai";
-import { executeSelect, executeSelectSimple } from "@tinqerjs/pg-promise-adapter";
+import { createSeekCursor, readSeekCursor, type QueryBuilder } from "@tinqerjs/tinqer";
+import {
+  executeSelect,
+  executeSelectPage,
+  executeSelectSimple,
+} from "@tinqerjs/pg-promise-adapter";
 import { setupTestDatabase } from "./test-setup.js";
 import { db as dbClient } from "./shared-db.js";
-import { schema } from "./database-schema.js";
+import { schema, type TestDatabaseSchema } from "./database-schema.js";
 
 describe("PostgreSQL Integration - Advanced Pagination", () => {
   before(async () => {
@@ -374,6 +379,224 @@ describe("PostgreSQL Integration - Advanced Pagination", () => {
     });
   });
 
+  describe("Seek pagination", () => {
+    it("should read the page after a cursor with seekAfter", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = await executeSelect(
+        dbClient,
+        schema,
+        (q, params) =>
+          q
+            .from("users")
+            .orderBy((u) => u.department_id)
+            .thenBy((u) => u.id)
+            .seekAfter(params.after)
+            .take(3),
+        { after: [1, 7] },
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'SELECT * FROM "users" WHERE ("department_id", "id") > ($(after_0), $(after_1)) ORDER BY "department_id" ASC, "id" ASC LIMIT $(__p1)',
+      );
+      expect(results.map((u) => u.id)).to.deep.equal([9, 10, 2]);
+    });
+
+    it("should read the page before a cursor in query order with seekBefore", async () => {
+      const results = await executeSelect(
+        dbClient,
+        schema,
+        (q, params) =>
+          q
+            .from("users")
+            .orderBy((u) => u.department_id)
+            .thenBy((u) => u.id)
+            .seekBefore(params.before)
+            .take(3),
+        { before: [2, 8] },
+      );
+
+      expect(results.map((u) => u.id)).to.deep.equal([9, 10, 2]);
+    });
+
+    it("should handle mixed directions and round-trip a cursor token", async () => {
+      const firstPage = await executeSelect(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .orderByDescending((u) => u.salary)
+            .thenBy((u) => u.id)
+            .take(4),
+        {},
+      );
+      expect(firstPage.map((u) => u.id)).to.deep.equal([1, 7, 10, 2]);
+
+      const token = createSeekCursor(firstPage[firstPage.length - 1]!, (u) => [u.salary, u.id]);
+      const secondPage = await executeSelect(
+        dbClient,
+        schema,
+        (q, params) =>
+          q
+            .from("users")
+            .orderByDescending((u) => u.salary)
+            .thenBy((u) => u.id)
+            .seekAfter(params.cursor)
+            .take(3),
+        { cursor: readSeekCursor(token) },
+      );
+
+      expect(secondPage.map((u) => u.id)).to.deep.equal([5, 4, 9]);
+    });
+
+    it("should reject a cursor that does not match the ordering keys", async () => {
+      try {
+        await executeSelect(
+          dbClient,
+          schema,
+          (q, params) =>
+            q
+              .from("users")
+              .orderBy((u) => u.id)
+              .seekAfter(params.after),
+          { after: [1, 2] },
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: unknown) {
+        expect((error as Error).message).to.include("cursor has 2 value(s)");
+      }
+    });
+  });
+
+  describe("Page results with totals", () => {
+    it("should return a page with the total row count", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const result = await executeSelectPage(
+        dbClient,
+        schema,
+        (q) => q.from("users").orderBy((u) => u.id),
+        {},
+        { page: 2, pageSize: 4 },
+        {
+          onSql: (sqlResult) => {
+            capturedSql = sqlResult;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'SELECT *, COUNT(*) OVER() AS "__total" FROM "users" ORDER BY "id" ASC LIMIT $(__p2) OFFSET $(__p1)',
+      );
+      expect(result.items.map((u) => u.id)).to.deep.equal([5, 6, 7, 8]);
+      expect(result.items[0]).to.not.have.property("__total");
+      expect(result.total).to.equal(10);
+      expect(result.hasNext).to.equal(true);
+    });
+
+    it("should report no next page on the last page", async () => {
+      const result = await executeSelectPage(
+        dbClient,
+        schema,
+        (q) => q.from("users").orderBy((u) => u.id),
+        {},
+        { page: 3, pageSize: 4 },
+      );
+
+      expect(result.items.map((u) => u.id)).to.deep.equal([9, 10]);
+      expect(result.total).to.equal(10);
+      expect(result.hasNext).to.equal(false);
+    });
+
+    it("should count grouped results with a separate query", async () => {
+      const statements: string[] = [];
+
+      const result = await executeSelectPage(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .groupBy((u) => u.department_id)
+            .select((g) => ({ departmentId: g.key, headcount: g.count() }))
+            .orderBy((r) => r.departmentId),
+        {},
+        { page: 1, pageSize: 3 },
+        {
+          onSql: (sqlResult) => {
+            statements.push(sqlResult.sql);
+          },
+        },
+      );
+
+      expect(statements).to.have.length(2);
+      expect(statements[1]).to.match(/^SELECT COUNT\(\*\) AS "count" FROM \(/);
+      expect(result.items.map((r) => r.departmentId)).to.deep.equal([1, 2, 3]);
+      expect(result.total).to.equal(4);
+      expect(result.hasNext).to.equal(true);
+    });
+
+    it("should still report the total past the last page", async () => {
+      const result = await executeSelectPage(
+        dbClient,
+        schema,
+        (q) => q.from("users").orderBy((u) => u.id),
+        {},
+        { page: 5, pageSize: 4 },
+      );
+
+      expect(result.items).to.deep.equal([]);
+      expect(result.total).to.equal(10);
+      expect(result.hasNext).to.equal(false);
+    });
+
+    it("should return a seekBefore page in query order", async () => {
+      const result = await executeSelectPage(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .orderBy((u) => u.id)
+            .seekBefore([8]),
+        {},
+        { page: 1, pageSize: 3 },
+      );
+
+      expect(result.items.map((u) => u.id)).to.deep.equal([5, 6, 7]);
+      expect(result.total).to.equal(7);
+      expect(result.hasNext).to.equal(true);
+    });
+
+    it("should reject a query that already has take or skip", async () => {
+      for (const builder of [
+        (q: QueryBuilder<TestDatabaseSchema>) =>
+          q
+            .from("users")
+            .orderBy((u) => u.id)
+            .take(4),
+        (q: QueryBuilder<TestDatabaseSchema>) =>
+          q
+            .from("users")
+            .orderBy((u) => u.id)
+            .skip(2),
+      ]) {
+        try {
+          await executeSelectPage(dbClient, schema, builder, {}, { page: 1, pageSize: 3 });
+          expect.fail("Should have thrown error");
+        } catch (error: unknown) {
+          expect((error as Error).message).to.match(/remove take\(\) and skip\(\)/);
+        }
+      }
+    });
+  });
+
   describe("Pagination with aggregates", () => {
     it("should paginate grouped results", async () => {
       const page = 1;
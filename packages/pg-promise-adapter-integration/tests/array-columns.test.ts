@@ -0,0 +1,111 @@
+/**
+ * Integration tests for array columns with PostgreSQL
+ */
+
+import { describe, it, before, after } from "mocha";
+import { expect } from "chai";
+import { createSchema } from "@tinqerjs/tinqer";
+import { executeSelect } from "@tinqerjs/pg-promise-adapter";
+import { db as dbClient } from "./shared-db.js";
+
+interface TestSchema {
+  members: {
+    id: number;
+    name: string;
+    tags: string[];
+  };
+}
+
+const schema = createSchema<TestSchema>({ arrayColumns: { members: ["tags"] } });
+
+const members = [
+  { id: 1, name: "Ada", tags: ["admin", "staff"] },
+  { id: 2, name: "Blaise", tags: ["staff"] },
+  { id: 3, name: "Carl", tags: [] as string[] },
+];
+
+describe("PostgreSQL Integration - Array Columns", () => {
+  before(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS members CASCADE");
+    await dbClient.none(
+      "CREATE TABLE members (id INTEGER PRIMARY KEY, name VARCHAR(100), tags TEXT[])",
+    );
+    for (const member of members) {
+      await dbClient.none("INSERT INTO members (id, name, tags) VALUES ($1, $2, $3::text[])", [
+        member.id,
+        member.name,
+        member.tags,
+      ]);
+    }
+  });
+
+  after(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS members CASCADE");
+  });
+
+  it("should filter with includes() and count elements with length", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("members")
+          .where((m) => m.tags.includes("staff"))
+          .orderBy((m) => m.id)
+          .select((m) => ({ name: m.name, tagCount: m.tags.length })),
+      {},
+    );
+
+    expect(results).to.deep.equal([
+      { name: "Ada", tagCount: 2 },
+      { name: "Blaise", tagCount: 1 },
+    ]);
+  });
+
+  it("should filter with overlaps() and containsAll()", async () => {
+    const overlapping = await executeSelect(
+      dbClient,
+      schema,
+      (q, params, h) =>
+        q
+          .from("members")
+          .where((m) => h.functions.overlaps(m.tags, params.wanted))
+          .orderBy((m) => m.id)
+          .select((m) => ({ id: m.id })),
+      { wanted: ["admin", "guest"] },
+    );
+    expect(overlapping).to.deep.equal([{ id: 1 }]);
+
+    const containing = await executeSelect(
+      dbClient,
+      schema,
+      (q, _params, h) =>
+        q
+          .from("members")
+          .where((m) => h.functions.containsAll(m.tags, ["staff"]))
+          .orderBy((m) => m.id)
+          .select((m) => ({ id: m.id })),
+      {},
+    );
+    expect(containing).to.deep.equal([{ id: 1 }, { id: 2 }]);
+  });
+
+  it("should unnest tags with selectMany()", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q.from("members").selectMany(
+          (m) => m.tags,
+          (m, tag) => ({ name: m.name, tag }),
+        ),
+      {},
+    );
+
+    expect(results).to.have.deep.members([
+      { name: "Ada", tag: "admin" },
+      { name: "Ada", tag: "staff" },
+      { name: "Blaise", tag: "staff" },
+    ]);
+  });
+});
@@ -864,4 +864,126 @@ describe("PostgreSQL Integration - Complex WHERE", () => {
       });
     });
   });
+
+  describe("Correlated subqueries", () => {
+    it("should filter with EXISTS over a related table", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = await executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .where((u) => q.from("orders").any((o) => o.user_id === u.id && o.status === "pending"))
+            .orderBy((u) => u.id)
+            .select((u) => ({ name: u.name })),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'SELECT "name" AS "name" FROM "users" WHERE EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE ("user_id" = "users"."id" AND "status" = $(__p1))) ORDER BY "id" ASC',
+      );
+      expect(capturedSql!.params).to.deep.equal({ __p1: "pending" });
+      expect(results.map((r) => r.name)).to.deep.equal(["John Doe", "Eva Green"]);
+    });
+
+    it("should filter with NOT EXISTS for a negated any()", async () => {
+      const results = await executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("users")
+          .where((u) => !q.from("orders").any((o) => o.user_id === u.id))
+          .select((u) => ({ name: u.name })),
+      );
+
+      expect(results.map((r) => r.name)).to.deep.equal(["Grace Hopper"]);
+    });
+
+    it("should filter with NOT EXISTS for all()", async () => {
+      const results = await executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("users")
+          .where((u) => q.from("orders").all((o) => o.user_id !== u.id || o.status === "completed"))
+          .orderBy((u) => u.id)
+          .select((u) => ({ name: u.name })),
+      );
+
+      // Users without orders satisfy all() vacuously
+      expect(results.map((r) => r.name)).to.deep.equal([
+        "Jane Smith",
+        "Henry Ford",
+        "Alice Brown",
+        "Frank Castle",
+        "Grace Hopper",
+      ]);
+    });
+
+    it("should correlate a table with itself", async () => {
+      const results = await executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("users")
+          .where((u) =>
+            q
+              .from("users")
+              .any((m) => m.id === u.manager_id && m.department_id !== u.department_id),
+          )
+          .select((u) => ({ name: u.name })),
+      );
+
+      expect(results.map((r) => r.name)).to.deep.equal(["Alice Brown"]);
+    });
+
+    it("should filter with IN (subquery) for contains() on a nested query", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = await executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .where((u) =>
+              q
+                .from("orders")
+                .where((o) => o.status === "pending")
+                .select((o) => o.user_id)
+                .contains(u.id),
+            )
+            .orderBy((u) => u.id)
+            .select((u) => ({ name: u.name })),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'SELECT "name" AS "name" FROM "users" WHERE "id" IN (SELECT "user_id" FROM "orders" AS "s1" WHERE "status" = $(__p1)) ORDER BY "id" ASC',
+      );
+      expect(capturedSql!.params).to.deep.equal({ __p1: "pending" });
+      expect(results.map((r) => r.name)).to.deep.equal(["John Doe", "Eva Green"]);
+    });
+
+    it("should filter with NOT IN (subquery) for a negated contains()", async () => {
+      const results = await executeSelectSimple(dbClient, schema, (q) =>
+        q
+          .from("users")
+          .where(
+            (u) =>
+              !q
+                .from("orders")
+                .select((o) => o.user_id)
+                .contains(u.id),
+          )
+          .select((u) => ({ name: u.name })),
+      );
+
+      expect(results.map((r) => r.name)).to.deep.equal(["Grace Hopper"]);
+    });
+  });
 });
@@ -931,4 +931,101 @@ describe("PostgreSQL Integration - Date/Time Operations", () => {
       expect(new Date(result.latest).toISOString()).to.include("2024-02-01");
     });
   });
+
+  describe("Date functions", () => {
+    it("should filter and project with Date getters", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = await executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("events")
+            .where((e) => e.start_date.getMonth() == 0 && e.start_date.getHours() >= 10)
+            .orderBy((e) => e.start_date.getDate())
+            .select((e) => ({
+              title: e.title,
+              day: e.start_date.getDate(),
+              hour: e.start_date.getHours(),
+            })),
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql).to.exist;
+      expect(capturedSql!.sql).to.equal(
+        `SELECT "title" AS "title", CAST(EXTRACT(DAY FROM "start_date") AS INTEGER) AS "day", CAST(EXTRACT(HOUR FROM "start_date") AS INTEGER) AS "hour" FROM "events" WHERE ((CAST(EXTRACT(MONTH FROM "start_date") AS INTEGER) - 1) = $(__p1) AND CAST(EXTRACT(HOUR FROM "start_date") AS INTEGER) >= $(__p2)) ORDER BY CAST(EXTRACT(DAY FROM "start_date") AS INTEGER) ASC`,
+      );
+      expect(capturedSql!.params).to.deep.equal({ __p1: 0, __p2: 10 });
+
+      expect(results).to.deep.equal([
+        { title: "Client Call", day: 18, hour: 15 },
+        { title: "Training Session", day: 20, hour: 10 },
+        { title: "Sprint Review", day: 26, hour: 14 },
+      ]);
+    });
+
+    it("should compare against dateAdd results", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const cutoff = new Date("2024-01-25 00:00:00");
+      const results = await executeSelect(
+        dbClient,
+        schema,
+        (q, params, h) =>
+          q
+            .from("events")
+            .where((e) => h.functions.dateAdd(e.start_date, "day", 7) < params.cutoff)
+            .select((e) => ({ title: e.title })),
+        { cutoff },
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql).to.exist;
+      expect(capturedSql!.sql).to.equal(
+        `SELECT "title" AS "title" FROM "events" WHERE ("start_date" + $(__p1) * INTERVAL '1 day') < $(cutoff)`,
+      );
+
+      // Only events starting before 2024-01-18 00:00
+      expect(results.map((r) => r.title)).to.deep.equal(["Team Meeting"]);
+    });
+
+    it("should group by dateTrunc month", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+      const results = await executeSelect(
+        dbClient,
+        schema,
+        (q, _params, h) =>
+          q
+            .from("events")
+            .groupBy((e) => h.functions.dateTrunc("month", e.start_date))
+            .select((g) => ({ month: g.key, count: g.count() }))
+            .orderBy((r) => r.month),
+        {},
+        {
+          onSql: (result) => {
+            capturedSql = result;
+          },
+        },
+      );
+
+      expect(capturedSql).to.exist;
+      expect(capturedSql!.sql).to.equal(
+        `SELECT DATE_TRUNC('month', "start_date") AS "month", COUNT(*) AS "count" FROM "events" GROUP BY DATE_TRUNC('month', "start_date") ORDER BY "month" ASC`,
+      );
+
+      expect(results.map((r) => r.count)).to.deep.equal([4, 1]);
+      expect(new Date(results[0]!.month).getMonth()).to.equal(0);
+      expect(new Date(results[1]!.month).getMonth()).to.equal(1);
+    });
+  });
 });
@@ -391,6 +391,23 @@ describe("DELETE Operations - PostgreSQL Integration", () => {
       ]);
       assert.equal(loginLogs.length, 0);
     });
+
+    it("should delete with case-insensitive helper functions", async () => {
+      const rowCount = await executeDelete(
+        dbClient,
+        schema,
+        (q, p, h) =>
+          q.deleteFrom("test_users").where((u) => h!.functions.iequals(u.username, p.username)),
+        { username: "JOHN_DOE" },
+      );
+
+      assert.equal(rowCount, 1); // john_doe
+
+      const johns = await dbClient.any("SELECT * FROM test_users WHERE username = $1", [
+        "john_doe",
+      ]);
+      assert.equal(johns.length, 0);
+    });
   });
 
   describe("DELETE with IN operations", () => {
@@ -545,6 +562,66 @@ describe("DELETE Operations - PostgreSQL Integration", () => {
     });
   });
 
+  describe("DELETE with RETURNING clause", () => {
+    it("should return deleted rows with RETURNING *", async () => {
+      const results = await executeDelete(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .deleteFrom("test_products")
+            .where((p) => p.category === "Stationery")
+            .returning((p) => p),
+        {},
+      );
+
+      assert(Array.isArray(results));
+      assert.equal(results.length, 2);
+      const names = results.map((r) => r.name).sort();
+      assert.deepEqual(names, ["Notebook", "Pen Set"]);
+
+      const remaining = await dbClient.one(
+        "SELECT COUNT(*) as count FROM test_products WHERE category = $1",
+        ["Stationery"],
+      );
+      assert.equal(parseInt(remaining.count), 0);
+    });
+
+    it("should return specific columns with RETURNING", async () => {
+      const results = await executeDelete(
+        dbClient,
+        schema,
+        (q, p: { maxPrice: number }) =>
+          q
+            .deleteFrom("test_products")
+            .where((r) => r.price! < p.maxPrice)
+            .returning((r) => ({ id: r.id, name: r.name })),
+        { maxPrice: 20 },
+      );
+
+      assert.equal(results.length, 2);
+      results.forEach((result) => {
+        assert(typeof result.id === "number");
+        assert(!("price" in result));
+      });
+    });
+
+    it("should return an empty array when no rows match", async () => {
+      const results = await executeDelete(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .deleteFrom("test_products")
+            .where((p) => p.name === "NonExistent")
+            .returning((p) => p.id),
+        {},
+      );
+
+      assert.deepEqual(results, []);
+    });
+  });
+
   describe("DELETE with no matches", () => {
     it("should return 0 when no rows match", async () => {
       const rowCount = await executeDelete(
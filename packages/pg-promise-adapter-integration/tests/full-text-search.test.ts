@@ -0,0 +1,96 @@
+/**
+ * Integration tests for full-text search with PostgreSQL
+ */
+
+import { describe, it, before, after } from "mocha";
+import { expect } from "chai";
+import { createSchema } from "@tinqerjs/tinqer";
+import { executeSelect } from "@tinqerjs/pg-promise-adapter";
+import { db as dbClient } from "./shared-db.js";
+
+interface TestSchema {
+  documents: {
+    id: number;
+    title: string;
+    body: string;
+  };
+}
+
+const schema = createSchema<TestSchema>();
+
+const documents = [
+  { id: 1, title: "Foxes", body: "The quick brown fox jumps over the lazy dog" },
+  { id: 2, title: "Dogs", body: "A lazy dog sleeps all day in the sun" },
+  { id: 3, title: "Fox hunting", body: "Foxes and more foxes: a story about a fox and its den" },
+];
+
+describe("PostgreSQL Integration - Full-Text Search", () => {
+  before(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS documents CASCADE");
+    await dbClient.none("CREATE TABLE documents (id INTEGER PRIMARY KEY, title TEXT, body TEXT)");
+    for (const document of documents) {
+      await dbClient.none("INSERT INTO documents (id, title, body) VALUES ($1, $2, $3)", [
+        document.id,
+        document.title,
+        document.body,
+      ]);
+    }
+  });
+
+  after(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS documents CASCADE");
+  });
+
+  it("should match stemmed terms and order by rank", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q, params, h) =>
+        q
+          .from("documents")
+          .where((a) => h.functions.textSearch(a.body, params.q, { config: "english" }))
+          .orderByDescending((a) => h.functions.textRank(a.body, params.q, { config: "english" }))
+          .select((a) => ({ id: a.id })),
+      { q: "fox" },
+    );
+
+    expect(results).to.deep.equal([{ id: 3 }, { id: 1 }]);
+  });
+
+  it("should support web search syntax", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q, params, h) =>
+        q
+          .from("documents")
+          .where((a) => h.functions.textSearch(a.body, params.q, { config: "english" }))
+          .orderBy((a) => a.id)
+          .select((a) => ({ id: a.id })),
+      { q: "lazy -fox" },
+    );
+
+    expect(results).to.deep.equal([{ id: 2 }]);
+  });
+
+  it("should project highlighted matches", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q, params, h) =>
+        q
+          .from("documents")
+          .where((a) => a.id == 2)
+          .select((a) => ({
+            highlighted: h.functions.textHighlight(a.body, params.q, {
+              config: "english",
+              start: "[",
+              end: "]",
+            }),
+          })),
+      { q: "sleeping" },
+    );
+
+    expect(results).to.deep.equal([{ highlighted: "A lazy dog [sleeps] all day in the sun" }]);
+  });
+});
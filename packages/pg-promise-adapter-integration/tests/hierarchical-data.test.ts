@@ -736,4 +736,75 @@ describe("PostgreSQL Integration - Hierarchical Data", () => {
       expect(results.map((c) => c.name)).to.include.members(["Electronics", "Computers"]);
     });
   });
+
+  describe("Common table expressions", () => {
+    it("should read a named sub-plan declared with with()", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+      const results = await executeSelectSimple(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .with(
+              "leaves",
+              q.from("categories").where((c) => c.is_leaf),
+            )
+            .from("leaves")
+            .where((l) => l.path.startsWith("/furniture"))
+            .orderBy((l) => l.name)
+            .select((l) => ({ name: l.name })),
+        { onSql: (result) => (capturedSql = result) },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'WITH "leaves" AS (SELECT * FROM "categories" WHERE "is_leaf") SELECT "name" AS "name" FROM "leaves" WHERE "path" LIKE $(__p1) || \'%\' ORDER BY "name" ASC',
+      );
+      expect(results.map((c) => c.name)).to.deep.equal(["Chairs", "Desks"]);
+    });
+
+    it("should walk a category subtree with withRecursive()", async () => {
+      let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+      const results = await executeSelect(
+        dbClient,
+        schema,
+        (q, params) =>
+          q
+            .withRecursive(
+              "subtree",
+              q
+                .from("categories")
+                .where((c) => c.id == params.rootId)
+                .select((c) => ({ id: c.id, name: c.name, depth: 0 })),
+              (r) =>
+                r
+                  .from("categories")
+                  .join(
+                    r.from("subtree"),
+                    (c) => c.parent_id,
+                    (s) => s.id,
+                    (c, s) => ({ c, s }),
+                  )
+                  .select((x) => ({ id: x.c.id, name: x.c.name, depth: x.s.depth + 1 })),
+            )
+            .from("subtree")
+            .orderBy((s) => s.depth)
+            .thenBy((s) => s.name),
+        { rootId: 1 },
+        { onSql: (result) => (capturedSql = result) },
+      );
+
+      expect(capturedSql!.sql).to.equal(
+        'WITH RECURSIVE "subtree" AS (SELECT "id" AS "id", "name" AS "name", $(__p1) AS "depth" FROM "categories" WHERE "id" = $(rootId) UNION ALL SELECT "t0"."id" AS "id", "t0"."name" AS "name", ("t1"."depth" + $(__p2)) AS "depth" FROM "categories" AS "t0" INNER JOIN "subtree" AS "t1" ON "t0"."parent_id" = "t1"."id") SELECT * FROM "subtree" ORDER BY "depth" ASC, "name" ASC',
+      );
+      expect(capturedSql!.params).to.deep.equal({ rootId: 1, __p1: 0, __p2: 1 });
+      expect(results.map((c) => [c.name, c.depth])).to.deep.equal([
+        ["Electronics", 0],
+        ["Computers", 1],
+        ["Phones", 1],
+        ["Desktops", 2],
+        ["Laptops", 2],
+        ["Smartphones", 2],
+      ]);
+    });
+  });
 });
@@ -336,6 +336,224 @@ describe("INSERT Operations - PostgreSQL Integration", () => {
     });
   });
 
+  describe("Multi-row INSERT", () => {
+    type ProductRow = { name: string; price?: number; in_stock?: boolean };
+
+    it("should insert every row from an array parameter", async () => {
+      const rowCount = await executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+        {
+          rows: [
+            { name: "Pen", price: 1.5 },
+            { name: "Pencil", price: 0.5 },
+            { name: "Eraser", price: 0.75 },
+          ],
+        },
+      );
+
+      assert.equal(rowCount, 3);
+
+      const names = await dbClient.any("SELECT name FROM products ORDER BY id");
+      assert.deepEqual(
+        names.map((row: { name: string }) => row.name),
+        ["Pen", "Pencil", "Eraser"],
+      );
+    });
+
+    it("should use column defaults for columns missing from some rows", async () => {
+      await executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+        {
+          rows: [
+            { name: "Stapler", in_stock: false },
+            { name: "Tape", price: 2 },
+          ],
+        },
+      );
+
+      const rows = await dbClient.any("SELECT name, price, in_stock FROM products ORDER BY id");
+      assert.equal(rows[0].price, null);
+      assert.equal(rows[0].in_stock, false);
+      assert.equal(parseFloat(rows[1].price), 2);
+      assert.equal(rows[1].in_stock, true); // DEFAULT true
+    });
+
+    it("should return all inserted rows with RETURNING", async () => {
+      const results = await executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) =>
+          q
+            .insertInto("products")
+            .values(p.rows)
+            .returning((product) => ({ id: product.id, name: product.name })),
+        { rows: [{ name: "Ruler" }, { name: "Compass" }] },
+      );
+
+      assert.equal(results.length, 2);
+      assert.equal(results[0]!.name, "Ruler");
+      assert.equal(results[1]!.name, "Compass");
+    });
+
+    it("should split large batches into multiple statements", async () => {
+      const rows = Array.from({ length: 30000 }, (_, index) => ({
+        name: `Bulk ${index}`,
+        price: index,
+        in_stock: index % 2 === 0,
+      }));
+      const statements: string[] = [];
+
+      const rowCount = await executeInsert(
+        dbClient,
+        schema,
+        (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+        { rows },
+        { onSql: ({ sql }) => statements.push(sql) },
+      );
+
+      assert.equal(rowCount, 30000);
+      // 3 columns per row stays under PostgreSQL's 65535 bind parameters with 21845 rows per statement
+      assert.equal(statements.length, 2);
+
+      const count = await dbClient.one("SELECT COUNT(*) FROM products");
+      assert.equal(parseInt(count.count), 30000);
+    });
+
+    it("should roll back earlier statements when a later one fails", async () => {
+      const rows: ProductRow[] = Array.from({ length: 30000 }, (_, index) => ({
+        name: `Bulk ${index}`,
+        price: index,
+        in_stock: true,
+      }));
+      // name is NOT NULL; this row lands in the second statement
+      rows[29999] = { name: null as unknown as string, price: 1, in_stock: true };
+
+      await assert.rejects(
+        executeInsert(
+          dbClient,
+          schema,
+          (q, p: { rows: ProductRow[] }) => q.insertInto("products").values(p.rows),
+          { rows },
+        ),
+        /null value in column "name"/,
+      );
+
+      const count = await dbClient.one("SELECT COUNT(*) FROM products");
+      assert.equal(parseInt(count.count), 0);
+    });
+  });
+
+  describe("INSERT with ON CONFLICT (upsert)", () => {
+    it("should skip conflicting rows with DO NOTHING", async () => {
+      await executeInsert(
+        dbClient,
+        schema,
+        (q) => q.insertInto("customers").values({ email: "dup@example.com", name: "First" }),
+        {},
+      );
+
+      const rowCount = await executeInsert(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .insertInto("customers")
+            .values({ email: "dup@example.com", name: "Second" })
+            .onConflict((c) => c.email)
+            .doNothing(),
+        {},
+      );
+
+      assert.equal(rowCount, 0);
+      const customer = await dbClient.one("SELECT name FROM customers WHERE email = $1", [
+        "dup@example.com",
+      ]);
+      assert.equal(customer.name, "First");
+    });
+
+    it("should update the existing row with DO UPDATE SET", async () => {
+      const upsert = (name: string, age: number) =>
+        executeInsert(
+          dbClient,
+          schema,
+          (q, p: { email: string; name: string; age: number }) =>
+            q
+              .insertInto("customers")
+              .values({ email: p.email, name: p.name, age: p.age })
+              .onConflict((c) => c.email)
+              .doUpdateSet((existing, excluded) => ({
+                name: excluded.name,
+                age: existing.age! + excluded.age!,
+              })),
+          { email: "upsert@example.com", name, age },
+        );
+
+      await upsert("Original", 20);
+      await upsert("Renamed", 5);
+
+      const customer = await dbClient.one("SELECT name, age FROM customers WHERE email = $1", [
+        "upsert@example.com",
+      ]);
+      assert.equal(customer.name, "Renamed");
+      assert.equal(customer.age, 25);
+    });
+
+    it("should only update rows matching the DO UPDATE WHERE condition", async () => {
+      const upsert = (age: number) =>
+        executeInsert(
+          dbClient,
+          schema,
+          (q, p: { age: number }) =>
+            q
+              .insertInto("customers")
+              .values({ email: "guarded@example.com", age: p.age })
+              .onConflict((c) => c.email)
+              .doUpdateSet((_, excluded) => ({ age: excluded.age }))
+              .where((existing, excluded) => existing.age! < excluded.age!),
+          { age },
+        );
+
+      await upsert(30);
+      const skipped = await upsert(10);
+      assert.equal(skipped, 0);
+
+      const customer = await dbClient.one("SELECT age FROM customers WHERE email = $1", [
+        "guarded@example.com",
+      ]);
+      assert.equal(customer.age, 30);
+    });
+
+    it("should return the upserted row with RETURNING", async () => {
+      await executeInsert(
+        dbClient,
+        schema,
+        (q) => q.insertInto("customers").values({ email: "ret@example.com", name: "Before" }),
+        {},
+      );
+
+      const results = await executeInsert(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .insertInto("customers")
+            .values({ email: "ret@example.com", name: "After" })
+            .onConflict((c) => c.email)
+            .doUpdateSet((_, excluded) => ({ name: excluded.name }))
+            .returning((c) => ({ id: c.id, name: c.name })),
+        {},
+      );
+
+      assert.equal(results.length, 1);
+      assert.equal(results[0]!.id, 1);
+      assert.equal(results[0]!.name, "After");
+    });
+  });
+
   describe("Complex INSERT scenarios", () => {
     it("should handle special characters in strings", async () => {
       const rowCount = await executeInsert(
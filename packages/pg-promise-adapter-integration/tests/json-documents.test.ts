@@ -0,0 +1,169 @@
+/**
+ * Integration tests for JSON column path access with PostgreSQL
+ */
+
+import { describe, it, before, after } from "mocha";
+import { expect } from "chai";
+import { createSchema } from "@tinqerjs/tinqer";
+import { executeSelect } from "@tinqerjs/pg-promise-adapter";
+import { db as dbClient } from "./shared-db.js";
+
+interface TestSchema {
+  profiles: {
+    id: number;
+    name: string;
+    metadata: {
+      address: { city: string; zip: string };
+      tags: string[];
+      score: number;
+      verified: boolean;
+    };
+  };
+}
+
+const schema = createSchema<TestSchema>({ jsonColumns: { profiles: ["metadata"] } });
+
+const profiles = [
+  {
+    id: 1,
+    name: "Ada",
+    metadata: { address: { city: "London", zip: "N1" }, tags: ["vip"], score: 9, verified: true },
+  },
+  {
+    id: 2,
+    name: "Blaise",
+    metadata: { address: { city: "Paris", zip: "75001" }, tags: [], score: 12, verified: false },
+  },
+  {
+    id: 3,
+    name: "Carl",
+    metadata: {
+      address: { city: "Paris", zip: "75002" },
+      tags: ["staff", "vip"],
+      score: 30,
+      verified: true,
+    },
+  },
+];
+
+describe("PostgreSQL Integration - JSON Documents", () => {
+  before(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS profiles CASCADE");
+    await dbClient.none(
+      "CREATE TABLE profiles (id INTEGER PRIMARY KEY, name VARCHAR(100), metadata JSONB)",
+    );
+    for (const profile of profiles) {
+      await dbClient.none("INSERT INTO profiles (id, name, metadata) VALUES ($1, $2, $3)", [
+        profile.id,
+        profile.name,
+        profile.metadata,
+      ]);
+    }
+  });
+
+  after(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS profiles CASCADE");
+  });
+
+  it("should filter and order by nested JSON values", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q, params) =>
+        q
+          .from("profiles")
+          .where((p) => p.metadata.address.city == params.city && p.metadata.score > 10)
+          .orderByDescending((p) => p.metadata.score)
+          .select((p) => ({ id: p.id, zip: p.metadata.address.zip })),
+      { city: "Paris" },
+    );
+
+    expect(results).to.deep.equal([
+      { id: 3, zip: "75002" },
+      { id: 2, zip: "75001" },
+    ]);
+  });
+
+  it("should project JSON values with their types", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("profiles")
+          .where((p) => p.metadata.verified)
+          .orderBy((p) => p.id)
+          .select((p) => ({
+            address: p.metadata.address,
+            firstTag: p.metadata.tags[0],
+            score: p.metadata.score,
+            verified: p.metadata.verified,
+          })),
+      {},
+    );
+
+    expect(results).to.deep.equal([
+      { address: { city: "London", zip: "N1" }, firstTag: "vip", score: 9, verified: true },
+      { address: { city: "Paris", zip: "75002" }, firstTag: "staff", score: 30, verified: true },
+    ]);
+  });
+
+  it("should read JSON paths through a join", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("profiles")
+          .join(
+            q.from("profiles"),
+            (a) => a.id,
+            (b) => b.id,
+            (a, b) => ({ a, b }),
+          )
+          .where((row) => row.b.metadata.address.city == "Paris")
+          .orderBy((row) => row.b.metadata.score)
+          .select((row) => ({ name: row.a.name, score: row.b.metadata.score })),
+      {},
+    );
+
+    expect(results).to.deep.equal([
+      { name: "Blaise", score: 12 },
+      { name: "Carl", score: 30 },
+    ]);
+  });
+
+  it("should return null for missing paths", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("profiles")
+          .where((p) => p.id == 2)
+          .select((p) => ({ firstTag: p.metadata.tags[0] })),
+      {},
+    );
+
+    expect(results).to.deep.equal([{ firstTag: null }]);
+  });
+
+  it("should filter with jsonb containment", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q, params, h) =>
+        q
+          .from("profiles")
+          .where(
+            (p) =>
+              h.functions.jsonContains(p.metadata, { tags: ["vip"] }) &&
+              h.functions.jsonContains(p.metadata.address, params.address),
+          )
+          .select((p) => ({ id: p.id })),
+      { address: { city: "Paris" } },
+    );
+
+    expect(results).to.deep.equal([{ id: 3 }]);
+  });
+});
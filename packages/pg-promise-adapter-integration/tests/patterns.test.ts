@@ -0,0 +1,105 @@
+/**
+ * Integration tests for LIKE patterns and regular expressions with PostgreSQL
+ */
+
+import { describe, it, before, after } from "mocha";
+import { expect } from "chai";
+import { createSchema } from "@tinqerjs/tinqer";
+import { executeSelect, executeUpdate } from "@tinqerjs/pg-promise-adapter";
+import { db as dbClient } from "./shared-db.js";
+
+interface TestSchema {
+  invoices: {
+    id: number;
+    code: string;
+    status: string;
+  };
+}
+
+const schema = createSchema<TestSchema>();
+
+const invoices = [
+  { id: 1, code: "INV-100", status: "open" },
+  { id: 2, code: "inv-200", status: "open" },
+  { id: 3, code: "INV-30A", status: "open" },
+  { id: 4, code: "AB_1", status: "open" },
+  { id: 5, code: "ABC1", status: "open" },
+];
+
+describe("PostgreSQL Integration - Patterns", () => {
+  before(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS invoices CASCADE");
+    await dbClient.none(
+      "CREATE TABLE invoices (id INTEGER PRIMARY KEY, code VARCHAR(20), status VARCHAR(20))",
+    );
+    for (const invoice of invoices) {
+      await dbClient.none("INSERT INTO invoices (id, code, status) VALUES ($1, $2, $3)", [
+        invoice.id,
+        invoice.code,
+        invoice.status,
+      ]);
+    }
+  });
+
+  after(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS invoices CASCADE");
+  });
+
+  it("should treat escaped wildcards in like() literally", async () => {
+    const results = await executeSelect(
+      dbClient,
+      schema,
+      (q, _params, h) =>
+        q
+          .from("invoices")
+          .where((i) => h.functions.like(i.code, "AB\\_%"))
+          .select((i) => ({ id: i.id })),
+      {},
+    );
+
+    expect(results).to.deep.equal([{ id: 4 }]);
+  });
+
+  it("should match regular expressions with and without the i flag", async () => {
+    const caseSensitive = await executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("invoices")
+          .where((i) => /^INV-\d+$/.test(i.code))
+          .orderBy((i) => i.id)
+          .select((i) => ({ id: i.id })),
+      {},
+    );
+    expect(caseSensitive).to.deep.equal([{ id: 1 }]);
+
+    const ignoringCase = await executeSelect(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("invoices")
+          .where((i) => !!i.code.match(/^inv-\d+$/i))
+          .orderBy((i) => i.id)
+          .select((i) => ({ id: i.id })),
+      {},
+    );
+    expect(ignoringCase).to.deep.equal([{ id: 1 }, { id: 2 }]);
+  });
+
+  it("should match regular expressions in UPDATE predicates", async () => {
+    const changed = await executeUpdate(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .update("invoices")
+          .set({ status: "invalid" })
+          .where((i) => !/^INV-\d+$/i.test(i.code)),
+      {},
+    );
+
+    expect(changed).to.equal(3);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Set operation integration tests with real PostgreSQL
+ */
+
+import { describe, it, before } from "mocha";
+import { expect } from "chai";
+import { executeSelect, executeSelectSimple } from "@tinqerjs/pg-promise-adapter";
+import { setupTestDatabase } from "./test-setup.js";
+import { schema } from "./database-schema.js";
+import { db as dbClient } from "./shared-db.js";
+
+describe("PostgreSQL Integration - Set Operations", () => {
+  before(async () => {
+    await setupTestDatabase(dbClient);
+  });
+
+  it("should union two queries and remove duplicates", async () => {
+    const results = await executeSelectSimple(dbClient, schema, (q) =>
+      q
+        .from("users")
+        .where((u) => u.department_id == 1)
+        .select((u) => ({ id: u.id }))
+        .union(
+          q
+            .from("orders")
+            .where((o) => o.status == "completed")
+            .select((o) => ({ id: o.user_id })),
+        )
+        .orderBy((r) => r.id),
+    );
+
+    expect(results.map((r) => r.id)).to.deep.equal([1, 2, 4, 5, 6, 7, 9, 10]);
+  });
+
+  it("should keep duplicates with concat", async () => {
+    const results = await executeSelectSimple(dbClient, schema, (q) =>
+      q
+        .from("orders")
+        .where((o) => o.user_id == 1)
+        .select((o) => ({ userId: o.user_id }))
+        .concat(
+          q
+            .from("users")
+            .where((u) => u.id == 1)
+            .select((u) => ({ userId: u.id })),
+        ),
+    );
+
+    expect(results).to.have.length(3);
+    expect(results.every((r) => r.userId === 1)).to.be.true;
+  });
+
+  it("should intersect and except with parameters on both sides", async () => {
+    const intersect = await executeSelect(
+      dbClient,
+      schema,
+      (q, p: { dept: number; status: string }) =>
+        q
+          .from("users")
+          .where((u) => u.department_id == p.dept)
+          .select((u) => ({ id: u.id }))
+          .intersect(
+            q
+              .from("orders")
+              .where((o) => o.status == p.status)
+              .select((o) => ({ id: o.user_id })),
+          )
+          .orderBy((r) => r.id),
+      { dept: 1, status: "completed" },
+    );
+
+    const except = await executeSelect(
+      dbClient,
+      schema,
+      (q, p: { dept: number; status: string }) =>
+        q
+          .from("users")
+          .where((u) => u.department_id == p.dept)
+          .select((u) => ({ id: u.id }))
+          .except(
+            q
+              .from("orders")
+              .where((o) => o.status == p.status)
+              .select((o) => ({ id: o.user_id })),
+          )
+          .orderBy((r) => r.id),
+      { dept: 1, status: "completed" },
+    );
+
+    expect(intersect.map((r) => r.id)).to.deep.equal([1, 9]);
+    expect(except.map((r) => r.id)).to.deep.equal([5, 7, 10]);
+  });
+
+  it("should apply take and count to the combined result", async () => {
+    let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+
+    const top = await executeSelectSimple(
+      dbClient,
+      schema,
+      (q) =>
+        q
+          .from("users")
+          .select((u) => ({ name: u.name }))
+          .union(q.from("departments").select((d) => ({ name: d.name })))
+          .orderBy((r) => r.name)
+          .take(3),
+      {
+        onSql: (result) => {
+          capturedSql = result;
+        },
+      },
+    );
+
+    expect(capturedSql!.sql).to.equal(
+      'SELECT * FROM (SELECT "name" AS "name" FROM "users" UNION SELECT "name" AS "name" FROM "departments") AS "t0" ORDER BY "name" ASC LIMIT $(__p1)',
+    );
+    expect(top.map((r) => r.name)).to.deep.equal(["Alice Brown", "Bob Johnson", "Charlie Wilson"]);
+
+    const total = await executeSelectSimple(dbClient, schema, (q) =>
+      q
+        .from("users")
+        .select((u) => ({ id: u.id }))
+        .concat(q.from("orders").select((o) => ({ id: o.user_id })))
+        .count(),
+    );
+
+    expect(total).to.equal(20);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Streaming query integration tests with real PostgreSQL
+ */
+
+import { describe, it, before } from "mocha";
+import { expect } from "chai";
+import { executeSelect, executeSelectStream, withTransaction } from "@tinqerjs/pg-promise-adapter";
+import { setupTestDatabase } from "./test-setup.js";
+import { db as dbClient } from "./shared-db.js";
+import { schema } from "./database-schema.js";
+
+describe("PostgreSQL Integration - Streaming", () => {
+  before(async () => {
+    await setupTestDatabase(dbClient);
+  });
+
+  it("should stream every row of a query in batches", async () => {
+    let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
+    const names: string[] = [];
+
+    for await (const user of executeSelectStream(
+      dbClient,
+      schema,
+      (q, params) =>
+        q
+          .from("users")
+          .where((u) => u.department_id == params.departmentId)
+          .orderBy((u) => u.id)
+          .select((u) => ({ id: u.id, name: u.name })),
+      { departmentId: 1 },
+      {
+        batchSize: 2,
+        onSql: (result) => {
+          capturedSql = result;
+        },
+      },
+    )) {
+      names.push(user.name);
+    }
+
+    expect(capturedSql!.sql).to.equal(
+      'SELECT "id" AS "id", "name" AS "name" FROM "users" WHERE "department_id" = $(departmentId) ORDER BY "id" ASC',
+    );
+    expect(names).to.deep.equal([
+      "John Doe",
+      "Bob Johnson",
+      "Diana Prince",
+      "Frank Castle",
+      "Grace Hopper",
+    ]);
+  });
+
+  it("should close the cursor when the loop breaks", async () => {
+    await withTransaction(dbClient, async (tx) => {
+      const ids: number[] = [];
+      for await (const user of executeSelectStream(
+        tx,
+        schema,
+        (q) => q.from("users").orderBy((u) => u.id),
+        {},
+        { batchSize: 3 },
+      )) {
+        ids.push(user.id);
+        if (ids.length === 2) {
+          break;
+        }
+      }
+
+      expect(ids).to.deep.equal([1, 2]);
+      // Cursors are visible to their own session only, so check from the same transaction
+      const openCursors = (await tx.one("SELECT COUNT(*) AS count FROM pg_cursors")) as {
+        count: number;
+      };
+      expect(openCursors.count).to.equal(0);
+    });
+  });
+
+  it("should stream inside a transaction", async () => {
+    const ids = await withTransaction(dbClient, async (tx) => {
+      const streamed: number[] = [];
+      for await (const user of executeSelectStream(
+        tx,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .orderBy((u) => u.id)
+            .take(3),
+        {},
+      )) {
+        streamed.push(user.id);
+      }
+      const count = await executeSelect(tx, schema, (q) => q.from("users").count(), {});
+      expect(count).to.equal(10);
+      return streamed;
+    });
+
+    expect(ids).to.deep.equal([1, 2, 3]);
+  });
+});
@@ -429,6 +429,84 @@ describe("PostgreSQL Integration - String Operations", () => {
     });
   });
 
+  describe("String functions", () => {
+    it("should match JavaScript results for string functions in SELECT", async () => {
+      const results = await executeSelect(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .orderBy((u) => u.id)
+            .select((u) => ({
+              name: u.name,
+              email: u.email,
+              length: u.name.length,
+              firstName: u.name.split(" ")[0],
+              lastName: u.name.substring(u.name.indexOf(" ") + 1),
+              initials: u.name.slice(0, 2),
+              user: u.email.substring(0, u.email.indexOf("@")),
+              dotted: u.name.replace(" ", ".").toLowerCase(),
+              padded: u.name.padStart(14, "*"),
+              trimmed: u.name.padEnd(20).trimEnd(),
+            })),
+        {},
+      );
+
+      expect(results.length).to.equal(10);
+      results.forEach((r) => {
+        expect(r.length).to.equal(r.name.length);
+        expect(r.firstName).to.equal(r.name.split(" ")[0]);
+        expect(r.lastName).to.equal(r.name.substring(r.name.indexOf(" ") + 1));
+        expect(r.initials).to.equal(r.name.slice(0, 2));
+        expect(r.user).to.equal(r.email.substring(0, r.email.indexOf("@")));
+        expect(r.dotted).to.equal(r.name.replace(" ", ".").toLowerCase());
+        expect(r.padded).to.equal(r.name.padStart(14, "*"));
+        expect(r.trimmed).to.equal(r.name);
+      });
+    });
+
+    it("should follow JavaScript for swapped or negative substring bounds and missing split parts", async () => {
+      const results = await executeSelect(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .orderBy((u) => u.id)
+            .select((u) => ({
+              name: u.name,
+              swapped: u.name.substring(3, 1),
+              negative: u.name.substring(-2, 2),
+              missing: u.name.split(" ")[5],
+            })),
+        {},
+      );
+
+      expect(results.length).to.equal(10);
+      results.forEach((r) => {
+        expect(r.swapped).to.equal(r.name.substring(3, 1));
+        expect(r.negative).to.equal(r.name.substring(-2, 2));
+        expect(r.missing).to.equal(null);
+      });
+    });
+
+    it("should filter with string functions in WHERE", async () => {
+      const results = await executeSelect(
+        dbClient,
+        schema,
+        (q, p: { minLength: number }) =>
+          q
+            .from("users")
+            .where((u) => u.name.split(" ")[0]!.length >= p.minLength && u.email.indexOf("a") == 0)
+            .select((u) => ({ name: u.name })),
+        { minLength: 5 },
+      );
+
+      expect(results.map((r) => r.name)).to.have.members(["Alice Brown"]);
+    });
+  });
+
   describe("String operations with aggregates", () => {
     it("should count users by email domain", async () => {
       let capturedSql: { sql: string; params: Record<string, unknown> } | undefined;
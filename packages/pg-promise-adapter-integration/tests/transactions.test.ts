@@ -0,0 +1,175 @@
+/**
+ * Integration tests for withTransaction with PostgreSQL
+ */
+
+import { describe, it, before, after, beforeEach } from "mocha";
+import { strict as assert } from "assert";
+import { createSchema } from "@tinqerjs/tinqer";
+import {
+  executeInsert,
+  executeSelect,
+  executeUpdate,
+  withTransaction,
+  type PgTransactionalDatabase,
+} from "@tinqerjs/pg-promise-adapter";
+import { db as dbClient } from "./shared-db.js";
+
+interface TestSchema {
+  accounts: {
+    id?: number;
+    owner: string;
+    balance: number;
+  };
+}
+
+const schema = createSchema<TestSchema>();
+
+async function countAccounts(): Promise<number> {
+  const row = await dbClient.one("SELECT COUNT(*) AS count FROM accounts");
+  return parseInt(row.count);
+}
+
+function insertAccount(
+  tx: PgTransactionalDatabase,
+  owner: string,
+  balance: number,
+): Promise<number> {
+  return executeInsert(
+    tx,
+    schema,
+    (q, p: { owner: string; balance: number }) =>
+      q.insertInto("accounts").values({ owner: p.owner, balance: p.balance }),
+    { owner, balance },
+  );
+}
+
+describe("Transactions - PostgreSQL Integration", () => {
+  before(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS accounts CASCADE");
+    await dbClient.none(`
+      CREATE TABLE accounts (
+        id SERIAL PRIMARY KEY,
+        owner VARCHAR(100) NOT NULL,
+        balance INTEGER NOT NULL
+      )
+    `);
+  });
+
+  after(async () => {
+    await dbClient.none("DROP TABLE IF EXISTS accounts CASCADE");
+  });
+
+  beforeEach(async () => {
+    await dbClient.none("TRUNCATE TABLE accounts RESTART IDENTITY");
+  });
+
+  describe("Commit and rollback", () => {
+    it("should commit when the callback resolves", async () => {
+      const owners = await withTransaction(dbClient, async (tx) => {
+        await insertAccount(tx, "alice", 100);
+        await insertAccount(tx, "bob", 50);
+        return executeSelect(
+          tx,
+          schema,
+          (q) =>
+            q
+              .from("accounts")
+              .orderBy((a) => a.owner)
+              .select((a) => ({ owner: a.owner })),
+          {},
+        );
+      });
+
+      assert.deepEqual(
+        owners.map((row) => row.owner),
+        ["alice", "bob"],
+      );
+      assert.equal(await countAccounts(), 2);
+    });
+
+    it("should roll back when the callback rejects", async () => {
+      await assert.rejects(
+        withTransaction(dbClient, async (tx) => {
+          await insertAccount(tx, "alice", 100);
+          throw new Error("boom");
+        }),
+        /boom/,
+      );
+
+      assert.equal(await countAccounts(), 0);
+    });
+  });
+
+  describe("Nested transactions", () => {
+    it("should roll back only the inner savepoint", async () => {
+      await withTransaction(dbClient, async (tx) => {
+        await insertAccount(tx, "alice", 100);
+
+        await assert.rejects(
+          withTransaction(tx, async (inner) => {
+            await insertAccount(inner, "bob", 50);
+            throw new Error("inner failure");
+          }),
+          /inner failure/,
+        );
+
+        await insertAccount(tx, "carol", 75);
+      });
+
+      const owners = await dbClient.any("SELECT owner FROM accounts ORDER BY owner");
+      assert.deepEqual(
+        owners.map((row: { owner: string }) => row.owner),
+        ["alice", "carol"],
+      );
+    });
+
+    it("should reject options on nested transactions", async () => {
+      await withTransaction(dbClient, async (tx) => {
+        await assert.rejects(
+          withTransaction(tx, async () => undefined, { isolationLevel: "serializable" }),
+          /outermost transaction/,
+        );
+      });
+    });
+  });
+
+  describe("Transaction options", () => {
+    it("should apply the isolation level", async () => {
+      const level = await withTransaction(
+        dbClient,
+        async (tx) => {
+          const row = (await tx.one("SHOW transaction_isolation")) as {
+            transaction_isolation: string;
+          };
+          return row.transaction_isolation;
+        },
+        { isolationLevel: "serializable" },
+      );
+
+      assert.equal(level, "serializable");
+    });
+
+    it("should reject writes in a read-only transaction", async () => {
+      await insertAccount(dbClient, "alice", 100);
+
+      await assert.rejects(
+        withTransaction(
+          dbClient,
+          (tx) =>
+            executeUpdate(
+              tx,
+              schema,
+              (q) =>
+                q
+                  .update("accounts")
+                  .set({ balance: 0 })
+                  .where((a) => a.owner === "alice"),
+              {},
+            ),
+          { readOnly: true },
+        ),
+        /read-only transaction/,
+      );
+    });
+  });
+});
@@ -261,6 +261,76 @@ describe("UPDATE Operations - PostgreSQL Integration", () => {
     });
   });
 
+  describe("UPDATE with row-referencing SET", () => {
+    it("should increment a column from its current value", async () => {
+      const rowCount = await executeUpdate(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .update("inventory")
+            .set((i) => ({ quantity: i.quantity + 5 }))
+            .where((i) => i.product_name === "Laptop"),
+        {},
+      );
+
+      assert.equal(rowCount, 1);
+
+      const product = await dbClient.one("SELECT * FROM inventory WHERE product_name = $1", [
+        "Laptop",
+      ]);
+      assert.equal(product.quantity, 15);
+    });
+
+    it("should mix row references, params and ternaries", async () => {
+      const rowCount = await executeUpdate(
+        dbClient,
+        schema,
+        (q, p: { sold: number; productName: string }) =>
+          q
+            .update("inventory")
+            .set((i) => ({
+              quantity: i.quantity - p.sold,
+              status: i.quantity - p.sold > 0 ? "available" : "out_of_stock",
+            }))
+            .where((i) => i.product_name === p.productName),
+        { sold: 50, productName: "Mouse" },
+      );
+
+      assert.equal(rowCount, 1);
+
+      const product = await dbClient.one("SELECT * FROM inventory WHERE product_name = $1", [
+        "Mouse",
+      ]);
+      assert.equal(product.quantity, 0);
+      assert.equal(product.status, "out_of_stock");
+    });
+
+    it("should use ?? and string methods on the current row", async () => {
+      const rowCount = await executeUpdate(
+        dbClient,
+        schema,
+        (q) =>
+          q
+            .update("user_profiles")
+            .set((u) => ({ bio: u.bio ?? u.username.toUpperCase() }))
+            .allowFullTableUpdate(),
+        {},
+      );
+
+      assert.equal(rowCount, 4);
+
+      const profile = await dbClient.one("SELECT * FROM user_profiles WHERE username = $1", [
+        "bob_wilson",
+      ]);
+      assert.equal(profile.bio, "BOB_WILSON");
+      const john = await dbClient.one("SELECT * FROM user_profiles WHERE username = $1", [
+        "john_doe",
+      ]);
+      assert.equal(john.bio, "Software developer");
+    });
+  });
+
   describe("UPDATE with optional fields", () => {
     it("should skip undefined parameter values", async () => {
       const rowCount = await executeUpdate(
@@ -16,6 +16,8 @@ import type {
   ArithmeticExpression,
   NotExpression,
   StringMethodExpression,
+  MathFunctionExpression,
+  DateFunctionExpression,
   BooleanMethodExpression,
   CaseInsensitiveFunctionExpression,
   ObjectExpression,
@@ -27,8 +29,22 @@ import type {
   CaseExpression,
   ReferenceExpression,
   WindowFunctionExpression,
+  WindowFrameBoundary,
+  JsonPathExpression,
+  JsonContainsExpression,
+  ArrayFunctionExpression,
+  LikeExpression,
+  RegexMatchExpression,
+  TextSearchExpression,
+  TextSearchFunctionExpression,
+  QueryOperation,
 } from "@tinqerjs/tinqer";
 import type { SqlContext } from "./types.js";
+import {
+  generateExistsPredicate,
+  generateInSubquery,
+  generateScalarSubquery,
+} from "./sql-generator.js";
 
 /**
  * Generate SQL for any expression
@@ -83,6 +99,13 @@ export function generateBooleanExpression(expr: BooleanExpression, context: SqlC
     case "not":
       return generateNotExpression(expr, context);
     case "booleanColumn":
+      // Outer row references in correlated subqueries carry their table
+      if (expr.source) {
+        return generateColumnExpression(
+          { type: "column", name: expr.name, source: expr.source },
+          context,
+        );
+      }
       return `"${expr.name}"`;
     case "booleanConstant":
       return expr.value ? "TRUE" : "FALSE";
@@ -94,6 +117,18 @@ export function generateBooleanExpression(expr: BooleanExpression, context: SqlC
       return generateInExpression(expr as InExpression, context);
     case "isNull":
       return generateIsNullExpression(expr as IsNullExpression, context);
+    case "exists":
+      return generateExistsPredicate(expr, context);
+    case "jsonContains":
+      return generateJsonContainsExpression(expr, context);
+    case "arrayFunction":
+      return generateArrayFunctionExpression(expr, context);
+    case "like":
+      return generateLikeExpression(expr, context);
+    case "regexMatch":
+      return generateRegexMatchExpression(expr, context);
+    case "textSearch":
+      return generateTextSearchExpression(expr, context);
     default:
       throw new Error(
         `Unsupported boolean expression type: ${(expr as BooleanExpression & { type: string }).type}`,
@@ -118,6 +153,10 @@ export function generateValueExpression(expr: ValueExpression, context: SqlConte
       return generateConcatExpression(expr as ConcatExpression, context);
     case "stringMethod":
       return generateStringMethodExpression(expr as StringMethodExpression, context);
+    case "mathFunction":
+      return generateMathFunctionExpression(expr as MathFunctionExpression, context);
+    case "dateFunction":
+      return generateDateFunctionExpression(expr as DateFunctionExpression, context);
     case "aggregate":
       return generateAggregateExpression(expr as AggregateExpression, context);
     case "windowFunction":
@@ -130,6 +169,14 @@ export function generateValueExpression(expr: ValueExpression, context: SqlConte
       return generateReferenceExpression(expr as ReferenceExpression, context);
     case "allColumns":
       return "*";
+    case "scalarSubquery":
+      return generateScalarSubquery(expr, context);
+    case "jsonPath":
+      return generateJsonPathExpression(expr, context);
+    case "arrayLength":
+      return `cardinality(${generateValueExpression(expr.array, context)})`;
+    case "textSearchFunction":
+      return generateTextSearchFunctionExpression(expr, context);
     default:
       throw new Error(
         `Unsupported value expression type: ${(expr as ValueExpression & { type: string }).type}`,
@@ -142,8 +189,16 @@ export function generateValueExpression(expr: ValueExpression, context: SqlConte
  */
 function generateComparisonExpression(expr: ComparisonExpression, context: SqlContext): string {
   // Handle cases where left or right side might be boolean expressions
-  const left = generateExpressionForComparison(expr.left, context);
-  const right = generateExpressionForComparison(expr.right, context);
+  let left = generateExpressionForComparison(expr.left, context);
+  let right = generateExpressionForComparison(expr.right, context);
+
+  // JSON values are extracted as text; cast them when compared with numbers or booleans
+  if (expr.left.type === "jsonPath") {
+    left = castJsonText(left, expr.right, context);
+  }
+  if (expr.right.type === "jsonPath") {
+    right = castJsonText(right, expr.left, context);
+  }
 
   // Special handling for NULL comparisons
   if (right === "NULL") {
@@ -222,6 +277,10 @@ function generateNotExpression(expr: NotExpression, context: SqlContext): string
   // Special handling for NOT IN with parameter arrays
   if (expr.expression.type === "in") {
     const inExpr = expr.expression as InExpression;
+    if (isSubqueryList(inExpr.list)) {
+      const value = generateValueExpression(inExpr.value, context);
+      return `${value} NOT IN ${generateInSubquery(inExpr.list, context)}`;
+    }
     if (!Array.isArray(inExpr.list) && inExpr.list.type === "param") {
       const value = generateValueExpression(inExpr.value, context);
       const paramExpr = inExpr.list as ParameterExpression;
@@ -498,8 +557,8 @@ function generateArithmeticExpression(expr: ArithmeticExpression, context: SqlCo
       (expr.right.type === "constant" &&
         typeof (expr.right as ConstantExpression).value === "string") ||
       // String method results (toLowerCase, toUpperCase, substring, etc.)
-      expr.left.type === "stringMethod" ||
-      expr.right.type === "stringMethod" ||
+      isStringMethodResult(expr.left) ||
+      isStringMethodResult(expr.right) ||
       // Check if expressions are likely to produce strings
       isLikelyStringExpression(expr.left) ||
       isLikelyStringExpression(expr.right) ||
@@ -514,7 +573,7 @@ function generateArithmeticExpression(expr: ArithmeticExpression, context: SqlCo
     }
   }
 
-  return `(${left} ${expr.operator} ${right})`;
+  return `(${castJsonNumber(left, expr.left)} ${expr.operator} ${castJsonNumber(right, expr.right)})`;
 }
 
 /**
@@ -564,7 +623,7 @@ function isLikelyStringExpression(expr: Expression): boolean {
         return typeof (e as ConstantExpression).value === "string";
       }
       if (e.type === "stringMethod") {
-        return true;
+        return isStringMethodResult(e);
       }
       return false;
     });
@@ -585,20 +644,137 @@ function generateConcatExpression(expr: ConcatExpression, context: SqlContext):
 
 /**
  * Generate SQL for string method expressions
+ * JavaScript string indices are 0-based while SQL string positions are 1-based
  */
 function generateStringMethodExpression(expr: StringMethodExpression, context: SqlContext): string {
   const object = generateValueExpression(expr.object, context);
+  const args = (expr.arguments ?? []).map((arg) => generateValueExpression(arg, context));
 
   switch (expr.method) {
     case "toLowerCase":
       return `LOWER(${object})`;
     case "toUpperCase":
       return `UPPER(${object})`;
+    case "length":
+      return `LENGTH(${object})`;
+    case "trim":
+      return `TRIM(${object})`;
+    case "trimStart":
+      return `LTRIM(${object})`;
+    case "trimEnd":
+      return `RTRIM(${object})`;
+    case "substring": {
+      // Like String.prototype.substring, negative bounds count as 0 and swapped bounds are reordered
+      const [start, end] = args;
+      if (end === undefined) {
+        return `SUBSTRING(${object}, GREATEST(${start}, 0) + 1)`;
+      }
+      const from = `GREATEST(${start}, 0)`;
+      const to = `GREATEST(${end}, 0)`;
+      return `SUBSTRING(${object}, LEAST(${from}, ${to}) + 1, ABS(${to} - ${from}))`;
+    }
+    case "replace": {
+      // String.prototype.replace only replaces the first occurrence
+      const [search, replacement] = args;
+      const position = `POSITION(${search} IN ${object})`;
+      return (
+        `CASE WHEN ${position} = 0 THEN ${object} ` +
+        `ELSE SUBSTRING(${object}, 1, ${position} - 1) || ${replacement} || ` +
+        `SUBSTRING(${object}, ${position} + LENGTH(${search})) END`
+      );
+    }
+    case "replaceAll":
+      return `REPLACE(${object}, ${args[0]}, ${args[1]})`;
+    case "indexOf":
+      return `(POSITION(${args[0]} IN ${object}) - 1)`;
+    case "padStart":
+      // LPAD truncates longer strings; padStart leaves them unchanged
+      return `LPAD(${object}, GREATEST(${args[0]}, LENGTH(${object})), ${args[1] ?? "' '"})`;
+    case "padEnd":
+      return `RPAD(${object}, GREATEST(${args[0]}, LENGTH(${object})), ${args[1] ?? "' '"})`;
+    case "splitPart": {
+      // SPLIT_PART returns '' past the last part; split()[i] is undefined there, so yield NULL
+      const [separator, index] = args;
+      const lastIndex = `(LENGTH(${object}) - LENGTH(REPLACE(${object}, ${separator}, ''))) / NULLIF(LENGTH(${separator}), 0)`;
+      return `CASE WHEN ${index} >= 0 AND ${index} <= ${lastIndex} THEN SPLIT_PART(${object}, ${separator}, ${index} + 1) END`;
+    }
     default:
       throw new Error(`Unsupported string method: ${expr.method}`);
   }
 }
 
+/**
+ * Check whether a string method produces a string (length and indexOf produce numbers)
+ */
+function isStringMethodResult(expr: Expression): boolean {
+  return (
+    expr.type === "stringMethod" &&
+    (expr as StringMethodExpression).method !== "length" &&
+    (expr as StringMethodExpression).method !== "indexOf"
+  );
+}
+
+/**
+ * Generate SQL for Math function expressions
+ */
+function generateMathFunctionExpression(expr: MathFunctionExpression, context: SqlContext): string {
+  const args = expr.arguments.map((arg) =>
+    castJsonNumber(generateValueExpression(arg, context), arg),
+  );
+
+  switch (expr.function) {
+    case "round":
+      // ROUND(value, digits) is only defined for NUMERIC
+      return args[1] === undefined
+        ? `ROUND(${args[0]})`
+        : `ROUND((${args[0]})::numeric, ${args[1]})`;
+    case "floor":
+      return `FLOOR(${args[0]})`;
+    case "ceil":
+      return `CEIL(${args[0]})`;
+    case "abs":
+      return `ABS(${args[0]})`;
+    case "pow":
+      return `POWER(${args[0]}, ${args[1]})`;
+    case "sqrt":
+      return `SQRT(${args[0]})`;
+    case "min":
+      return `LEAST(${args.join(", ")})`;
+    case "max":
+      return `GREATEST(${args.join(", ")})`;
+    default:
+      throw new Error(`Unsupported Math function: ${expr.function}`);
+  }
+}
+
+/**
+ * Generate SQL for date function expressions
+ * Date parts are cast to INTEGER because EXTRACT returns NUMERIC
+ */
+function generateDateFunctionExpression(expr: DateFunctionExpression, context: SqlContext): string {
+  const args = expr.arguments.map((arg) => generateValueExpression(arg, context));
+  const unit = expr.unit ?? "day";
+
+  switch (expr.function) {
+    case "datePart": {
+      if (unit === "second") {
+        return `CAST(FLOOR(EXTRACT(SECOND FROM ${args[0]})) AS INTEGER)`;
+      }
+      const part = `CAST(EXTRACT(${unit.toUpperCase()} FROM ${args[0]}) AS INTEGER)`;
+      // getMonth() is 0-based
+      return unit === "month" ? `(${part} - 1)` : part;
+    }
+    case "dateAdd":
+      return `(${args[0]} + ${args[1]} * INTERVAL '1 ${unit}')`;
+    case "dateTrunc":
+      return `DATE_TRUNC('${unit}', ${args[0]})`;
+    case "now":
+      return "NOW()";
+    default:
+      throw new Error(`Unsupported date function: ${expr.function}`);
+  }
+}
+
 /**
  * Generate SQL for IS NULL / IS NOT NULL expressions
  */
@@ -607,12 +783,24 @@ function generateIsNullExpression(expr: IsNullExpression, context: SqlContext):
   return expr.negated ? `${value} IS NOT NULL` : `${value} IS NULL`;
 }
 
+/**
+ * Check whether an IN list is a subquery rather than values or an array parameter
+ */
+function isSubqueryList(list: InExpression["list"]): list is QueryOperation {
+  return !Array.isArray(list) && "operationType" in list;
+}
+
 /**
  * Generate SQL for IN expressions
  */
 function generateInExpression(expr: InExpression, context: SqlContext): string {
   const value = generateValueExpression(expr.value, context);
 
+  // Subquery: u.id IN (SELECT "userId" FROM "admins" AS "s1")
+  if (isSubqueryList(expr.list)) {
+    return `${value} IN ${generateInSubquery(expr.list, context)}`;
+  }
+
   // Handle list as array expression, array of values, or parameter
   if (!Array.isArray(expr.list) && expr.list.type === "param") {
     // Handle parameter that represents an array
@@ -720,9 +908,187 @@ function generateCaseInsensitiveFunctionExpression(
 }
 
 /**
- * Generate SQL for aggregate expressions
+ * Generate SQL for JSON document access
+ * Text extraction (->>, #>>) suits comparisons and string functions; projections and
+ * ordering keep the JSON value (->, #>) so numbers, booleans and objects keep their types
+ */
+export function generateJsonPathExpression(
+  expr: JsonPathExpression,
+  context: SqlContext,
+  asJson = false,
+): string {
+  const column = generateColumnExpression(expr.column, context);
+  if (expr.path.length === 1) {
+    const segment = expr.path[0]!;
+    const key = typeof segment === "number" ? String(segment) : `'${segment.replace(/'/g, "''")}'`;
+    return `${column}${asJson ? "->" : "->>"}${key}`;
+  }
+
+  const elements = expr.path.map((segment) =>
+    typeof segment === "number" || /^[A-Za-z0-9_$]+$/.test(segment)
+      ? String(segment)
+      : `"${segment.replace(/["\\]/g, "\\$&").replace(/'/g, "''")}"`,
+  );
+  return `${column}${asJson ? "#>" : "#>>"}'{${elements.join(",")}}'`;
+}
+
+/**
+ * Cast extracted JSON text to numeric where a number is expected (arithmetic, Math, SUM/AVG)
+ */
+function castJsonNumber(sql: string, expr: ValueExpression): string {
+  return expr.type === "jsonPath" ? `(${sql})::numeric` : sql;
+}
+
+/**
+ * Cast extracted JSON text to the type of the value it is compared with
+ */
+function castJsonText(sql: string, other: ValueExpression, context: SqlContext): string {
+  let value: unknown;
+  if (other.type === "constant") {
+    value = (other as ConstantExpression).value;
+  } else if (other.type === "param") {
+    const param = other as ParameterExpression;
+    value = context.params?.[param.property || param.param];
+  }
+
+  if (typeof value === "number") {
+    return `(${sql})::numeric`;
+  }
+  if (typeof value === "boolean") {
+    return `(${sql})::boolean`;
+  }
+  return sql;
+}
+
+/**
+ * Generate SQL for JSON containment (jsonb @>)
+ * The value is bound as JSON text whether it is an object or an array
+ */
+function generateJsonContainsExpression(expr: JsonContainsExpression, context: SqlContext): string {
+  const document =
+    expr.document.type === "jsonPath"
+      ? generateJsonPathExpression(expr.document, context, true)
+      : generateColumnExpression(expr.document, context);
+  const param = expr.value as ParameterExpression;
+  const value = context.formatParameter(`${param.property || param.param}:json`);
+  return `${document} @> ${value}::jsonb`;
+}
+
+/**
+ * Generate SQL for array column predicates
+ */
+function generateArrayFunctionExpression(
+  expr: ArrayFunctionExpression,
+  context: SqlContext,
+): string {
+  const array = generateValueExpression(expr.arguments[0], context);
+  const value = generateValueExpression(expr.arguments[1], context);
+
+  switch (expr.function) {
+    case "includes":
+      return `${value} = ANY(${array})`;
+    case "overlaps":
+      return `${array} && ${value}`;
+    case "containsAll":
+      return `${array} @> ${value}`;
+  }
+}
+
+/**
+ * Generate SQL for a LIKE pattern; the explicit ESCAPE makes backslash escapes work
+ * whatever the server's default
+ */
+function generateLikeExpression(expr: LikeExpression, context: SqlContext): string {
+  const value = generateValueExpression(expr.value, context);
+  const pattern = generateValueExpression(expr.pattern, context);
+  return `${value} LIKE ${pattern} ESCAPE '\\'`;
+}
+
+/**
+ * Generate SQL for a regular expression match: ~, or ~* when it ignores case
+ */
+function generateRegexMatchExpression(expr: RegexMatchExpression, context: SqlContext): string {
+  const value = generateValueExpression(expr.value, context);
+  const pattern = generateValueExpression(expr.pattern, context);
+  return `${value} ${expr.ignoreCase ? "~*" : "~"} ${pattern}`;
+}
+
+/**
+ * Generate SQL for a full-text match: to_tsvector(document) @@ websearch_to_tsquery(query)
+ */
+function generateTextSearchExpression(expr: TextSearchExpression, context: SqlContext): string {
+  const [document, query] = generateTextSearchArguments(expr, context);
+  return `${document} @@ ${query}`;
+}
+
+/**
+ * Generate SQL for textRank (ts_rank) and textHighlight/textSnippet (ts_headline)
+ */
+function generateTextSearchFunctionExpression(
+  expr: TextSearchFunctionExpression,
+  context: SqlContext,
+): string {
+  if (expr.function === "rank") {
+    const [document, query] = generateTextSearchArguments(expr, context);
+    return `ts_rank(${document}, ${query})`;
+  }
+
+  // ts_headline takes the raw document; the options string quotes each marker
+  const config = expr.config ? `'${expr.config}', ` : "";
+  const document = generateValueExpression(expr.arguments[0], context);
+  const query = generateValueExpression(expr.arguments[1], context);
+  const options = [`StartSel="${expr.start}"`, `StopSel="${expr.end}"`];
+  if (expr.function === "highlight") {
+    options.push("HighlightAll=true");
+  } else {
+    options.push(
+      `MaxWords=${expr.tokens}`,
+      `MinWords=${Math.max(1, Math.floor(expr.tokens! / 2))}`,
+      "MaxFragments=2",
+      `FragmentDelimiter="${expr.ellipsis}"`,
+    );
+  }
+  const optionsLiteral = options.join(", ").replace(/'/g, "''");
+  return `ts_headline(${config}${document}, websearch_to_tsquery(${config}${query}), '${optionsLiteral}')`;
+}
+
+/**
+ * Generate the tsvector and tsquery sides of a text search, with the configuration if given
+ */
+function generateTextSearchArguments(
+  expr: TextSearchExpression | TextSearchFunctionExpression,
+  context: SqlContext,
+): [string, string] {
+  const config = expr.config ? `'${expr.config}', ` : "";
+  const document = generateValueExpression(expr.arguments[0], context);
+  const query = generateValueExpression(expr.arguments[1], context);
+  return [`to_tsvector(${config}${document})`, `websearch_to_tsquery(${config}${query})`];
+}
+
+/**
+ * Generate SQL for aggregate expressions, with FILTER (WHERE ...) for predicate aggregates
  */
 function generateAggregateExpression(expr: AggregateExpression, context: SqlContext): string {
+  const call = generateAggregateCall(expr, context);
+  if (!expr.filter) {
+    return call;
+  }
+  return `${call} FILTER (WHERE ${generateBooleanExpression(expr.filter, context)})`;
+}
+
+/**
+ * Generate the aggregate function call itself
+ */
+function generateAggregateCall(expr: AggregateExpression, context: SqlContext): string {
+  switch (expr.function) {
+    case "stringAgg":
+      return `STRING_AGG(${generateAggregateElement(expr, context)}, ${generateValueExpression(expr.separator!, context)}${generateAggregateOrderBy(expr, context)})`;
+    case "arrayAgg":
+      return `ARRAY_AGG(${generateAggregateElement(expr, context)}${generateAggregateOrderBy(expr, context)})`;
+    case "jsonAgg":
+      return `JSON_AGG(${generateAggregateElement(expr, context)}${generateAggregateOrderBy(expr, context)})`;
+  }
+
   const func = expr.function.toUpperCase();
 
   // COUNT(*) special case
@@ -733,13 +1099,79 @@ function generateAggregateExpression(expr: AggregateExpression, context: SqlCont
   // Aggregate with expression (e.g., SUM(amount), COUNT(id))
   if (expr.expression) {
     const innerExpr = generateValueExpression(expr.expression, context);
-    return `${func}(${innerExpr})`;
+    return func === "SUM" || func === "AVG"
+      ? `${func}(${castJsonNumber(innerExpr, expr.expression)})`
+      : `${func}(${innerExpr})`;
   }
 
   // Default to COUNT(*) for other aggregates without expression
   return `${func}(*)`;
 }
 
+/**
+ * Generate the value collected by stringAgg / arrayAgg / jsonAgg
+ */
+function generateAggregateElement(expr: AggregateExpression, context: SqlContext): string {
+  if (expr.object) {
+    return generateJsonObject(expr.object, context);
+  }
+  if (!expr.expression) {
+    throw new Error(`${expr.function}() requires a selector`);
+  }
+  return generateValueExpression(expr.expression, context);
+}
+
+/**
+ * Generate a JSON object from an object literal, e.g. JSON_BUILD_OBJECT('id', "id", 'name', "name")
+ */
+function generateJsonObject(expr: ObjectExpression, context: SqlContext): string {
+  const args = Object.entries(expr.properties).flatMap(([key, value]) => {
+    if (key === "__spread__") {
+      throw new Error("Spread is not supported in jsonAgg() objects; list the properties instead");
+    }
+    const sqlValue = isObjectExpression(value)
+      ? generateJsonObject(value, context)
+      : generateExpression(value, context);
+    return [`'${key.replace(/'/g, "''")}'`, sqlValue];
+  });
+  return `JSON_BUILD_OBJECT(${args.join(", ")})`;
+}
+
+/**
+ * Generate the ORDER BY inside an aggregate call
+ */
+function generateAggregateOrderBy(expr: AggregateExpression, context: SqlContext): string {
+  if (!expr.orderBy || expr.orderBy.length === 0) {
+    return "";
+  }
+  const keys = expr.orderBy.map(
+    (key) =>
+      `${generateValueExpression(key.expression, context)} ${key.direction === "desc" ? "DESC" : "ASC"}`,
+  );
+  return ` ORDER BY ${keys.join(", ")}`;
+}
+
+/**
+ * SQL names for window functions
+ */
+const WINDOW_FUNCTION_NAMES: Record<WindowFunctionExpression["function"], string> = {
+  rowNumber: "ROW_NUMBER",
+  rank: "RANK",
+  denseRank: "DENSE_RANK",
+  percentRank: "PERCENT_RANK",
+  cumeDist: "CUME_DIST",
+  ntile: "NTILE",
+  lag: "LAG",
+  lead: "LEAD",
+  firstValue: "FIRST_VALUE",
+  lastValue: "LAST_VALUE",
+  sum: "SUM",
+  avg: "AVG",
+  count: "COUNT",
+  min: "MIN",
+  max: "MAX",
+};
+
 /**
  * Generate SQL for window function expressions
  */
@@ -747,19 +1179,11 @@ function generateWindowFunctionExpression(
   expr: WindowFunctionExpression,
   context: SqlContext,
 ): string {
-  // Map function name to SQL
-  let funcName: string;
-  switch (expr.function) {
-    case "rowNumber":
-      funcName = "ROW_NUMBER";
-      break;
-    case "rank":
-      funcName = "RANK";
-      break;
-    case "denseRank":
-      funcName = "DENSE_RANK";
-      break;
-  }
+  const funcName = WINDOW_FUNCTION_NAMES[expr.function];
+
+  // Function arguments (COUNT without a selector counts all rows)
+  const args = (expr.arguments ?? []).map((a) => generateValueExpression(a, context));
+  const argList = args.length === 0 && expr.function === "count" ? "*" : args.join(", ");
 
   // Build OVER clause parts
   const overParts: string[] = [];
@@ -778,10 +1202,36 @@ function generateWindowFunctionExpression(
   });
   overParts.push(`ORDER BY ${orders.join(", ")}`);
 
+  // Frame clause (optional)
+  if (expr.frame) {
+    const unit = expr.frame.unit === "rows" ? "ROWS" : "RANGE";
+    overParts.push(
+      `${unit} BETWEEN ${generateWindowFrameBoundary(expr.frame.start)} AND ${generateWindowFrameBoundary(expr.frame.end)}`,
+    );
+  }
+
   // Build complete OVER clause
   const overClause = overParts.join(" ");
 
-  return `${funcName}() OVER (${overClause})`;
+  return `${funcName}(${argList}) OVER (${overClause})`;
+}
+
+/**
+ * Generate SQL for a window frame boundary
+ */
+function generateWindowFrameBoundary(boundary: WindowFrameBoundary): string {
+  switch (boundary.type) {
+    case "unboundedPreceding":
+      return "UNBOUNDED PRECEDING";
+    case "preceding":
+      return `${boundary.offset} PRECEDING`;
+    case "currentRow":
+      return "CURRENT ROW";
+    case "following":
+      return `${boundary.offset} FOLLOWING`;
+    case "unboundedFollowing":
+      return "UNBOUNDED FOLLOWING";
+  }
 }
 
 /**
@@ -839,7 +1289,11 @@ function generateObjectExpression(expr: ObjectExpression, context: SqlContext):
       return "*";
     }
 
-    let sqlValue = generateExpression(value, context);
+    // JSON values are projected as JSON so the driver decodes them with their types
+    let sqlValue =
+      value.type === "jsonPath"
+        ? generateJsonPathExpression(value, context, true)
+        : generateExpression(value, context);
 
     // If it's a boolean expression in SELECT context, wrap it in a CASE to return boolean value
     if (
@@ -866,6 +1320,11 @@ function isBooleanExpression(expr: Expression): expr is BooleanExpression {
     "booleanConstant",
     "booleanMethod",
     "exists",
+    "jsonContains",
+    "arrayFunction",
+    "like",
+    "regexMatch",
+    "textSearch",
   ].includes((expr as Expression & { type: string }).type);
 }
 
@@ -877,10 +1336,16 @@ function isValueExpression(expr: Expression): expr is ValueExpression {
     "arithmetic",
     "concat",
     "stringMethod",
+    "mathFunction",
+    "dateFunction",
     "case",
     "aggregate",
     "windowFunction",
     "coalesce",
+    "scalarSubquery",
+    "jsonPath",
+    "arrayLength",
+    "textSearchFunction",
   ].includes((expr as Expression & { type: string }).type);
 }
 
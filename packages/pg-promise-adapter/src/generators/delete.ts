@@ -4,7 +4,7 @@
 
 import type { DeleteOperation } from "@tinqerjs/tinqer";
 import type { SqlContext } from "../types.js";
-import { generateBooleanExpression } from "../expression-generator.js";
+import { generateExpression, generateBooleanExpression } from "../expression-generator.js";
 
 /**
  * Generate DELETE SQL statement
@@ -27,5 +27,16 @@ export function generateDelete(operation: DeleteOperation, context: SqlContext):
     );
   }
 
+  // Add RETURNING clause if specified
+  if (operation.returning !== undefined) {
+    // Handle AllColumnsExpression (identity function like .returning(u => u))
+    if (operation.returning.type === "allColumns") {
+      sql += ` RETURNING *`;
+    } else {
+      const returningExpr = generateExpression(operation.returning, context);
+      sql += ` RETURNING ${returningExpr}`;
+    }
+  }
+
   return sql;
 }
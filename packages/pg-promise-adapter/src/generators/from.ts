@@ -42,6 +42,10 @@ export function generateFrom(operation: FromOperation, context: SqlContext): str
 
     const alias = context.tableAliases.get(operation.table!);
     return `FROM ${table} AS "${alias}"`;
+  } else if (operation.aliasHint) {
+    // Correlated subquery - the alias keeps the inner table apart from the outer one
+    context.tableAliases.set(operation.table!, operation.aliasHint);
+    return `FROM ${table} AS "${operation.aliasHint}"`;
   } else {
     // Single table - no alias needed
     return `FROM ${table}`;
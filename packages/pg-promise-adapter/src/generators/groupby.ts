@@ -1,10 +1,14 @@
 /**
- * GROUP BY clause generator
+ * GROUP BY and HAVING clause generator
  */
 
-import type { GroupByOperation } from "@tinqerjs/tinqer";
+import type { Expression, GroupByOperation, HavingOperation } from "@tinqerjs/tinqer";
 import type { SqlContext } from "../types.js";
-import { generateExpression } from "../expression-generator.js";
+import {
+  generateBooleanExpression,
+  generateExpression,
+  generateJsonPathExpression,
+} from "../expression-generator.js";
 
 /**
  * Generate GROUP BY clause
@@ -21,7 +25,7 @@ export function generateGroupBy(operation: GroupByOperation, context: SqlContext
     for (const propName in keySelector.properties) {
       const propExpr = keySelector.properties[propName];
       if (propExpr) {
-        const sqlExpr = generateExpression(propExpr, context);
+        const sqlExpr = generateGroupKey(propExpr, context);
         groupByColumns.push(sqlExpr);
       }
     }
@@ -32,9 +36,28 @@ export function generateGroupBy(operation: GroupByOperation, context: SqlContext
     const groupByExpr = generateExpression(keySelector, context);
     return `GROUP BY ${groupByExpr}`;
   } else {
-    // Any other expression (method calls, binary ops, etc.)
+    // Any other expression (method calls, binary ops, JSON paths, etc.)
     // Generate the expression and use it in GROUP BY
-    const groupByExpr = generateExpression(keySelector, context);
+    const groupByExpr = generateGroupKey(keySelector, context);
     return `GROUP BY ${groupByExpr}`;
   }
 }
+
+/**
+ * Generate one GROUP BY key
+ * JSON paths group on the JSON value (->, #>), the form SELECT and ORDER BY use for g.key,
+ * so PostgreSQL finds the projected key among the grouped expressions
+ */
+function generateGroupKey(expr: Expression, context: SqlContext): string {
+  return expr.type === "jsonPath"
+    ? generateJsonPathExpression(expr, context, true)
+    : generateExpression(expr, context);
+}
+
+/**
+ * Generate HAVING clause (combine multiple with AND)
+ */
+export function generateHaving(operations: HavingOperation[], context: SqlContext): string {
+  const predicates = operations.map((op) => generateBooleanExpression(op.predicate, context));
+  return `HAVING ${predicates.join(" AND ")}`;
+}
@@ -4,12 +4,13 @@
 
 import type {
   InsertOperation,
+  OnConflictClause,
   Expression,
   ParameterExpression,
   ConstantExpression,
 } from "@tinqerjs/tinqer";
 import type { SqlContext } from "../types.js";
-import { generateExpression } from "../expression-generator.js";
+import { generateExpression, generateBooleanExpression } from "../expression-generator.js";
 
 function shouldSkipValue(valueExpr: Expression, context: SqlContext): boolean {
   if (valueExpr.type === "param") {
@@ -33,6 +34,137 @@ function shouldSkipValue(valueExpr: Expression, context: SqlContext): boolean {
   return false;
 }
 
+/**
+ * Resolve the array bound to a multi-row INSERT
+ */
+function resolveRows(
+  rowsExpr: ParameterExpression,
+  context: SqlContext,
+): Record<string, unknown>[] {
+  const paramName = rowsExpr.property || rowsExpr.param;
+  const rows = context.params ? context.params[paramName] : undefined;
+
+  if (!Array.isArray(rows)) {
+    throw new Error(`INSERT rows parameter '${paramName}' must be an array`);
+  }
+  if (rows.length === 0) {
+    throw new Error("INSERT must specify at least one row. The rows array was empty.");
+  }
+  for (const row of rows) {
+    if (row === null || typeof row !== "object" || Array.isArray(row)) {
+      throw new Error(`INSERT rows parameter '${paramName}' must contain only objects`);
+    }
+  }
+
+  return rows as Record<string, unknown>[];
+}
+
+/**
+ * Columns for a multi-row INSERT, in first-seen order
+ * A column is skipped only when no row supplies a value for it
+ * Row keys come from runtime data and end up in the SQL text, so each must be a plain identifier
+ */
+function collectRowColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const [column, value] of Object.entries(row)) {
+      if (value !== undefined) {
+        columns.add(validateRowColumn(column));
+      }
+    }
+  }
+  return Array.from(columns);
+}
+
+/**
+ * Reject row keys that are not plain column identifiers
+ */
+function validateRowColumn(column: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(column)) {
+    throw new Error(`INSERT row key '${column}' is not a valid column name`);
+  }
+  return column;
+}
+
+/**
+ * Generate the VALUES tuples for a multi-row INSERT
+ * Each cell binds the expanded parameter <rows>_<index>_<column>
+ * A row that omits a column falls back to the column DEFAULT
+ */
+function generateRowTuples(
+  rowsExpr: ParameterExpression,
+  rows: Record<string, unknown>[],
+  columns: string[],
+  context: SqlContext,
+): string[] {
+  const paramName = rowsExpr.property || rowsExpr.param;
+  return rows.map((row, index) => {
+    const cells = columns.map((column) =>
+      row[column] === undefined
+        ? "DEFAULT"
+        : context.formatParameter(`${paramName}_${index}_${column}`),
+    );
+    return `(${cells.join(", ")})`;
+  });
+}
+
+/**
+ * Generate the ON CONFLICT clause of an INSERT
+ */
+function generateOnConflict(
+  clause: OnConflictClause,
+  operation: InsertOperation,
+  context: SqlContext,
+): string {
+  const target =
+    clause.target.length > 0 ? ` (${clause.target.map((column) => `"${column}"`).join(", ")})` : "";
+
+  if (clause.action === undefined) {
+    throw new Error("onConflict() must be followed by doNothing() or doUpdateSet()");
+  }
+
+  if (clause.action === "nothing") {
+    return ` ON CONFLICT${target} DO NOTHING`;
+  }
+
+  if (!target) {
+    throw new Error(
+      "ON CONFLICT DO UPDATE requires a conflict target, e.g. onConflict((u) => u.email)",
+    );
+  }
+
+  // Lambda parameter 0 is the existing row (the target table), 1 is the EXCLUDED pseudo-row.
+  // Columns are qualified because both rows are in scope inside DO UPDATE.
+  const conflictContext: SqlContext = {
+    ...context,
+    tableAliases: new Map([
+      ["existing", operation.table],
+      ["excluded", "excluded"],
+    ]),
+  };
+
+  const assignments: string[] = [];
+  for (const [column, valueExpr] of Object.entries(clause.assignments?.properties ?? {})) {
+    if (shouldSkipValue(valueExpr, context)) {
+      continue;
+    }
+    assignments.push(`"${column}" = ${generateExpression(valueExpr, conflictContext)}`);
+  }
+
+  if (assignments.length === 0) {
+    throw new Error(
+      "ON CONFLICT DO UPDATE must specify at least one column assignment. All provided values were undefined.",
+    );
+  }
+
+  let sql = ` ON CONFLICT${target} DO UPDATE SET ${assignments.join(", ")}`;
+  if (clause.predicate) {
+    sql += ` WHERE ${generateBooleanExpression(clause.predicate, conflictContext)}`;
+  }
+
+  return sql;
+}
+
 /**
  * Generate INSERT SQL statement
  */
@@ -44,8 +176,14 @@ export function generateInsert(operation: InsertOperation, context: SqlContext):
   // Extract columns and values from the values object expression
   const columns: string[] = [];
   const values: string[] = [];
+  let tuples: string[] = [];
 
-  if (operation.values.type === "object") {
+  if (operation.rows) {
+    const rows = resolveRows(operation.rows, context);
+    const rowColumns = collectRowColumns(rows);
+    columns.push(...rowColumns.map((column) => `"${column}"`));
+    tuples = generateRowTuples(operation.rows, rows, rowColumns, context);
+  } else if (operation.values.type === "object") {
     for (const [column, valueExpr] of Object.entries(operation.values.properties)) {
       if (shouldSkipValue(valueExpr, context)) {
         continue;
@@ -59,7 +197,15 @@ export function generateInsert(operation: InsertOperation, context: SqlContext):
     throw new Error("INSERT must specify at least one column. All provided values were undefined.");
   }
 
-  let sql = `INSERT INTO ${tableName} (${columns.join(", ")}) VALUES (${values.join(", ")})`;
+  if (!operation.rows) {
+    tuples = [`(${values.join(", ")})`];
+  }
+
+  let sql = `INSERT INTO ${tableName} (${columns.join(", ")}) VALUES ${tuples.join(", ")}`;
+
+  if (operation.onConflict) {
+    sql += generateOnConflict(operation.onConflict, operation, context);
+  }
 
   // Add RETURNING clause if specified
   if (operation.returning !== undefined) {
@@ -16,6 +16,7 @@ import type {
 } from "@tinqerjs/tinqer";
 import type { SqlContext, SymbolTable, SourceReference } from "../types.js";
 import { generateSql } from "../sql-generator.js";
+import { generateBooleanExpression } from "../expression-generator.js";
 
 /**
  * Build symbol table from ResultShape (new approach with full fidelity)
@@ -325,12 +326,20 @@ export function generateJoin(operation: JoinOperation, context: SqlContext): str
     return joinClause;
   }
 
+  // Compound keys and predicate joins carry the whole condition
+  if (operation.on) {
+    return `${joinClause} ON ${generateBooleanExpression(operation.on, context)}`;
+  }
+
   // Build ON clause - resolve keys through symbol table if available
   let resolvedOuterKey = operation.outerKey;
   let resolvedOuterAlias = outerAlias;
 
-  // Check if outerKey needs resolution through symbol table
-  if (context.symbolTable) {
+  if (operation.outerKeySource !== undefined) {
+    // Chained JOIN: the outer key was resolved to a column of an earlier table
+    resolvedOuterAlias = allAliases[operation.outerKeySource] ?? outerAlias;
+  } else if (context.symbolTable) {
+    // Check if outerKey needs resolution through symbol table
     const sourceRef = context.symbolTable.entries.get(operation.outerKey);
     if (sourceRef) {
       resolvedOuterKey = sourceRef.columnName;
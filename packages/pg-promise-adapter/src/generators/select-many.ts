@@ -0,0 +1,62 @@
+/**
+ * SELECT MANY generator for array columns
+ */
+
+import type { QueryOperation, SelectManyOperation } from "@tinqerjs/tinqer";
+import type { SqlContext } from "../types.js";
+import { generateValueExpression } from "../expression-generator.js";
+
+/**
+ * Operations that may follow selectMany() over an array column
+ */
+const SUPPORTED_AFTER_SELECT_MANY = ["take", "skip", "distinct"];
+
+/**
+ * Generate the SELECT clause for selectMany() over an array column
+ * u => u.tags becomes SELECT unnest("tags"); a result selector such as
+ * (u, tag) => ({ name: u.name, tag }) projects row columns next to the unnested element
+ */
+export function generateSelectMany(
+  operation: SelectManyOperation,
+  operations: QueryOperation[],
+  context: SqlContext,
+): string {
+  const path = operation.collectionPropertyPath;
+  if (
+    !path ||
+    path.length !== 1 ||
+    operation.usesDefaultIfEmpty ||
+    (operation.collection as QueryOperation).operationType
+  ) {
+    throw new Error(
+      "selectMany() is only supported over an array column (u => u.tags) or as a cross join with another query",
+    );
+  }
+
+  for (const next of operations.slice(operations.indexOf(operation) + 1)) {
+    if (!SUPPORTED_AFTER_SELECT_MANY.includes(next.operationType)) {
+      throw new Error(
+        `${next.operationType}() after selectMany() over an array column is not supported; project the row columns you need in the result selector`,
+      );
+    }
+  }
+
+  const element = `unnest(${generateValueExpression({ type: "column", name: path[0]! }, context)})`;
+  if (!operation.resultBindings || operation.resultBindings.length === 0) {
+    return `SELECT ${element} AS "value"`;
+  }
+
+  const columns = operation.resultBindings.map((binding) => {
+    if (binding.source === "inner") {
+      return `${element} AS "${binding.name}"`;
+    }
+    if (!binding.path || binding.path.length !== 1) {
+      throw new Error(
+        `selectMany() result selectors over an array column can only project row columns, e.g. { ${binding.name}: u.${binding.name} }`,
+      );
+    }
+    const column = generateValueExpression({ type: "column", name: binding.path[0]! }, context);
+    return `${column} AS "${binding.name}"`;
+  });
+  return `SELECT ${columns.join(", ")}`;
+}
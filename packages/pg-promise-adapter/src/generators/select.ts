@@ -4,7 +4,11 @@
 
 import type { SelectOperation, ValueExpression } from "@tinqerjs/tinqer";
 import type { SqlContext } from "../types.js";
-import { generateExpression, generateValueExpression } from "../expression-generator.js";
+import {
+  generateExpression,
+  generateJsonPathExpression,
+  generateValueExpression,
+} from "../expression-generator.js";
 
 /**
  * Generate SELECT clause
@@ -29,6 +33,9 @@ export function generateSelect(operation: SelectOperation, context: SqlContext):
     // Simple column selection
     const column = generateValueExpression(operation.selector as ValueExpression, context);
     return `SELECT ${column}`;
+  } else if (operation.selector.type === "jsonPath") {
+    // JSON value, decoded by the driver with its type
+    return `SELECT ${generateJsonPathExpression(operation.selector, context, true)}`;
   } else {
     // Other value expressions
     const value = generateExpression(operation.selector, context);
@@ -10,12 +10,14 @@ import {
   type QueryBuilder,
   type DatabaseSchema,
   type Insertable,
+  type InsertableWithConflict,
   type InsertableWithReturning,
   type UpdatableWithSet,
   type UpdatableComplete,
   type UpdatableWithReturning,
   type Deletable,
   type DeletableComplete,
+  type DeletableWithReturning,
   type ParseQueryOptions,
   defineSelect,
   defineInsert,
@@ -25,6 +27,7 @@ import {
   type QueryOperation,
   type InsertOperation,
   type UpdateOperation,
+  type DeleteOperation,
   SelectPlanHandle,
   SelectTerminalHandle,
   InsertPlanHandleInitial,
@@ -35,9 +38,22 @@ import {
   UpdatePlanHandleWithReturning,
   DeletePlanHandleInitial,
   DeletePlanHandleComplete,
+  DeletePlanHandleWithReturning,
 } from "@tinqerjs/tinqer";
-import { generateSql } from "./sql-generator.js";
-import type { ExecuteOptions } from "./types.js";
+import {
+  generateSql,
+  generateCountSql,
+  supportsWindowTotal,
+  TOTAL_COUNT_COLUMN,
+} from "./sql-generator.js";
+import { isBackwardSeekPage } from "./generators/seek.js";
+import type {
+  ExecuteOptions,
+  PageOptions,
+  PageResult,
+  StreamOptions,
+  TransactionOptions,
+} from "./types.js";
 
 /**
  * Helper function to expand array parameters into indexed parameters
@@ -50,6 +66,12 @@ function expandArrayParams(params: Record<string, unknown>): Record<string, unkn
     if (Array.isArray(value)) {
       value.forEach((item, index) => {
         expanded[`${key}_${index}`] = item;
+        // Rows of a multi-row INSERT expand one level further, e.g. rows_0_name
+        if (isPlainObject(item)) {
+          for (const [property, propertyValue] of Object.entries(item)) {
+            expanded[`${key}_${index}_${property}`] = propertyValue;
+          }
+        }
       });
     }
   }
@@ -57,6 +79,61 @@ function expandArrayParams(params: Record<string, unknown>): Record<string, unkn
   return expanded;
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * PostgreSQL caps a statement at 65535 bind parameters
+ */
+const MAX_BIND_PARAMETERS = 65535;
+
+/**
+ * Split the params of a multi-row INSERT so that each statement stays under the bind-parameter limit
+ * Returns one params object per statement; an empty rows array yields no statements
+ */
+function chunkInsertRows(
+  operation: InsertOperation,
+  params: Record<string, unknown>,
+): Record<string, unknown>[] {
+  if (!operation.rows) {
+    return [params];
+  }
+
+  const rowsParam = operation.rows.property || operation.rows.param;
+  const rows = params[rowsParam];
+  if (!Array.isArray(rows)) {
+    // Let the generator report the invalid rows parameter
+    return [params];
+  }
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const columns = new Set<string>();
+  for (const row of rows) {
+    if (isPlainObject(row)) {
+      for (const [column, value] of Object.entries(row)) {
+        if (value !== undefined) {
+          columns.add(column);
+        }
+      }
+    }
+  }
+
+  // Every other param may also be bound by the statement (e.g. RETURNING constants)
+  const budget = MAX_BIND_PARAMETERS - (Object.keys(params).length - 1);
+  const rowsPerStatement = Math.max(1, Math.floor(budget / Math.max(columns.size, 1)));
+
+  const chunks: Record<string, unknown>[] = [];
+  for (let start = 0; start < rows.length; start += rowsPerStatement) {
+    chunks.push({ ...params, [rowsParam]: rows.slice(start, start + rowsPerStatement) });
+  }
+  return chunks;
+}
+
 function materializePlan<TParams>(
   plan: {
     finalize(params: TParams): {
@@ -157,6 +234,14 @@ export function toSql<TParams>(
   params: TParams,
 ): { sql: string; params: Record<string, unknown> };
 
+/**
+ * Convert a DELETE plan with RETURNING to SQL string with parameters
+ */
+export function toSql<TResult, TParams>(
+  plan: DeletePlanHandleWithReturning<TResult, TParams>,
+  params: TParams,
+): { sql: string; params: Record<string, unknown> };
+
 /**
  * Convert a SELECT plan (either regular or terminal) to SQL string with parameters
  */
@@ -180,7 +265,8 @@ export function toSql<TParams>(
     | UpdatePlanHandleComplete<unknown, TParams>
     | UpdatePlanHandleWithReturning<unknown, TParams>
     | DeletePlanHandleInitial<unknown, TParams>
-    | DeletePlanHandleComplete<unknown, TParams>,
+    | DeletePlanHandleComplete<unknown, TParams>
+    | DeletePlanHandleWithReturning<unknown, TParams>,
   params: TParams,
 ): { sql: string; params: Record<string, unknown> } {
   const { operation, params: mergedParams } = plan.finalize(params);
@@ -216,12 +302,33 @@ export function finalize<TParams = Record<string, never>>(
 /**
  * Database interface for pg-promise compatibility
  */
-interface PgDatabase {
+export interface PgDatabase {
   any(sql: string, params?: unknown): Promise<unknown[]>;
   one(sql: string, params?: unknown): Promise<unknown>;
   result(sql: string, params?: unknown): Promise<{ rowCount: number }>;
 }
 
+/**
+ * Dedicated connection a stream keeps its cursor on (result of pg-promise `db.connect()`)
+ */
+export interface PgStreamConnection extends PgDatabase {
+  done(): void | Promise<void>;
+}
+
+/**
+ * Database that can hand out a dedicated connection (pg-promise `db`)
+ */
+export interface PgStreamDatabase extends PgDatabase {
+  connect(): Promise<PgStreamConnection>;
+}
+
+/**
+ * Database or task that can open a transaction (pg-promise `db` or `t`)
+ */
+export interface PgTransactionalDatabase extends PgDatabase {
+  tx<T>(callback: (t: PgTransactionalDatabase) => Promise<T>): Promise<T>;
+}
+
 /**
  * Execute a query with params and helpers
  */
@@ -389,7 +496,9 @@ export async function executeSelect<
   }
 
   // Regular query that returns an array
-  return (await db.any(sql, sqlParams)) as ReturnType;
+  const rows = await db.any(sql, sqlParams);
+  // seekBefore pages are fetched in reverse; restore the query's order
+  return (isBackwardSeekPage(operation) ? rows.reverse() : rows) as ReturnType;
 }
 
 /**
@@ -424,6 +533,184 @@ export async function executeSelectSimple<
   return executeSelect(dbClient, schema, builder, {}, options);
 }
 
+/**
+ * Execute one page of a query together with the total row count of the query
+ * The total comes from COUNT(*) OVER() on the page query; distinct and grouped queries,
+ * and pages past the last row, read it from a separate count query
+ * The page adds its own skip() and take(), so the builder must not limit its rows.
+ * A seekBefore page is returned in the query's order, like executeSelect().
+ * @param pageOptions 1-based page number and page size
+ * @returns Promise with the page's rows, the total and whether another page follows
+ */
+export async function executeSelectPage<TSchema, TParams, TRecord>(
+  db: PgDatabase,
+  schema: DatabaseSchema<TSchema>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+    helpers: QueryHelpers,
+  ) => Queryable<TRecord> | OrderedQueryable<TRecord>,
+  params: TParams,
+  pageOptions: PageOptions,
+  options?: ExecuteOptions & ParseQueryOptions,
+): Promise<PageResult<TRecord>> {
+  const { page, pageSize } = pageOptions;
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error(`executeSelectPage() page must be a positive integer, got ${page}`);
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new Error(`executeSelectPage() pageSize must be a positive integer, got ${pageSize}`);
+  }
+
+  const plan = defineSelect(schema, builder, options);
+  if (isTerminalHandle(plan)) {
+    throw new Error("executeSelectPage() requires a query that returns rows");
+  }
+  const basePlan = plan as unknown as SelectPlanHandle<TRecord, TParams>;
+  if (hasRowLimit(basePlan.finalize(params).operation)) {
+    throw new Error(
+      "executeSelectPage() pages the query itself; remove take() and skip() from the builder",
+    );
+  }
+
+  const { operation, params: mergedParams } = basePlan
+    .skip((page - 1) * pageSize)
+    .take(pageSize)
+    .finalize(params);
+  const windowTotal = supportsWindowTotal(operation);
+  const sql = generateSql(operation, mergedParams, { totalCount: windowTotal });
+  const sqlParams = expandArrayParams(mergedParams);
+  if (options?.onSql) {
+    options.onSql({ sql, params: sqlParams });
+  }
+
+  const rows = (await db.any(sql, sqlParams)) as Record<string, unknown>[];
+  let total: number;
+  if (windowTotal && rows.length > 0) {
+    total = Number(rows[0]![TOTAL_COUNT_COLUMN]);
+    for (const row of rows) {
+      delete row[TOTAL_COUNT_COLUMN];
+    }
+  } else if (windowTotal && page === 1) {
+    total = 0;
+  } else {
+    const { operation: countOperation, params: countParams } = basePlan.finalize(params);
+    const countSql = generateCountSql(countOperation, countParams);
+    const countSqlParams = expandArrayParams(countParams);
+    if (options?.onSql) {
+      options.onSql({ sql: countSql, params: countSqlParams });
+    }
+    const countResult = (await db.one(countSql, countSqlParams)) as { count: string };
+    total = parseInt(countResult.count, 10);
+  }
+
+  if (isBackwardSeekPage(operation)) {
+    rows.reverse();
+  }
+
+  return { items: rows as TRecord[], total, page, pageSize, hasNext: page * pageSize < total };
+}
+
+/**
+ * Check whether a query already limits its rows with take() or skip()
+ */
+function hasRowLimit(operation: QueryOperation): boolean {
+  let current: QueryOperation | undefined = operation;
+  while (current) {
+    if (current.operationType === "take" || current.operationType === "skip") {
+      return true;
+    }
+    current = (current as { source?: QueryOperation }).source;
+  }
+  return false;
+}
+
+const DEFAULT_STREAM_BATCH_SIZE = 1000;
+let streamCursorCounter = 0;
+
+/**
+ * Stream the rows of a query through a server-side cursor
+ * Rows are fetched in batches of `batchSize`. A database with connect() gets a dedicated
+ * connection and transaction for the cursor; any other executor (e.g. the one passed to a
+ * withTransaction callback) must already be inside a transaction.
+ * Leaving the loop early closes the cursor.
+ * @returns Async iterable over the query's rows
+ */
+export async function* executeSelectStream<TSchema, TParams, TRecord>(
+  db: PgDatabase | PgStreamDatabase,
+  schema: DatabaseSchema<TSchema>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+    helpers: QueryHelpers,
+  ) => Queryable<TRecord> | OrderedQueryable<TRecord>,
+  params: TParams,
+  options?: StreamOptions & ParseQueryOptions,
+): AsyncIterable<TRecord> {
+  const batchSize = options?.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`executeSelectStream() batchSize must be a positive integer, got ${batchSize}`);
+  }
+
+  const plan = defineSelect(schema, builder, options);
+  if (isTerminalHandle(plan)) {
+    throw new Error("executeSelectStream() requires a query that returns rows");
+  }
+
+  const { operation, sql, expandedParams } = materializePlan(plan, params);
+  if (options?.onSql) {
+    options.onSql({ sql, params: expandedParams });
+  }
+
+  const cursor = `"tinqer_stream_${++streamCursorCounter}"`;
+  const connection = "connect" in db ? await db.connect() : null;
+  const executor = connection ?? db;
+  let declared = false;
+  let failed = false;
+
+  try {
+    if (connection) {
+      await connection.result("BEGIN");
+    }
+    await executor.result(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${sql}`, expandedParams);
+    declared = true;
+
+    // seekBefore pages are fetched in reverse; the limit keeps the buffered page small
+    const backwardRows: unknown[] = [];
+    const backward = isBackwardSeekPage(operation);
+    for (;;) {
+      const rows = await executor.any(`FETCH ${batchSize} FROM ${cursor}`);
+      if (backward) {
+        backwardRows.push(...rows);
+      } else {
+        for (const row of rows) {
+          yield row as TRecord;
+        }
+      }
+      if (rows.length < batchSize) {
+        break;
+      }
+    }
+    for (const row of backwardRows.reverse()) {
+      yield row as TRecord;
+    }
+  } catch (error) {
+    failed = true;
+    throw error;
+  } finally {
+    try {
+      // Ending the transaction closes the cursor; a failed transaction rejects CLOSE
+      if (connection) {
+        await connection.result(failed ? "ROLLBACK" : "COMMIT");
+      } else if (declared && !failed) {
+        await executor.result(`CLOSE ${cursor}`);
+      }
+    } finally {
+      await connection?.done();
+    }
+  }
+}
+
 // ==================== INSERT Execution ====================
 
 /**
@@ -432,7 +719,10 @@ export async function executeSelectSimple<
 export async function executeInsert<TSchema, TParams, TTable>(
   db: PgDatabase,
   schema: DatabaseSchema<TSchema>,
-  builder: (queryBuilder: QueryBuilder<TSchema>, params: TParams) => Insertable<TTable>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+  ) => Insertable<TTable> | InsertableWithConflict<TTable>,
   params: TParams,
   options?: ExecuteOptions & ParseQueryOptions,
 ): Promise<number>;
@@ -457,7 +747,9 @@ export async function executeInsert<TSchema, TParams, TTable, TReturning>(
 export async function executeInsert<TSchema, TTable>(
   db: PgDatabase,
   schema: DatabaseSchema<TSchema>,
-  builder: (queryBuilder: QueryBuilder<TSchema>) => Insertable<TTable>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+  ) => Insertable<TTable> | InsertableWithConflict<TTable>,
 ): Promise<number>;
 
 /**
@@ -482,7 +774,10 @@ export async function executeInsert<
     queryBuilder: QueryBuilder<TSchema>,
     params: TParams,
     helpers?: QueryHelpers,
-  ) => Insertable<TTable> | InsertableWithReturning<TTable, TReturning>,
+  ) =>
+    | Insertable<TTable>
+    | InsertableWithConflict<TTable>
+    | InsertableWithReturning<TTable, TReturning>,
   params?: TParams,
   options?: ExecuteOptions & ParseQueryOptions,
 ): Promise<number | TReturning[]> {
@@ -501,21 +796,49 @@ export async function executeInsert<
     throw error;
   }
 
-  const { operation, sql, expandedParams } = materializePlan(plan, normalizedParams);
+  const { operation, params: mergedParams } = plan.finalize(normalizedParams);
+  const insertOperation = operation as InsertOperation;
 
-  if (options?.onSql) {
-    options.onSql({ sql, params: expandedParams });
-  }
+  // Multi-row inserts run as one statement per chunk of rows
+  let returnedRows: TReturning[] = [];
+  let rowCount = 0;
 
-  const insertOperation = operation as InsertOperation;
+  const runChunks = async (
+    connection: PgDatabase,
+    chunks: Record<string, unknown>[],
+  ): Promise<void> => {
+    for (const statementParams of chunks) {
+      const sql = generateSql(operation, statementParams);
+      const expandedParams = expandArrayParams(statementParams);
 
-  if (insertOperation.returning) {
-    const rows = await db.any(sql, expandedParams);
-    return rows as TReturning[];
+      if (options?.onSql) {
+        options.onSql({ sql, params: expandedParams });
+      }
+
+      if (insertOperation.returning) {
+        const rows = await connection.any(sql, expandedParams);
+        returnedRows = returnedRows.concat(rows as TReturning[]);
+      } else {
+        const result = await connection.result(sql, expandedParams);
+        rowCount += result.rowCount;
+      }
+    }
+  };
+
+  const chunks = chunkInsertRows(insertOperation, mergedParams);
+  if (chunks.length > 1) {
+    // All chunks succeed or none do; pg-promise uses a savepoint inside an open transaction
+    if (typeof (db as Partial<PgTransactionalDatabase>).tx !== "function") {
+      throw new Error(
+        `A multi-row INSERT that needs ${chunks.length} statements must run in a transaction; pass a database or transaction with tx()`,
+      );
+    }
+    await (db as PgTransactionalDatabase).tx((tx) => runChunks(tx, chunks));
+  } else {
+    await runChunks(db, chunks);
   }
 
-  const result = await db.result(sql, expandedParams);
-  return result.rowCount;
+  return insertOperation.returning ? returnedRows : rowCount;
 }
 
 // ==================== UPDATE Execution ====================
@@ -623,9 +946,9 @@ export async function executeUpdate<
 // ==================== DELETE Execution ====================
 
 /**
- * Execute DELETE, return row count
+ * Execute DELETE with params, return row count
  */
-export async function executeDelete<TSchema, TTable = unknown, TParams = Record<string, never>>(
+export async function executeDelete<TSchema, TParams, TTable>(
   db: PgDatabase,
   schema: DatabaseSchema<TSchema>,
   builder: (
@@ -633,9 +956,60 @@ export async function executeDelete<TSchema, TTable = unknown, TParams = Record<
     params: TParams,
     helpers?: QueryHelpers,
   ) => Deletable<TTable> | DeletableComplete<TTable>,
+  params: TParams,
+  options?: ExecuteOptions & ParseQueryOptions,
+): Promise<number>;
+
+/**
+ * Execute DELETE with params and RETURNING
+ */
+export async function executeDelete<TSchema, TParams, TTable, TReturning>(
+  db: PgDatabase,
+  schema: DatabaseSchema<TSchema>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+    helpers?: QueryHelpers,
+  ) => DeletableWithReturning<TTable, TReturning>,
+  params: TParams,
+  options?: ExecuteOptions & ParseQueryOptions,
+): Promise<TReturning[]>;
+
+/**
+ * Execute DELETE without params, return row count
+ */
+export async function executeDelete<TSchema, TTable>(
+  db: PgDatabase,
+  schema: DatabaseSchema<TSchema>,
+  builder: (queryBuilder: QueryBuilder<TSchema>) => Deletable<TTable> | DeletableComplete<TTable>,
+): Promise<number>;
+
+/**
+ * Execute DELETE without params, with RETURNING
+ */
+export async function executeDelete<TSchema, TTable, TReturning>(
+  db: PgDatabase,
+  schema: DatabaseSchema<TSchema>,
+  builder: (queryBuilder: QueryBuilder<TSchema>) => DeletableWithReturning<TTable, TReturning>,
+): Promise<TReturning[]>;
+
+// Implementation
+export async function executeDelete<
+  TSchema,
+  TTable = unknown,
+  TReturning = unknown,
+  TParams = Record<string, never>,
+>(
+  db: PgDatabase,
+  schema: DatabaseSchema<TSchema>,
+  builder: (
+    queryBuilder: QueryBuilder<TSchema>,
+    params: TParams,
+    helpers?: QueryHelpers,
+  ) => Deletable<TTable> | DeletableComplete<TTable> | DeletableWithReturning<TTable, TReturning>,
   params?: TParams,
   options?: ExecuteOptions & ParseQueryOptions,
-): Promise<number> {
+): Promise<number | TReturning[]> {
   const normalizedParams = params || ({} as TParams);
 
   // Create plan using defineDelete with builder function
@@ -656,9 +1030,80 @@ export async function executeDelete<TSchema, TTable = unknown, TParams = Record<
     options.onSql({ sql, params: sqlParams });
   }
 
+  if ((operation as DeleteOperation).returning) {
+    const rows = await db.any(sql, sqlParams);
+    return rows as TReturning[];
+  }
+
   const result = await db.result(sql, sqlParams);
   return result.rowCount;
 }
 
+// ==================== Transactions ====================
+
+const ISOLATION_LEVELS: Record<NonNullable<TransactionOptions["isolationLevel"]>, string> = {
+  "read uncommitted": "READ UNCOMMITTED",
+  "read committed": "READ COMMITTED",
+  "repeatable read": "REPEATABLE READ",
+  serializable: "SERIALIZABLE",
+};
+
+// Executors handed out by withTransaction, used to detect nested calls
+const activeTransactions = new WeakSet<object>();
+
+function formatTransactionMode(options?: TransactionOptions): string | undefined {
+  const modes: string[] = [];
+
+  if (options?.isolationLevel !== undefined) {
+    const level = ISOLATION_LEVELS[options.isolationLevel];
+    if (!level) {
+      throw new Error(`Unknown isolation level: ${options.isolationLevel}`);
+    }
+    modes.push(`ISOLATION LEVEL ${level}`);
+  }
+  if (options?.readOnly) {
+    modes.push("READ ONLY");
+  }
+
+  return modes.length > 0 ? modes.join(", ") : undefined;
+}
+
+/**
+ * Run a callback inside a transaction
+ * The callback receives a transaction-scoped executor that every execute* function accepts.
+ * The transaction commits when the callback resolves and rolls back when it throws.
+ * Passing the executor to a nested withTransaction call opens a savepoint instead.
+ */
+export async function withTransaction<T>(
+  db: PgTransactionalDatabase,
+  callback: (tx: PgTransactionalDatabase) => Promise<T>,
+  options?: TransactionOptions,
+): Promise<T> {
+  const mode = formatTransactionMode(options);
+  if (mode && activeTransactions.has(db)) {
+    throw new Error("Transaction options can only be set on the outermost transaction");
+  }
+
+  // pg-promise commits or rolls back based on the callback and uses savepoints for nested tx()
+  return db.tx(async (tx) => {
+    activeTransactions.add(tx);
+    try {
+      if (mode) {
+        await tx.result(`SET TRANSACTION ${mode}`);
+      }
+      return await callback(tx);
+    } finally {
+      activeTransactions.delete(tx);
+    }
+  });
+}
+
 // Export types
-export type { SqlResult, ExecuteOptions } from "./types.js";
+export type {
+  SqlResult,
+  ExecuteOptions,
+  PageOptions,
+  PageResult,
+  StreamOptions,
+  TransactionOptions,
+} from "./types.js";
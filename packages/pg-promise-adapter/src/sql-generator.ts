@@ -11,8 +11,10 @@ import type {
   ThenByOperation,
   TakeOperation,
   SkipOperation,
+  SeekOperation,
   DistinctOperation,
   GroupByOperation,
+  HavingOperation,
   CountOperation,
   SumOperation,
   AverageOperation,
@@ -25,11 +27,14 @@ import type {
   LastOperation,
   LastOrDefaultOperation,
   JoinOperation,
+  SelectManyOperation,
   AnyOperation,
   AllOperation,
   InsertOperation,
   UpdateOperation,
   DeleteOperation,
+  ExistsExpression,
+  ScalarSubqueryExpression,
 } from "@tinqerjs/tinqer";
 import type { SqlContext } from "./types.js";
 import { generateFrom } from "./generators/from.js";
@@ -39,8 +44,9 @@ import { generateOrderBy } from "./generators/orderby.js";
 import { generateThenBy } from "./generators/thenby.js";
 import { generateTake } from "./generators/take.js";
 import { generateSkip } from "./generators/skip.js";
+import { generateSeek, isBackwardSeekPage } from "./generators/seek.js";
 import { generateDistinct } from "./generators/distinct.js";
-import { generateGroupBy } from "./generators/groupby.js";
+import { generateGroupBy, generateHaving } from "./generators/groupby.js";
 import { generateCount } from "./generators/count.js";
 import { generateSum } from "./generators/sum.js";
 import { generateAverage } from "./generators/average.js";
@@ -50,14 +56,34 @@ import { generateFirst } from "./generators/first.js";
 import { generateSingle } from "./generators/single.js";
 import { generateLast } from "./generators/last.js";
 import { generateJoin } from "./generators/join.js";
+import { generateSelectMany } from "./generators/select-many.js";
 import { generateInsert } from "./generators/insert.js";
 import { generateUpdate } from "./generators/update.js";
 import { generateDelete } from "./generators/delete.js";
+import { generateSetOperation, isSetOperation } from "./generators/set-operation.js";
+import { generateWith, getCommonTableExpressions } from "./generators/with.js";
+
+/**
+ * Column that carries the window-function total of a paged query
+ */
+export const TOTAL_COUNT_COLUMN = "__total";
+
+/**
+ * Options for top-level SQL generation
+ */
+export interface GenerateSqlOptions {
+  /** Add COUNT(*) OVER() to the SELECT list, as the TOTAL_COUNT_COLUMN column */
+  totalCount?: boolean;
+}
 
 /**
  * Generate SQL from a QueryOperation tree
  */
-export function generateSql(operation: QueryOperation, params: unknown): string {
+export function generateSql(
+  operation: QueryOperation,
+  params: unknown,
+  options: GenerateSqlOptions = {},
+): string {
   const context: SqlContext = {
     tableAliases: new Map(),
     aliasCounter: 0,
@@ -65,6 +91,47 @@ export function generateSql(operation: QueryOperation, params: unknown): string
     params: params as Record<string, unknown>,
   };
 
+  // CTEs declared with q.with() / q.withRecursive() prefix the whole statement
+  const ctes = getCommonTableExpressions(operation);
+  const statement = generateStatement(operation, context, options);
+  return ctes ? `${generateWith(ctes, context)} ${statement}` : statement;
+}
+
+/**
+ * Generate a query counting every row of a QueryOperation tree
+ */
+export function generateCountSql(operation: QueryOperation, params: unknown): string {
+  return `SELECT COUNT(*) AS "count" FROM (${generateSql(operation, params)}) AS "counted"`;
+}
+
+/**
+ * Check whether COUNT(*) OVER() gives the row count of a query
+ * Window functions run before DISTINCT, so distinct and grouped queries are counted
+ * with a separate query instead
+ */
+export function supportsWindowTotal(operation: QueryOperation): boolean {
+  return (
+    !isSetOperation(operation) &&
+    !collectOperations(operation).some(
+      (op) => op.operationType === "groupBy" || op.operationType === "distinct",
+    )
+  );
+}
+
+/**
+ * Generate the statement for a QueryOperation tree, without its WITH clause
+ */
+function generateStatement(
+  operation: QueryOperation,
+  context: SqlContext,
+  options: GenerateSqlOptions = {},
+): string {
+  // Set operations produce a compound SELECT; anything chained after them
+  // has already been moved into an outer query over a derived table
+  if (isSetOperation(operation)) {
+    return generateSetOperation(operation, context);
+  }
+
   // Collect all operations in the chain
   const operations = collectOperations(operation);
 
@@ -148,9 +215,18 @@ export function generateSql(operation: QueryOperation, params: unknown): string
   // Check if we have a JOIN with result selector but no explicit SELECT
   const hasJoinWithResultSelector = joinOps.some((op) => op.resultSelector);
   const selectOp = operations.find((op) => op.operationType === "select") as SelectOperation;
+  const selectManyOp = operations.find(
+    (op) => op.operationType === "selectMany",
+  ) as SelectManyOperation;
 
   // Generate SELECT clause
-  if (countOp) {
+  if (selectManyOp) {
+    // Array columns unnest into one row per element
+    const selectClause = generateSelectMany(selectManyOp, operations, context);
+    fragments.push(
+      distinctKeyword ? selectClause.replace("SELECT", `SELECT ${distinctKeyword}`) : selectClause,
+    );
+  } else if (countOp) {
     fragments.push(`SELECT ${generateCount(countOp, context)}`);
   } else if (sumOp) {
     fragments.push(`SELECT ${generateSum(sumOp, context)}`);
@@ -186,6 +262,10 @@ export function generateSql(operation: QueryOperation, params: unknown): string
     fragments.push(distinctKeyword ? `SELECT ${distinctKeyword} *` : "SELECT *");
   }
 
+  if (options.totalCount) {
+    fragments[fragments.length - 1] += `, COUNT(*) OVER() AS "${TOTAL_COUNT_COLUMN}"`;
+  }
+
   // Add FROM clause
   fragments.push(fromClause);
 
@@ -217,6 +297,12 @@ export function generateSql(operation: QueryOperation, params: unknown): string
     wherePredicates.push(generateBooleanExpression(countOp.predicate, context));
   }
 
+  // Keyset pagination compares the ordering keys with the cursor
+  const seekOp = operations.find((op) => op.operationType === "seek") as SeekOperation;
+  if (seekOp) {
+    wherePredicates.push(generateSeek(seekOp, operations, context));
+  }
+
   // Add WHERE clause if we have any predicates
   if (wherePredicates.length > 0) {
     fragments.push(`WHERE ${wherePredicates.join(" AND ")}`);
@@ -227,12 +313,18 @@ export function generateSql(operation: QueryOperation, params: unknown): string
     fragments.push(generateGroupBy(groupByOp, context));
   }
 
+  // Process HAVING (filters on aggregates after grouping)
+  const havingOps = operations.filter((op) => op.operationType === "having") as HavingOperation[];
+  if (havingOps.length > 0) {
+    fragments.push(generateHaving(havingOps, context));
+  }
+
   // Process ORDER BY and THEN BY
   const orderByOp = operations.find((op) => op.operationType === "orderBy") as OrderByOperation;
 
   if (orderByOp) {
-    // Check if we need to reverse for LAST operation
-    const shouldReverse = !!lastOp;
+    // Check if we need to reverse for LAST operation, or to read a seekBefore page from the cursor
+    const shouldReverse = !!lastOp || isBackwardSeekPage(operation);
 
     let orderByClause = generateOrderBy(
       {
@@ -317,6 +409,66 @@ function generateExistsQuery(
   operations: QueryOperation[],
   terminalOp: AnyOperation | AllOperation,
   context: SqlContext,
+): string {
+  const innerQuery = generateExistsSubquery(operations, terminalOp, context);
+
+  // Wrap in EXISTS/NOT EXISTS with CASE WHEN for boolean result
+  if (terminalOp.operationType === "any") {
+    return `SELECT CASE WHEN EXISTS(${innerQuery}) THEN 1 ELSE 0 END`;
+  } else {
+    // For ALL: NOT EXISTS(SELECT 1 WHERE NOT predicate)
+    // But we already added the NOT to the predicate above
+    return `SELECT CASE WHEN NOT EXISTS(${innerQuery}) THEN 1 ELSE 0 END`;
+  }
+}
+
+/**
+ * Generate a correlated EXISTS / NOT EXISTS predicate for a subquery in a lambda
+ */
+export function generateExistsPredicate(expr: ExistsExpression, context: SqlContext): string {
+  // The subquery gets its own aliases; outer references are already qualified
+  const subqueryContext: SqlContext = {
+    tableAliases: new Map(),
+    aliasCounter: 0,
+    formatParameter: context.formatParameter,
+    params: context.params,
+  };
+  const innerQuery = generateExistsSubquery(
+    collectOperations(expr.subquery),
+    expr.subquery,
+    subqueryContext,
+  );
+
+  // ALL is NOT EXISTS (rows failing the predicate); negation flips either form
+  const notExists = (expr.subquery.operationType === "all") !== (expr.negated ?? false);
+  return `${notExists ? "NOT EXISTS" : "EXISTS"} (${innerQuery})`;
+}
+
+/**
+ * Generate a correlated scalar subquery (COUNT/SUM/AVG/MIN/MAX or a single value) for a lambda
+ */
+export function generateScalarSubquery(
+  expr: ScalarSubqueryExpression,
+  context: SqlContext,
+): string {
+  // generateSql gives the subquery its own aliases; outer references are already qualified
+  return `(${generateSql(expr.subquery, context.params)})`;
+}
+
+/**
+ * Generate the single-column subquery an IN / NOT IN predicate tests against
+ */
+export function generateInSubquery(subquery: QueryOperation, context: SqlContext): string {
+  return `(${generateSql(subquery, context.params)})`;
+}
+
+/**
+ * Generate the inner SELECT 1 query tested by EXISTS for ANY/ALL operations
+ */
+function generateExistsSubquery(
+  operations: QueryOperation[],
+  terminalOp: AnyOperation | AllOperation,
+  context: SqlContext,
 ): string {
   const fragments: string[] = [];
 
@@ -363,16 +515,7 @@ function generateExistsQuery(
     fragments.push(`WHERE ${whereClause}`);
   }
 
-  const innerQuery = fragments.join(" ");
-
-  // Wrap in EXISTS/NOT EXISTS with CASE WHEN for boolean result
-  if (terminalOp.operationType === "any") {
-    return `SELECT CASE WHEN EXISTS(${innerQuery}) THEN 1 ELSE 0 END`;
-  } else {
-    // For ALL: NOT EXISTS(SELECT 1 WHERE NOT predicate)
-    // But we already added the NOT to the predicate above
-    return `SELECT CASE WHEN NOT EXISTS(${innerQuery}) THEN 1 ELSE 0 END`;
-  }
+  return fragments.join(" ");
 }
 
 /**
@@ -58,6 +58,41 @@ export interface ExecuteOptions {
   onSql?: (result: SqlResult<Record<string, unknown>, unknown>) => void;
 }
 
+/**
+ * Options for executeSelectStream
+ */
+export interface StreamOptions extends ExecuteOptions {
+  batchSize?: number; // Rows read per FETCH from the server-side cursor (default 1000)
+}
+
+/**
+ * Page requested from executeSelectPage
+ */
+export interface PageOptions {
+  page: number; // 1-based page number
+  pageSize: number;
+}
+
+/**
+ * One page of rows together with the total row count of the query
+ */
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasNext: boolean;
+}
+
+/**
+ * Options for withTransaction
+ * Only the outermost transaction accepts options; nested calls run in a savepoint
+ */
+export interface TransactionOptions {
+  isolationLevel?: "read uncommitted" | "read committed" | "repeatable read" | "serializable";
+  readOnly?: boolean; // Open the transaction as READ ONLY
+}
+
 /**
  * SQL fragment for building queries
  */
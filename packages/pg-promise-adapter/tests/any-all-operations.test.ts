@@ -15,8 +15,16 @@ interface User {
   isActive: boolean;
 }
 
+interface Order {
+  id: number;
+  userId: number;
+  amount: number;
+  paid: boolean;
+}
+
 interface Schema {
-  users: User;
+  users: User & { managerId: number | null };
+  orders: Order;
 }
 
 const schema = createSchema<Schema>();
@@ -155,4 +163,103 @@ describe("ANY and ALL Operations", () => {
       expect(result.params).to.deep.equal({});
     });
   });
+
+  describe("Correlated subqueries in WHERE", () => {
+    it("should generate EXISTS for any() on a nested query", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").where((u) => q.from("orders").any((o) => o.userId === u.id && !o.paid)),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE ("userId" = "users"."id" AND NOT "paid"))',
+      );
+      expect(result.params).to.deep.equal({});
+    });
+
+    it("should generate NOT EXISTS for negated any()", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").where((u) => !q.from("orders").any((o) => o.userId === u.id)),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE NOT EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE "userId" = "users"."id")',
+      );
+    });
+
+    it("should generate NOT EXISTS with a negated predicate for all()", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .where((u) => q.from("orders").all((o) => o.userId !== u.id || o.amount > 100)),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE NOT EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE NOT (("userId" != "users"."id" OR "amount" > $(__p1))))',
+      );
+      expect(result.params).to.deep.equal({ __p1: 100 });
+    });
+
+    it("should keep outer and inner rows apart when correlating a table with itself", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .where((u) => q.from("users").any((m) => m.id === u.managerId && !m.isActive))
+            .select((u) => u.name),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT "name" FROM "users" WHERE EXISTS (SELECT 1 FROM "users" AS "s1" WHERE ("id" = "users"."managerId" AND NOT "isActive"))',
+      );
+    });
+
+    it("should qualify references to an enclosing subquery by its alias", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .where((u) =>
+              q
+                .from("users")
+                .any(
+                  (m) =>
+                    m.id === u.managerId &&
+                    q.from("orders").any((o) => o.userId === m.id && o.amount > u.age),
+                ),
+            ),
+        ),
+        {},
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE EXISTS (SELECT 1 FROM "users" AS "s1" WHERE ("id" = "users"."managerId" AND EXISTS (SELECT 1 FROM "orders" AS "s2" WHERE ("userId" = "s1"."id" AND "amount" > "users"."age"))))',
+      );
+    });
+
+    it("should share parameters between the outer query and the subquery", () => {
+      const result = toSql(
+        defineSelect(schema, (q, p: { minAge: number }) =>
+          q.from("users").where(
+            (u) =>
+              u.age >= p.minAge &&
+              q
+                .from("orders")
+                .where((o) => o.paid)
+                .any((o) => o.userId === u.id && o.amount > 50),
+          ),
+        ),
+        { minAge: 21 },
+      );
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE ("age" >= $(minAge) AND EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE "paid" AND ("userId" = "users"."id" AND "amount" > $(__p1))))',
+      );
+      expect(result.params).to.deep.equal({ minAge: 21, __p1: 50 });
+    });
+  });
 });
@@ -0,0 +1,148 @@
+/**
+ * Tests for PostgreSQL array column SQL generation
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, defineUpdate, createSchema } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+
+interface Schema {
+  users: {
+    id: number;
+    name: string;
+    tags: string[];
+    roles: string[];
+  };
+}
+
+const schema = createSchema<Schema>({ arrayColumns: { users: ["tags", "roles"] } });
+
+describe("Array Columns - SQL Generation", () => {
+  it("should generate = ANY for includes() on an array column", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { role: string }) =>
+        q
+          .from("users")
+          .where((u) => u.tags.includes("admin") && u.roles.includes(params.role))
+          .select((u) => ({ id: u.id })),
+      ),
+      { role: "editor" },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "id" AS "id" FROM "users" WHERE ($(__p1) = ANY("tags") AND $(role) = ANY("roles"))`,
+    );
+    expect(result.params).to.deep.equal({ role: "editor", __p1: "admin" });
+  });
+
+  it("should keep LIKE for includes() on text columns", () => {
+    const result = toSql(
+      defineSelect(schema, (q) => q.from("users").where((u) => u.name.includes("adm"))),
+      {},
+    );
+
+    expect(result.sql).to.equal(`SELECT * FROM "users" WHERE "name" LIKE '%' || $(__p1) || '%'`);
+  });
+
+  it("should generate && and @> for overlaps() and containsAll()", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { wanted: string[] }, h) =>
+        q
+          .from("users")
+          .where(
+            (u) =>
+              h.functions.overlaps(u.tags, params.wanted) &&
+              h.functions.containsAll(u.roles, ["reader", "writer"]),
+          ),
+      ),
+      { wanted: ["a", "b"] },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "users" WHERE ("tags" && $(wanted) AND "roles" @> $(__p1))`,
+    );
+    expect(result.params).to.deep.include({ __p1: ["reader", "writer"] });
+  });
+
+  it("should generate cardinality for length on an array column", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .where((u) => u.tags.length > 0)
+          .orderByDescending((u) => u.roles.length)
+          .select((u) => ({ name: u.name, tagCount: u.tags.length })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "name" AS "name", cardinality("tags") AS "tagCount" FROM "users" WHERE cardinality("tags") > $(__p1) ORDER BY cardinality("roles") DESC`,
+    );
+  });
+
+  it("should resolve array columns in UPDATE predicates", () => {
+    const result = toSql(
+      defineUpdate(schema, (q) =>
+        q
+          .update("users")
+          .set({ name: "Admin" })
+          .where((u) => u.roles.includes("admin")),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(`UPDATE "users" SET "name" = $(__p1) WHERE $(__p2) = ANY("roles")`);
+  });
+
+  it("should unnest an array column in selectMany()", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .where((u) => u.id > 10)
+          .selectMany((u) => u.tags)
+          .distinct(),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT DISTINCT unnest("tags") AS "value" FROM "users" WHERE "id" > $(__p1)`,
+    );
+  });
+
+  it("should project row columns next to the unnested element", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .selectMany(
+            (u) => u.tags,
+            (u, tag) => ({ name: u.name, tag }),
+          )
+          .take(10),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "name" AS "name", unnest("tags") AS "tag" FROM "users" LIMIT $(__p1)`,
+    );
+  });
+
+  it("should reject operations chained after selectMany() over an array column", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .selectMany((u) => u.tags)
+            .count(),
+        ),
+        {},
+      ),
+    ).to.throw("count() after selectMany() over an array column is not supported");
+  });
+});
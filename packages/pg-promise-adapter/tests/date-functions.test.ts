@@ -0,0 +1,105 @@
+/**
+ * Tests for Date getter and date helper translation to PostgreSQL date functions
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+import { schema } from "./test-schema.js";
+
+describe("Date function translation", () => {
+  it("should translate Date getters with a 0-based month", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("events").select((e) => ({
+          year: e.startDate.getFullYear(),
+          month: e.startDate.getMonth(),
+          day: e.startDate.getDate(),
+          hour: e.startDate.getHours(),
+          minute: e.startDate.getMinutes(),
+          second: e.startDate.getSeconds(),
+        })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT CAST(EXTRACT(YEAR FROM "startDate") AS INTEGER) AS "year", (CAST(EXTRACT(MONTH FROM "startDate") AS INTEGER) - 1) AS "month", CAST(EXTRACT(DAY FROM "startDate") AS INTEGER) AS "day", CAST(EXTRACT(HOUR FROM "startDate") AS INTEGER) AS "hour", CAST(EXTRACT(MINUTE FROM "startDate") AS INTEGER) AS "minute", CAST(FLOOR(EXTRACT(SECOND FROM "startDate")) AS INTEGER) AS "second" FROM "events"`,
+    );
+  });
+
+  it("should translate Date getters in WHERE", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("events")
+          .where((e) => e.startDate.getFullYear() == 2024 && e.startDate.getMonth() == 0),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "events" WHERE (CAST(EXTRACT(YEAR FROM "startDate") AS INTEGER) = $(__p1) AND (CAST(EXTRACT(MONTH FROM "startDate") AS INTEGER) - 1) = $(__p2))`,
+    );
+    expect(result.params).to.deep.equal({ __p1: 2024, __p2: 0 });
+  });
+
+  it("should translate dateAdd with literal and parameter amounts", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { days: number }, h) =>
+        q
+          .from("events")
+          .where((e) => h.functions.dateAdd(e.startDate, "day", params.days) > h.functions.now())
+          .select((e) => ({ reminder: h.functions.dateAdd(e.startDate, "hour", -2) })),
+      ),
+      { days: 7 },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT ("startDate" + $(__p1) * INTERVAL '1 hour') AS "reminder" FROM "events" WHERE ("startDate" + $(days) * INTERVAL '1 day') > NOW()`,
+    );
+    expect(result.params).to.deep.equal({ days: 7, __p1: -2 });
+  });
+
+  it("should translate dateTrunc in GROUP BY and ORDER BY", () => {
+    const result = toSql(
+      defineSelect(schema, (q, _params, h) =>
+        q
+          .from("events")
+          .groupBy((e) => h.functions.dateTrunc("month", e.startDate))
+          .select((g) => ({ month: g.key, count: g.count() }))
+          .orderBy((r) => r.month),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT DATE_TRUNC('month', "startDate") AS "month", COUNT(*) AS "count" FROM "events" GROUP BY DATE_TRUNC('month', "startDate") ORDER BY "month" ASC`,
+    );
+  });
+
+  it("should translate dateTrunc to the hour", () => {
+    const result = toSql(
+      defineSelect(schema, (q, _params, h) =>
+        q.from("events").select((e) => ({ slot: h.functions.dateTrunc("hour", e.startDate) })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(`SELECT DATE_TRUNC('hour', "startDate") AS "slot" FROM "events"`);
+  });
+
+  it("should reject a date unit that is not a string literal", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q, params: { unit: "day" }, h) =>
+          q
+            .from("events")
+            .select((e) => ({ due: h.functions.dateAdd(e.startDate, params.unit, 1) })),
+        ),
+        { unit: "day" },
+      ),
+    ).to.throw("Failed to parse query");
+  });
+});
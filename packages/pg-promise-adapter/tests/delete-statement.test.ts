@@ -146,6 +146,51 @@ describe("DELETE Statement Generation", () => {
     });
   });
 
+  describe("DELETE with RETURNING", () => {
+    it("should generate DELETE with RETURNING single column", () => {
+      const result = toSql(
+        defineDelete(schema, (q) =>
+          q
+            .deleteFrom("users")
+            .where((u) => u.isDeleted === true)
+            .returning((u) => u.id),
+        ),
+        {},
+      );
+
+      assert.equal(result.sql, `DELETE FROM "users" WHERE "isDeleted" = $(__p1) RETURNING "id"`);
+    });
+
+    it("should generate DELETE with RETURNING multiple columns", () => {
+      const result = toSql(
+        defineDelete(schema, (q, p: { minAge: number }) =>
+          q
+            .deleteFrom("users")
+            .where((u) => u.age > p.minAge)
+            .returning((u) => ({ id: u.id, name: u.name })),
+        ),
+        { minAge: 90 },
+      );
+
+      assert.equal(
+        result.sql,
+        `DELETE FROM "users" WHERE "age" > $(minAge) RETURNING "id" AS "id", "name" AS "name"`,
+      );
+      assert.deepEqual(result.params, { minAge: 90 });
+    });
+
+    it("should generate DELETE with RETURNING all columns (*)", () => {
+      const result = toSql(
+        defineDelete(schema, (q) => q.deleteFrom("users").allowFullTableDelete()).returning(
+          (u) => u,
+        ),
+        {},
+      );
+
+      assert.equal(result.sql, `DELETE FROM "users" RETURNING *`);
+    });
+  });
+
   describe("DELETE with comparison operators", () => {
     it("should handle greater than", () => {
       const result = toSql(
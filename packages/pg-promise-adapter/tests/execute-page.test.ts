@@ -0,0 +1,167 @@
+/**
+ * Tests for executeSelectPage with a recording pg-promise stand-in
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { executeSelectPage, type PgDatabase } from "../dist/index.js";
+import { schema } from "./test-schema.js";
+
+// Answers page queries with the given rows and count queries with the given count
+function createRecordingDb(
+  log: string[],
+  rows: Record<string, unknown>[],
+  count = "0",
+): PgDatabase {
+  return {
+    async any(sql: string) {
+      log.push(sql);
+      return rows.map((row) => ({ ...row }));
+    },
+    async one(sql: string) {
+      log.push(sql);
+      return { count };
+    },
+    async result(sql: string) {
+      log.push(sql);
+      return { rowCount: 0 };
+    },
+  };
+}
+
+describe("executeSelectPage", () => {
+  it("should read the total from COUNT(*) OVER() in one round trip", async () => {
+    const log: string[] = [];
+    const db = createRecordingDb(log, [
+      { id: 11, name: "Kim", __total: "23" },
+      { id: 12, name: "Lee", __total: "23" },
+    ]);
+
+    const result = await executeSelectPage(
+      db,
+      schema,
+      (q, p: { minAge: number }) =>
+        q
+          .from("users")
+          .where((u) => u.age >= p.minAge)
+          .orderBy((u) => u.id),
+      { minAge: 18 },
+      { page: 2, pageSize: 10 },
+    );
+
+    expect(log).to.deep.equal([
+      'SELECT *, COUNT(*) OVER() AS "__total" FROM "users" WHERE "age" >= $(minAge) ORDER BY "id" ASC LIMIT $(__p2) OFFSET $(__p1)',
+    ]);
+    expect(result).to.deep.equal({
+      items: [
+        { id: 11, name: "Kim" },
+        { id: 12, name: "Lee" },
+      ],
+      total: 23,
+      page: 2,
+      pageSize: 10,
+      hasNext: true,
+    });
+  });
+
+  it("should count distinct queries with a sibling count query", async () => {
+    const log: string[] = [];
+    const db = createRecordingDb(log, [{ name: "Kim" }], "3");
+
+    const result = await executeSelectPage(
+      db,
+      schema,
+      (q) =>
+        q
+          .from("users")
+          .select((u) => ({ name: u.name }))
+          .distinct(),
+      {},
+      { page: 2, pageSize: 2 },
+    );
+
+    expect(log).to.deep.equal([
+      'SELECT DISTINCT "name" AS "name" FROM "users" LIMIT $(__p2) OFFSET $(__p1)',
+      'SELECT COUNT(*) AS "count" FROM (SELECT DISTINCT "name" AS "name" FROM "users") AS "counted"',
+    ]);
+    expect(result.total).to.equal(3);
+    expect(result.hasNext).to.equal(false);
+  });
+
+  it("should fall back to a count query past the last page", async () => {
+    const log: string[] = [];
+    const db = createRecordingDb(log, [], "7");
+
+    const result = await executeSelectPage(
+      db,
+      schema,
+      (q) => q.from("users"),
+      {},
+      { page: 5, pageSize: 10 },
+    );
+
+    expect(log[1]).to.equal('SELECT COUNT(*) AS "count" FROM (SELECT * FROM "users") AS "counted"');
+    expect(result).to.deep.equal({ items: [], total: 7, page: 5, pageSize: 10, hasNext: false });
+  });
+
+  it("should return a seekBefore page in query order", async () => {
+    const log: string[] = [];
+    const db = createRecordingDb(log, [
+      { id: 7, __total: "7" },
+      { id: 6, __total: "7" },
+      { id: 5, __total: "7" },
+    ]);
+
+    const result = await executeSelectPage(
+      db,
+      schema,
+      (q) =>
+        q
+          .from("users")
+          .orderBy((u) => u.id)
+          .seekBefore([8]),
+      {},
+      { page: 1, pageSize: 3 },
+    );
+
+    expect(result.items).to.deep.equal([{ id: 5 }, { id: 6 }, { id: 7 }]);
+  });
+
+  it("should reject a query that already has take or skip", async () => {
+    const log: string[] = [];
+    const db = createRecordingDb(log, []);
+    try {
+      await executeSelectPage(
+        db,
+        schema,
+        (q) =>
+          q
+            .from("users")
+            .orderBy((u) => u.id)
+            .take(4),
+        {},
+        { page: 1, pageSize: 3 },
+      );
+      expect.fail("Should have thrown error");
+    } catch (error: unknown) {
+      expect((error as Error).message).to.match(/remove take\(\) and skip\(\)/);
+    }
+    expect(log).to.deep.equal([]);
+  });
+
+  it("should reject invalid page options", async () => {
+    const db = createRecordingDb([], []);
+    for (const pageOptions of [
+      { page: 0, pageSize: 10 },
+      { page: 1, pageSize: 0 },
+      { page: 1.5, pageSize: 10 },
+    ]) {
+      try {
+        await executeSelectPage(db, schema, (q) => q.from("users"), {}, pageOptions);
+        expect.fail("Should have thrown error");
+      } catch (error: unknown) {
+        expect((error as Error).message).to.match(/must be a positive integer/);
+      }
+    }
+  });
+});
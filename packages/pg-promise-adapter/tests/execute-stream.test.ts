@@ -0,0 +1,152 @@
+/**
+ * Tests for executeSelectStream with a recording pg-promise stand-in
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { executeSelectStream, type PgDatabase, type PgStreamDatabase } from "../dist/index.js";
+import { schema } from "./test-schema.js";
+
+// Serves FETCH statements from the given rows, batch by batch
+function createExecutor(log: string[], rows: Record<string, unknown>[]): PgDatabase {
+  let position = 0;
+  return {
+    async any(sql: string) {
+      log.push(sql);
+      const fetch = /^FETCH (\d+) FROM/.exec(sql);
+      if (!fetch) {
+        return [];
+      }
+      const batch = rows.slice(position, position + Number(fetch[1]));
+      position += batch.length;
+      return batch;
+    },
+    async one(sql: string) {
+      log.push(sql);
+      return {};
+    },
+    async result(sql: string) {
+      log.push(sql);
+      return { rowCount: 0 };
+    },
+  };
+}
+
+function createStreamDb(log: string[], rows: Record<string, unknown>[]): PgStreamDatabase {
+  return {
+    ...createExecutor(log, []),
+    async connect() {
+      log.push("connect");
+      return {
+        ...createExecutor(log, rows),
+        done() {
+          log.push("done");
+        },
+      };
+    },
+  };
+}
+
+const users = [1, 2, 3, 4, 5].map((id) => ({ id, name: `User ${id}` }));
+
+describe("executeSelectStream", () => {
+  it("should fetch batches from a cursor on a dedicated connection", async () => {
+    const log: string[] = [];
+    const ids: number[] = [];
+
+    for await (const user of executeSelectStream(
+      createStreamDb(log, users),
+      schema,
+      (q) => q.from("users").orderBy((u) => u.id),
+      {},
+      { batchSize: 2 },
+    )) {
+      ids.push(user.id);
+    }
+
+    expect(ids).to.deep.equal([1, 2, 3, 4, 5]);
+    expect(log.map((sql) => sql.replace(/tinqer_stream_\d+/, "c"))).to.deep.equal([
+      "connect",
+      "BEGIN",
+      'DECLARE "c" NO SCROLL CURSOR FOR SELECT * FROM "users" ORDER BY "id" ASC',
+      'FETCH 2 FROM "c"',
+      'FETCH 2 FROM "c"',
+      'FETCH 2 FROM "c"',
+      "COMMIT",
+      "done",
+    ]);
+  });
+
+  it("should close the cursor when the loop breaks", async () => {
+    const log: string[] = [];
+
+    for await (const user of executeSelectStream(
+      createStreamDb(log, users),
+      schema,
+      (q) => q.from("users"),
+      {},
+      { batchSize: 2 },
+    )) {
+      if (user.id === 1) {
+        break;
+      }
+    }
+
+    expect(log.slice(-3).map((sql) => sql.replace(/tinqer_stream_\d+/, "c"))).to.deep.equal([
+      'FETCH 2 FROM "c"',
+      "COMMIT",
+      "done",
+    ]);
+  });
+
+  it("should declare the cursor inside an existing transaction", async () => {
+    const log: string[] = [];
+    const ids: number[] = [];
+
+    for await (const user of executeSelectStream(
+      createExecutor(log, users),
+      schema,
+      (q) => q.from("users"),
+      {},
+      { batchSize: 10 },
+    )) {
+      ids.push(user.id);
+      break;
+    }
+
+    expect(ids).to.deep.equal([1]);
+    expect(log.map((sql) => sql.replace(/tinqer_stream_\d+/, "c"))).to.deep.equal([
+      'DECLARE "c" NO SCROLL CURSOR FOR SELECT * FROM "users"',
+      'FETCH 10 FROM "c"',
+      'CLOSE "c"',
+    ]);
+  });
+
+  it("should roll back and release the connection when a statement fails", async () => {
+    const log: string[] = [];
+    const db = createStreamDb(log, users);
+    const connect = db.connect.bind(db);
+    db.connect = async () => {
+      const connection = await connect();
+      return {
+        ...connection,
+        async any(sql: string) {
+          log.push(sql);
+          throw new Error("connection lost");
+        },
+      };
+    };
+
+    const ids: number[] = [];
+    try {
+      for await (const user of executeSelectStream(db, schema, (q) => q.from("users"), {})) {
+        ids.push(user.id);
+      }
+      expect.fail("Should have thrown error");
+    } catch (error: unknown) {
+      expect((error as Error).message).to.equal("connection lost");
+    }
+    expect(ids).to.deep.equal([]);
+    expect(log.slice(-2)).to.deep.equal(["ROLLBACK", "done"]);
+  });
+});
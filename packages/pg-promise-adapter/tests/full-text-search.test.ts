@@ -0,0 +1,88 @@
+/**
+ * Tests for PostgreSQL full-text search SQL generation
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, createSchema } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+
+interface Schema {
+  articles: {
+    id: number;
+    title: string;
+    body: string;
+  };
+}
+
+const schema = createSchema<Schema>();
+
+describe("Full-Text Search - SQL Generation", () => {
+  it("should generate @@ with websearch_to_tsquery for textSearch()", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { q: string }, h) =>
+        q
+          .from("articles")
+          .where((a) => h.functions.textSearch(a.body, params.q, { config: "english" }))
+          .select((a) => ({ id: a.id })),
+      ),
+      { q: "quick fox" },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "id" AS "id" FROM "articles" WHERE to_tsvector('english', "body") @@ websearch_to_tsquery('english', $(q))`,
+    );
+    expect(result.params).to.deep.equal({ q: "quick fox" });
+  });
+
+  it("should omit the configuration when none is given", () => {
+    const result = toSql(
+      defineSelect(schema, (q, _params, h) =>
+        q.from("articles").where((a) => h.functions.textSearch(a.title, "fox")),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "articles" WHERE to_tsvector("title") @@ websearch_to_tsquery($(__p1))`,
+    );
+  });
+
+  it("should generate ts_rank for textRank() in orderBy and select", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { q: string }, h) =>
+        q
+          .from("articles")
+          .where((a) => h.functions.textSearch(a.body, params.q, { config: "english" }))
+          .orderByDescending((a) => h.functions.textRank(a.body, params.q, { config: "english" }))
+          .select((a) => ({ id: a.id, rank: h.functions.textRank(a.body, params.q) })),
+      ),
+      { q: "fox" },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "id" AS "id", ts_rank(to_tsvector("body"), websearch_to_tsquery($(q))) AS "rank" FROM "articles" WHERE to_tsvector('english', "body") @@ websearch_to_tsquery('english', $(q)) ORDER BY ts_rank(to_tsvector('english', "body"), websearch_to_tsquery('english', $(q))) DESC`,
+    );
+  });
+
+  it("should generate ts_headline for textHighlight() and textSnippet()", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { q: string }, h) =>
+        q.from("articles").select((a) => ({
+          highlighted: h.functions.textHighlight(a.body, params.q, { config: "english" }),
+          snippet: h.functions.textSnippet(a.body, params.q, {
+            start: "<em class='hit'>",
+            end: "</em>",
+            tokens: 8,
+          }),
+        })),
+      ),
+      { q: "fox" },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT ts_headline('english', "body", websearch_to_tsquery('english', $(q)), 'StartSel="<b>", StopSel="</b>", HighlightAll=true') AS "highlighted", ` +
+        `ts_headline("body", websearch_to_tsquery($(q)), 'StartSel="<em class=''hit''>", StopSel="</em>", MaxWords=8, MinWords=4, MaxFragments=2, FragmentDelimiter="..."') AS "snippet" FROM "articles"`,
+    );
+  });
+});
@@ -152,4 +152,187 @@ describe("GroupBy SQL Generation", () => {
     );
     expect(result.params).to.deep.equal({ __p1: 10 });
   });
+
+  it("should generate HAVING for an aggregate filter after GROUP BY", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("sales")
+          .groupBy((s) => s.category)
+          .where((g) => g.count() > 5)
+          .select((g) => ({ category: g.key, count: g.count() })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "category" AS "category", COUNT(*) AS "count" FROM "sales" GROUP BY "category" HAVING COUNT(*) > $(__p1)',
+    );
+    expect(result.params).to.deep.equal({ __p1: 5 });
+  });
+
+  it("should combine WHERE and multiple HAVING filters", () => {
+    const result = toSql(
+      defineSelect(schema, (q, p: { minTotal: number }) =>
+        q
+          .from("sales")
+          .where((s) => s.quantity > 0)
+          .groupBy((s) => s.product)
+          .where((g) => g.sum((s) => s.amount) >= p.minTotal)
+          .where((g) => g.avg((s) => s.quantity * s.amount) < 500 || g.key == "special")
+          .select((g) => ({ product: g.key, total: g.sum((s) => s.amount) })),
+      ),
+      { minTotal: 1000 },
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "product" AS "product", SUM("amount") AS "total" FROM "sales" WHERE "quantity" > $(__p1) GROUP BY "product" HAVING SUM("amount") >= $(minTotal) AND (AVG(("quantity" * "amount")) < $(__p2) OR "product" = $(__p3))',
+    );
+    expect(result.params).to.deep.equal({ minTotal: 1000, __p1: 0, __p2: 500, __p3: "special" });
+  });
+
+  it("should keep a group key filter in WHERE", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("sales")
+          .groupBy((s) => s.category)
+          .where((g) => g.key != "misc")
+          .select((g) => ({ category: g.key, count: g.count() })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "category" AS "category", COUNT(*) AS "count" FROM "sales" WHERE "category" != $(__p1) GROUP BY "category"',
+    );
+  });
+
+  it("should generate STRING_AGG with a separator and element order", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("sales")
+          .groupBy((s) => s.category)
+          .select((g) => ({
+            category: g.key,
+            products: g.stringAgg((s) => s.product, ", ", {
+              orderBy: (s) => s.amount,
+              descending: true,
+            }),
+          })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "category" AS "category", STRING_AGG("product", $(__p1) ORDER BY "amount" DESC) AS "products" FROM "sales" GROUP BY "category"',
+    );
+    expect(result.params).to.deep.equal({ __p1: ", " });
+  });
+
+  it("should generate ARRAY_AGG and JSON_AGG", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("sales")
+          .groupBy((s) => s.category)
+          .select((g) => ({
+            ids: g.arrayAgg((s) => s.id, { orderBy: (s) => s.id }),
+            lines: g.jsonAgg((s) => ({ product: s.product, total: s.amount * s.quantity })),
+          })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT ARRAY_AGG("id" ORDER BY "id" ASC) AS "ids", JSON_AGG(JSON_BUILD_OBJECT('product', "product", 'total', ("amount" * "quantity"))) AS "lines" FROM "sales" GROUP BY "category"`,
+    );
+  });
+
+  it("should generate FILTER (WHERE ...) for aggregate predicates", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { minAmount: number }) =>
+        q
+          .from("sales")
+          .groupBy((s) => s.category)
+          .select((g) => ({
+            category: g.key,
+            large: g.count((s) => s.amount >= params.minAmount),
+            bulkRevenue: g.sum(
+              (s) => s.amount,
+              (s) => s.quantity > 10 && s.product != "sample",
+            ),
+            smallestBulk: g.min(
+              (s) => s.amount,
+              (s) => s.quantity > 10,
+            ),
+          })),
+      ),
+      { minAmount: 500 },
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "category" AS "category", COUNT(*) FILTER (WHERE "amount" >= $(minAmount)) AS "large", SUM("amount") FILTER (WHERE ("quantity" > $(__p1) AND "product" != $(__p2))) AS "bulkRevenue", MIN("amount") FILTER (WHERE "quantity" > $(__p3)) AS "smallestBulk" FROM "sales" GROUP BY "category"',
+    );
+    expect(result.params).to.deep.equal({ minAmount: 500, __p1: 10, __p2: "sample", __p3: 10 });
+  });
+
+  it("should generate FILTER (WHERE ...) for method calls and IN lists", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { products: string[] }) =>
+        q
+          .from("sales")
+          .groupBy((s) => s.category)
+          .select((g) => ({
+            category: g.key,
+            named: g.count((s) => s.product.startsWith("a")),
+            picked: g.sum(
+              (s) => s.amount,
+              (s) => params.products.includes(s.product),
+            ),
+          })),
+      ),
+      { products: ["apple", "pear"] },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "category" AS "category", COUNT(*) FILTER (WHERE "product" LIKE $(__p1) || '%') AS "named", SUM("amount") FILTER (WHERE "product" IN ($(products_0), $(products_1))) AS "picked" FROM "sales" GROUP BY "category"`,
+    );
+  });
+
+  it("should generate FILTER (WHERE ...) inside HAVING", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("sales")
+          .groupBy((s) => s.category)
+          .where((g) => g.count((s) => s.amount > 100) >= 3)
+          .select((g) => ({ category: g.key })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "category" AS "category" FROM "sales" GROUP BY "category" HAVING COUNT(*) FILTER (WHERE "amount" > $(__p1)) >= $(__p2)',
+    );
+  });
+
+  it("should wrap a grouped projection filtered by where() in a subquery", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("sales")
+          .groupBy((s) => s.category)
+          .select((g) => ({ category: g.key, count: g.count() }))
+          .where((r) => r.count > 5 && r.category != "misc")
+          .orderBy((r) => r.count),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM (SELECT "category" AS "category", COUNT(*) AS "count" FROM "sales" GROUP BY "category") AS "sales" WHERE ("count" > $(__p1) AND "category" != $(__p2)) ORDER BY "count" ASC',
+    );
+  });
 });
@@ -21,9 +21,15 @@ interface Product {
   price: number;
 }
 
+interface Admin {
+  userId: number;
+  level: number;
+}
+
 interface Schema {
   users: User;
   products: Product;
+  admins: Admin;
 }
 
 const schema = createSchema<Schema>();
@@ -326,4 +332,78 @@ describe("IN Operator", () => {
       });
     });
   });
+
+  describe("IN subqueries", () => {
+    it("should generate IN (subquery) for contains() on a nested query", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").where((u) =>
+            q
+              .from("admins")
+              .select((a) => a.userId)
+              .contains(u.id),
+          ),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE "id" IN (SELECT "userId" FROM "admins" AS "s1")',
+      );
+      expect(result.params).to.deep.equal({});
+    });
+
+    it("should generate NOT IN (subquery) for negated contains()", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").where(
+            (u) =>
+              u.age >= 18 &&
+              !q
+                .from("admins")
+                .where((a) => a.level > 2)
+                .select((a) => a.userId)
+                .contains(u.id),
+          ),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT * FROM "users" WHERE ("age" >= $(__p1) AND "id" NOT IN (SELECT "userId" FROM "admins" AS "s1" WHERE "level" > $(__p2)))',
+      );
+      expect(result.params).to.deep.equal({ __p1: 18, __p2: 2 });
+    });
+
+    it("should merge query params used inside the subquery", () => {
+      const result = toSql(
+        defineSelect(schema, (q, params: { minLevel: number }) =>
+          q
+            .from("users")
+            .where((u) =>
+              q
+                .from("admins")
+                .where((a) => a.level >= params.minLevel)
+                .select((a) => a.userId)
+                .contains(u.id),
+            )
+            .select((u) => u.name),
+        ),
+        { minLevel: 3 },
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "name" FROM "users" WHERE "id" IN (SELECT "userId" FROM "admins" AS "s1" WHERE "level" >= $(minLevel))',
+      );
+      expect(result.params).to.deep.equal({ minLevel: 3 });
+    });
+
+    it("should reject contains() on a subquery that compares whole rows", () => {
+      expect(() =>
+        defineSelect(schema, (q) =>
+          q.from("users").where((u) => q.from("admins").contains({ userId: u.id, level: 1 })),
+        ),
+      ).to.throw();
+    });
+  });
 });
@@ -142,6 +142,111 @@ describe("INSERT Statement Generation", () => {
     });
   });
 
+  describe("Multi-row INSERT", () => {
+    type UserRow = { name: string; age?: number; email?: string };
+
+    it("should expand an array parameter into multiple VALUES tuples", () => {
+      const result = toSql(
+        defineInsert(schema, (q, p: { rows: UserRow[] }) => q.insertInto("users").values(p.rows)),
+        {
+          rows: [
+            { name: "Alice", age: 30 },
+            { name: "Bob", age: 25 },
+          ],
+        },
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name", "age") VALUES ($(rows_0_name), $(rows_0_age)), ($(rows_1_name), $(rows_1_age))`,
+      );
+      assert.equal(result.params.rows_0_name, "Alice");
+      assert.equal(result.params.rows_0_age, 30);
+      assert.equal(result.params.rows_1_name, "Bob");
+      assert.equal(result.params.rows_1_age, 25);
+    });
+
+    it("should use DEFAULT for columns that only some rows provide", () => {
+      const result = toSql(
+        defineInsert(schema, (q, p: { rows: UserRow[] }) => q.insertInto("users").values(p.rows)),
+        {
+          rows: [
+            { name: "Alice", email: "alice@example.com" },
+            { name: "Bob", age: 25, email: undefined },
+          ],
+        },
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name", "email", "age") VALUES ($(rows_0_name), $(rows_0_email), DEFAULT), ($(rows_1_name), DEFAULT, $(rows_1_age))`,
+      );
+    });
+
+    it("should reject row keys that are not column names", () => {
+      assert.throws(() => {
+        toSql(
+          defineInsert(schema, (q, p: { rows: UserRow[] }) => q.insertInto("users").values(p.rows)),
+          { rows: [{ name: "Alice", [`name") VALUES ('pwn'); --`]: "x" } as UserRow] },
+        );
+      }, /is not a valid column name/);
+    });
+
+    it("should skip columns that no row provides", () => {
+      const result = toSql(
+        defineInsert(schema, (q, p: { rows: UserRow[] }) => q.insertInto("users").values(p.rows)),
+        { rows: [{ name: "Alice", age: undefined }, { name: "Bob" }] },
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name") VALUES ($(rows_0_name)), ($(rows_1_name))`,
+      );
+    });
+
+    it("should support RETURNING with multiple rows", () => {
+      const result = toSql(
+        defineInsert(schema, (q, p: { rows: UserRow[] }) =>
+          q
+            .insertInto("users")
+            .values(p.rows)
+            .returning((u) => u.id),
+        ),
+        { rows: [{ name: "Alice" }, { name: "Bob" }] },
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name") VALUES ($(rows_0_name)), ($(rows_1_name)) RETURNING "id"`,
+      );
+    });
+
+    it("should accept an array of rows on the plan handle", () => {
+      const result = toSql(
+        defineInsert(schema, (q) => q.insertInto("users")).values([
+          { name: "Alice", age: 30 },
+          { name: "Bob", age: 25 },
+        ]),
+        {},
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name", "age") VALUES ($(__p1_0_name), $(__p1_0_age)), ($(__p1_1_name), $(__p1_1_age))`,
+      );
+      assert.equal(result.params.__p1_1_name, "Bob");
+    });
+
+    it("should throw when the rows array is empty", () => {
+      assert.throws(() => {
+        toSql(
+          defineInsert(schema, (q, p: { rows: UserRow[] }) => q.insertInto("users").values(p.rows)),
+          { rows: [] },
+        );
+      }, /at least one row/);
+    });
+  });
+
   describe("INSERT with RETURNING", () => {
     it("should generate INSERT with RETURNING single column", () => {
       const result = toSql(
@@ -195,6 +300,120 @@ describe("INSERT Statement Generation", () => {
     });
   });
 
+  describe("INSERT with ON CONFLICT", () => {
+    it("should generate ON CONFLICT DO NOTHING", () => {
+      const result = toSql(
+        defineInsert(schema, (q) =>
+          q
+            .insertInto("users")
+            .values({ name: "Alice", email: "alice@example.com" })
+            .onConflict((u) => u.email)
+            .doNothing(),
+        ),
+        {},
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name", "email") VALUES ($(__p1), $(__p2)) ON CONFLICT ("email") DO NOTHING`,
+      );
+    });
+
+    it("should generate ON CONFLICT DO NOTHING without a target", () => {
+      const result = toSql(
+        defineInsert(schema, (q) =>
+          q.insertInto("users").values({ name: "Alice" }).onConflict().doNothing(),
+        ),
+        {},
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name") VALUES ($(__p1)) ON CONFLICT DO NOTHING`,
+      );
+    });
+
+    it("should generate ON CONFLICT DO UPDATE with existing and excluded rows", () => {
+      const result = toSql(
+        defineInsert(schema, (q, p: { name: string; email: string }) =>
+          q
+            .insertInto("users")
+            .values({ name: p.name, email: p.email, age: 1 })
+            .onConflict((u) => [u.email])
+            .doUpdateSet((existing, excluded) => ({
+              name: excluded.name,
+              age: existing.age + 1,
+            })),
+        ),
+        { name: "Alice", email: "alice@example.com" },
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name", "email", "age") VALUES ($(name), $(email), $(__p1)) ON CONFLICT ("email") DO UPDATE SET "name" = "excluded"."name", "age" = ("users"."age" + $(__p2))`,
+      );
+      assert.deepEqual(result.params, {
+        name: "Alice",
+        email: "alice@example.com",
+        __p1: 1,
+        __p2: 1,
+      });
+    });
+
+    it("should generate a composite conflict target", () => {
+      const result = toSql(
+        defineInsert(schema, (q) =>
+          q
+            .insertInto("users")
+            .values({ name: "Alice", department: "Sales", salary: 100 })
+            .onConflict((u) => [u.name, u.department])
+            .doUpdateSet((_, excluded) => ({ salary: excluded.salary })),
+        ),
+        {},
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("name", "department", "salary") VALUES ($(__p1), $(__p2), $(__p3)) ON CONFLICT ("name", "department") DO UPDATE SET "salary" = "excluded"."salary"`,
+      );
+    });
+
+    it("should generate DO UPDATE with WHERE and RETURNING", () => {
+      const result = toSql(
+        defineInsert(schema, (q) =>
+          q
+            .insertInto("users")
+            .values({ email: "alice@example.com", salary: 200 })
+            .onConflict((u) => u.email)
+            .doUpdateSet((_, excluded) => ({ salary: excluded.salary }))
+            .where((existing, excluded) => existing.salary < excluded.salary)
+            .returning((u) => ({ id: u.id, salary: u.salary })),
+        ),
+        {},
+      );
+
+      assert.equal(
+        result.sql,
+        `INSERT INTO "users" ("email", "salary") VALUES ($(__p1), $(__p2)) ON CONFLICT ("email") DO UPDATE SET "salary" = "excluded"."salary" WHERE "users"."salary" < "excluded"."salary" RETURNING "id" AS "id", "salary" AS "salary"`,
+      );
+    });
+
+    it("should throw when DO UPDATE has no conflict target", () => {
+      assert.throws(() => {
+        toSql(
+          defineInsert(schema, (q) =>
+            q
+              .insertInto("users")
+              .values({ name: "Alice" })
+              .onConflict()
+              .doUpdateSet((_, excluded) => ({ name: excluded.name })),
+          ),
+          {},
+        );
+      }, /requires a conflict target/);
+    });
+  });
+
   describe("INSERT with special values", () => {
     it("should handle boolean values", () => {
       const result = toSql(
@@ -448,4 +448,205 @@ describe("Join SQL Generation", () => {
       expect(result.params).to.deep.equal({});
     });
   });
+
+  describe("Outer, cross and condition joins", () => {
+    it("should resolve chained leftJoin keys and null checks to each joined table", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .leftJoin(
+              q.from("departments"),
+              (u) => u.departmentId,
+              (d) => d.id,
+              (u, d) => ({ u, d }),
+            )
+            .leftJoin(
+              q.from("locations"),
+              (row) => row.d?.locationId,
+              (l) => l.id,
+              (row, l) => ({ ...row, l }),
+            )
+            .where((row) => row.d !== null && row.l === null)
+            .select((row) => ({ userName: row.u.name, hasDept: row.d !== null })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "t0"."name" AS "userName", CASE WHEN "t1"."id" IS NOT NULL THEN TRUE ELSE FALSE END AS "hasDept" FROM "users" AS "t0" LEFT OUTER JOIN "departments" AS "t1" ON "t0"."departmentId" = "t1"."id" LEFT OUTER JOIN "locations" AS "t2" ON "t1"."locationId" = "t2"."id" WHERE ("t1"."id" IS NOT NULL AND "t2"."id" IS NULL)',
+      );
+    });
+
+    it("should check a renamed table of a chained join for null through its join key", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .leftJoin(
+              q.from("departments"),
+              (u, d) => u.departmentId == d.id && d.name != "Archive",
+              (u, d) => ({ u, d }),
+            )
+            .join(
+              q.from("orders"),
+              (row) => row.u.id,
+              (o) => o.userId,
+              (row, o) => ({ user: row.u, dept: row.d, o }),
+            )
+            .where((row) => row.dept === null)
+            .select((row) => ({ orderId: row.o.id })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "t2"."id" AS "orderId" FROM "users" AS "t0" LEFT OUTER JOIN "departments" AS "t1" ON ("t0"."departmentId" = "t1"."id" AND "t1"."name" != $(__p1)) INNER JOIN "orders" AS "t2" ON "t0"."id" = "t2"."userId" WHERE "t1"."id" IS NULL',
+      );
+      expect(result.params).to.deep.equal({ __p1: "Archive" });
+    });
+
+    it("should reject comparing a table an inner join always matches to null", () => {
+      expect(() =>
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .join(
+              q.from("departments"),
+              (u) => u.departmentId,
+              (d) => d.id,
+              (u, d) => ({ u, d }),
+            )
+            .where((row) => row.d === null),
+        ),
+      ).to.throw();
+    });
+
+    it("should generate LEFT OUTER JOIN from leftJoin", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .leftJoin(
+              q.from("departments"),
+              (u) => u.departmentId,
+              (d) => d.id,
+              (u, d) => ({ u, d }),
+            )
+            .select((row) => ({ userName: row.u.name, deptName: row.d?.name })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "t0"."name" AS "userName", "t1"."name" AS "deptName" FROM "users" AS "t0" LEFT OUTER JOIN "departments" AS "t1" ON "t0"."departmentId" = "t1"."id"',
+      );
+    });
+
+    it("should generate RIGHT OUTER JOIN from rightJoin", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .rightJoin(
+              q.from("departments"),
+              (u) => u.departmentId,
+              (d) => d.id,
+              (u, d) => ({ u, d }),
+            )
+            .select((row) => ({ userName: row.u?.name, deptName: row.d.name })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "t0"."name" AS "userName", "t1"."name" AS "deptName" FROM "users" AS "t0" RIGHT OUTER JOIN "departments" AS "t1" ON "t0"."departmentId" = "t1"."id"',
+      );
+    });
+
+    it("should generate FULL OUTER JOIN with a predicate condition", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .fullJoin(
+              q.from("orders"),
+              (u, o) => u.id == o.userId && o.amount > 100,
+              (u, o) => ({ u, o }),
+            )
+            .select((row) => ({ userId: row.u?.id, orderId: row.o?.id })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "t0"."id" AS "userId", "t1"."id" AS "orderId" FROM "users" AS "t0" FULL OUTER JOIN "orders" AS "t1" ON ("t0"."id" = "t1"."userId" AND "t1"."amount" > $(__p1))',
+      );
+      expect(result.params).to.deep.equal({ __p1: 100 });
+    });
+
+    it("should generate CROSS JOIN from crossJoin", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("departments")
+            .crossJoin(q.from("locations"), (d, l) => ({ d, l }))
+            .select((row) => ({ deptId: row.d.id, city: row.l.city })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "t0"."id" AS "deptId", "t1"."city" AS "city" FROM "departments" AS "t0" CROSS JOIN "locations" AS "t1"',
+      );
+    });
+
+    it("should join on compound keys", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("orders")
+            .join(
+              q.from("products"),
+              (o) => ({ productId: o.productId, userId: o.userId }),
+              (p) => ({ productId: p.id, userId: p.categoryId }),
+              (o, p) => ({ o, p }),
+            )
+            .select((row) => ({ orderId: row.o.id, productName: row.p.name })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "t0"."id" AS "orderId", "t1"."name" AS "productName" FROM "orders" AS "t0" INNER JOIN "products" AS "t1" ON ("t0"."productId" = "t1"."id" AND "t0"."userId" = "t1"."categoryId")',
+      );
+    });
+
+    it("should resolve a chained predicate join through the previous join result", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q
+            .from("users")
+            .join(
+              q.from("departments"),
+              (u) => u.departmentId,
+              (d) => d.id,
+              (u, d) => ({ u, d }),
+            )
+            .leftJoin(
+              q.from("locations"),
+              (row, l) => row.d.locationId == l.id && l.country != "US",
+              (row, l) => ({ ...row, l }),
+            )
+            .select((row) => ({ userName: row.u.name, city: row.l?.city })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "t0"."name" AS "userName", "t2"."city" AS "city" FROM "users" AS "t0" INNER JOIN "departments" AS "t1" ON "t0"."departmentId" = "t1"."id" LEFT OUTER JOIN "locations" AS "t2" ON ("t1"."locationId" = "t2"."id" AND "t2"."country" != $(__p1))',
+      );
+      expect(result.params).to.deep.equal({ __p1: "US" });
+    });
+  });
 });
@@ -0,0 +1,183 @@
+/**
+ * Tests for JSON column path access SQL generation
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, createSchema } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+
+interface Schema {
+  profiles: {
+    id: number;
+    name: string;
+    metadata: {
+      address: { city: string; zip: string };
+      tags: string[];
+      score: number;
+      verified: boolean;
+      "display-name": string;
+    };
+  };
+}
+
+const schema = createSchema<Schema>({ jsonColumns: { profiles: ["metadata"] } });
+
+describe("JSON Path Access - SQL Generation", () => {
+  it("should extract text with ->> and #>> in WHERE", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .where((p) => p.metadata.address.city == "Paris" && p.metadata.tags[0] == "vip"),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "profiles" WHERE ("metadata"#>>'{address,city}' = $(__p1) AND "metadata"#>>'{tags,0}' = $(__p2))`,
+    );
+    expect(result.params).to.deep.equal({ __p1: "Paris", __p2: "vip" });
+  });
+
+  it("should cast extracted text when compared with numbers and booleans", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { minScore: number }) =>
+        q.from("profiles").where((p) => p.metadata.score >= params.minScore && p.metadata.verified),
+      ),
+      { minScore: 10 },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "profiles" WHERE (("metadata"->>'score')::numeric >= $(minScore) AND ("metadata"->>'verified')::boolean = TRUE)`,
+    );
+  });
+
+  it("should project and order by JSON values", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .orderByDescending((p) => p.metadata.score)
+          .select((p) => ({
+            id: p.id,
+            address: p.metadata.address,
+            displayName: p.metadata["display-name"],
+          })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "id" AS "id", "metadata"->'address' AS "address", "metadata"->'display-name' AS "displayName" FROM "profiles" ORDER BY "metadata"->'score' DESC`,
+    );
+  });
+
+  it("should read JSON paths on the columns of joined tables", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .join(
+            q.from("profiles"),
+            (a) => a.id,
+            (b) => b.id,
+            (a, b) => ({ a, b }),
+          )
+          .where((row) => row.b.metadata.address.city == "Paris")
+          .select((row) => ({ name: row.a.name, score: row.b.metadata.score })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "t0"."name" AS "name", "t1"."metadata"->'score' AS "score" FROM "profiles" AS "t0" INNER JOIN "profiles" AS "t1" ON "t0"."id" = "t1"."id" WHERE "t1"."metadata"#>>'{address,city}' = $(__p1)`,
+    );
+  });
+
+  it("should cast extracted text to numeric in arithmetic and SUM", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .groupBy((p) => p.name)
+          .select((g) => ({ name: g.key, total: g.sum((p) => p.metadata.score * 2) })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "name" AS "name", SUM((("metadata"->>'score')::numeric * $(__p1))) AS "total" FROM "profiles" GROUP BY "name"`,
+    );
+  });
+
+  it("should group by a JSON path key in the form it is projected", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .groupBy((p) => p.metadata.address.city)
+          .select((g) => ({ city: g.key, count: g.count() })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "metadata"#>'{address,city}' AS "city", COUNT(*) AS "count" FROM "profiles" GROUP BY "metadata"#>'{address,city}'`,
+    );
+  });
+
+  it("should group by composite keys of JSON paths", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("profiles")
+          .groupBy((p) => ({ city: p.metadata.address.city, verified: p.metadata.verified }))
+          .select((g) => ({ city: g.key.city, verified: g.key.verified, count: g.count() })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "metadata"#>'{address,city}' AS "city", "metadata"->'verified' AS "verified", COUNT(*) AS "count" FROM "profiles" GROUP BY "metadata"#>'{address,city}', "metadata"->'verified'`,
+    );
+  });
+
+  it("should apply string methods to extracted text", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("profiles").where((p) => p.metadata.address.zip.startsWith("75")),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "profiles" WHERE "metadata"#>>'{address,zip}' LIKE $(__p1) || '%'`,
+    );
+  });
+
+  it("should generate @> for jsonContains with a literal", () => {
+    const result = toSql(
+      defineSelect(schema, (q, _params, h) =>
+        q.from("profiles").where((p) => h.functions.jsonContains(p.metadata, { tags: ["vip"] })),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(`SELECT * FROM "profiles" WHERE "metadata" @> $(__p1:json)::jsonb`);
+    expect(result.params).to.deep.equal({ __p1: { tags: ["vip"] } });
+  });
+
+  it("should generate @> for jsonContains on a path with a parameter", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { tags: string[] }, h) =>
+        q.from("profiles").where((p) => h.functions.jsonContains(p.metadata.tags, params.tags)),
+      ),
+      { tags: ["vip", "staff"] },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "profiles" WHERE "metadata"->'tags' @> $(tags:json)::jsonb`,
+    );
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for PostgreSQL LIKE pattern and regular expression SQL generation
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, defineDelete, createSchema } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+
+interface Schema {
+  invoices: {
+    id: number;
+    code: string;
+  };
+}
+
+const schema = createSchema<Schema>();
+
+describe("Patterns - SQL Generation", () => {
+  it("should generate LIKE with an explicit escape character for like()", () => {
+    const result = toSql(
+      defineSelect(schema, (q, params: { pattern: string }, h) =>
+        q
+          .from("invoices")
+          .where(
+            (i) => h.functions.like(i.code, "AB\\_%") || h.functions.like(i.code, params.pattern),
+          )
+          .select((i) => ({ id: i.id })),
+      ),
+      { pattern: "%-X" },
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT "id" AS "id" FROM "invoices" WHERE ("code" LIKE $(__p1) ESCAPE '\\' OR "code" LIKE $(pattern) ESCAPE '\\')`,
+    );
+    expect(result.params).to.deep.equal({ pattern: "%-X", __p1: "AB\\_%" });
+  });
+
+  it("should generate ~ and ~* for regular expressions", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q.from("invoices").where((i) => /^INV-\d+$/i.test(i.code) && !i.code.match(/draft/)),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      `SELECT * FROM "invoices" WHERE ("code" ~* $(__p1) AND NOT ("code" ~ $(__p2)))`,
+    );
+    expect(result.params).to.deep.equal({ __p1: "^INV-\\d+$", __p2: "draft" });
+  });
+
+  it("should match regular expressions in DELETE predicates", () => {
+    const result = toSql(
+      defineDelete(schema, (q) => q.deleteFrom("invoices").where((i) => /^TMP-/.test(i.code))),
+      {},
+    );
+
+    expect(result.sql).to.equal(`DELETE FROM "invoices" WHERE "code" ~ $(__p1)`);
+  });
+
+  it("should treat match() compared to null as a regular expression match", () => {
+    const matches = toSql(
+      defineSelect(schema, (q) => q.from("invoices").where((i) => i.code.match(/^A/) !== null)),
+      {},
+    );
+    expect(matches.sql).to.equal(`SELECT * FROM "invoices" WHERE "code" ~ $(__p1)`);
+
+    const misses = toSql(
+      defineDelete(schema, (q) =>
+        q.deleteFrom("invoices").where((i) => i.code.match(/^tmp-/i) === null),
+      ),
+      {},
+    );
+    expect(misses.sql).to.equal(`DELETE FROM "invoices" WHERE NOT ("code" ~* $(__p1))`);
+  });
+});
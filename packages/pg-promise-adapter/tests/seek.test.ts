@@ -0,0 +1,111 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+import { schema } from "./test-schema.js";
+
+describe("Seek SQL Generation", () => {
+  it("should compare a single key with the cursor", () => {
+    const result = toSql(
+      defineSelect(schema, (q, p: { after: number[] }) =>
+        q
+          .from("users")
+          .orderBy((u) => u.id)
+          .seekAfter(p.after)
+          .take(10),
+      ),
+      { after: [42] },
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM "users" WHERE "id" > $(after_0) ORDER BY "id" ASC LIMIT $(__p1)',
+    );
+    expect(result.params).to.deep.equal({ __p1: 10, after: [42], after_0: 42 });
+  });
+
+  it("should compare row values when all keys share a direction", () => {
+    const result = toSql(
+      defineSelect(schema, (q, p: { after: unknown[] }) =>
+        q
+          .from("users")
+          .where((u) => u.age >= 18)
+          .orderBy((u) => u.name)
+          .thenBy((u) => u.id)
+          .seekAfter(p.after),
+      ),
+      { after: ["Bob", 7] },
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM "users" WHERE "age" >= $(__p1) AND ("name", "id") > ($(after_0), $(after_1)) ORDER BY "name" ASC, "id" ASC',
+    );
+  });
+
+  it("should expand mixed directions into an OR chain", () => {
+    const result = toSql(
+      defineSelect(schema, (q, p: { after: number[] }) =>
+        q
+          .from("users")
+          .orderByDescending((u) => u.age)
+          .thenBy((u) => u.id)
+          .seekAfter(p.after),
+      ),
+      { after: [30, 7] },
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM "users" WHERE (("age" < $(after_0)) OR ("age" = $(after_0) AND "id" > $(after_1))) ORDER BY "age" DESC, "id" ASC',
+    );
+  });
+
+  it("should flip the ordering to fetch the page before the cursor", () => {
+    const result = toSql(
+      defineSelect(schema, (q, p: { before: number[] }) =>
+        q
+          .from("users")
+          .orderBy((u) => u.age)
+          .thenBy((u) => u.id)
+          .seekBefore(p.before)
+          .take(5),
+      ),
+      { before: [30, 7] },
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM "users" WHERE ("age", "id") < ($(before_0), $(before_1)) ORDER BY "age" DESC, "id" DESC LIMIT $(__p1)',
+    );
+  });
+
+  it("should read projected keys through the select", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ userId: u.id, userName: u.name }))
+          .orderBy((r) => r.userName)
+          .seekAfter(["Bob"]),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "id" AS "userId", "name" AS "userName" FROM "users" WHERE "name" > $(__p1_0) ORDER BY "userName" ASC',
+    );
+    expect(result.params).to.deep.equal({ __p1: ["Bob"], __p1_0: "Bob" });
+  });
+
+  it("should reject a cursor with the wrong number of values", () => {
+    expect(() =>
+      toSql(
+        defineSelect(schema, (q, p: { after: number[] }) =>
+          q
+            .from("users")
+            .orderBy((u) => u.age)
+            .thenBy((u) => u.id)
+            .seekAfter(p.after),
+        ),
+        { after: [30] },
+      ),
+    ).to.throw("cursor has 1 value(s) but the query orders by 2 key(s)");
+  });
+});
@@ -50,4 +50,94 @@ describe("SELECT SQL Generation", () => {
     );
     expect(result.params).to.deep.equal({ __p1: 18 });
   });
+
+  describe("correlated scalar subqueries", () => {
+    it("should generate a COUNT subquery alongside spread columns", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").select((u) => ({
+            ...u,
+            orderCount: q.from("orders").count((o) => o.userId === u.id),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT *, (SELECT COUNT(*) FROM "orders" AS "s1" WHERE "userId" = "users"."id") AS "orderCount" FROM "users"',
+      );
+    });
+
+    it("should generate SUM and MAX subqueries over filtered nested queries", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").select((u) => ({
+            name: u.name,
+            shipped: q
+              .from("orders")
+              .where((o) => o.userId === u.id && o.status === "shipped")
+              .sum((o) => o.total),
+            largest: q
+              .from("orders")
+              .where((o) => o.userId === u.id)
+              .max((o) => o.total),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "name" AS "name", (SELECT SUM("total") FROM "orders" AS "s1" WHERE ("userId" = "users"."id" AND "status" = $(__p1))) AS "shipped", (SELECT MAX("total") FROM "orders" AS "s1" WHERE "userId" = "users"."id") AS "largest" FROM "users"',
+      );
+      expect(result.params).to.deep.equal({ __p1: "shipped" });
+    });
+
+    it("should generate a LIMIT 1 subquery for firstOrDefault()", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("employees").select((e) => ({
+            name: e.name,
+            manager: q
+              .from("employees")
+              .where((m) => m.id === e.managerId)
+              .select((m) => m.name)
+              .firstOrDefault(),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "name" AS "name", (SELECT "name" FROM "employees" AS "s1" WHERE "id" = "employees"."managerId" LIMIT 1) AS "manager" FROM "employees"',
+      );
+    });
+
+    it("should generate EXISTS for any() in a projection", () => {
+      const result = toSql(
+        defineSelect(schema, (q) =>
+          q.from("users").select((u) => ({
+            id: u.id,
+            hasPending: q.from("orders").any((o) => o.userId === u.id && o.status === "pending"),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "id" AS "id", CASE WHEN EXISTS (SELECT 1 FROM "orders" AS "s1" WHERE ("userId" = "users"."id" AND "status" = $(__p1))) THEN TRUE ELSE FALSE END AS "hasPending" FROM "users"',
+      );
+      expect(result.params).to.deep.equal({ __p1: "pending" });
+    });
+
+    it("should reject firstOrDefault() subqueries that return whole rows", () => {
+      expect(() =>
+        defineSelect(schema, (q) =>
+          q.from("users").select((u) => ({
+            name: u.name,
+            latest: q.from("orders").firstOrDefault((o) => o.userId === u.id),
+          })),
+        ),
+      ).to.throw();
+    });
+  });
 });
@@ -0,0 +1,181 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect } from "@tinqerjs/tinqer";
+import { toSql } from "../dist/index.js";
+import { schema } from "./test-schema.js";
+
+describe("Set Operations SQL Generation", () => {
+  it("should generate UNION for union()", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ name: u.name }))
+          .union(q.from("employees").select((e) => ({ name: e.name }))),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "name" AS "name" FROM "users" UNION SELECT "name" AS "name" FROM "employees"',
+    );
+  });
+
+  it("should generate UNION ALL for concat()", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ id: u.id }))
+          .concat(q.from("orders").select((o) => ({ id: o.userId }))),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "id" AS "id" FROM "users" UNION ALL SELECT "userId" AS "id" FROM "orders"',
+    );
+  });
+
+  it("should generate INTERSECT and EXCEPT", () => {
+    const intersect = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ id: u.id }))
+          .intersect(q.from("orders").select((o) => ({ id: o.userId }))),
+      ),
+      {},
+    );
+    const except = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ id: u.id }))
+          .except(q.from("orders").select((o) => ({ id: o.userId }))),
+      ),
+      {},
+    );
+
+    expect(intersect.sql).to.equal(
+      'SELECT "id" AS "id" FROM "users" INTERSECT SELECT "userId" AS "id" FROM "orders"',
+    );
+    expect(except.sql).to.equal(
+      'SELECT "id" AS "id" FROM "users" EXCEPT SELECT "userId" AS "id" FROM "orders"',
+    );
+  });
+
+  it("should number auto-params across both queries and keep user params", () => {
+    const result = toSql(
+      defineSelect(schema, (q, p: { minAge: number; dept: string }) =>
+        q
+          .from("users")
+          .where((u) => u.age >= p.minAge && u.isActive == true)
+          .select((u) => ({ name: u.name }))
+          .union(
+            q
+              .from("employees")
+              .where((e) => e.department == p.dept && e.salary > 50000)
+              .select((e) => ({ name: e.name })),
+          ),
+      ),
+      { minAge: 21, dept: "Sales" },
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "name" AS "name" FROM "users" WHERE ("age" >= $(minAge) AND "isActive" = $(__p1)) ' +
+        'UNION SELECT "name" AS "name" FROM "employees" WHERE ("department" = $(dept) AND "salary" > $(__p2))',
+    );
+    expect(result.params).to.deep.equal({ minAge: 21, dept: "Sales", __p1: true, __p2: 50000 });
+  });
+
+  it("should wrap the set operation when followed by orderBy and take", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ name: u.name }))
+          .union(q.from("employees").select((e) => ({ name: e.name })))
+          .orderBy((r) => r.name)
+          .take(10),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM (SELECT "name" AS "name" FROM "users" UNION SELECT "name" AS "name" FROM "employees") AS "t0" ORDER BY "name" ASC LIMIT $(__p1)',
+    );
+    expect(result.params).to.deep.equal({ __p1: 10 });
+  });
+
+  it("should wrap the set operation for where and count", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ id: u.id }))
+          .concat(q.from("orders").select((o) => ({ id: o.userId })))
+          .where((r) => r.id > 100)
+          .count(),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT COUNT(*) FROM (SELECT "id" AS "id" FROM "users" UNION ALL SELECT "userId" AS "id" FROM "orders") AS "t0" WHERE "id" > $(__p1)',
+    );
+    expect(result.params).to.deep.equal({ __p1: 100 });
+  });
+
+  it("should wrap operands that have their own ORDER BY or LIMIT", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .orderByDescending((u) => u.salary)
+          .take(3)
+          .select((u) => ({ name: u.name }))
+          .union(q.from("employees").select((e) => ({ name: e.name }))),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM (SELECT "name" AS "name" FROM "users" ORDER BY "salary" DESC LIMIT $(__p1)) AS "t0" UNION SELECT "name" AS "name" FROM "employees"',
+    );
+  });
+
+  it("should chain set operations of the same kind without nesting", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ id: u.id }))
+          .concat(q.from("orders").select((o) => ({ id: o.userId })))
+          .concat(q.from("employees").select((e) => ({ id: e.id }))),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT "id" AS "id" FROM "users" UNION ALL SELECT "userId" AS "id" FROM "orders" UNION ALL SELECT "id" AS "id" FROM "employees"',
+    );
+  });
+
+  it("should preserve evaluation order when mixing set operations", () => {
+    const result = toSql(
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .select((u) => ({ id: u.id }))
+          .union(q.from("orders").select((o) => ({ id: o.userId })))
+          .intersect(q.from("employees").select((e) => ({ id: e.id }))),
+      ),
+      {},
+    );
+
+    expect(result.sql).to.equal(
+      'SELECT * FROM (SELECT "id" AS "id" FROM "users" UNION SELECT "userId" AS "id" FROM "orders") AS "t0" INTERSECT SELECT "id" AS "id" FROM "employees"',
+    );
+  });
+});
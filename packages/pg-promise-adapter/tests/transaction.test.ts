@@ -0,0 +1,110 @@
+/**
+ * Tests for withTransaction with a recording pg-promise stand-in
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { withTransaction, type PgTransactionalDatabase } from "../dist/index.js";
+
+// Mimics pg-promise: tx() opens BEGIN or a savepoint and commits/rolls back on the callback outcome
+function createRecordingDb(log: string[], level = 0): PgTransactionalDatabase {
+  return {
+    async any(sql: string) {
+      log.push(sql);
+      return [];
+    },
+    async one(sql: string) {
+      log.push(sql);
+      return {};
+    },
+    async result(sql: string) {
+      log.push(sql);
+      return { rowCount: 0 };
+    },
+    async tx<T>(callback: (t: PgTransactionalDatabase) => Promise<T>): Promise<T> {
+      log.push(level === 0 ? "BEGIN" : `SAVEPOINT level_${level}`);
+      try {
+        const value = await callback(createRecordingDb(log, level + 1));
+        log.push(level === 0 ? "COMMIT" : `RELEASE SAVEPOINT level_${level}`);
+        return value;
+      } catch (error) {
+        log.push(level === 0 ? "ROLLBACK" : `ROLLBACK TO SAVEPOINT level_${level}`);
+        throw error;
+      }
+    },
+  };
+}
+
+describe("withTransaction", () => {
+  it("should return the callback result", async () => {
+    const log: string[] = [];
+    const result = await withTransaction(createRecordingDb(log), async (tx) => {
+      await tx.result("UPDATE 1");
+      return 42;
+    });
+
+    expect(result).to.equal(42);
+    expect(log).to.deep.equal(["BEGIN", "UPDATE 1", "COMMIT"]);
+  });
+
+  it("should set the isolation level and access mode first", async () => {
+    const log: string[] = [];
+    await withTransaction(createRecordingDb(log), async () => undefined, {
+      isolationLevel: "repeatable read",
+      readOnly: true,
+    });
+
+    expect(log).to.deep.equal([
+      "BEGIN",
+      "SET TRANSACTION ISOLATION LEVEL REPEATABLE READ, READ ONLY",
+      "COMMIT",
+    ]);
+  });
+
+  it("should use a savepoint for nested calls", async () => {
+    const log: string[] = [];
+    await withTransaction(createRecordingDb(log), async (tx) => {
+      await withTransaction(tx, async (inner) => {
+        await inner.result("UPDATE 2");
+      });
+    });
+
+    expect(log).to.deep.equal([
+      "BEGIN",
+      "SAVEPOINT level_1",
+      "UPDATE 2",
+      "RELEASE SAVEPOINT level_1",
+      "COMMIT",
+    ]);
+  });
+
+  it("should reject options on nested calls", async () => {
+    const log: string[] = [];
+    let nestedError: unknown;
+    await withTransaction(createRecordingDb(log), async (tx) => {
+      try {
+        await withTransaction(tx, async () => undefined, { isolationLevel: "serializable" });
+      } catch (error) {
+        nestedError = error;
+      }
+    });
+
+    expect(nestedError).to.be.instanceOf(Error);
+    expect((nestedError as Error).message).to.match(/outermost transaction/);
+  });
+
+  it("should propagate callback errors", async () => {
+    const log: string[] = [];
+    let caught: unknown;
+    try {
+      await withTransaction(createRecordingDb(log), async () => {
+        throw new Error("boom");
+      });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect((caught as Error).message).to.equal("boom");
+    expect(log).to.deep.equal(["BEGIN", "ROLLBACK"]);
+  });
+});
@@ -194,6 +194,58 @@ describe("UPDATE Statement Generation", () => {
     });
   });
 
+  describe("UPDATE with row-referencing SET", () => {
+    it("should reference the current row in assignments", () => {
+      const result = toSql(
+        defineUpdate(schema, (q) =>
+          q
+            .update("users")
+            .set((u) => ({ age: u.age + 1, salary: u.salary * 1.1 }))
+            .where((u) => u.id === 1),
+        ),
+        {},
+      );
+
+      assert.equal(
+        result.sql,
+        `UPDATE "users" SET "age" = ("age" + $(__p1)), "salary" = ("salary" * $(__p2)) WHERE "id" = $(__p3)`,
+      );
+      assert.deepEqual(result.params, { __p1: 1, __p2: 1.1, __p3: 1 });
+    });
+
+    it("should mix row references with external parameters, ?? and ternaries", () => {
+      const result = toSql(
+        defineUpdate(schema, (q, p: { bonus: number; userId: number }) =>
+          q
+            .update("users")
+            .set((u) => ({
+              salary: u.age > 40 ? u.salary + p.bonus : u.salary,
+              email: u.email ?? u.username.toLowerCase(),
+            }))
+            .where((u) => u.id === p.userId),
+        ),
+        { bonus: 500, userId: 2 },
+      );
+
+      assert.equal(
+        result.sql,
+        `UPDATE "users" SET "salary" = CASE WHEN "age" > $(__p1) THEN ("salary" + $(bonus)) ELSE "salary" END, "email" = COALESCE("email", LOWER("username")) WHERE "id" = $(userId)`,
+      );
+    });
+
+    it("should accept a params argument in the set lambda of a plan", () => {
+      const result = toSql(
+        defineUpdate(schema, (q) => q.update("users"))
+          .set<{ delta: number }>((u, p) => ({ age: u.age + p.delta }))
+          .allowFullTableUpdate(),
+        { delta: 2 },
+      );
+
+      assert.equal(result.sql, `UPDATE "users" SET "age" = ("age" + $(delta))`);
+      assert.deepEqual(result.params, { delta: 2 });
+    });
+  });
+
   describe("UPDATE with RETURNING", () => {
     it("should generate UPDATE with RETURNING single column", () => {
       const result = toSql(
@@ -226,6 +226,212 @@ describe("Window Functions - PostgreSQL", () => {
     });
   });
 
+  describe("Value functions", () => {
+    it("should generate LAG with offset and default", () => {
+      const result = toSql(
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            name: u.name,
+            previousSalary: h
+              .window(u)
+              .partitionBy((r) => r.department)
+              .orderBy((r) => r.createdAt)
+              .lag((r) => r.salary, 1, 0),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "name" AS "name", LAG("salary", $(__p1), $(__p2)) OVER (PARTITION BY "department" ORDER BY "createdAt" ASC) AS "previousSalary" FROM "users"',
+      );
+      expect(result.params).to.deep.equal({ __p1: 1, __p2: 0 });
+    });
+
+    it("should generate LEAD and NTILE", () => {
+      const result = toSql(
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            name: u.name,
+            nextName: h
+              .window(u)
+              .orderBy((r) => r.id)
+              .lead((r) => r.name),
+            quartile: h
+              .window(u)
+              .orderByDescending((r) => r.salary)
+              .ntile(4),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "name" AS "name", LEAD("name") OVER (ORDER BY "id" ASC) AS "nextName", NTILE($(__p1)) OVER (ORDER BY "salary" DESC) AS "quartile" FROM "users"',
+      );
+      expect(result.params).to.deep.equal({ __p1: 4 });
+    });
+
+    it("should generate LAST_VALUE over the whole partition", () => {
+      const result = toSql(
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            name: u.name,
+            newest: h
+              .window(u)
+              .partitionBy((r) => r.department)
+              .orderBy((r) => r.createdAt)
+              .rowsBetween("unboundedPreceding", "unboundedFollowing")
+              .lastValue((r) => r.name),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "name" AS "name", LAST_VALUE("name") OVER (PARTITION BY "department" ORDER BY "createdAt" ASC ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING) AS "newest" FROM "users"',
+      );
+    });
+
+    it("should generate PERCENT_RANK and CUME_DIST", () => {
+      const result = toSql(
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            pr: h
+              .window(u)
+              .orderBy((r) => r.salary)
+              .percentRank(),
+            cd: h
+              .window(u)
+              .orderBy((r) => r.salary)
+              .cumeDist(),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT PERCENT_RANK() OVER (ORDER BY "salary" ASC) AS "pr", CUME_DIST() OVER (ORDER BY "salary" ASC) AS "cd" FROM "users"',
+      );
+    });
+  });
+
+  describe("Aggregate window functions and frames", () => {
+    it("should generate a running total", () => {
+      const result = toSql(
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            id: u.id,
+            runningTotal: h
+              .window(u)
+              .partitionBy((r) => r.department)
+              .orderBy((r) => r.id)
+              .rowsBetween("unboundedPreceding", "currentRow")
+              .sum((r) => r.salary),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "id" AS "id", SUM("salary") OVER (PARTITION BY "department" ORDER BY "id" ASC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS "runningTotal" FROM "users"',
+      );
+    });
+
+    it("should generate a moving average with numeric bounds", () => {
+      const result = toSql(
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            id: u.id,
+            movingAvg: h
+              .window(u)
+              .orderBy((r) => r.id)
+              .rowsBetween({ preceding: 2 }, { following: 1 })
+              .avg((r) => r.salary),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT "id" AS "id", AVG("salary") OVER (ORDER BY "id" ASC ROWS BETWEEN 2 PRECEDING AND 1 FOLLOWING) AS "movingAvg" FROM "users"',
+      );
+    });
+
+    it("should generate COUNT(*) and MAX with a RANGE frame", () => {
+      const result = toSql(
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            seen: h
+              .window(u)
+              .orderBy((r) => r.createdAt)
+              .count(),
+            highestSoFar: h
+              .window(u)
+              .orderBy((r) => r.createdAt)
+              .rangeBetween("unboundedPreceding", "currentRow")
+              .max((r) => r.salary),
+          })),
+        ),
+        {},
+      );
+
+      expect(result.sql).to.equal(
+        'SELECT COUNT(*) OVER (ORDER BY "createdAt" ASC) AS "seen", MAX("salary") OVER (ORDER BY "createdAt" ASC RANGE BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS "highestSoFar" FROM "users"',
+      );
+    });
+
+    it("should reject non-literal frame offsets", () => {
+      expect(() =>
+        defineSelect(schema, (q, p: { n: number }, h) =>
+          q.from("users").select((u) => ({
+            total: h
+              .window(u)
+              .orderBy((r) => r.id)
+              .rowsBetween({ preceding: p.n }, "currentRow")
+              .sum((r) => r.salary),
+          })),
+        ),
+      ).to.throw();
+    });
+
+    it("should reject frames whose start comes after their end", () => {
+      expect(() =>
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            total: h
+              .window(u)
+              .orderBy((r) => r.id)
+              .rowsBetween("currentRow", { preceding: 1 })
+              .sum((r) => r.salary),
+          })),
+        ),
+      ).to.throw();
+      expect(() =>
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            total: h
+              .window(u)
+              .orderBy((r) => r.id)
+              .rowsBetween({ following: 3 }, { following: 1 })
+              .sum((r) => r.salary),
+          })),
+        ),
+      ).to.throw();
+      expect(() =>
+        defineSelect(schema, (q, _, h) =>
+          q.from("users").select((u) => ({
+            total: h
+              .window(u)
+              .orderBy((r) => r.id)
+              .rangeBetween("unboundedFollowing", "unboundedFollowing")
+              .sum((r) => r.salary),
+          })),
+        ),
+      ).to.throw();
+    });
+  });
+
   describe("Recursive Nesting - Subquery Wrapping", () => {
     it("should generate double nested subquery for two window filters", () => {
       const result = toSql(
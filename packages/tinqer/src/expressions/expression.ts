@@ -5,6 +5,19 @@
  * These are used by the parser to represent parsed lambda expressions.
  */
 
+import type {
+  AllOperation,
+  AnyOperation,
+  AverageOperation,
+  CountOperation,
+  FirstOperation,
+  FirstOrDefaultOperation,
+  MaxOperation,
+  MinOperation,
+  QueryOperation,
+  SumOperation,
+} from "../query-tree/operations.js";
+
 // ==================== Value Expressions ====================
 
 /**
@@ -67,14 +80,48 @@ export interface ConcatExpression {
 
 /**
  * String method calls
+ * Index arguments (substring, indexOf, splitPart) use JavaScript's 0-based positions
  */
 export interface StringMethodExpression {
   type: "stringMethod";
   object: ValueExpression;
-  method: "toLowerCase" | "toUpperCase";
+  method:
+    | "toLowerCase"
+    | "toUpperCase"
+    | "length"
+    | "trim"
+    | "trimStart"
+    | "trimEnd"
+    | "substring" // substring(start, end?) and slice(start, end?)
+    | "replace" // First occurrence only, like String.prototype.replace
+    | "replaceAll"
+    | "indexOf"
+    | "padStart"
+    | "padEnd"
+    | "splitPart"; // split(separator)[index]
   arguments?: ValueExpression[];
 }
 
+/**
+ * Math function calls (Math.round(x), Math.abs(x), Math.max(a, b), ...)
+ */
+export interface MathFunctionExpression {
+  type: "mathFunction";
+  function: "round" | "floor" | "ceil" | "abs" | "pow" | "sqrt" | "min" | "max";
+  arguments: ValueExpression[]; // round() accepts an optional second argument for decimal places
+}
+
+/**
+ * Date functions: Date getters (x.createdAt.getFullYear()) and helpers.functions
+ * dateAdd/dateTrunc/now. datePart follows JavaScript, so month is 0-based
+ */
+export interface DateFunctionExpression {
+  type: "dateFunction";
+  function: "datePart" | "dateAdd" | "dateTrunc" | "now";
+  unit?: "year" | "month" | "day" | "hour" | "minute" | "second"; // Not used by now()
+  arguments: ValueExpression[]; // datePart/dateTrunc: [date], dateAdd: [date, amount], now: []
+}
+
 /**
  * CASE expression (SQL CASE WHEN)
  */
@@ -101,21 +148,59 @@ export interface CoalesceExpression {
  */
 export interface AggregateExpression {
   type: "aggregate";
-  function: "count" | "sum" | "avg" | "min" | "max";
+  function: "count" | "sum" | "avg" | "min" | "max" | "stringAgg" | "arrayAgg" | "jsonAgg";
   expression?: ValueExpression; // Optional - COUNT(*) doesn't need one
+  object?: ObjectExpression; // jsonAgg element built from an object literal
+  separator?: ValueExpression; // stringAgg separator
+  orderBy?: Array<{ expression: ValueExpression; direction: "asc" | "desc" }>; // stringAgg/arrayAgg/jsonAgg element order
+  filter?: BooleanExpression; // Predicate limiting the aggregated rows - FILTER (WHERE ...)
 }
 
 /**
- * Window function expression - for ROW_NUMBER, RANK, DENSE_RANK
- * Supports PARTITION BY and ORDER BY clauses
+ * Window function expression - ranking (ROW_NUMBER, RANK, NTILE, ...), value (LAG, LEAD,
+ * FIRST_VALUE, LAST_VALUE) and aggregate (SUM, AVG, COUNT, MIN, MAX) functions
+ * Supports PARTITION BY, ORDER BY and ROWS/RANGE frame clauses
  */
 export interface WindowFunctionExpression {
   type: "windowFunction";
-  function: "rowNumber" | "rank" | "denseRank";
+  function:
+    | "rowNumber"
+    | "rank"
+    | "denseRank"
+    | "percentRank"
+    | "cumeDist"
+    | "ntile"
+    | "lag"
+    | "lead"
+    | "firstValue"
+    | "lastValue"
+    | "sum"
+    | "avg"
+    | "count"
+    | "min"
+    | "max";
+  arguments?: ValueExpression[]; // lag/lead: [value, offset?, default?], ntile: [buckets], others: [value]
   partitionBy: ValueExpression[];
   orderBy: Array<{ expression: ValueExpression; direction: "asc" | "desc" }>;
+  frame?: WindowFrame;
 }
 
+/**
+ * Window frame clause (ROWS/RANGE BETWEEN start AND end)
+ */
+export interface WindowFrame {
+  unit: "rows" | "range";
+  start: WindowFrameBoundary;
+  end: WindowFrameBoundary;
+}
+
+export type WindowFrameBoundary =
+  | { type: "unboundedPreceding" }
+  | { type: "preceding"; offset: number }
+  | { type: "currentRow" }
+  | { type: "following"; offset: number }
+  | { type: "unboundedFollowing" };
+
 /**
  * Reference to an entire table/object (for JOIN result selectors)
  */
@@ -133,6 +218,55 @@ export interface AllColumnsExpression {
   type: "allColumns";
 }
 
+/**
+ * Correlated scalar subquery built with the query builder inside a lambda
+ * (q.from("orders").count((o) => o.userId === u.id)); yields a single value per outer row
+ */
+export interface ScalarSubqueryExpression {
+  type: "scalarSubquery";
+  subquery:
+    | CountOperation
+    | SumOperation
+    | AverageOperation
+    | MinOperation
+    | MaxOperation
+    | FirstOperation
+    | FirstOrDefaultOperation;
+}
+
+/**
+ * JSON document access - a path into a JSON column (x.metadata.address.city, x.tags[0])
+ * String segments are object keys, numbers are array indexes
+ */
+export interface JsonPathExpression {
+  type: "jsonPath";
+  column: ColumnExpression;
+  path: (string | number)[];
+}
+
+/**
+ * Number of elements of an array column (x.tags.length on a column declared as an array)
+ */
+export interface ArrayLengthExpression {
+  type: "arrayLength";
+  array: ValueExpression;
+}
+
+/**
+ * Text search values from helpers.functions.textRank/textHighlight/textSnippet(document, query, options)
+ * The options become part of the SQL text; highlight and snippet carry their defaults
+ */
+export interface TextSearchFunctionExpression {
+  type: "textSearchFunction";
+  function: "rank" | "highlight" | "snippet";
+  arguments: [ValueExpression, ValueExpression]; // [document, query]
+  config?: string;
+  start?: string; // highlight, snippet
+  end?: string; // highlight, snippet
+  ellipsis?: string; // snippet
+  tokens?: number; // snippet
+}
+
 /**
  * Union type for all value-producing expressions
  */
@@ -143,12 +277,18 @@ export type ValueExpression =
   | ArithmeticExpression
   | ConcatExpression
   | StringMethodExpression
+  | MathFunctionExpression
+  | DateFunctionExpression
   | CaseExpression
   | CoalesceExpression
   | AggregateExpression
   | WindowFunctionExpression
   | ReferenceExpression
-  | AllColumnsExpression;
+  | AllColumnsExpression
+  | ScalarSubqueryExpression
+  | JsonPathExpression
+  | ArrayLengthExpression
+  | TextSearchFunctionExpression;
 
 // ==================== Boolean Expressions ====================
 
@@ -195,6 +335,7 @@ export interface BooleanColumnExpression {
   type: "booleanColumn";
   name: string;
   table?: string;
+  source?: ColumnSource; // Set for outer-row references inside correlated subqueries
 }
 
 /**
@@ -226,12 +367,12 @@ export interface CaseInsensitiveFunctionExpression {
 }
 
 /**
- * IN expression - value in list
+ * IN expression - value in list, or in the rows of a single-column subquery
  */
 export interface InExpression {
   type: "in";
   value: ValueExpression;
-  list: ValueExpression[] | ArrayExpression | ParameterExpression;
+  list: ValueExpression[] | ArrayExpression | ParameterExpression | QueryOperation;
 }
 
 /**
@@ -243,6 +384,68 @@ export interface IsNullExpression {
   negated?: boolean;
 }
 
+/**
+ * EXISTS / NOT EXISTS - correlated subquery from q.from(...).any(...) or .all(...)
+ * any() maps to EXISTS, all() to NOT EXISTS over the rows failing the predicate;
+ * negated flips the result (!q.from(...).any(...))
+ */
+export interface ExistsExpression {
+  type: "exists";
+  subquery: AnyOperation | AllOperation;
+  negated?: boolean;
+}
+
+/**
+ * JSON containment from helpers.functions.jsonContains(x.metadata, { ... })
+ * The value is the JSON document the column (or path) must contain
+ */
+export interface JsonContainsExpression {
+  type: "jsonContains";
+  document: ColumnExpression | JsonPathExpression;
+  value: ValueExpression;
+}
+
+/**
+ * Array column predicates
+ * includes: x.tags.includes(v) on a column declared as an array - arguments are [array, element]
+ * overlaps / containsAll: helpers.functions.overlaps(x.tags, values) - arguments are [array, values]
+ */
+export interface ArrayFunctionExpression {
+  type: "arrayFunction";
+  function: "includes" | "overlaps" | "containsAll";
+  arguments: [ValueExpression, ValueExpression];
+}
+
+/**
+ * LIKE pattern from helpers.functions.like(x.code, "AB_%")
+ * % and _ are wildcards; a backslash escapes them (ESCAPE '\\')
+ */
+export interface LikeExpression {
+  type: "like";
+  value: ValueExpression;
+  pattern: ValueExpression;
+}
+
+/**
+ * Regular expression match from /^INV-\d+$/i.test(x.code) or x.code.match(/^INV-/)
+ * The pattern is the source of the regular expression literal; the i flag sets ignoreCase
+ */
+export interface RegexMatchExpression {
+  type: "regexMatch";
+  value: ValueExpression;
+  pattern: ValueExpression;
+  ignoreCase?: boolean;
+}
+
+/**
+ * Full-text match from helpers.functions.textSearch(x.body, query, { config: "english" })
+ */
+export interface TextSearchExpression {
+  type: "textSearch";
+  arguments: [ValueExpression, ValueExpression]; // [document, query]
+  config?: string;
+}
+
 /**
  * Union type for all boolean-producing expressions
  */
@@ -256,7 +459,13 @@ export type BooleanExpression =
   | BooleanMethodExpression
   | CaseInsensitiveFunctionExpression
   | InExpression
-  | IsNullExpression;
+  | IsNullExpression
+  | ExistsExpression
+  | JsonContainsExpression
+  | ArrayFunctionExpression
+  | LikeExpression
+  | RegexMatchExpression
+  | TextSearchExpression;
 
 // ==================== Complex Expressions ====================
 
@@ -373,12 +582,15 @@ export function isValueExpression(expr: Expression): expr is ValueExpression {
     "arithmetic",
     "concat",
     "stringMethod",
+    "mathFunction",
+    "dateFunction",
     "case",
     "coalesce",
     "aggregate",
     "windowFunction",
     "reference",
     "allColumns",
+    "scalarSubquery",
   ].includes(expr.type);
 }
 
@@ -397,6 +609,7 @@ export function isBooleanExpression(expr: Expression): expr is BooleanExpression
     "caseInsensitiveFunction",
     "in",
     "isNull",
+    "exists",
   ].includes(expr.type);
 }
 
@@ -7,9 +7,10 @@
 // User-facing classes and functions
 
 export { Queryable, OrderedQueryable } from "./linq/queryable.js";
-export { TerminalQuery } from "./linq/terminal-query.js";
+export { TerminalQuery, type ScalarTerminalQuery } from "./linq/terminal-query.js";
 export { from } from "./linq/from.js";
 export { Grouping } from "./linq/grouping.js";
+export type { GroupAggregateOptions } from "./linq/grouping.js";
 export { DatabaseSchema, createSchema } from "./linq/database-context.js";
 export {
   functions,
@@ -17,15 +18,34 @@ export {
   WindowBuilder,
   WindowBuilderWithPartition,
   WindowBuilderWithOrder,
+  WindowBuilderWithFrame,
   WINDOW_MARKER,
 } from "./linq/functions.js";
-export type { QueryHelpers, WindowFunctionType, WindowOrderSpec } from "./linq/functions.js";
+export type {
+  QueryHelpers,
+  WindowFunctionType,
+  WindowOrderSpec,
+  WindowFrameBound,
+  WindowFrameSpec,
+  DateUnit,
+  JsonContainment,
+  TextSearchOptions,
+  TextHighlightOptions,
+  TextSnippetOptions,
+} from "./linq/functions.js";
 export { createQueryBuilder } from "./linq/query-builder.js";
 export type { QueryBuilder } from "./linq/query-builder.js";
+export { createSeekCursor, readSeekCursor } from "./linq/seek-cursor.js";
 
 // Data modification builders
 export { insertInto } from "./linq/insert-into.js";
-export { Insertable, InsertableWithReturning } from "./linq/insertable.js";
+export {
+  Insertable,
+  InsertableOnConflict,
+  InsertableWithConflict,
+  InsertableWithConflictUpdate,
+  InsertableWithReturning,
+} from "./linq/insertable.js";
 export { update } from "./linq/update.js";
 export {
   Updatable,
@@ -34,7 +54,7 @@ export {
   UpdatableWithReturning,
 } from "./linq/updatable.js";
 export { deleteFrom } from "./linq/delete-from.js";
-export { Deletable, DeletableComplete } from "./linq/deletable.js";
+export { Deletable, DeletableComplete, DeletableWithReturning } from "./linq/deletable.js";
 
 // ==================== Expression Types ====================
 // For parsers and SQL generators to use
@@ -53,12 +73,20 @@ export type {
   ArithmeticExpression,
   ConcatExpression,
   StringMethodExpression,
+  MathFunctionExpression,
+  DateFunctionExpression,
   CaseExpression,
   CoalesceExpression,
   AggregateExpression,
   WindowFunctionExpression,
+  WindowFrame,
+  WindowFrameBoundary,
   ReferenceExpression,
   AllColumnsExpression,
+  ScalarSubqueryExpression,
+  JsonPathExpression,
+  ArrayLengthExpression,
+  TextSearchFunctionExpression,
 
   // Boolean expressions
   ComparisonExpression,
@@ -71,6 +99,12 @@ export type {
   CaseInsensitiveFunctionExpression,
   InExpression,
   IsNullExpression,
+  ExistsExpression,
+  JsonContainsExpression,
+  ArrayFunctionExpression,
+  LikeExpression,
+  RegexMatchExpression,
+  TextSearchExpression,
 
   // Complex expressions
   MemberAccessExpression,
@@ -99,6 +133,7 @@ export type {
 
   // Chainable operations
   FromOperation,
+  CommonTableExpression,
   WhereOperation,
   SelectOperation,
   JoinOperation,
@@ -112,12 +147,19 @@ export type {
   ReferenceShapeNode,
   ArrayShapeNode,
   GroupByOperation,
+  HavingOperation,
   OrderByOperation,
   ThenByOperation,
   DistinctOperation,
   TakeOperation,
   SkipOperation,
+  SeekOperation,
   ReverseOperation,
+  UnionOperation,
+  ConcatOperation,
+  IntersectOperation,
+  ExceptOperation,
+  SetOperation,
 
   // Terminal operations
   FirstOperation,
@@ -137,6 +179,7 @@ export type {
 
   // Data modification operations
   InsertOperation,
+  OnConflictClause,
   UpdateOperation,
   DeleteOperation,
 
@@ -168,6 +211,7 @@ export {
   defineSelectPlan,
   SelectPlanHandle,
   SelectTerminalHandle,
+  type ScalarSelectTerminalHandle,
   type SelectPlan,
   type SelectPlanSql,
 } from "./plans/select-plan.js";
@@ -195,6 +239,7 @@ export {
   defineDelete,
   DeletePlanHandleInitial,
   DeletePlanHandleComplete,
+  DeletePlanHandleWithReturning,
   type DeletePlan,
   type DeletePlanSql,
 } from "./plans/delete-plan.js";
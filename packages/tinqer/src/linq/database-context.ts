@@ -2,6 +2,45 @@
  * Type-safe database context for table schemas
  */
 
+/**
+ * Names of the columns of a row type that hold arrays
+ */
+export type ArrayColumnName<TRow> = {
+  [K in keyof TRow]-?: NonNullable<TRow[K]> extends readonly unknown[] ? K : never;
+}[keyof TRow] &
+  string;
+
+/**
+ * Names of the columns of a row type that can hold JSON documents (objects and arrays)
+ */
+export type JsonColumnName<TRow> = {
+  [K in keyof TRow]-?: NonNullable<TRow[K]> extends Date
+    ? never
+    : NonNullable<TRow[K]> extends object
+      ? K
+      : never;
+}[keyof TRow] &
+  string;
+
+/**
+ * Runtime information about the schema that the row types cannot carry
+ * @template TSchema The schema type defining all tables and their row types
+ */
+export interface SchemaOptions<TSchema> {
+  /**
+   * Columns stored as database arrays, by table (e.g. { users: ["tags", "roles"] })
+   * String methods on these columns become array operations: includes() is = ANY, length is cardinality
+   */
+  arrayColumns?: { [TTable in keyof TSchema]?: readonly ArrayColumnName<TSchema[TTable]>[] };
+
+  /**
+   * Columns stored as JSON documents, by table (e.g. { users: ["metadata"] })
+   * Member access below these columns (x.metadata.address.city) reads JSON paths; once declared,
+   * paths below other columns are rejected. Without it, paths are read below any column
+   */
+  jsonColumns?: { [TTable in keyof TSchema]?: readonly JsonColumnName<TSchema[TTable]>[] };
+}
+
 /**
  * Database context that provides type information for tables
  * @template TSchema The schema type defining all tables and their row types
@@ -10,18 +49,34 @@ export class DatabaseSchema<TSchema> {
   // Phantom type to ensure TSchema is used in type checking
   private readonly _phantom?: TSchema;
 
-  constructor() {
-    // Context doesn't need runtime data, just provides type information
+  /**
+   * Array columns by table, from SchemaOptions
+   */
+  readonly arrayColumns?: Readonly<Record<string, readonly string[]>>;
+
+  /**
+   * JSON columns by table, from SchemaOptions
+   */
+  readonly jsonColumns?: Readonly<Record<string, readonly string[]>>;
+
+  constructor(options: SchemaOptions<TSchema> = {}) {
     // The _phantom field is never assigned, it's only for TypeScript type checking
     void this._phantom; // Mark as intentionally unused
+    if (options.arrayColumns) {
+      this.arrayColumns = options.arrayColumns as Record<string, readonly string[]>;
+    }
+    if (options.jsonColumns) {
+      this.jsonColumns = options.jsonColumns as Record<string, readonly string[]>;
+    }
   }
 }
 
 /**
  * Creates a typed database context
  * @template TSchema The schema type defining all tables and their row types
+ * @param options Runtime schema information, such as the array and JSON columns of each table
  * @returns A new DatabaseSchema instance
  */
-export function createSchema<TSchema>(): DatabaseSchema<TSchema> {
-  return new DatabaseSchema<TSchema>();
+export function createSchema<TSchema>(options?: SchemaOptions<TSchema>): DatabaseSchema<TSchema> {
+  return new DatabaseSchema<TSchema>(options);
 }
@@ -50,4 +50,27 @@ export class DeletableComplete<T> {
 
   // Force TypeScript to keep the type parameter
   _?: (_: T) => void;
+
+  /**
+   * Specifies columns to return from the deleted rows
+   * @param selector Function that returns the columns to return
+   * @returns DeletableWithReturning for type inference
+   */
+  returning<TResult>(_selector: (_item: T) => TResult): DeletableWithReturning<T, TResult> {
+    return new DeletableWithReturning<T, TResult>();
+  }
+}
+
+/**
+ * DeletableWithReturning represents a DELETE with RETURNING clause
+ */
+export class DeletableWithReturning<TTable, TResult> {
+  constructor() {
+    // Never actually instantiated - used only for type inference
+    // Type parameters TTable and TResult are preserved for external type inference
+  }
+
+  // Force TypeScript to keep the type parameters
+  _table?: (_: TTable) => void;
+  _result?: (_: TResult) => void;
 }
@@ -1,8 +1,14 @@
 /**
- * Case-insensitive helper functions and window function builders for Tinqer queries
+ * Case-insensitive, pattern, numeric, date, JSON, array and text search helper functions and window function builders for Tinqer queries
  *
  * These functions are available via the second parameter in query lambdas:
  * (params, helpers) => helpers.functions.iequals(a, b)
+ * (params, helpers) => helpers.functions.like(x.code, "AB_%")
+ * (params, helpers) => helpers.functions.round(x.price, 2)
+ * (params, helpers) => helpers.functions.dateAdd(x.createdAt, "day", 7)
+ * (params, helpers) => helpers.functions.jsonContains(x.metadata, { tags: ["vip"] })
+ * (params, helpers) => helpers.functions.overlaps(x.tags, params.tags)
+ * (params, helpers) => helpers.functions.textSearch(x.body, params.q, { config: "english" })
  * (params, helpers) => helpers.window.partitionBy(...).orderBy(...).rowNumber()
  */
 
@@ -16,7 +22,42 @@ export const WINDOW_MARKER = Symbol("window");
 /**
  * Window function type
  */
-export type WindowFunctionType = "rowNumber" | "rank" | "denseRank";
+export type WindowFunctionType =
+  | "rowNumber"
+  | "rank"
+  | "denseRank"
+  | "percentRank"
+  | "cumeDist"
+  | "ntile"
+  | "lag"
+  | "lead"
+  | "firstValue"
+  | "lastValue"
+  | "sum"
+  | "avg"
+  | "count"
+  | "min"
+  | "max";
+
+/**
+ * Window frame boundary for rowsBetween() and rangeBetween()
+ * Offsets must be non-negative integer literals
+ */
+export type WindowFrameBound =
+  | "unboundedPreceding"
+  | "currentRow"
+  | "unboundedFollowing"
+  | { preceding: number }
+  | { following: number };
+
+/**
+ * Window frame specification (ROWS/RANGE BETWEEN start AND end)
+ */
+export interface WindowFrameSpec {
+  unit: "rows" | "range";
+  start: WindowFrameBound;
+  end: WindowFrameBound;
+}
 
 /**
  * Order specification for window functions
@@ -78,16 +119,98 @@ export class WindowBuilderWithPartition<T> {
 }
 
 /**
- * Window builder with order - can add more orderings or call terminal function
+ * Window builder with order and optional frame - terminal window functions
+ * These are never executed at runtime - only parsed by the visitor
  */
-export class WindowBuilderWithOrder<T> {
+export class WindowBuilderWithFrame<T> {
   readonly __windowMarker = WINDOW_MARKER;
 
   constructor(
     public readonly partitionBySelectors: Array<(row: T) => unknown>,
     public readonly orderBySpecs: Array<WindowOrderSpec<T>>,
+    public readonly frame?: WindowFrameSpec,
   ) {}
 
+  // Ranking functions
+  rowNumber(): number {
+    return notExecutable();
+  }
+
+  rank(): number {
+    return notExecutable();
+  }
+
+  denseRank(): number {
+    return notExecutable();
+  }
+
+  percentRank(): number {
+    return notExecutable();
+  }
+
+  cumeDist(): number {
+    return notExecutable();
+  }
+
+  ntile(_buckets: number): number {
+    return notExecutable();
+  }
+
+  // Value functions
+  lag<V>(selector: (row: T) => V, offset?: number): V | null;
+  lag<V>(selector: (row: T) => V, offset: number, defaultValue: V): V;
+  lag<V>(_selector: (row: T) => V, _offset?: number, _defaultValue?: V): V | null {
+    return notExecutable();
+  }
+
+  lead<V>(selector: (row: T) => V, offset?: number): V | null;
+  lead<V>(selector: (row: T) => V, offset: number, defaultValue: V): V;
+  lead<V>(_selector: (row: T) => V, _offset?: number, _defaultValue?: V): V | null {
+    return notExecutable();
+  }
+
+  firstValue<V>(_selector: (row: T) => V): V {
+    return notExecutable();
+  }
+
+  // Without a frame, SQL's default frame ends at the current row
+  lastValue<V>(_selector: (row: T) => V): V {
+    return notExecutable();
+  }
+
+  // Aggregates over the window (running totals, moving averages)
+  sum(_selector: (row: T) => number): number {
+    return notExecutable();
+  }
+
+  avg(_selector: (row: T) => number): number {
+    return notExecutable();
+  }
+
+  count(): number {
+    return notExecutable();
+  }
+
+  min<V>(_selector: (row: T) => V): V {
+    return notExecutable();
+  }
+
+  max<V>(_selector: (row: T) => V): V {
+    return notExecutable();
+  }
+}
+
+/**
+ * Window builder with order - can add more orderings, a frame, or call a terminal function
+ */
+export class WindowBuilderWithOrder<T> extends WindowBuilderWithFrame<T> {
+  constructor(
+    partitionBySelectors: Array<(row: T) => unknown>,
+    orderBySpecs: Array<WindowOrderSpec<T>>,
+  ) {
+    super(partitionBySelectors, orderBySpecs);
+  }
+
   thenBy(selector: (row: T) => unknown): WindowBuilderWithOrder<T> {
     return new WindowBuilderWithOrder<T>(this.partitionBySelectors, [
       ...this.orderBySpecs,
@@ -102,19 +225,25 @@ export class WindowBuilderWithOrder<T> {
     ]);
   }
 
-  // Terminal operations - these return number!
-  // They are never executed at runtime - only parsed by the visitor
-  rowNumber(): number {
-    throw new Error("Window functions are parsed for SQL generation, not executed at runtime.");
+  rowsBetween(start: WindowFrameBound, end: WindowFrameBound): WindowBuilderWithFrame<T> {
+    return new WindowBuilderWithFrame<T>(this.partitionBySelectors, this.orderBySpecs, {
+      unit: "rows",
+      start,
+      end,
+    });
   }
 
-  rank(): number {
-    throw new Error("Window functions are parsed for SQL generation, not executed at runtime.");
+  rangeBetween(start: WindowFrameBound, end: WindowFrameBound): WindowBuilderWithFrame<T> {
+    return new WindowBuilderWithFrame<T>(this.partitionBySelectors, this.orderBySpecs, {
+      unit: "range",
+      start,
+      end,
+    });
   }
+}
 
-  denseRank(): number {
-    throw new Error("Window functions are parsed for SQL generation, not executed at runtime.");
-  }
+function notExecutable(): never {
+  throw new Error("Window functions are parsed for SQL generation, not executed at runtime.");
 }
 
 // ==================== Case-Insensitive Functions ====================
@@ -155,14 +284,214 @@ export function icontains(_str: string, _substring: string): boolean {
   );
 }
 
+// ==================== Pattern Functions ====================
+
+/**
+ * SQL LIKE pattern match: % matches any run of characters, _ a single character
+ * A backslash escapes a wildcard ("100\\%" matches "100%"); the pattern is bound as a parameter
+ */
+export function like(_str: string | null, _pattern: string): boolean {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+// ==================== Numeric Functions ====================
+
+/**
+ * Round a number to a number of decimal places with SQL ROUND
+ * Halves round away from zero, unlike Math.round (-2.5 rounds to -3)
+ */
+export function round(_value: number | null, _digits: number): number {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+// ==================== Date Functions ====================
+
+/**
+ * Date unit for dateAdd() and dateTrunc()
+ */
+export type DateUnit = "year" | "month" | "day" | "hour" | "minute" | "second";
+
+/**
+ * Add an amount of a date unit to a date (negative amounts subtract)
+ * The unit must be a string literal
+ */
+export function dateAdd(_date: Date, _unit: DateUnit, _amount: number): Date {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+/**
+ * Truncate a date to the start of a date unit
+ * The unit must be a string literal
+ */
+export function dateTrunc(_unit: DateUnit, _date: Date): Date {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+/**
+ * Current date and time, evaluated by the database
+ */
+export function now(): Date {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+// ==================== JSON Functions ====================
+
+/**
+ * A fragment of a JSON document: any subset of its keys, with array elements to look for
+ */
+export type JsonContainment<T> = T extends readonly (infer E)[]
+  ? JsonContainment<E>[]
+  : T extends object
+    ? { [K in keyof T]?: JsonContainment<T[K]> }
+    : T;
+
+/**
+ * JSON containment: the document holds every key and array element of the value
+ * The value must be an object or array literal, or a query parameter
+ */
+export function jsonContains<T>(_document: T, _value: JsonContainment<T>): boolean {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+// ==================== Array Functions ====================
+
+/**
+ * Array overlap: the array column shares at least one element with the values
+ * The values must be an array literal, a query parameter or another array column
+ */
+export function overlaps<T>(_array: readonly T[], _values: readonly T[]): boolean {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+/**
+ * Array containment: the array column holds every one of the values
+ * The values must be an array literal, a query parameter or another array column
+ */
+export function containsAll<T>(_array: readonly T[], _values: readonly T[]): boolean {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+// ==================== Text Search Functions ====================
+
+/**
+ * Options shared by the text search functions
+ * config names the PostgreSQL text search configuration ("english", "simple", ...);
+ * SQLite ignores it because FTS5 tables pick their tokenizer when created
+ */
+export interface TextSearchOptions {
+  config?: string;
+}
+
+/**
+ * Options for textHighlight(): the markers placed around matched terms
+ */
+export interface TextHighlightOptions extends TextSearchOptions {
+  start?: string; // Defaults to "<b>"
+  end?: string; // Defaults to "</b>"
+}
+
+/**
+ * Options for textSnippet(): the highlight markers, the text marking cut-off
+ * fragments and the snippet length in words
+ */
+export interface TextSnippetOptions extends TextHighlightOptions {
+  ellipsis?: string; // Defaults to "..."
+  tokens?: number; // Defaults to 10, between 2 and 64
+}
+
+/**
+ * Full-text match of a document column against a search query
+ * PostgreSQL: to_tsvector(document) @@ websearch_to_tsquery(query)
+ * SQLite: document MATCH query on an FTS5 virtual table column, with each word of the query quoted
+ */
+export function textSearch(
+  _document: string | null,
+  _query: string,
+  _options?: TextSearchOptions,
+): boolean {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+/**
+ * Relevance of a document for a search query; higher ranks match better
+ * PostgreSQL: ts_rank(...), SQLite: -bm25(table) on an FTS5 virtual table
+ */
+export function textRank(
+  _document: string | null,
+  _query: string,
+  _options?: TextSearchOptions,
+): number {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+/**
+ * The document with every matched term wrapped in the start and end markers
+ * PostgreSQL: ts_headline(...), SQLite: highlight(table, column, start, end)
+ */
+export function textHighlight(
+  _document: string | null,
+  _query: string,
+  _options?: TextHighlightOptions,
+): string {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
+/**
+ * A short fragment of the document around the matched terms, with highlighted matches
+ * PostgreSQL: ts_headline(...) with MaxWords, SQLite: snippet(table, column, ...)
+ */
+export function textSnippet(
+  _document: string | null,
+  _query: string,
+  _options?: TextSnippetOptions,
+): string {
+  throw new Error(
+    "This function should not be executed at runtime. It's parsed for SQL generation.",
+  );
+}
+
 /**
- * Collection of case-insensitive functions
+ * Collection of case-insensitive, pattern, numeric, date, JSON, array and text search functions
  */
 export const functions = {
   iequals,
   istartsWith,
   iendsWith,
   icontains,
+  like,
+  round,
+  dateAdd,
+  dateTrunc,
+  now,
+  jsonContains,
+  overlaps,
+  containsAll,
+  textSearch,
+  textRank,
+  textHighlight,
+  textSnippet,
 } as const;
 
 /**
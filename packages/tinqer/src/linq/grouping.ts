@@ -1,3 +1,11 @@
+/**
+ * Element order for stringAgg / arrayAgg / jsonAgg, e.g. { orderBy: (x) => x.name, descending: true }
+ */
+export interface GroupAggregateOptions<TElement> {
+  orderBy?: (element: TElement) => unknown;
+  descending?: boolean;
+}
+
 /**
  * Represents a collection of objects that have a common key
  * Matches .NET LINQ Grouping pattern
@@ -24,32 +32,71 @@ export class Grouping<TKey, TElement> implements Iterable<TElement> {
   /**
    * Aggregate methods - these are placeholders for type safety
    * The SQL generator handles these specially and they're never actually called
+   * The optional predicate limits the aggregate to matching elements (FILTER (WHERE ...)),
+   * e.g. g.count((x) => x.status === "open") or g.sum((x) => x.total, (x) => x.paid)
    */
 
-  count(): number {
+  count(_predicate?: (element: TElement) => boolean): number {
     throw new Error("Grouping.count() is handled by SQL generator");
   }
 
-  sum(_selector: (element: TElement) => number): number {
+  sum(
+    _selector: (element: TElement) => number,
+    _predicate?: (element: TElement) => boolean,
+  ): number {
     throw new Error("Grouping.sum() is handled by SQL generator");
   }
 
-  avg(_selector: (element: TElement) => number): number {
+  avg(
+    _selector: (element: TElement) => number,
+    _predicate?: (element: TElement) => boolean,
+  ): number {
     throw new Error("Grouping.avg() is handled by SQL generator");
   }
 
-  average(selector: (element: TElement) => number): number {
-    return this.avg(selector);
+  average(
+    selector: (element: TElement) => number,
+    predicate?: (element: TElement) => boolean,
+  ): number {
+    return this.avg(selector, predicate);
   }
 
-  min<TResult>(_selector: (element: TElement) => TResult): TResult {
+  min<TResult>(
+    _selector: (element: TElement) => TResult,
+    _predicate?: (element: TElement) => boolean,
+  ): TResult {
     throw new Error("Grouping.min() is handled by SQL generator");
   }
 
-  max<TResult>(_selector: (element: TElement) => TResult): TResult {
+  max<TResult>(
+    _selector: (element: TElement) => TResult,
+    _predicate?: (element: TElement) => boolean,
+  ): TResult {
     throw new Error("Grouping.max() is handled by SQL generator");
   }
 
+  stringAgg(
+    _selector: (element: TElement) => string | null,
+    _separator: string,
+    _options?: GroupAggregateOptions<TElement>,
+  ): string {
+    throw new Error("Grouping.stringAgg() is handled by SQL generator");
+  }
+
+  arrayAgg<TResult>(
+    _selector: (element: TElement) => TResult,
+    _options?: GroupAggregateOptions<TElement>,
+  ): TResult[] {
+    throw new Error("Grouping.arrayAgg() is handled by SQL generator");
+  }
+
+  jsonAgg<TResult>(
+    _selector: (element: TElement) => TResult,
+    _options?: GroupAggregateOptions<TElement>,
+  ): TResult[] {
+    throw new Error("Grouping.jsonAgg() is handled by SQL generator");
+  }
+
   defaultIfEmpty(_defaultValue?: TElement): Iterable<TElement> {
     throw new Error("Grouping.defaultIfEmpty() is handled by SQL generator");
   }
@@ -12,15 +12,75 @@ export class Insertable<T> {
 
   /**
    * Specifies the values to insert
-   * @param valuesSelector Object mapping columns to values
+   * @param valuesSelector Object mapping columns to values, or an array parameter of rows
    * @returns Insertable for further chaining
    */
-  values(_valuesSelector: Partial<T>): Insertable<T> {
+  values(_valuesSelector: Partial<T>): Insertable<T>;
+  values(_rows: readonly Partial<T>[]): Insertable<T>;
+  values(_valuesSelector: Partial<T> | readonly Partial<T>[]): Insertable<T> {
     return this;
   }
 
   /**
-   * Specifies columns to return after insert (PostgreSQL only)
+   * Starts an ON CONFLICT clause for upserts
+   * @param target Function that returns the conflict target column(s); omit to match any constraint
+   * @returns InsertableOnConflict for choosing the conflict action
+   */
+  onConflict(_target?: (_item: T) => unknown): InsertableOnConflict<T> {
+    return new InsertableOnConflict<T>();
+  }
+
+  /**
+   * Specifies columns to return after insert
+   * @param selector Function that returns the columns to return
+   * @returns InsertableWithReturning for type inference
+   */
+  returning<TResult>(_selector: (_item: T) => TResult): InsertableWithReturning<T, TResult> {
+    return new InsertableWithReturning<T, TResult>();
+  }
+}
+
+/**
+ * InsertableOnConflict chooses the action for an ON CONFLICT clause
+ */
+export class InsertableOnConflict<T> {
+  constructor() {
+    // Never actually instantiated - used only for type inference
+  }
+
+  /**
+   * Ignores rows that conflict (ON CONFLICT DO NOTHING)
+   * @returns InsertableWithConflict for further chaining
+   */
+  doNothing(): InsertableWithConflict<T> {
+    return new InsertableWithConflict<T>();
+  }
+
+  /**
+   * Updates the existing row on conflict (ON CONFLICT DO UPDATE SET)
+   * @param selector Function receiving the existing row and the excluded (proposed) row
+   * @returns InsertableWithConflictUpdate for further chaining
+   */
+  doUpdateSet(
+    _selector: (_existing: T, _excluded: T) => Partial<T>,
+  ): InsertableWithConflictUpdate<T> {
+    return new InsertableWithConflictUpdate<T>();
+  }
+}
+
+/**
+ * InsertableWithConflict represents an INSERT with a complete ON CONFLICT clause
+ */
+export class InsertableWithConflict<T> {
+  constructor() {
+    // Never actually instantiated - used only for type inference
+  }
+
+  // Force TypeScript to keep the type parameter
+  _conflict?: (_: T) => void;
+
+  /**
+   * Specifies columns to return after insert
    * @param selector Function that returns the columns to return
    * @returns InsertableWithReturning for type inference
    */
@@ -29,6 +89,20 @@ export class Insertable<T> {
   }
 }
 
+/**
+ * InsertableWithConflictUpdate represents an INSERT with ON CONFLICT DO UPDATE
+ */
+export class InsertableWithConflictUpdate<T> extends InsertableWithConflict<T> {
+  /**
+   * Restricts which conflicting rows are updated (ON CONFLICT DO UPDATE ... WHERE)
+   * @param predicate Function receiving the existing row and the excluded (proposed) row
+   * @returns InsertableWithConflict for further chaining
+   */
+  where(_predicate: (_existing: T, _excluded: T) => boolean): InsertableWithConflict<T> {
+    return new InsertableWithConflict<T>();
+  }
+}
+
 /**
  * InsertableWithReturning represents an INSERT with RETURNING clause
  */
@@ -20,6 +20,29 @@ export interface QueryBuilder<TSchema> {
   insertInto<K extends keyof TSchema & string>(table: K): Insertable<TSchema[K]>;
   update<K extends keyof TSchema & string>(table: K): Updatable<TSchema[K]>;
   deleteFrom<K extends keyof TSchema & string>(table: K): Deletable<TSchema[K]>;
+
+  /**
+   * Declare a common table expression that later from() calls can read by name
+   * @param name The CTE name
+   * @param query The query the CTE stands for, or a function building it from a builder
+   * that knows the CTEs declared so far
+   */
+  with<K extends string, TRow>(
+    name: K,
+    query: Queryable<TRow> | ((q: QueryBuilder<TSchema>) => Queryable<TRow>),
+  ): QueryBuilder<TSchema & Record<K, TRow>>;
+
+  /**
+   * Declare a recursive common table expression
+   * @param name The CTE name
+   * @param anchor The query producing the initial rows
+   * @param step Builds the query producing further rows; it reads the CTE itself through its builder
+   */
+  withRecursive<K extends string, TRow>(
+    name: K,
+    anchor: Queryable<TRow>,
+    step: (q: QueryBuilder<TSchema & Record<K, TRow>>) => Queryable<TRow>,
+  ): QueryBuilder<TSchema & Record<K, TRow>>;
 }
 
 /**
@@ -35,5 +58,17 @@ export function createQueryBuilder<TSchema>(
     insertInto: (table) => insertInto(context, table),
     update: (table) => update(context, table),
     deleteFrom: (table) => deleteFrom(context, table),
+    // CTEs only extend the schema type; the parser reads them from the query source
+    with: <K extends string, TRow>() => extendQueryBuilder<TSchema, K, TRow>(context),
+    withRecursive: <K extends string, TRow>() => extendQueryBuilder<TSchema, K, TRow>(context),
   };
 }
+
+/**
+ * Creates a query DSL object whose schema also has the given common table expression
+ */
+function extendQueryBuilder<TSchema, K extends string, TRow>(
+  context: DatabaseSchema<TSchema>,
+): QueryBuilder<TSchema & Record<K, TRow>> {
+  return createQueryBuilder(context as unknown as DatabaseSchema<TSchema & Record<K, TRow>>);
+}
@@ -4,7 +4,7 @@
  */
 
 import type { Grouping } from "./grouping.js";
-import { TerminalQuery } from "./terminal-query.js";
+import { TerminalQuery, type ScalarTerminalQuery } from "./terminal-query.js";
 
 /**
  * Queryable provides a fluent API for building queries with type safety.
@@ -34,6 +34,72 @@ export class Queryable<T> {
     _outerKeySelector: (_outer: T) => TKey,
     _innerKeySelector: (_inner: TInner) => TKey,
     _resultSelector: (_outer: T, _inner: TInner) => TResult,
+  ): Queryable<TResult>;
+
+  join<TInner, TResult>(
+    _inner: Queryable<TInner>,
+    _predicate: (_outer: T, _inner: TInner) => boolean,
+    _resultSelector: (_outer: T, _inner: TInner) => TResult,
+  ): Queryable<TResult>;
+
+  join<TResult>(..._args: unknown[]): Queryable<TResult> {
+    return new Queryable<TResult>();
+  }
+
+  leftJoin<TInner, TKey, TResult>(
+    _inner: Queryable<TInner>,
+    _outerKeySelector: (_outer: T) => TKey,
+    _innerKeySelector: (_inner: TInner) => TKey,
+    _resultSelector: (_outer: T, _inner: TInner | null) => TResult,
+  ): Queryable<TResult>;
+
+  leftJoin<TInner, TResult>(
+    _inner: Queryable<TInner>,
+    _predicate: (_outer: T, _inner: TInner) => boolean,
+    _resultSelector: (_outer: T, _inner: TInner | null) => TResult,
+  ): Queryable<TResult>;
+
+  leftJoin<TResult>(..._args: unknown[]): Queryable<TResult> {
+    return new Queryable<TResult>();
+  }
+
+  rightJoin<TInner, TKey, TResult>(
+    _inner: Queryable<TInner>,
+    _outerKeySelector: (_outer: T) => TKey,
+    _innerKeySelector: (_inner: TInner) => TKey,
+    _resultSelector: (_outer: T | null, _inner: TInner) => TResult,
+  ): Queryable<TResult>;
+
+  rightJoin<TInner, TResult>(
+    _inner: Queryable<TInner>,
+    _predicate: (_outer: T, _inner: TInner) => boolean,
+    _resultSelector: (_outer: T | null, _inner: TInner) => TResult,
+  ): Queryable<TResult>;
+
+  rightJoin<TResult>(..._args: unknown[]): Queryable<TResult> {
+    return new Queryable<TResult>();
+  }
+
+  fullJoin<TInner, TKey, TResult>(
+    _inner: Queryable<TInner>,
+    _outerKeySelector: (_outer: T) => TKey,
+    _innerKeySelector: (_inner: TInner) => TKey,
+    _resultSelector: (_outer: T | null, _inner: TInner | null) => TResult,
+  ): Queryable<TResult>;
+
+  fullJoin<TInner, TResult>(
+    _inner: Queryable<TInner>,
+    _predicate: (_outer: T, _inner: TInner) => boolean,
+    _resultSelector: (_outer: T | null, _inner: TInner | null) => TResult,
+  ): Queryable<TResult>;
+
+  fullJoin<TResult>(..._args: unknown[]): Queryable<TResult> {
+    return new Queryable<TResult>();
+  }
+
+  crossJoin<TInner, TResult>(
+    _inner: Queryable<TInner>,
+    _resultSelector: (_outer: T, _inner: TInner) => TResult,
   ): Queryable<TResult> {
     return new Queryable<TResult>();
   }
@@ -121,12 +187,12 @@ export class Queryable<T> {
 
   // ==================== Terminal Operations ====================
 
-  first(_predicate?: (_item: T) => boolean): TerminalQuery<T> {
-    return new TerminalQuery<T>();
+  first(_predicate?: (_item: T) => boolean): ScalarTerminalQuery<T> {
+    return new TerminalQuery<T>() as ScalarTerminalQuery<T>;
   }
 
-  firstOrDefault(_predicate?: (_item: T) => boolean): TerminalQuery<T | undefined> {
-    return new TerminalQuery<T | undefined>();
+  firstOrDefault(_predicate?: (_item: T) => boolean): ScalarTerminalQuery<T | undefined> {
+    return new TerminalQuery<T | undefined>() as ScalarTerminalQuery<T | undefined>;
   }
 
   single(_predicate?: (_item: T) => boolean): TerminalQuery<T> {
@@ -145,46 +211,46 @@ export class Queryable<T> {
     return new TerminalQuery<T | undefined>();
   }
 
-  contains(_value: T): TerminalQuery<boolean> {
-    return new TerminalQuery<boolean>();
+  contains(_value: T): ScalarTerminalQuery<boolean> {
+    return new TerminalQuery<boolean>() as ScalarTerminalQuery<boolean>;
   }
 
   // ==================== Aggregates ====================
 
-  sum(_selector?: (_item: T) => number): TerminalQuery<number> {
-    return new TerminalQuery<number>();
+  sum(_selector?: (_item: T) => number): ScalarTerminalQuery<number> {
+    return new TerminalQuery<number>() as ScalarTerminalQuery<number>;
   }
 
-  average(_selector?: (_item: T) => number): TerminalQuery<number> {
-    return new TerminalQuery<number>();
+  average(_selector?: (_item: T) => number): ScalarTerminalQuery<number> {
+    return new TerminalQuery<number>() as ScalarTerminalQuery<number>;
   }
 
-  min(): TerminalQuery<T>;
-  min<TResult>(_selector: (_item: T) => TResult): TerminalQuery<TResult>;
-  min<TResult>(_selector?: (_item: T) => TResult): TerminalQuery<T | TResult> {
-    return new TerminalQuery<T | TResult>();
+  min(): ScalarTerminalQuery<T>;
+  min<TResult>(_selector: (_item: T) => TResult): ScalarTerminalQuery<TResult>;
+  min<TResult>(_selector?: (_item: T) => TResult): ScalarTerminalQuery<T | TResult> {
+    return new TerminalQuery<T | TResult>() as ScalarTerminalQuery<T | TResult>;
   }
 
-  max(): TerminalQuery<T>;
-  max<TResult>(_selector: (_item: T) => TResult): TerminalQuery<TResult>;
-  max<TResult>(_selector?: (_item: T) => TResult): TerminalQuery<T | TResult> {
-    return new TerminalQuery<T | TResult>();
+  max(): ScalarTerminalQuery<T>;
+  max<TResult>(_selector: (_item: T) => TResult): ScalarTerminalQuery<TResult>;
+  max<TResult>(_selector?: (_item: T) => TResult): ScalarTerminalQuery<T | TResult> {
+    return new TerminalQuery<T | TResult>() as ScalarTerminalQuery<T | TResult>;
   }
 
   // ==================== Boolean Tests ====================
 
-  any(_predicate?: (_item: T) => boolean): TerminalQuery<boolean> {
-    return new TerminalQuery<boolean>();
+  any(_predicate?: (_item: T) => boolean): ScalarTerminalQuery<boolean> {
+    return new TerminalQuery<boolean>() as ScalarTerminalQuery<boolean>;
   }
 
-  all(_predicate: (_item: T) => boolean): TerminalQuery<boolean> {
-    return new TerminalQuery<boolean>();
+  all(_predicate: (_item: T) => boolean): ScalarTerminalQuery<boolean> {
+    return new TerminalQuery<boolean>() as ScalarTerminalQuery<boolean>;
   }
 
   // ==================== Counting ====================
 
-  count(_predicate?: (_item: T) => boolean): TerminalQuery<number> {
-    return new TerminalQuery<number>();
+  count(_predicate?: (_item: T) => boolean): ScalarTerminalQuery<number> {
+    return new TerminalQuery<number>() as ScalarTerminalQuery<number>;
   }
 }
 
@@ -222,4 +288,13 @@ export class OrderedQueryable<T> extends Queryable<T> {
   thenByDescending<TKey>(_keySelector: (_item: T) => TKey): OrderedQueryable<T> {
     return this;
   }
+
+  // Keyset pagination: the cursor holds one value per orderBy/thenBy key
+  seekAfter(_cursor: readonly unknown[]): OrderedQueryable<T> {
+    return this;
+  }
+
+  seekBefore(_cursor: readonly unknown[]): OrderedQueryable<T> {
+    return this;
+  }
 }
@@ -0,0 +1,67 @@
+/**
+ * Opaque cursor tokens for keyset pagination (seekAfter / seekBefore)
+ * Tokens are base64url-encoded UTF-8 JSON, built with btoa/atob and TextEncoder/TextDecoder
+ * so the core package runs without Node's Buffer
+ */
+
+const DATE_TAG = "$date";
+
+/**
+ * Create an opaque cursor token from a row, usually the last row of a page
+ * The key selector must return the row's values for the orderBy/thenBy keys, in order
+ *
+ * @example
+ * const token = createSeekCursor(rows[rows.length - 1]!, (r) => [r.createdAt, r.id]);
+ */
+export function createSeekCursor<T>(row: T, keySelector: (row: T) => readonly unknown[]): string {
+  const json = JSON.stringify(keySelector(row).map(encodeValue));
+  return toBase64Url(json);
+}
+
+/**
+ * Read the key values back from a cursor token, ready to pass to seekAfter/seekBefore
+ */
+export function readSeekCursor(token: string): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(fromBase64Url(token));
+  } catch {
+    throw new Error("Invalid seek cursor");
+  }
+
+  if (!Array.isArray(values)) {
+    throw new Error("Invalid seek cursor");
+  }
+  return values.map(decodeValue);
+}
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(token: string): string {
+  const binary = atob(token.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return { [DATE_TAG]: value.toISOString() };
+  }
+  if (value === undefined) {
+    return null;
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (value !== null && typeof value === "object" && DATE_TAG in value) {
+    return new Date((value as Record<string, string>)[DATE_TAG]!);
+  }
+  return value;
+}
@@ -12,3 +12,10 @@ export class TerminalQuery<T = unknown> {
     // T parameter used for compile-time type checking only
   }
 }
+
+/**
+ * A terminal query whose result is a single scalar value.
+ * Typed as the value too, so it can be used inside another query's lambdas,
+ * where it is translated to a subquery (q.from("orders").any(...) in a where predicate).
+ */
+export type ScalarTerminalQuery<T> = TerminalQuery<T> & T;
@@ -15,10 +15,11 @@ export class Updatable<T> {
   /**
    * Specifies the columns to update and their new values
    * Can only be called once per query
-   * @param setSelector Object mapping columns to new values
+   * @param setSelector Object mapping columns to new values, or a function of the current row
+   * returning that object (e.g. u => ({ views: u.views + 1 }))
    * @returns UpdatableWithSet for further chaining
    */
-  set(_setSelector: Partial<T>): UpdatableWithSet<T> {
+  set(_setSelector: Partial<T> | ((_item: T) => Partial<T>)): UpdatableWithSet<T> {
     if (this.__hasSet) {
       throw new Error("set() can only be called once per UPDATE query");
     }
@@ -73,7 +74,7 @@ export class UpdatableComplete<T> {
   }
 
   /**
-   * Specifies columns to return after update (PostgreSQL only)
+   * Specifies columns to return after update
    * @param selector Function that returns the columns to return
    * @returns UpdatableWithReturning for type inference
    */
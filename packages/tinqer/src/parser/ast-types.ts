@@ -105,6 +105,7 @@ export interface Literal extends ASTNode {
   type: "Literal" | "NumericLiteral" | "StringLiteral" | "BooleanLiteral" | "NullLiteral";
   value: string | number | boolean | null;
   raw?: string;
+  regex?: { pattern: string; flags: string }; // Set for regular expression literals
 }
 
 export interface NumericLiteral extends ASTNode {
@@ -28,6 +28,7 @@ import { visitOrderByOperation, visitThenByOperation } from "../visitors/orderby
 import { visitTakeOperation } from "../visitors/take-skip/take.js";
 import { visitSkipOperation } from "../visitors/take-skip/skip.js";
 import { visitDistinctOperation } from "../visitors/distinct/index.js";
+import { visitSetOperatorOperation } from "../visitors/set-operations/index.js";
 import { visitJoinOperation } from "../visitors/join/index.js";
 import { visitGroupJoinOperation } from "../visitors/groupjoin/index.js";
 import { visitSelectManyOperation } from "../visitors/select-many/index.js";
@@ -44,17 +45,27 @@ import { visitAnyOperation } from "../visitors/boolean-predicates/any.js";
 import { visitAllOperation } from "../visitors/boolean-predicates/all.js";
 import { visitContainsOperation } from "../visitors/contains/index.js";
 import { visitReverseOperation } from "../visitors/reverse/index.js";
+import { visitSeekOperation } from "../visitors/seek/index.js";
+import { isWithClause, visitWithClause } from "../visitors/with/index.js";
 
 // Data modification visitors
 import { visitInsertOperation } from "../visitors/insert/index.js";
 import { visitValuesOperation } from "../visitors/insert/values.js";
 import { visitReturningOperation } from "../visitors/insert/returning.js";
+import {
+  visitOnConflictOperation,
+  visitDoNothingOperation,
+  visitDoUpdateSetOperation,
+  visitWhereConflictOperation,
+} from "../visitors/insert/on-conflict.js";
 import { visitUpdateOperation } from "../visitors/update/index.js";
 import { visitSetOperation } from "../visitors/update/set.js";
 import { visitWhereUpdateOperation } from "../visitors/update/where-update.js";
 import { visitAllowFullUpdateOperation } from "../visitors/update/allow-full-update.js";
 import { visitReturningUpdateOperation } from "../visitors/update/returning-update.js";
+import { visitReturningDeleteOperation } from "../visitors/delete/returning-delete.js";
 import { visitDeleteOperation } from "../visitors/delete/index.js";
+import { getSubqueryAlias } from "../visitors/common/subquery.js";
 import { visitWhereDeleteOperation } from "../visitors/delete/where-delete.js";
 import { visitAllowFullDeleteOperation } from "../visitors/delete/allow-full-delete.js";
 
@@ -77,6 +88,9 @@ export function convertAstToQueryOperationWithParams(
   startCounter?: number,
   existingAutoParams?: Map<string, unknown>,
   maybeQueryBuilderParam?: string,
+  inheritedQueryParams?: Set<string>,
+  maybeHelpersParam?: string,
+  subqueryScope?: { outerParams: Map<string, string>; depth: number },
 ): {
   operation: QueryOperation | null;
   autoParams: Record<string, unknown>;
@@ -92,7 +106,15 @@ export function convertAstToQueryOperationWithParams(
   // If no DSL param was extracted (e.g., for non-lambda expressions like q.from()),
   // use the existing DSL param from parent context
   const queryBuilderParam = extracted.queryBuilderParam || maybeQueryBuilderParam;
-  const { tableParams, queryParams, helpersParam } = extracted;
+  const { tableParams, queryParams } = extracted;
+  const helpersParam = extracted.helpersParam || maybeHelpersParam;
+
+  // Sub-queries (e.g. the inner side of a JOIN) may reference the outer query params
+  if (inheritedQueryParams) {
+    for (const param of inheritedQueryParams) {
+      queryParams.add(param);
+    }
+  }
 
   // Create shared visitor context
   const visitorContext: VisitorContext = {
@@ -103,6 +125,10 @@ export function convertAstToQueryOperationWithParams(
     autoParams: existingAutoParams || new Map(),
     autoParamCounter: startCounter || 0,
     autoParamInfos: new Map(), // Initialize enhanced field context tracking
+    ...(subqueryScope && {
+      outerParams: subqueryScope.outerParams,
+      subqueryDepth: subqueryScope.depth,
+    }),
   };
 
   // Visit the query chain
@@ -286,11 +312,33 @@ function visitCallExpression(
     // Set current table in context for field tracking
     if (operation) {
       visitorContext.currentTable = operation.table;
+      // Correlated subqueries alias their table so outer-row references stay unambiguous
+      if (visitorContext.subqueryDepth) {
+        operation.aliasHint = getSubqueryAlias(visitorContext.subqueryDepth);
+      }
     }
     // FROM doesn't have auto-params
     return operation;
   }
 
+  // from() after q.with(...) / q.withRecursive(...) - the query carries the WITH clause
+  if (
+    methodName === "from" &&
+    ast.callee.type === "MemberExpression" &&
+    isWithClause((ast.callee as ASTMemberExpression).object, visitorContext.queryBuilderParam)
+  ) {
+    const ctes = visitWithClause(
+      (ast.callee as ASTMemberExpression).object as ASTCallExpression,
+      visitorContext,
+    );
+    const operation = visitFromOperation(ast);
+    if (operation) {
+      visitorContext.currentTable = operation.table;
+      operation.ctes = ctes;
+    }
+    return operation;
+  }
+
   if (methodName === "insertInto" && (isDSLCall || isBareCall)) {
     const operation = visitInsertOperation(ast);
     // Set current table in context for field tracking
@@ -349,6 +397,19 @@ function visitCallExpression(
             return result.operation;
           }
           return null;
+        } else if (source.operationType === "insert") {
+          const result = visitWhereConflictOperation(
+            ast,
+            source as InsertOperation,
+            visitorContext,
+          );
+          if (result) {
+            for (const [key, value] of Object.entries(result.autoParams)) {
+              visitorContext.autoParams.set(key, value);
+            }
+            return result.operation;
+          }
+          return null;
         }
 
         // Regular WHERE for SELECT operations
@@ -425,6 +486,19 @@ function visitCallExpression(
         return null;
       }
 
+      case "seekAfter":
+      case "seekBefore": {
+        const result = visitSeekOperation(ast, source, methodName, visitorContext);
+        if (result) {
+          // Merge auto-params back into context
+          for (const [key, value] of Object.entries(result.autoParams)) {
+            visitorContext.autoParams.set(key, value);
+          }
+          return result.operation;
+        }
+        return null;
+      }
+
       case "distinct": {
         const result = visitDistinctOperation(ast, source, methodName, visitorContext);
         if (result) {
@@ -434,7 +508,26 @@ function visitCallExpression(
         return null;
       }
 
-      case "join": {
+      case "union":
+      case "concat":
+      case "intersect":
+      case "except": {
+        const result = visitSetOperatorOperation(ast, source, methodName, visitorContext);
+        if (result) {
+          // Merge auto-params from the second query back into context
+          for (const [key, value] of Object.entries(result.autoParams)) {
+            visitorContext.autoParams.set(key, value);
+          }
+          return result.operation;
+        }
+        return null;
+      }
+
+      case "join":
+      case "leftJoin":
+      case "rightJoin":
+      case "fullJoin":
+      case "crossJoin": {
         const result = visitJoinOperation(ast, source, methodName, visitorContext);
         if (result) {
           // Merge auto-params back into context if any
@@ -666,6 +759,41 @@ function visitCallExpression(
         return null;
       }
 
+      case "onConflict": {
+        if (source.operationType !== "insert") {
+          throw new Error("onConflict() can only be called on INSERT operations");
+        }
+        const result = visitOnConflictOperation(ast, source as InsertOperation, visitorContext);
+        if (result) {
+          for (const [key, value] of Object.entries(result.autoParams)) {
+            visitorContext.autoParams.set(key, value);
+          }
+          return result.operation;
+        }
+        return null;
+      }
+
+      case "doNothing": {
+        if (source.operationType !== "insert") {
+          throw new Error("doNothing() can only be called on INSERT operations");
+        }
+        return visitDoNothingOperation(source as InsertOperation).operation;
+      }
+
+      case "doUpdateSet": {
+        if (source.operationType !== "insert") {
+          throw new Error("doUpdateSet() can only be called on INSERT operations");
+        }
+        const result = visitDoUpdateSetOperation(ast, source as InsertOperation, visitorContext);
+        if (result) {
+          for (const [key, value] of Object.entries(result.autoParams)) {
+            visitorContext.autoParams.set(key, value);
+          }
+          return result.operation;
+        }
+        return null;
+      }
+
       case "returning": {
         if (source.operationType === "insert") {
           const result = visitReturningOperation(ast, source as InsertOperation, visitorContext);
@@ -689,8 +817,21 @@ function visitCallExpression(
             return result.operation;
           }
           return null;
+        } else if (source.operationType === "delete") {
+          const result = visitReturningDeleteOperation(
+            ast,
+            source as DeleteOperation,
+            visitorContext,
+          );
+          if (result) {
+            for (const [key, value] of Object.entries(result.autoParams)) {
+              visitorContext.autoParams.set(key, value);
+            }
+            return result.operation;
+          }
+          return null;
         }
-        throw new Error("returning() can only be called on INSERT or UPDATE operations");
+        throw new Error("returning() can only be called on INSERT, UPDATE or DELETE operations");
       }
 
       // UPDATE operations
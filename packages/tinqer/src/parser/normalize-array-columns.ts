@@ -0,0 +1,119 @@
+/**
+ * Normalization pass that turns string methods on array columns into array operations.
+ *
+ * Row types are erased at runtime, so x.tags.includes(v) parses as a string search.
+ * Columns declared with createSchema({ arrayColumns }) are rewritten here:
+ * x.tags.includes(v) becomes an "includes" array function and x.tags.length an array length.
+ */
+
+import type { QueryOperation } from "../query-tree/operations.js";
+import type {
+  ArrayFunctionExpression,
+  ArrayLengthExpression,
+  BooleanMethodExpression,
+  ColumnExpression,
+  StringMethodExpression,
+  ValueExpression,
+} from "../expressions/expression.js";
+
+/**
+ * Rewrite string methods on the declared array columns of each query's table
+ * Operations are updated in place; pass a cloned tree
+ */
+export function resolveArrayColumns(
+  operation: QueryOperation,
+  arrayColumns: Readonly<Record<string, readonly string[]>> | undefined,
+): QueryOperation {
+  if (!arrayColumns || Object.keys(arrayColumns).length === 0) {
+    return operation;
+  }
+
+  return resolveNode(operation, undefined, arrayColumns) as QueryOperation;
+}
+
+function resolveNode(
+  node: unknown,
+  columns: readonly string[] | undefined,
+  arrayColumns: Readonly<Record<string, readonly string[]>>,
+): unknown {
+  if (!node || typeof node !== "object" || node instanceof Map) {
+    return node;
+  }
+
+  if (Array.isArray(node)) {
+    for (let i = 0; i < node.length; i++) {
+      node[i] = resolveNode(node[i], columns, arrayColumns);
+    }
+    return node;
+  }
+
+  const record = node as Record<string, unknown>;
+
+  // Each (sub)query resolves its columns against its own table
+  if (record.type === "queryOperation") {
+    const table = getTableName(record as unknown as QueryOperation);
+    columns = table ? arrayColumns[table] : undefined;
+  }
+
+  for (const key of Object.keys(record)) {
+    record[key] = resolveNode(record[key], columns, arrayColumns);
+  }
+
+  return columns ? resolveExpression(record, columns) : record;
+}
+
+function resolveExpression(
+  record: Record<string, unknown>,
+  columns: readonly string[],
+): Record<string, unknown> {
+  if (record.type === "booleanMethod") {
+    const method = record as unknown as BooleanMethodExpression;
+    const [element] = method.arguments;
+    if (method.method === "includes" && element && isArrayColumn(method.object, columns)) {
+      const arrayFunction: ArrayFunctionExpression = {
+        type: "arrayFunction",
+        function: "includes",
+        arguments: [method.object, element],
+      };
+      return arrayFunction as unknown as Record<string, unknown>;
+    }
+  }
+
+  if (record.type === "stringMethod") {
+    const method = record as unknown as StringMethodExpression;
+    if (method.method === "length" && isArrayColumn(method.object, columns)) {
+      const arrayLength: ArrayLengthExpression = { type: "arrayLength", array: method.object };
+      return arrayLength as unknown as Record<string, unknown>;
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Only unqualified columns of the query's own row; JOIN and outer-row columns keep string semantics
+ */
+function isArrayColumn(expr: ValueExpression, columns: readonly string[]): boolean {
+  if (expr.type !== "column") {
+    return false;
+  }
+  const column = expr as ColumnExpression;
+  return !column.table && !column.source && columns.includes(column.name);
+}
+
+/**
+ * Find the table a query reads rows from, following the operation chain down to FROM
+ */
+function getTableName(operation: QueryOperation): string | undefined {
+  let current: QueryOperation | undefined = operation;
+  while (current) {
+    if (["from", "update", "delete"].includes(current.operationType)) {
+      return (current as QueryOperation & { table?: string }).table;
+    }
+    if (current.operationType === "join" || current.operationType === "groupJoin") {
+      return undefined;
+    }
+    current = (current as QueryOperation & { source?: QueryOperation }).source;
+  }
+  return undefined;
+}
@@ -0,0 +1,138 @@
+/**
+ * Validation pass for JSON document access.
+ *
+ * Row types are erased at runtime, so every member chain below a row column
+ * (x.metadata.address.city) parses as a JSON path. Once a schema declares
+ * createSchema({ jsonColumns }), only those columns hold JSON documents; paths and
+ * jsonContains on any other column are rejected here instead of reaching the database.
+ * Schemas without jsonColumns accept paths on every column.
+ */
+
+import type { QueryOperation } from "../query-tree/operations.js";
+import type {
+  ColumnExpression,
+  JsonContainsExpression,
+  JsonPathExpression,
+} from "../expressions/expression.js";
+
+/**
+ * Check that JSON paths only read the declared JSON columns of their tables
+ * Throws for the first path on an undeclared column; without jsonColumns nothing is checked
+ */
+export function resolveJsonColumns(
+  operation: QueryOperation,
+  jsonColumns: Readonly<Record<string, readonly string[]>> | undefined,
+): QueryOperation {
+  if (jsonColumns) {
+    resolveNode(operation, [], [], jsonColumns);
+  }
+  return operation;
+}
+
+function resolveNode(
+  node: unknown,
+  tables: (string | undefined)[],
+  outerTables: (string | undefined)[],
+  jsonColumns: Readonly<Record<string, readonly string[]>>,
+): void {
+  if (!node || typeof node !== "object" || node instanceof Map) {
+    return;
+  }
+
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      resolveNode(item, tables, outerTables, jsonColumns);
+    }
+    return;
+  }
+
+  const record = node as Record<string, unknown>;
+
+  // Each (sub)query resolves its columns against its own tables; correlated
+  // subqueries can also read the tables of the queries around them
+  if (record.type === "queryOperation") {
+    outerTables = [...outerTables, ...tables];
+    tables = getTableNames(record as unknown as QueryOperation);
+  }
+
+  for (const value of Object.values(record)) {
+    resolveNode(value, tables, outerTables, jsonColumns);
+  }
+
+  if (record.type === "jsonPath") {
+    checkJsonColumn(
+      (record as unknown as JsonPathExpression).column,
+      tables,
+      outerTables,
+      jsonColumns,
+    );
+  } else if (record.type === "jsonContains") {
+    const document = (record as unknown as JsonContainsExpression).document;
+    if (document.type === "column") {
+      checkJsonColumn(document, tables, outerTables, jsonColumns);
+    }
+  }
+}
+
+function checkJsonColumn(
+  column: ColumnExpression,
+  tables: (string | undefined)[],
+  outerTables: (string | undefined)[],
+  jsonColumns: Readonly<Record<string, readonly string[]>>,
+): void {
+  const candidates = getColumnTables(column, tables, outerTables);
+  if (
+    candidates.some((table) => table !== undefined && jsonColumns[table]?.includes(column.name))
+  ) {
+    return;
+  }
+
+  const table = candidates.length === 1 ? candidates[0] : undefined;
+  throw new Error(
+    `"${column.name}"${table ? ` of table "${table}"` : ""} is not a JSON column. ` +
+      `Declare it with createSchema({ jsonColumns }) to read paths inside its documents.`,
+  );
+}
+
+/**
+ * Tables a column can belong to: the one its source points at, or every table of the
+ * surrounding queries for outer row references
+ */
+function getColumnTables(
+  column: ColumnExpression,
+  tables: (string | undefined)[],
+  outerTables: (string | undefined)[],
+): (string | undefined)[] {
+  switch (column.source?.type) {
+    case "joinParam":
+      return [tables[column.source.paramIndex]];
+    case "joinResult":
+      return [tables[column.source.tableIndex]];
+    case "spread":
+      return [tables[column.source.sourceIndex]];
+    case "table":
+      return outerTables;
+    default:
+      return [tables[0]];
+  }
+}
+
+/**
+ * Tables a query reads rows from, in JOIN order: the FROM table, then each joined table
+ */
+function getTableNames(operation: QueryOperation): (string | undefined)[] {
+  const joined: (string | undefined)[] = [];
+  let current: QueryOperation | undefined = operation;
+  while (current) {
+    if (["from", "update", "delete"].includes(current.operationType)) {
+      const table = (current as QueryOperation & { table?: string }).table;
+      return [table, ...joined.reverse()];
+    }
+    if (current.operationType === "join" || current.operationType === "groupJoin") {
+      const inner = (current as QueryOperation & { inner: QueryOperation }).inner;
+      joined.push(getTableNames(inner)[0]);
+    }
+    current = (current as QueryOperation & { source?: QueryOperation }).source;
+  }
+  return joined.reverse();
+}
@@ -0,0 +1,86 @@
+/**
+ * Normalization pass that wraps set operations (UNION, UNION ALL, INTERSECT, EXCEPT)
+ * in a derived table when further operations are chained after them.
+ *
+ * ORDER BY, LIMIT, WHERE, etc. following a set operation apply to the combined
+ * result, so the compound query becomes FROM (...) of the outer query.
+ */
+
+import type { QueryOperation, FromOperation, SetOperation } from "../query-tree/operations.js";
+import { normalizeJoins } from "./normalize-joins.js";
+import { wrapWindowFilters } from "./normalize-window-filters.js";
+
+const SET_OPERATION_TYPES = new Set(["union", "concat", "intersect", "except"]);
+
+/**
+ * Check whether an operation is a set operation
+ */
+export function isSetOperation(operation: QueryOperation): operation is SetOperation {
+  return SET_OPERATION_TYPES.has(operation.operationType);
+}
+
+/**
+ * Apply the full normalization pipeline to an independently parsed query tree
+ */
+function normalizeSubtree(operation: QueryOperation): QueryOperation {
+  return visit(wrapWindowFilters(normalizeJoins(operation)));
+}
+
+function visit(operation: QueryOperation): QueryOperation {
+  if (isSetOperation(operation)) {
+    // Set operations chained directly on each other stay compound; the second
+    // query is an independent tree that has not been normalized yet
+    const normalized: SetOperation = {
+      ...operation,
+      source: visit(operation.source),
+      second: normalizeSubtree(operation.second),
+    };
+    return normalized;
+  }
+
+  if (operation.operationType === "from") {
+    const fromOp = operation as FromOperation;
+    if (fromOp.ctes) {
+      // CTE queries are independent trees as well
+      const normalized: FromOperation = {
+        ...fromOp,
+        ctes: fromOp.ctes.map((cte) => ({
+          ...cte,
+          query: normalizeSubtree(cte.query),
+          ...(cte.recursiveStep && { recursiveStep: normalizeSubtree(cte.recursiveStep) }),
+        })),
+      };
+      return normalized;
+    }
+    if (!fromOp.subquery) {
+      return operation;
+    }
+    const normalized: FromOperation = { ...fromOp, subquery: visit(fromOp.subquery) };
+    return normalized;
+  }
+
+  const sourceOp = operation as { source?: QueryOperation };
+  if (!sourceOp.source) {
+    return operation;
+  }
+
+  const normalizedSource = visit(sourceOp.source);
+  if (!isSetOperation(normalizedSource)) {
+    return { ...operation, source: normalizedSource } as QueryOperation;
+  }
+
+  const subqueryFrom: FromOperation = {
+    type: "queryOperation",
+    operationType: "from",
+    subquery: normalizedSource,
+  };
+
+  return { ...operation, source: subqueryFrom } as QueryOperation;
+}
+
+/**
+ * Main entry point: wrap set operations that are followed by other operations
+ */
+export function wrapSetOperations(operation: QueryOperation): QueryOperation {
+  return visit(operation);
+}
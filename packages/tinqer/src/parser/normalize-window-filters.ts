@@ -1,9 +1,11 @@
 /**
  * Normalization pass that wraps queries in subqueries when WHERE clauses
- * reference window function columns defined in SELECT.
+ * reference window function columns defined in SELECT, or any column projected
+ * by a SELECT over groupBy() (aggregates and the group key).
  *
  * This is necessary because SQL does not allow referencing window function
- * aliases in the WHERE clause of the same query level.
+ * aliases in the WHERE clause of the same query level, and a WHERE clause
+ * runs before GROUP BY.
  */
 
 import type {
@@ -18,6 +20,7 @@ import type {
   BooleanExpression,
   ColumnExpression,
 } from "../expressions/expression.js";
+import { findGroupBySource } from "../visitors/visitor-utils.js";
 
 /**
  * Result of normalization with window alias tracking
@@ -49,9 +52,12 @@ function getWindowAliasesFromSelect(
   if (selectOp.selector.type === "object") {
     const objectExpr = selectOp.selector as ObjectExpression;
 
+    // Every column of a grouped projection only exists after GROUP BY
+    const grouped = findGroupBySource(selectOp.source) !== null;
+
     for (const [propName, expr] of Object.entries(objectExpr.properties)) {
-      // Direct window function
-      if (expr.type === "windowFunction") {
+      // Direct window function or grouped column
+      if (grouped || expr.type === "windowFunction") {
         aliases.add(propName);
       }
       // Forwarded window alias: { newRn: r.rn } where "rn" is a window alias
@@ -135,7 +141,14 @@ function expressionReferencesColumns(expr: Expression, columnNames: Set<string>)
       );
 
     case "stringMethod":
-      return expressionReferencesColumns(expr.object, columnNames);
+      return (
+        expressionReferencesColumns(expr.object, columnNames) ||
+        (expr.arguments ?? []).some((arg) => expressionReferencesColumns(arg, columnNames))
+      );
+
+    case "mathFunction":
+    case "dateFunction":
+      return expr.arguments.some((arg) => expressionReferencesColumns(arg, columnNames));
 
     case "case":
       return (
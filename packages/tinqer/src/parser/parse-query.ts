@@ -8,6 +8,7 @@ import { parseJavaScript } from "./oxc-parser.js";
 import { convertAstToQueryOperationWithParams } from "./ast-visitor.js";
 import { normalizeJoins } from "./normalize-joins.js";
 import { wrapWindowFilters } from "./normalize-window-filters.js";
+import { wrapSetOperations } from "./normalize-set-operations.js";
 import type { createQueryHelpers } from "../linq/functions.js";
 import { parseCache, type CachedParseResult } from "./parse-cache.js";
 import { getParseCacheConfig } from "./parse-cache-config.js";
@@ -135,6 +136,9 @@ export function parseQuery<TContext, TParams, TQuery>(
     // Apply window filter wrapping normalization
     normalizedOperation = wrapWindowFilters(normalizedOperation);
 
+    // Wrap set operations followed by ORDER BY, LIMIT, etc. in a derived table
+    normalizedOperation = wrapSetOperations(normalizedOperation);
+
     const parseResult: ParseResult = {
       operation: normalizedOperation,
       autoParams: result.autoParams as Record<string, string | number | boolean | null>,
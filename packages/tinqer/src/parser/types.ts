@@ -7,4 +7,16 @@ export interface ParseQueryOptions {
    * @default true
    */
   cache?: boolean;
+
+  /**
+   * Columns stored as database arrays, by table
+   * Set by the plan builders from createSchema({ arrayColumns })
+   */
+  arrayColumns?: Readonly<Record<string, readonly string[]>>;
+
+  /**
+   * Columns stored as JSON documents, by table
+   * Set by the plan builders from createSchema({ jsonColumns })
+   */
+  jsonColumns?: Readonly<Record<string, readonly string[]>>;
 }
@@ -1,7 +1,7 @@
 import type { DatabaseSchema } from "../linq/database-context.js";
 import type { QueryBuilder } from "../linq/query-builder.js";
 import type { QueryHelpers } from "../linq/functions.js";
-import type { Deletable, DeletableComplete } from "../linq/deletable.js";
+import type { Deletable, DeletableComplete, DeletableWithReturning } from "../linq/deletable.js";
 import type { ParseQueryOptions } from "../parser/types.js";
 import type { QueryOperation, DeleteOperation } from "../query-tree/operations.js";
 import type {
@@ -12,6 +12,8 @@ import type {
 } from "../parser/ast-types.js";
 import { parseJavaScript } from "../parser/oxc-parser.js";
 import { normalizeJoins } from "../parser/normalize-joins.js";
+import { resolveArrayColumns } from "../parser/normalize-array-columns.js";
+import { resolveJsonColumns } from "../parser/normalize-json-columns.js";
 import { wrapWindowFilters } from "../parser/normalize-window-filters.js";
 import type { ParseResult } from "../parser/parse-query.js";
 import { parseQuery } from "../parser/parse-query.js";
@@ -23,6 +25,7 @@ import {
 } from "../visitors/types.js";
 import { visitWhereDeleteOperation } from "../visitors/delete/where-delete.js";
 import { visitAllowFullDeleteOperation } from "../visitors/delete/allow-full-delete.js";
+import { visitReturningDeleteOperation } from "../visitors/delete/returning-delete.js";
 
 // -----------------------------------------------------------------------------
 // Plan data
@@ -47,7 +50,10 @@ function createInitialState<TRecord, TParams>(
   parseResult: ParseResult,
   options?: ParseQueryOptions,
 ): DeletePlanState<TRecord, TParams> {
-  const operationClone = cloneOperationTree(parseResult.operation);
+  const operationClone = resolveJsonColumns(
+    resolveArrayColumns(cloneOperationTree(parseResult.operation), options?.arrayColumns),
+    options?.jsonColumns,
+  );
   return {
     kind: "delete",
     operation: operationClone,
@@ -70,7 +76,13 @@ function createState<TRecord, TParams>(
     ? Object.fromEntries(visitorContext.autoParamInfos.entries())
     : base.autoParamInfos;
 
-  const normalizedOperation = wrapWindowFilters(normalizeJoins(cloneOperationTree(nextOperation)));
+  const normalizedOperation = resolveJsonColumns(
+    resolveArrayColumns(
+      wrapWindowFilters(normalizeJoins(cloneOperationTree(nextOperation))),
+      base.parseOptions?.arrayColumns,
+    ),
+    base.parseOptions?.jsonColumns,
+  );
 
   return {
     kind: "delete",
@@ -140,6 +152,16 @@ export class DeletePlanHandleInitial<TRecord, TParams> {
 export class DeletePlanHandleComplete<TRecord, TParams> {
   constructor(private readonly state: DeletePlanState<TRecord, TParams>) {}
 
+  returning<TResult>(
+    selector: (item: TRecord) => TResult,
+  ): DeletePlanHandleWithReturning<TResult, TParams> {
+    const nextState = appendReturning(
+      this.state,
+      selector as unknown as (item: TRecord) => unknown,
+    );
+    return new DeletePlanHandleWithReturning(nextState as DeletePlanState<TResult, TParams>);
+  }
+
   finalize(params: TParams): DeletePlanSql {
     const merged = mergeParams(this.state.autoParams, params);
     return {
@@ -160,6 +182,30 @@ export class DeletePlanHandleComplete<TRecord, TParams> {
   }
 }
 
+// After returning() is called
+export class DeletePlanHandleWithReturning<TResult, TParams> {
+  constructor(private readonly state: DeletePlanState<TResult, TParams>) {}
+
+  finalize(params: TParams): DeletePlanSql {
+    const merged = mergeParams(this.state.autoParams, params);
+    return {
+      operation: this.state.operation,
+      params: merged,
+      autoParamInfos: this.state.autoParamInfos,
+    };
+  }
+
+  toPlan(): DeletePlan<TResult, TParams> {
+    return this.state;
+  }
+
+  execute(_params: TParams): Promise<TResult[]> {
+    return Promise.reject(
+      new Error("execute() is not implemented. Use adapter methods (toSql/executeDelete) instead."),
+    );
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Public entry points
 // -----------------------------------------------------------------------------
@@ -174,11 +220,13 @@ export function defineDelete<
   schema: DatabaseSchema<TSchema>,
   builder: (queryBuilder: QueryBuilder<TSchema>, params: TParams, helpers?: QueryHelpers) => TQuery,
   options?: ParseQueryOptions,
-): TQuery extends DeletableComplete<infer TTable>
-  ? DeletePlanHandleComplete<TTable, TParams>
-  : TQuery extends Deletable<infer TTable>
-    ? DeletePlanHandleInitial<TTable, TParams>
-    : never;
+): TQuery extends DeletableWithReturning<unknown, infer TReturning>
+  ? DeletePlanHandleWithReturning<TReturning, TParams>
+  : TQuery extends DeletableComplete<infer TTable>
+    ? DeletePlanHandleComplete<TTable, TParams>
+    : TQuery extends Deletable<infer TTable>
+      ? DeletePlanHandleInitial<TTable, TParams>
+      : never;
 
 // Overload for direct table name - DISABLED FOR NOW
 // export function defineDelete<
@@ -194,7 +242,7 @@ export function defineDelete<
 
 // Implementation
 export function defineDelete(
-  _schema: DatabaseSchema<unknown>,
+  schema: DatabaseSchema<unknown>,
   builder: (
     queryBuilder: QueryBuilder<unknown>,
     params: unknown,
@@ -202,17 +250,28 @@ export function defineDelete(
   ) => unknown,
   options?: ParseQueryOptions,
 ) {
+  // Array and JSON columns declared on the schema are resolved after parsing
+  const parseOptions =
+    schema.arrayColumns || schema.jsonColumns
+      ? { ...options, arrayColumns: schema.arrayColumns, jsonColumns: schema.jsonColumns }
+      : options;
+
   // Parse the builder function to get the operation
-  const parseResult = parseQuery(builder, options);
+  const parseResult = parseQuery(builder, parseOptions);
   if (!parseResult || parseResult.operation.operationType !== "delete") {
     throw new Error("Failed to parse delete builder or not a delete operation");
   }
 
-  const initialState = createInitialState<unknown, unknown>(parseResult, options);
+  const initialState = createInitialState<unknown, unknown>(parseResult, parseOptions);
 
   // Check the state of the parsed operation to return the appropriate handle
   const deleteOp = parseResult.operation as DeleteOperation;
 
+  // Check if RETURNING clause is present
+  if (deleteOp.returning) {
+    return new DeletePlanHandleWithReturning(initialState);
+  }
+
   // Check if WHERE clause or allowFullTableDelete is present
   if (deleteOp.predicate || deleteOp.allowFullTableDelete) {
     return new DeletePlanHandleComplete(initialState);
@@ -261,6 +320,30 @@ function appendAllowFullDelete<TRecord, TParams>(
   return createState(state, result.operation, visitorContext);
 }
 
+function appendReturning<TRecord, TParams>(
+  state: DeletePlanState<TRecord, TParams>,
+  selector: (item: TRecord) => unknown,
+): DeletePlanState<unknown, TParams> {
+  const visitorContext = restoreVisitorContext(state.contextSnapshot);
+  const lambda = parseLambdaExpression(selector as (...args: unknown[]) => unknown, "returning");
+  const call = createMethodCall("returning", lambda);
+  const result = visitReturningDeleteOperation(
+    call,
+    state.operation as DeleteOperation,
+    visitorContext,
+  );
+
+  if (!result) {
+    throw new Error("Failed to append returning clause to delete plan");
+  }
+
+  return createState(
+    state as unknown as DeletePlanState<unknown, TParams>,
+    result.operation,
+    visitorContext,
+  );
+}
+
 // -----------------------------------------------------------------------------
 // AST helpers
 // -----------------------------------------------------------------------------
@@ -1,7 +1,11 @@
 import type { DatabaseSchema } from "../linq/database-context.js";
 import type { QueryBuilder } from "../linq/query-builder.js";
 import type { QueryHelpers } from "../linq/functions.js";
-import type { Insertable, InsertableWithReturning } from "../linq/insertable.js";
+import type {
+  Insertable,
+  InsertableWithConflict,
+  InsertableWithReturning,
+} from "../linq/insertable.js";
 import type { ParseQueryOptions } from "../parser/types.js";
 import type { QueryOperation, InsertOperation } from "../query-tree/operations.js";
 import type {
@@ -17,6 +21,7 @@ import { wrapWindowFilters } from "../parser/normalize-window-filters.js";
 import type { ParseResult } from "../parser/parse-query.js";
 import { parseQuery } from "../parser/parse-query.js";
 import {
+  createAutoParam,
   restoreVisitorContext,
   snapshotVisitorContext,
   type VisitorContext,
@@ -101,8 +106,14 @@ export interface InsertPlanSql {
 export class InsertPlanHandleInitial<TRecord, TParams> {
   constructor(private readonly state: InsertPlanState<TRecord, TParams>) {}
 
-  values(values: Partial<TRecord>): InsertPlanHandleWithValues<TRecord, TParams> {
-    const nextState = appendValues(this.state, values as Record<string, unknown>);
+  values(values: Partial<TRecord>): InsertPlanHandleWithValues<TRecord, TParams>;
+  values(rows: readonly Partial<TRecord>[]): InsertPlanHandleWithValues<TRecord, TParams>;
+  values(
+    values: Partial<TRecord> | readonly Partial<TRecord>[],
+  ): InsertPlanHandleWithValues<TRecord, TParams> {
+    const nextState = Array.isArray(values)
+      ? appendRows(this.state, values as readonly Record<string, unknown>[])
+      : appendValues(this.state, values as Record<string, unknown>);
     return new InsertPlanHandleWithValues(nextState);
   }
 
@@ -192,7 +203,9 @@ export function defineInsert<
   ? InsertPlanHandleWithReturning<TReturning, TParams>
   : TQuery extends Insertable<infer TTable>
     ? InsertPlanHandleInitial<TTable, TParams>
-    : never;
+    : TQuery extends InsertableWithConflict<infer TTable>
+      ? InsertPlanHandleWithValues<TTable, TParams>
+      : never;
 
 // Overload for direct table name - DISABLED FOR NOW
 // export function defineInsert<TSchema, TParams = {}, TTable extends keyof TSchema = keyof TSchema>(
@@ -225,8 +238,8 @@ export function defineInsert(
     return new InsertPlanHandleWithReturning(initialState);
   }
 
-  // Check if builder already called .values() (values exists and has properties)
-  if (insertOp.values && Object.keys(insertOp.values.properties).length > 0) {
+  // Check if builder already called .values() (values exists and has properties, or rows were given)
+  if (insertOp.rows || (insertOp.values && Object.keys(insertOp.values.properties).length > 0)) {
     return new InsertPlanHandleWithValues(initialState);
   }
 
@@ -270,6 +283,23 @@ function appendValues<TRecord, TParams>(
   return createState(state, result.operation, visitorContext);
 }
 
+function appendRows<TRecord, TParams>(
+  state: InsertPlanState<TRecord, TParams>,
+  rows: readonly Record<string, unknown>[],
+): InsertPlanState<TRecord, TParams> {
+  const visitorContext = restoreVisitorContext(state.contextSnapshot);
+
+  // The rows array travels as a single auto-parameter; adapters expand it into VALUES tuples
+  const paramName = createAutoParam(visitorContext, rows);
+  const operation: InsertOperation = {
+    ...(state.operation as InsertOperation),
+    values: { type: "object", properties: {} },
+    rows: { type: "param", param: paramName },
+  };
+
+  return createState(state, operation, visitorContext);
+}
+
 function appendReturning<TRecord, TParams>(
   state: InsertPlanState<TRecord, TParams>,
   selector: (item: unknown) => unknown,
@@ -1,5 +1,5 @@
 import { Queryable } from "../linq/queryable.js";
-import { TerminalQuery } from "../linq/terminal-query.js";
+import { TerminalQuery, type ScalarTerminalQuery } from "../linq/terminal-query.js";
 import type { QueryHelpers } from "../linq/functions.js";
 import type { QueryBuilder } from "../linq/query-builder.js";
 import type { DatabaseSchema } from "../linq/database-context.js";
@@ -16,9 +16,13 @@ import type {
 import { parseJavaScript } from "../parser/oxc-parser.js";
 import { parseQuery } from "../parser/parse-query.js";
 import { normalizeJoins } from "../parser/normalize-joins.js";
+import { resolveArrayColumns } from "../parser/normalize-array-columns.js";
+import { resolveJsonColumns } from "../parser/normalize-json-columns.js";
 import { wrapWindowFilters } from "../parser/normalize-window-filters.js";
+import { wrapSetOperations } from "../parser/normalize-set-operations.js";
 import type { ParseResult } from "../parser/parse-query.js";
 import {
+  createAutoParam,
   restoreVisitorContext,
   snapshotVisitorContext,
   type VisitorContext,
@@ -31,6 +35,7 @@ import { visitTakeOperation } from "../visitors/take-skip/take.js";
 import { visitSkipOperation } from "../visitors/take-skip/skip.js";
 import { visitDistinctOperation } from "../visitors/distinct/index.js";
 import { visitReverseOperation } from "../visitors/reverse/index.js";
+import { createSeekOperation } from "../visitors/seek/index.js";
 import { visitGroupByOperation } from "../visitors/groupby/index.js";
 import { visitCountOperation } from "../visitors/count/index.js";
 import { visitFirstOperation } from "../visitors/predicates/first.js";
@@ -66,7 +71,10 @@ function createInitialState<TRecord, TParams>(
   parseResult: ParseResult,
   options?: ParseQueryOptions,
 ): SelectPlanState<TRecord, TParams> {
-  const operationClone = cloneOperationTree(parseResult.operation);
+  const operationClone = resolveJsonColumns(
+    resolveArrayColumns(cloneOperationTree(parseResult.operation), options?.arrayColumns),
+    options?.jsonColumns,
+  );
   return {
     kind: "select",
     operation: operationClone,
@@ -89,7 +97,13 @@ function createState<TRecord, TParams>(
     ? Object.fromEntries(visitorContext.autoParamInfos.entries())
     : base.autoParamInfos;
 
-  const normalizedOperation = wrapWindowFilters(normalizeJoins(cloneOperationTree(nextOperation)));
+  const normalizedOperation = resolveJsonColumns(
+    resolveArrayColumns(
+      wrapSetOperations(wrapWindowFilters(normalizeJoins(cloneOperationTree(nextOperation)))),
+      base.parseOptions?.arrayColumns,
+    ),
+    base.parseOptions?.jsonColumns,
+  );
 
   return {
     kind: "select",
@@ -205,6 +219,16 @@ export class SelectPlanHandle<TRecord, TParams> extends Queryable<TRecord> {
     return new SelectPlanHandle(nextState);
   }
 
+  seekAfter(cursor: readonly unknown[]): SelectPlanHandle<TRecord, TParams> {
+    const nextState = appendSeek(this.state, "after", cursor);
+    return new SelectPlanHandle(nextState);
+  }
+
+  seekBefore(cursor: readonly unknown[]): SelectPlanHandle<TRecord, TParams> {
+    const nextState = appendSeek(this.state, "before", cursor);
+    return new SelectPlanHandle(nextState);
+  }
+
   distinct(): SelectPlanHandle<TRecord, TParams> {
     const nextState = appendDistinct(this.state);
     return new SelectPlanHandle(nextState);
@@ -239,14 +263,14 @@ export class SelectPlanHandle<TRecord, TParams> extends Queryable<TRecord> {
 
   // Terminal operations - these return terminal handles that cannot be chained further
 
-  count(predicate?: (item: TRecord) => boolean): SelectTerminalHandle<number, TParams> {
+  count(predicate?: (item: TRecord) => boolean): ScalarSelectTerminalHandle<number, TParams> {
     const nextState = appendCount(this.state, predicate);
-    return new SelectTerminalHandle(nextState);
+    return new SelectTerminalHandle(nextState) as ScalarSelectTerminalHandle<number, TParams>;
   }
 
-  first(predicate?: (item: TRecord) => boolean): SelectTerminalHandle<TRecord, TParams> {
+  first(predicate?: (item: TRecord) => boolean): ScalarSelectTerminalHandle<TRecord, TParams> {
     const nextState = appendFirst(this.state, predicate);
-    return new SelectTerminalHandle(nextState);
+    return new SelectTerminalHandle(nextState) as ScalarSelectTerminalHandle<TRecord, TParams>;
   }
 
   last(predicate?: (item: TRecord) => boolean): SelectTerminalHandle<TRecord, TParams> {
@@ -259,12 +283,12 @@ export class SelectPlanHandle<TRecord, TParams> extends Queryable<TRecord> {
     return new SelectTerminalHandle(nextState);
   }
 
-  sum(selector?: (item: TRecord) => number): SelectTerminalHandle<number, TParams> {
+  sum(selector?: (item: TRecord) => number): ScalarSelectTerminalHandle<number, TParams> {
     if (!selector) {
       throw new Error("sum() requires a selector function");
     }
     const nextState = appendSum(this.state, selector);
-    return new SelectTerminalHandle(nextState);
+    return new SelectTerminalHandle(nextState) as ScalarSelectTerminalHandle<number, TParams>;
   }
 
   avg(selector?: (item: TRecord) => number): SelectTerminalHandle<number, TParams> {
@@ -275,32 +299,36 @@ export class SelectPlanHandle<TRecord, TParams> extends Queryable<TRecord> {
     return new SelectTerminalHandle(nextState);
   }
 
-  min(): SelectTerminalHandle<TRecord, TParams>;
-  min<TResult>(selector: (item: TRecord) => TResult): SelectTerminalHandle<TResult, TParams>;
+  min(): ScalarSelectTerminalHandle<TRecord, TParams>;
+  min<TResult>(selector: (item: TRecord) => TResult): ScalarSelectTerminalHandle<TResult, TParams>;
   min<TResult = TRecord>(
     selector?: (item: TRecord) => TResult,
-  ): SelectTerminalHandle<TRecord | TResult, TParams> {
+  ): ScalarSelectTerminalHandle<TRecord | TResult, TParams> {
     const nextState = appendMin(this.state, selector as (item: TRecord) => unknown);
-    return new SelectTerminalHandle(nextState as SelectPlanState<TRecord | TResult, TParams>);
+    return new SelectTerminalHandle(
+      nextState as SelectPlanState<TRecord | TResult, TParams>,
+    ) as ScalarSelectTerminalHandle<TRecord | TResult, TParams>;
   }
 
-  max(): SelectTerminalHandle<TRecord, TParams>;
-  max<TResult>(selector: (item: TRecord) => TResult): SelectTerminalHandle<TResult, TParams>;
+  max(): ScalarSelectTerminalHandle<TRecord, TParams>;
+  max<TResult>(selector: (item: TRecord) => TResult): ScalarSelectTerminalHandle<TResult, TParams>;
   max<TResult = TRecord>(
     selector?: (item: TRecord) => TResult,
-  ): SelectTerminalHandle<TRecord | TResult, TParams> {
+  ): ScalarSelectTerminalHandle<TRecord | TResult, TParams> {
     const nextState = appendMax(this.state, selector as (item: TRecord) => unknown);
-    return new SelectTerminalHandle(nextState as SelectPlanState<TRecord | TResult, TParams>);
+    return new SelectTerminalHandle(
+      nextState as SelectPlanState<TRecord | TResult, TParams>,
+    ) as ScalarSelectTerminalHandle<TRecord | TResult, TParams>;
   }
 
-  any(predicate?: (item: TRecord) => boolean): SelectTerminalHandle<boolean, TParams> {
+  any(predicate?: (item: TRecord) => boolean): ScalarSelectTerminalHandle<boolean, TParams> {
     const nextState = appendAny(this.state, predicate);
-    return new SelectTerminalHandle(nextState);
+    return new SelectTerminalHandle(nextState) as ScalarSelectTerminalHandle<boolean, TParams>;
   }
 
-  all(predicate: (item: TRecord) => boolean): SelectTerminalHandle<boolean, TParams> {
+  all(predicate: (item: TRecord) => boolean): ScalarSelectTerminalHandle<boolean, TParams> {
     const nextState = appendAll(this.state, predicate);
-    return new SelectTerminalHandle(nextState);
+    return new SelectTerminalHandle(nextState) as ScalarSelectTerminalHandle<boolean, TParams>;
   }
 }
 
@@ -335,6 +363,12 @@ export class SelectTerminalHandle<TResult, TParams> extends TerminalQuery<TResul
   // Terminal handles block all fluent methods - no further chaining allowed
 }
 
+/**
+ * Terminal handle for a scalar result, typed as the value like Queryable's ScalarTerminalQuery
+ */
+export type ScalarSelectTerminalHandle<TResult, TParams> = SelectTerminalHandle<TResult, TParams> &
+  ScalarTerminalQuery<TResult>;
+
 // -----------------------------------------------------------------------------
 // Public entry point
 // -----------------------------------------------------------------------------
@@ -386,16 +420,22 @@ export function defineSelect<
   TParams = Record<string, never>,
   TQuery extends SelectResult = SelectResult,
 >(
-  _schema: DatabaseSchema<TSchema>,
+  schema: DatabaseSchema<TSchema>,
   builder: SelectBuilder<TSchema, TParams, TQuery>,
   options?: ParseQueryOptions,
 ): SelectPlanHandle<unknown, TParams> | SelectTerminalHandle<unknown, TParams> {
-  const parseResult = parseQuery(builder, options);
+  // Array and JSON columns declared on the schema are resolved after parsing
+  const parseOptions =
+    schema.arrayColumns || schema.jsonColumns
+      ? { ...options, arrayColumns: schema.arrayColumns, jsonColumns: schema.jsonColumns }
+      : options;
+
+  const parseResult = parseQuery(builder, parseOptions);
   if (!parseResult) {
     throw new Error("Failed to parse query");
   }
 
-  const initialState = createInitialState<unknown, TParams>(parseResult, options);
+  const initialState = createInitialState<unknown, TParams>(parseResult, parseOptions);
 
   // Check if this is a terminal operation
   const isTerminal = [
@@ -539,6 +579,22 @@ function appendSkip<TRecord, TParams>(
   return createState(state, result.operation, visitorContext);
 }
 
+function appendSeek<TRecord, TParams>(
+  state: SelectPlanState<TRecord, TParams>,
+  direction: "after" | "before",
+  cursor: readonly unknown[],
+): SelectPlanState<TRecord, TParams> {
+  const visitorContext = restoreVisitorContext(state.contextSnapshot);
+  // Cursor values are only known at runtime, so they travel as one array auto-param
+  const paramName = createAutoParam(visitorContext, [...cursor]);
+  const operation = createSeekOperation(state.operation, direction, {
+    type: "param",
+    param: paramName,
+  });
+
+  return createState(state, operation, visitorContext);
+}
+
 function appendDistinct<TRecord, TParams>(
   state: SelectPlanState<TRecord, TParams>,
 ): SelectPlanState<TRecord, TParams> {
@@ -17,6 +17,8 @@ import type {
 } from "../parser/ast-types.js";
 import { parseJavaScript } from "../parser/oxc-parser.js";
 import { normalizeJoins } from "../parser/normalize-joins.js";
+import { resolveArrayColumns } from "../parser/normalize-array-columns.js";
+import { resolveJsonColumns } from "../parser/normalize-json-columns.js";
 import { wrapWindowFilters } from "../parser/normalize-window-filters.js";
 import type { ParseResult } from "../parser/parse-query.js";
 import { parseQuery } from "../parser/parse-query.js";
@@ -54,7 +56,10 @@ function createInitialState<TRecord, TParams>(
   parseResult: ParseResult,
   options?: ParseQueryOptions,
 ): UpdatePlanState<TRecord, TParams> {
-  const operationClone = cloneOperationTree(parseResult.operation);
+  const operationClone = resolveJsonColumns(
+    resolveArrayColumns(cloneOperationTree(parseResult.operation), options?.arrayColumns),
+    options?.jsonColumns,
+  );
   return {
     kind: "update",
     operation: operationClone,
@@ -77,7 +82,13 @@ function createState<TRecord, TParams>(
     ? Object.fromEntries(visitorContext.autoParamInfos.entries())
     : base.autoParamInfos;
 
-  const normalizedOperation = wrapWindowFilters(normalizeJoins(cloneOperationTree(nextOperation)));
+  const normalizedOperation = resolveJsonColumns(
+    resolveArrayColumns(
+      wrapWindowFilters(normalizeJoins(cloneOperationTree(nextOperation))),
+      base.parseOptions?.arrayColumns,
+    ),
+    base.parseOptions?.jsonColumns,
+  );
 
   return {
     kind: "update",
@@ -107,9 +118,28 @@ export interface UpdatePlanSql {
 export class UpdatePlanHandleInitial<TRecord, TParams> {
   constructor(private readonly state: UpdatePlanState<TRecord, TParams>) {}
 
-  set(values: Partial<TRecord>): UpdatePlanHandleWithSet<TRecord, TParams> {
-    const nextState = appendSet(this.state, values);
-    return new UpdatePlanHandleWithSet(nextState);
+  // Overload for direct values
+  set(values: Partial<TRecord>): UpdatePlanHandleWithSet<TRecord, TParams>;
+  // Overload for values computed from the current row
+  set(selector: (item: TRecord) => Partial<TRecord>): UpdatePlanHandleWithSet<TRecord, TParams>;
+  // Overload for values computed from the current row and external params
+  set<ExtraParams extends object = Record<string, never>>(
+    selector: (item: TRecord, params: TParams & ExtraParams) => Partial<TRecord>,
+  ): UpdatePlanHandleWithSet<TRecord, TParams & ExtraParams>;
+  // Implementation
+  set<ExtraParams extends object = Record<string, never>>(
+    values:
+      | Partial<TRecord>
+      | ((item: TRecord) => Partial<TRecord>)
+      | ((item: TRecord, params: TParams & ExtraParams) => Partial<TRecord>),
+  ): UpdatePlanHandleWithSet<TRecord, TParams | (TParams & ExtraParams)> {
+    const nextState =
+      typeof values === "function"
+        ? appendSetLambda(this.state, values as unknown as (...args: unknown[]) => unknown)
+        : appendSet(this.state, values);
+    return new UpdatePlanHandleWithSet(
+      nextState as UpdatePlanState<TRecord, TParams | (TParams & ExtraParams)>,
+    );
   }
 
   finalize(_params: TParams): UpdatePlanSql {
@@ -273,7 +303,7 @@ export function defineUpdate<
 
 // Implementation
 export function defineUpdate(
-  _schema: DatabaseSchema<unknown>,
+  schema: DatabaseSchema<unknown>,
   builder: (
     queryBuilder: QueryBuilder<unknown>,
     params: unknown,
@@ -281,13 +311,19 @@ export function defineUpdate(
   ) => unknown,
   options?: ParseQueryOptions,
 ) {
+  // Array and JSON columns declared on the schema are resolved after parsing
+  const parseOptions =
+    schema.arrayColumns || schema.jsonColumns
+      ? { ...options, arrayColumns: schema.arrayColumns, jsonColumns: schema.jsonColumns }
+      : options;
+
   // Parse the builder function to get the operation
-  const parseResult = parseQuery(builder, options);
+  const parseResult = parseQuery(builder, parseOptions);
   if (!parseResult || parseResult.operation.operationType !== "update") {
     throw new Error("Failed to parse update builder or not an update operation");
   }
 
-  const initialState = createInitialState<unknown, unknown>(parseResult, options);
+  const initialState = createInitialState<unknown, unknown>(parseResult, parseOptions);
 
   // Check the state of the parsed operation to return the appropriate handle
   const updateOp = parseResult.operation as UpdateOperation;
@@ -345,6 +381,24 @@ function appendSet<TRecord, TParams>(
   return createState(state, result.operation, visitorContext);
 }
 
+function appendSetLambda<TRecord, TParams>(
+  state: UpdatePlanState<TRecord, TParams>,
+  selector: (...args: unknown[]) => unknown,
+): UpdatePlanState<TRecord, TParams> {
+  const visitorContext = restoreVisitorContext(state.contextSnapshot);
+  const lambda = parseLambdaExpression(selector, "set");
+  const call = createMethodCall("set", lambda);
+  const result = visitSetOperation(call, state.operation as UpdateOperation, visitorContext);
+
+  if (!result) {
+    throw new Error("Failed to append set clause to update plan");
+  }
+
+  visitorContext.autoParams = mergeAutoParams(visitorContext.autoParams, result.autoParams);
+
+  return createState(state, result.operation, visitorContext);
+}
+
 function appendWhereUpdate<TRecord, TParams>(
   state: UpdatePlanState<TRecord, TParams>,
   predicate: (...args: unknown[]) => boolean,
@@ -10,6 +10,7 @@ import type {
   BooleanExpression,
   ValueExpression,
   ObjectExpression,
+  ParameterExpression,
 } from "../expressions/expression.js";
 
 /**
@@ -39,6 +40,16 @@ export interface FromOperation extends QueryOperation {
   schema?: string;
   subquery?: QueryOperation; // Derived table / subquery
   aliasHint?: string; // Suggested alias name (often the original table name)
+  ctes?: CommonTableExpression[]; // WITH clause declared by q.with() / q.withRecursive()
+}
+
+/**
+ * Common table expression - a named sub-plan later from() calls can read
+ */
+export interface CommonTableExpression {
+  name: string;
+  query: QueryOperation;
+  recursiveStep?: QueryOperation; // Combined with query by UNION ALL in WITH RECURSIVE
 }
 
 /**
@@ -72,6 +83,7 @@ export interface JoinOperation extends QueryOperation {
   resultSelector?: Expression; // The projection expression from the result selector lambda
   resultShape?: ResultShape; // Tracks the shape of the JOIN result for nested property resolution
   joinType?: "inner" | "left" | "right" | "full" | "cross";
+  on?: BooleanExpression; // Join condition for compound keys and predicates (replaces the key pair)
 }
 
 /**
@@ -154,6 +166,7 @@ export interface ObjectShapeNode {
 export interface ReferenceShapeNode {
   type: "reference";
   sourceTable: number; // References the entire table
+  joinKey?: string; // Column that is only NULL when an outer join found no row for this table
 }
 
 /**
@@ -219,6 +232,17 @@ export interface SkipOperation extends QueryOperation {
   count: number | ParamRef | import("../expressions/expression.js").ValueExpression;
 }
 
+/**
+ * SEEK operation (keyset pagination)
+ * Keeps the rows after (or before) the cursor in the order of the preceding orderBy/thenBy keys
+ */
+export interface SeekOperation extends QueryOperation {
+  operationType: "seek";
+  source: QueryOperation;
+  direction: "after" | "before";
+  cursor: ParamRef; // Array parameter holding one value per ordering key
+}
+
 /**
  * REVERSE operation
  */
@@ -237,6 +261,47 @@ export interface ZipOperation extends QueryOperation {
   resultSelector: ObjectExpression;
 }
 
+/**
+ * UNION operation - combines two sequences, removing duplicates (UNION)
+ */
+export interface UnionOperation extends QueryOperation {
+  operationType: "union";
+  source: QueryOperation;
+  second: QueryOperation;
+}
+
+/**
+ * CONCAT operation - combines two sequences, keeping duplicates (UNION ALL)
+ */
+export interface ConcatOperation extends QueryOperation {
+  operationType: "concat";
+  source: QueryOperation;
+  second: QueryOperation;
+}
+
+/**
+ * INTERSECT operation - rows present in both sequences
+ */
+export interface IntersectOperation extends QueryOperation {
+  operationType: "intersect";
+  source: QueryOperation;
+  second: QueryOperation;
+}
+
+/**
+ * EXCEPT operation - rows of the first sequence not present in the second
+ */
+export interface ExceptOperation extends QueryOperation {
+  operationType: "except";
+  source: QueryOperation;
+  second: QueryOperation;
+}
+
+/**
+ * Union type for the set operations (union, concat, intersect, except)
+ */
+export type SetOperation = UnionOperation | ConcatOperation | IntersectOperation | ExceptOperation;
+
 /**
  * APPEND operation
  */
@@ -449,7 +514,9 @@ export type ChainableOperation =
   | DistinctOperation
   | TakeOperation
   | SkipOperation
-  | ReverseOperation;
+  | SeekOperation
+  | ReverseOperation
+  | SetOperation;
 
 /**
  * Union type for all terminal operations
@@ -478,7 +545,20 @@ export interface InsertOperation extends QueryOperation {
   table: string;
   schema?: string;
   values: ObjectExpression; // Column-value mapping
-  returning?: ValueExpression | ObjectExpression; // For PostgreSQL RETURNING clause
+  rows?: ParameterExpression; // Array parameter for multi-row VALUES
+  onConflict?: OnConflictClause; // ON CONFLICT clause (upsert)
+  returning?: ValueExpression | ObjectExpression; // RETURNING clause
+}
+
+/**
+ * ON CONFLICT clause of an INSERT
+ * Columns from the existing row use joinParam 0 and the excluded row joinParam 1
+ */
+export interface OnConflictClause {
+  target: string[]; // Conflict target columns (empty for any constraint)
+  action?: "nothing" | "update"; // Set by doNothing() / doUpdateSet()
+  assignments?: ObjectExpression; // DO UPDATE SET column-value mapping
+  predicate?: BooleanExpression; // DO UPDATE ... WHERE condition
 }
 
 /**
@@ -491,7 +571,7 @@ export interface UpdateOperation extends QueryOperation {
   assignments: ObjectExpression; // Column-value assignments from .set()
   predicate?: BooleanExpression; // WHERE clause
   allowFullTableUpdate?: boolean; // Explicit opt-in for updates without WHERE
-  returning?: ValueExpression | ObjectExpression; // For PostgreSQL RETURNING clause
+  returning?: ValueExpression | ObjectExpression; // RETURNING clause
 }
 
 /**
@@ -503,6 +583,7 @@ export interface DeleteOperation extends QueryOperation {
   schema?: string;
   predicate?: BooleanExpression; // WHERE clause
   allowFullTableDelete?: boolean; // Explicit opt-in for deletes without WHERE
+  returning?: ValueExpression | ObjectExpression; // RETURNING clause
 }
 
 /**
@@ -51,6 +51,7 @@ export function visitAverageOperation(
           localQueryParams,
           visitorContext.autoParams,
           visitorContext.autoParamCounter,
+          visitorContext,
         );
 
         if (result.value) {
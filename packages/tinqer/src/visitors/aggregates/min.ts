@@ -51,6 +51,7 @@ export function visitMinOperation(
           localQueryParams,
           visitorContext.autoParams,
           visitorContext.autoParamCounter,
+          visitorContext,
         );
 
         if (result.value) {
@@ -51,6 +51,7 @@ export function visitSumOperation(
           localQueryParams,
           visitorContext.autoParams,
           visitorContext.autoParamCounter,
+          visitorContext,
         );
 
         if (result.value) {
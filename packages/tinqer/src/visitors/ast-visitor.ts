@@ -9,12 +9,13 @@ import { convertAstToQueryOperationWithParams } from "../parser/ast-visitor.js";
 
 /**
  * Visit an AST expression and convert it to a QueryOperation
- * Used by visitors that need to recursively parse sub-queries (like JOIN)
+ * Used by visitors that need to recursively parse sub-queries (like JOIN or UNION)
+ * The sub-query shares the auto-param map and can reference the outer query params
  */
 export function visitAstToQueryOperation(
   ast: ASTExpression,
   _tableParams: Set<string>,
-  _queryParams: Set<string>,
+  queryParams: Set<string>,
   visitorContext?: VisitorContext,
 ): { operation: QueryOperation | null; autoParams: Record<string, unknown> } | null {
   // Pass existing context to preserve auto-param counter, existing params, and DSL param
@@ -23,6 +24,8 @@ export function visitAstToQueryOperation(
     visitorContext?.autoParamCounter,
     visitorContext?.autoParams,
     visitorContext?.queryBuilderParam, // Pass the existing DSL param
+    queryParams,
+    visitorContext?.helpersParam,
   );
 
   if (!result || !result.operation) {
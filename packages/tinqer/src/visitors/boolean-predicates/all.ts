@@ -53,6 +53,7 @@ export function visitAllOperation(
         localQueryParams,
         visitorContext.autoParams,
         visitorContext.autoParamCounter,
+        visitorContext,
       );
 
       if (result.predicate) {
@@ -52,6 +52,7 @@ export function visitAnyOperation(
           localQueryParams,
           visitorContext.autoParams,
           visitorContext.autoParamCounter,
+          visitorContext,
         );
 
         predicate = result.predicate;
@@ -86,6 +86,9 @@ function ensureBoolean(expr: unknown): unknown {
     if (col.table) {
       boolCol.table = col.table;
     }
+    if (col.source) {
+      boolCol.source = col.source;
+    }
     return boolCol;
   }
 
@@ -0,0 +1,146 @@
+/**
+ * Shared helpers for Date getters and date helper functions translated to SQL
+ * (x.createdAt.getFullYear(), h.functions.dateAdd(x.createdAt, "day", 7), h.functions.now(), ...)
+ */
+
+import type { DateFunctionExpression, ValueExpression } from "../../expressions/expression.js";
+import type {
+  Expression as ASTExpression,
+  CallExpression,
+  Identifier,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+
+type DateUnit = NonNullable<DateFunctionExpression["unit"]>;
+
+/**
+ * Date getters and the date part each one extracts
+ */
+const DATE_PART_METHODS: Record<string, DateUnit> = {
+  getFullYear: "year",
+  getMonth: "month",
+  getDate: "day",
+  getHours: "hour",
+  getMinutes: "minute",
+  getSeconds: "second",
+};
+
+const DATE_UNITS: DateUnit[] = ["year", "month", "day", "hour", "minute", "second"];
+
+/**
+ * A parsed helpers.functions date call with the AST arguments that still need visiting
+ */
+export interface DateHelperCall {
+  functionName: "dateAdd" | "dateTrunc" | "now";
+  unit?: DateUnit;
+  valueArguments: ASTExpression[];
+}
+
+/**
+ * Get the date part extracted by a Date getter, or null for any other method
+ */
+export function getDatePartMethod(methodName: string, args: ASTExpression[]): DateUnit | null {
+  if (!Object.prototype.hasOwnProperty.call(DATE_PART_METHODS, methodName)) {
+    return null;
+  }
+  if (args && args.length > 0) {
+    throw new Error(`${methodName}() does not take arguments`);
+  }
+  return DATE_PART_METHODS[methodName]!;
+}
+
+/**
+ * Match helpers.functions.dateAdd/dateTrunc/now(...) and validate its arguments
+ */
+export function getDateHelperCall(
+  node: CallExpression,
+  helpersParam: string | undefined,
+): DateHelperCall | null {
+  if (!helpersParam || node.callee.type !== "MemberExpression") {
+    return null;
+  }
+
+  const callee = node.callee as MemberExpression;
+  if (callee.property.type !== "Identifier" || callee.object.type !== "MemberExpression") {
+    return null;
+  }
+
+  const functionName = (callee.property as Identifier).name;
+  if (!["dateAdd", "dateTrunc", "now"].includes(functionName)) {
+    return null;
+  }
+
+  const functionsMember = callee.object as MemberExpression;
+  if (
+    functionsMember.property.type !== "Identifier" ||
+    (functionsMember.property as Identifier).name !== "functions" ||
+    functionsMember.object.type !== "Identifier" ||
+    (functionsMember.object as Identifier).name !== helpersParam
+  ) {
+    return null;
+  }
+
+  const args = node.arguments ?? [];
+  switch (functionName) {
+    case "dateAdd":
+      // dateAdd(date, unit, amount)
+      if (args.length !== 3) {
+        throw new Error(`dateAdd() expects 3 arguments but got ${args.length}`);
+      }
+      return {
+        functionName,
+        unit: getDateUnitLiteral(args[1]!, functionName),
+        valueArguments: [args[0]!, args[2]!],
+      };
+
+    case "dateTrunc":
+      // dateTrunc(unit, date)
+      if (args.length !== 2) {
+        throw new Error(`dateTrunc() expects 2 arguments but got ${args.length}`);
+      }
+      return {
+        functionName,
+        unit: getDateUnitLiteral(args[0]!, functionName),
+        valueArguments: [args[1]!],
+      };
+
+    default:
+      if (args.length !== 0) {
+        throw new Error("now() does not take arguments");
+      }
+      return { functionName: "now", valueArguments: [] };
+  }
+}
+
+/**
+ * Create a date function expression from visited arguments
+ */
+export function createDateFunction(
+  functionName: DateFunctionExpression["function"],
+  unit: DateUnit | undefined,
+  args: ValueExpression[],
+): DateFunctionExpression {
+  return {
+    type: "dateFunction",
+    function: functionName,
+    ...(unit && { unit }),
+    arguments: args,
+  };
+}
+
+/**
+ * Units become part of the SQL text (intervals, date_trunc fields, strftime formats),
+ * so they must be string literals rather than parameters
+ */
+function getDateUnitLiteral(node: ASTExpression, functionName: string): DateUnit {
+  const value = (node as { value?: unknown }).value;
+  if ((node.type !== "Literal" && node.type !== "StringLiteral") || typeof value !== "string") {
+    throw new Error(`${functionName}() unit must be a string literal`);
+  }
+  if (!DATE_UNITS.includes(value as DateUnit)) {
+    throw new Error(
+      `${functionName}() unit must be one of: ${DATE_UNITS.join(", ")} (got "${value}")`,
+    );
+  }
+  return value as DateUnit;
+}
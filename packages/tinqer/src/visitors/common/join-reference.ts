@@ -0,0 +1,107 @@
+/**
+ * Shared helpers for comparing a joined table to null
+ * (row.d === null after a leftJoin, row.u !== null after a rightJoin)
+ */
+
+import type {
+  ColumnExpression,
+  ComparisonExpression,
+  ValueExpression,
+} from "../../expressions/expression.js";
+import type { ShapeNode } from "../../query-tree/operations.js";
+
+/**
+ * JOIN result parameter and shape, shared by the WHERE and SELECT contexts
+ */
+interface JoinResultParams {
+  joinResultParam?: string;
+  currentResultShape?: unknown;
+}
+
+/**
+ * Rewrite row.d === null / row.d !== null on a joined table into a NULL check on the
+ * column that joined it, which is only NULL when the outer join found no row
+ * Other comparisons are returned unchanged
+ */
+export function resolveJoinReferenceComparison(
+  comparison: ComparisonExpression,
+  context: JoinResultParams,
+): ComparisonExpression {
+  if (comparison.operator !== "==" && comparison.operator !== "!=") {
+    return comparison;
+  }
+
+  if (isNullConstant(comparison.right)) {
+    const left = resolveJoinReference(comparison.left, context);
+    return left ? { ...comparison, left } : comparison;
+  }
+  if (isNullConstant(comparison.left)) {
+    const right = resolveJoinReference(comparison.right, context);
+    return right ? { ...comparison, right } : comparison;
+  }
+  return comparison;
+}
+
+/**
+ * Get the join key column of a joined table reference, or null for any other value
+ */
+function resolveJoinReference(
+  value: ValueExpression,
+  context: JoinResultParams,
+): ColumnExpression | null {
+  const shape = context.currentResultShape as ShapeNode | undefined;
+  if (!shape || shape.type !== "object") {
+    return null;
+  }
+
+  let name: string;
+  let node: ShapeNode | undefined;
+  const expr = value as { type: string; name?: string; table?: string; source?: unknown };
+  if (
+    expr.type === "column" &&
+    expr.table !== undefined &&
+    expr.table === context.joinResultParam
+  ) {
+    // WHERE marks row.d with the JOIN result parameter
+    name = expr.name!;
+    node = shape.properties.get(name);
+  } else if (expr.type === "reference") {
+    // SELECT resolves row.d to the joined table
+    const source = expr.source as { type: string; paramIndex?: number } | undefined;
+    if (source?.type !== "joinParam") {
+      return null;
+    }
+    const entry = Array.from(shape.properties).find(
+      ([, prop]) => prop.type === "reference" && prop.sourceTable === source.paramIndex,
+    );
+    if (!entry) {
+      return null;
+    }
+    [name, node] = entry;
+  } else {
+    return null;
+  }
+
+  if (!node || node.type === "column") {
+    return null;
+  }
+  if (node.type !== "reference" || node.joinKey === undefined) {
+    throw new Error(
+      `Cannot compare "${name}" to null: only a table on the optional side of a leftJoin ` +
+        `or rightJoin with an equality key can be null. Compare one of its columns instead.`,
+    );
+  }
+
+  return {
+    type: "column",
+    name: node.joinKey,
+    source: { type: "joinResult", tableIndex: node.sourceTable },
+  };
+}
+
+/**
+ * Check whether a value is the null literal
+ */
+function isNullConstant(value: ValueExpression): boolean {
+  return value.type === "constant" && value.value === null;
+}
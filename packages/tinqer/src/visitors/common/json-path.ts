@@ -0,0 +1,177 @@
+/**
+ * Shared helpers for JSON document access on JSON columns
+ * (x.metadata.address.city, x.metadata.tags[0], x.tags[1].name, ...)
+ */
+
+import type {
+  ColumnExpression,
+  Expression,
+  JsonPathExpression,
+} from "../../expressions/expression.js";
+import type {
+  Expression as ASTExpression,
+  Identifier,
+  Literal,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+import type { ObjectShapeNode, ShapeNode } from "../../query-tree/operations.js";
+
+/**
+ * Lambda parameters that can hold rows, shared by the WHERE, SELECT and ORDER BY contexts
+ */
+interface RowParams {
+  tableParams: Set<string>;
+  groupingParams?: Set<string>;
+  joinResultParam?: string;
+  currentResultShape?: unknown;
+  outerParams?: Map<string, string>;
+}
+
+/**
+ * Visit a member chain below a row column as a JSON path
+ * x.metadata.address.city -> path ["address", "city"] into x.metadata
+ * joined.u.metadata.city -> path ["city"] into the metadata column of joined.u
+ * Returns null for plain column access (x.name) and for chains not rooted at a row parameter
+ * @param visitColumn - Resolves the column member of a plain row (x.metadata) in the caller's context
+ */
+export function visitJsonPath(
+  node: MemberExpression,
+  context: RowParams,
+  visitColumn: (column: MemberExpression) => Expression | null,
+): JsonPathExpression | null {
+  const members: MemberExpression[] = [];
+  const segments: (string | number)[] = [];
+  let current: ASTExpression = node;
+
+  while (current.type === "MemberExpression") {
+    const member = current as MemberExpression;
+    const segment = getPathSegment(member);
+    if (segment === null) {
+      return null;
+    }
+    members.unshift(member);
+    segments.unshift(segment);
+    current = member.object;
+  }
+  if (current.type !== "Identifier") {
+    return null;
+  }
+
+  const root = (current as Identifier).name;
+  const shape = context.currentResultShape as ObjectShapeNode | undefined;
+  if (isJoinResultRoot(root, String(segments[0]), context)) {
+    return visitJoinResultPath(members, segments, shape!);
+  }
+  if (!isRowParam(root, context) || segments.length < 2 || members[0]!.computed) {
+    return null;
+  }
+  return createJsonPath(visitColumn(members[0]!), segments.slice(1));
+}
+
+/**
+ * Resolve a JOIN result chain through its nested objects to a table column
+ */
+function visitJoinResultPath(
+  members: MemberExpression[],
+  segments: (string | number)[],
+  shape: ObjectShapeNode,
+): JsonPathExpression | null {
+  let current: ObjectShapeNode = shape;
+  for (let i = 0; i < segments.length; i++) {
+    const property: ShapeNode | undefined = current.properties.get(String(segments[i]));
+    if (!property) {
+      return null;
+    }
+
+    if (property.type === "column") {
+      // joined.metadata.city, where metadata is a column of one of the joined tables
+      return createJsonPath(
+        {
+          type: "column",
+          name: property.columnName,
+          source: { type: "joinResult", tableIndex: property.sourceTable },
+        },
+        segments.slice(i + 1),
+      );
+    }
+    if (property.type === "reference") {
+      // joined.u.metadata.city, where u is a whole joined table
+      const column = segments[i + 1];
+      if (typeof column !== "string" || members[i + 1]!.computed) {
+        return null;
+      }
+      return createJsonPath(
+        {
+          type: "column",
+          name: column,
+          source: { type: "joinResult", tableIndex: property.sourceTable },
+        },
+        segments.slice(i + 2),
+      );
+    }
+    if (property.type !== "object") {
+      return null;
+    }
+    current = property;
+  }
+  return null;
+}
+
+/**
+ * Build a JSON path expression over a resolved row column
+ * Returns null without a path, or when the column is a JOIN result marker rather than a real column
+ */
+function createJsonPath(
+  column: Expression | null,
+  path: (string | number)[],
+): JsonPathExpression | null {
+  if (!column || column.type !== "column" || path.length === 0) {
+    return null;
+  }
+  const col = column as ColumnExpression;
+  if (col.table) {
+    return null;
+  }
+  return { type: "jsonPath", column: col, path };
+}
+
+function isRowParam(name: string, context: RowParams): boolean {
+  if (context.outerParams?.has(name)) {
+    return true;
+  }
+  return (
+    context.tableParams.has(name) &&
+    name !== context.joinResultParam &&
+    !context.groupingParams?.has(name)
+  );
+}
+
+/**
+ * Check whether a chain starts at a property of the current JOIN result (joined.u, joined.total)
+ */
+function isJoinResultRoot(root: string, property: string, context: RowParams): boolean {
+  const shape = context.currentResultShape as ObjectShapeNode | undefined;
+  if (!shape || !shape.properties.has(property)) {
+    return false;
+  }
+  return (
+    root === context.joinResultParam ||
+    (context.tableParams.has(root) && !context.groupingParams?.has(root))
+  );
+}
+
+function getPathSegment(member: MemberExpression): string | number | null {
+  if (!member.computed) {
+    return member.property.type === "Identifier" ? (member.property as Identifier).name : null;
+  }
+
+  const property = member.property as { type: string; value?: unknown };
+  if (
+    ["Literal", "NumericLiteral", "StringLiteral"].includes(property.type) &&
+    (typeof (property as Literal).value === "string" ||
+      (typeof property.value === "number" && Number.isInteger(property.value)))
+  ) {
+    return property.value as string | number;
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+/**
+ * Shared helpers for Math.* calls translated to SQL numeric functions
+ * (Math.round(x.total), Math.abs(x.delta), Math.max(x.a, x.b), h.functions.round(x.total, 2), ...)
+ */
+
+import type { MathFunctionExpression, ValueExpression } from "../../expressions/expression.js";
+import type {
+  Expression as ASTExpression,
+  CallExpression,
+  Identifier,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+
+/**
+ * Supported Math functions and the number of arguments each accepts [min, max]
+ */
+const MATH_FUNCTION_ARITY: Record<MathFunctionExpression["function"], [number, number]> = {
+  round: [1, 1],
+  floor: [1, 1],
+  ceil: [1, 1],
+  abs: [1, 1],
+  pow: [2, 2],
+  sqrt: [1, 1],
+  min: [2, Infinity],
+  max: [2, Infinity],
+};
+
+/**
+ * A matched Math.<name>(...) or helpers.functions.round(...) call
+ */
+export interface MathFunctionCall {
+  functionName: MathFunctionExpression["function"];
+  arguments: ASTExpression[];
+}
+
+/**
+ * Match a Math.<name>(...) or helpers.functions.round(value, digits) call and validate its arguments
+ */
+export function getMathFunctionCall(
+  node: CallExpression,
+  helpersParam: string | undefined,
+): MathFunctionCall | null {
+  if (node.callee.type !== "MemberExpression") {
+    return null;
+  }
+
+  const callee = node.callee as MemberExpression;
+  if (callee.computed || callee.property.type !== "Identifier") {
+    return null;
+  }
+
+  const functionName = (callee.property as Identifier).name;
+  const args = node.arguments ?? [];
+
+  if (callee.object.type === "Identifier" && (callee.object as Identifier).name === "Math") {
+    validateMathFunctionArguments(functionName, args);
+    return { functionName: functionName as MathFunctionExpression["function"], arguments: args };
+  }
+
+  if (functionName !== "round" || !helpersParam || callee.object.type !== "MemberExpression") {
+    return null;
+  }
+
+  const functionsMember = callee.object as MemberExpression;
+  if (
+    functionsMember.property.type !== "Identifier" ||
+    (functionsMember.property as Identifier).name !== "functions" ||
+    functionsMember.object.type !== "Identifier" ||
+    (functionsMember.object as Identifier).name !== helpersParam
+  ) {
+    return null;
+  }
+
+  // round(value, digits)
+  if (args.length !== 2) {
+    throw new Error(`round() expects 2 arguments but got ${args.length}`);
+  }
+  if (args.some((arg) => (arg as { type: string }).type === "SpreadElement")) {
+    throw new Error("round() does not support spread arguments");
+  }
+  return { functionName: "round", arguments: args };
+}
+
+/**
+ * Validate a Math.<name>(...) call before its arguments are visited
+ */
+function validateMathFunctionArguments(functionName: string, args: ASTExpression[]): void {
+  if (!Object.prototype.hasOwnProperty.call(MATH_FUNCTION_ARITY, functionName)) {
+    throw new Error(
+      `Math.${functionName}() is not supported. ` +
+        `Supported functions: ${Object.keys(MATH_FUNCTION_ARITY).join(", ")}`,
+    );
+  }
+
+  const [min, max] = MATH_FUNCTION_ARITY[functionName as MathFunctionExpression["function"]];
+  const count = args.length;
+  if (count < min || count > max) {
+    const expected =
+      min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+    const hint =
+      functionName === "round"
+        ? "; use helpers.functions.round(value, digits) for decimal places"
+        : "";
+    throw new Error(
+      `Math.${functionName}() expects ${expected} argument(s) but got ${count}${hint}`,
+    );
+  }
+
+  if (args.some((arg) => (arg as { type: string }).type === "SpreadElement")) {
+    throw new Error(`Math.${functionName}() does not support spread arguments`);
+  }
+}
+
+/**
+ * Create a math function expression from visited arguments
+ */
+export function createMathFunction(
+  functionName: string,
+  args: ValueExpression[],
+): MathFunctionExpression {
+  return {
+    type: "mathFunction",
+    function: functionName as MathFunctionExpression["function"],
+    arguments: args,
+  };
+}
@@ -7,6 +7,8 @@ import type {
   Expression,
   ColumnExpression,
   ParameterExpression,
+  StringMethodExpression,
+  ValueExpression,
 } from "../../expressions/expression.js";
 
 import type {
@@ -17,6 +19,14 @@ import type {
 
 import type { VisitorContext } from "../types.js";
 import { createAutoParam } from "../types.js";
+import { isValueExpression } from "../utils.js";
+import {
+  createStringMethod,
+  getSplitIndexAccess,
+  isStringLengthAccess,
+  isStringOperand,
+} from "./string-method.js";
+import { visitJsonPath } from "./json-path.js";
 
 /**
  * Convert member access to expression
@@ -29,6 +39,18 @@ export function visitMemberAccess(
   context: VisitorContext,
   visitExpression: (n: unknown, ctx: VisitorContext) => Expression | null,
 ): Expression | null {
+  // String length and split element access (e.g., x.name.length, x.path.split("/")[1])
+  const stringAccess = visitStringAccess(node, context, visitExpression);
+  if (stringAccess) {
+    return stringAccess;
+  }
+
+  // JSON document access on a row column (e.g., x.metadata.address.city, x.tags[0])
+  const jsonPath = visitJsonPath(node, context, (column) => visitExpression(column, context));
+  if (jsonPath) {
+    return jsonPath;
+  }
+
   // Handle array indexing (e.g., params.roles[0])
   if (node.computed && node.object.type === "Identifier") {
     const objectName = (node.object as Identifier).name;
@@ -162,6 +184,16 @@ export function visitMemberAccess(
       } as ColumnExpression;
     }
 
+    // Outer row reference inside a correlated subquery
+    const outerQualifier = context.outerParams?.get(objectName);
+    if (outerQualifier) {
+      return {
+        type: "column",
+        name: propertyName,
+        source: { type: "table", alias: outerQualifier },
+      } as ColumnExpression;
+    }
+
     // Query parameter property access (e.g., p.minAge)
     if (context.queryParams.has(objectName)) {
       return {
@@ -185,6 +217,38 @@ export function visitMemberAccess(
   return null;
 }
 
+/**
+ * Convert .length and split(separator)[index] on a string value to string method expressions
+ */
+function visitStringAccess(
+  node: ASTMemberExpression,
+  context: VisitorContext,
+  visitExpression: (n: unknown, ctx: VisitorContext) => Expression | null,
+): StringMethodExpression | null {
+  const split = getSplitIndexAccess(node);
+  if (split) {
+    const target = visitExpression(split.target, context);
+    const separator = visitExpression(split.separator, context);
+    const index = visitExpression(split.index, context);
+    if (isStringOperand(target) && isValueExpression(separator) && isValueExpression(index)) {
+      return createStringMethod(target as ValueExpression, "splitPart", [
+        separator as ValueExpression,
+        index as ValueExpression,
+      ]);
+    }
+    return null;
+  }
+
+  if (isStringLengthAccess(node)) {
+    const target = visitExpression(node.object, context);
+    if (isStringOperand(target)) {
+      return createStringMethod(target as ValueExpression, "length", []);
+    }
+  }
+
+  return null;
+}
+
 /**
  * Extract numeric index from property node
  */
@@ -0,0 +1,177 @@
+/**
+ * Shared helpers for pattern predicates
+ * (h.functions.like(x.code, "AB_%"), /^INV-\d+$/i.test(x.code), x.code.match(/^INV-/))
+ */
+
+import type {
+  LikeExpression,
+  RegexMatchExpression,
+  ValueExpression,
+} from "../../expressions/expression.js";
+import type {
+  Expression as ASTExpression,
+  BinaryExpression,
+  CallExpression,
+  Identifier,
+  Literal,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+
+/**
+ * A parsed regular expression match with the AST of the string it tests
+ */
+export interface RegexMatchCall {
+  pattern: string;
+  ignoreCase: boolean;
+  valueNode: ASTExpression;
+}
+
+/**
+ * Get the [value, pattern] arguments of helpers.functions.like(...), or null for any other call
+ */
+export function getLikeCallArguments(
+  node: CallExpression,
+  helpersParam: string | undefined,
+): [ASTExpression, ASTExpression] | null {
+  if (!helpersParam || node.callee.type !== "MemberExpression") {
+    return null;
+  }
+
+  const callee = node.callee as MemberExpression;
+  if (
+    callee.property.type !== "Identifier" ||
+    (callee.property as Identifier).name !== "like" ||
+    callee.object.type !== "MemberExpression"
+  ) {
+    return null;
+  }
+
+  const functionsMember = callee.object as MemberExpression;
+  if (
+    functionsMember.property.type !== "Identifier" ||
+    (functionsMember.property as Identifier).name !== "functions" ||
+    functionsMember.object.type !== "Identifier" ||
+    (functionsMember.object as Identifier).name !== helpersParam
+  ) {
+    return null;
+  }
+
+  const [valueArg, patternArg] = node.arguments as (ASTExpression | undefined)[];
+  if (!valueArg || !patternArg || node.arguments.length !== 2) {
+    throw new Error(`like() expects 2 arguments but got ${node.arguments.length}`);
+  }
+  return [valueArg, patternArg];
+}
+
+/**
+ * Match regex.test(value) and value.match(regex) on a regular expression literal
+ * Only the i flag has an SQL counterpart; other flags are rejected
+ */
+export function getRegexMatchCall(node: CallExpression): RegexMatchCall | null {
+  if (node.callee.type !== "MemberExpression") {
+    return null;
+  }
+
+  const callee = node.callee as MemberExpression;
+  if (callee.property.type !== "Identifier") {
+    return null;
+  }
+
+  const methodName = (callee.property as Identifier).name;
+  let regex: Literal["regex"];
+  let valueNode: ASTExpression | undefined;
+  if (methodName === "test") {
+    regex = getRegexLiteral(callee.object);
+    valueNode = node.arguments[0];
+  } else if (methodName === "match" && node.arguments[0]) {
+    regex = getRegexLiteral(node.arguments[0]);
+    valueNode = callee.object;
+  }
+  if (!regex) {
+    return null;
+  }
+
+  const unsupported = regex.flags.replace("i", "");
+  if (unsupported) {
+    throw new Error(
+      `Regular expression flags "${unsupported}" are not supported; only the i flag translates to SQL`,
+    );
+  }
+  if (!valueNode || node.arguments.length !== 1) {
+    throw new Error(`Regular expression ${methodName}() expects a single argument`);
+  }
+  return { pattern: regex.pattern, ignoreCase: regex.flags === "i", valueNode };
+}
+
+/**
+ * Match value.match(regex) compared to null: !== null holds when the value matches, === null
+ * when it does not. Returns the match() call and whether the comparison negates it
+ */
+export function getRegexMatchNullCheck(
+  node: BinaryExpression,
+): { call: CallExpression; negated: boolean } | null {
+  if (!["==", "===", "!=", "!=="].includes(node.operator)) {
+    return null;
+  }
+
+  const callNode = isNullLiteral(node.right)
+    ? node.left
+    : isNullLiteral(node.left)
+      ? node.right
+      : undefined;
+  if (callNode?.type !== "CallExpression") {
+    return null;
+  }
+
+  const call = callNode as CallExpression;
+  const callee = call.callee as MemberExpression;
+  if (
+    call.callee.type !== "MemberExpression" ||
+    callee.property.type !== "Identifier" ||
+    (callee.property as Identifier).name !== "match" ||
+    !getRegexMatchCall(call)
+  ) {
+    return null;
+  }
+  return { call, negated: node.operator.startsWith("=") };
+}
+
+/**
+ * Create a LIKE predicate from its visited value and pattern
+ */
+export function createLike(value: ValueExpression, pattern: ValueExpression): LikeExpression {
+  return { type: "like", value, pattern };
+}
+
+/**
+ * Create a regular expression predicate; the pattern source is bound as the given parameter
+ */
+export function createRegexMatch(
+  call: RegexMatchCall,
+  value: ValueExpression,
+  paramName: string,
+): RegexMatchExpression {
+  return {
+    type: "regexMatch",
+    value,
+    pattern: { type: "param", param: paramName },
+    ...(call.ignoreCase && { ignoreCase: true }),
+  };
+}
+
+/**
+ * Get the pattern and flags of a regular expression literal, or undefined for any other node
+ */
+function getRegexLiteral(node: ASTExpression): Literal["regex"] {
+  return node.type === "Literal" ? (node as Literal).regex : undefined;
+}
+
+/**
+ * Check whether a node is the null literal
+ */
+function isNullLiteral(node: ASTExpression): boolean {
+  return (
+    node.type === "NullLiteral" ||
+    (node.type === "Literal" && (node as Literal).value === null && !(node as Literal).regex)
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Shared helpers for JavaScript string methods translated to SQL string functions
+ * (x.name.trim(), x.name.substring(0, 3), x.name.length, x.path.split("/")[1], ...)
+ */
+
+import type {
+  ColumnExpression,
+  Expression,
+  StringMethodExpression,
+  ValueExpression,
+} from "../../expressions/expression.js";
+import type {
+  Expression as ASTExpression,
+  CallExpression,
+  Identifier,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+import { isValueExpression } from "../utils.js";
+
+/**
+ * Supported string methods and the number of arguments each accepts [min, max]
+ */
+const STRING_METHOD_ARITY: Record<string, [number, number]> = {
+  toLowerCase: [0, 0],
+  toUpperCase: [0, 0],
+  trim: [0, 0],
+  trimStart: [0, 0],
+  trimEnd: [0, 0],
+  substring: [1, 2],
+  slice: [1, 2],
+  replace: [2, 2],
+  replaceAll: [2, 2],
+  indexOf: [1, 1],
+  padStart: [1, 2],
+  padEnd: [1, 2],
+  split: [1, 1],
+};
+
+/**
+ * Check whether a method name is a translatable string method
+ */
+export function isStringMethod(methodName: string): boolean {
+  return Object.prototype.hasOwnProperty.call(STRING_METHOD_ARITY, methodName);
+}
+
+/**
+ * Validate the AST arguments of a string method call before they are visited
+ */
+export function validateStringMethodArguments(methodName: string, args: ASTExpression[]): void {
+  const [min, max] = STRING_METHOD_ARITY[methodName] ?? [0, 0];
+  const count = args?.length ?? 0;
+
+  if (methodName === "split") {
+    throw new Error('split() is only supported with an element index, e.g. x.path.split("/")[0]');
+  }
+
+  if (count < min || count > max) {
+    const expected = min === max ? `${min}` : `${min} to ${max}`;
+    throw new Error(`${methodName}() expects ${expected} argument(s) but got ${count}`);
+  }
+
+  for (const arg of args ?? []) {
+    if ((arg as { regex?: unknown }).regex) {
+      throw new Error(`${methodName}() with a regular expression is not supported`);
+    }
+  }
+
+  if (methodName === "slice" && args.some(isNegativeNumericLiteral)) {
+    throw new Error("slice() with negative indices is not supported");
+  }
+}
+
+/**
+ * Create a string method expression from visited arguments
+ * slice() is translated like substring(); negative indices are rejected during validation
+ */
+export function createStringMethod(
+  object: ValueExpression,
+  methodName: string,
+  args: ValueExpression[],
+): StringMethodExpression {
+  const method = (
+    methodName === "slice" ? "substring" : methodName
+  ) as StringMethodExpression["method"];
+
+  return {
+    type: "stringMethod",
+    object,
+    method,
+    ...(args.length > 0 && { arguments: args }),
+  };
+}
+
+/**
+ * Check for .length on a non-identifier object (x.name.length, x.name.trim().length)
+ * Direct access on a lambda parameter (x.length) remains a column reference
+ */
+export function isStringLengthAccess(node: MemberExpression): boolean {
+  return (
+    !node.computed &&
+    node.property.type === "Identifier" &&
+    (node.property as Identifier).name === "length" &&
+    node.object.type !== "Identifier"
+  );
+}
+
+/**
+ * Match x.path.split(separator)[index] and return its parts
+ */
+export function getSplitIndexAccess(
+  node: MemberExpression,
+): { target: ASTExpression; separator: ASTExpression; index: ASTExpression } | null {
+  if (!node.computed || node.object.type !== "CallExpression") {
+    return null;
+  }
+
+  const call = node.object as CallExpression;
+  if (call.callee.type !== "MemberExpression") {
+    return null;
+  }
+
+  const callee = call.callee as MemberExpression;
+  if (
+    callee.computed ||
+    callee.property.type !== "Identifier" ||
+    (callee.property as Identifier).name !== "split"
+  ) {
+    return null;
+  }
+
+  const separator = call.arguments?.[0];
+  if (!separator || call.arguments.length !== 1) {
+    throw new Error("split() requires exactly one separator argument");
+  }
+  if ((separator as { regex?: unknown }).regex) {
+    throw new Error("split() with a regular expression is not supported");
+  }
+  if (isNegativeNumericLiteral(node.property)) {
+    throw new Error("split() element index must not be negative");
+  }
+
+  return { target: callee.object, separator, index: node.property };
+}
+
+/**
+ * Values that can be the target of a string function
+ * Parameters and JOIN shape paths (columns carrying a table marker) keep their own member handling
+ */
+export function isStringOperand(expr: Expression | null): boolean {
+  if (!expr || !isValueExpression(expr) || expr.type === "param") {
+    return false;
+  }
+  return !(expr.type === "column" && (expr as ColumnExpression).table);
+}
+
+function isNegativeNumericLiteral(node: ASTExpression): boolean {
+  const unary = node as { type: string; operator?: string; argument?: { value?: unknown } };
+  return (
+    unary.type === "UnaryExpression" &&
+    unary.operator === "-" &&
+    typeof unary.argument?.value === "number"
+  );
+}
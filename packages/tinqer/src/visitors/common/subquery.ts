@@ -0,0 +1,272 @@
+/**
+ * Shared helpers for correlated subqueries written with the query builder inside lambdas
+ * (.where((u) => q.from("orders").any((o) => o.userId === u.id)),
+ * .select((u) => ({ orderCount: q.from("orders").count((o) => o.userId === u.id) })),
+ * .where((u) => q.from("admins").select((a) => a.userId).contains(u.id)), ...)
+ */
+
+import type {
+  ExistsExpression,
+  InExpression,
+  ScalarSubqueryExpression,
+  ValueExpression,
+} from "../../expressions/expression.js";
+import type {
+  AllOperation,
+  AnyOperation,
+  FirstOperation,
+  FirstOrDefaultOperation,
+  QueryOperation,
+  SelectOperation,
+} from "../../query-tree/operations.js";
+import type {
+  Expression as ASTExpression,
+  CallExpression,
+  Identifier,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+import { convertAstToQueryOperationWithParams } from "../../parser/ast-visitor.js";
+
+/**
+ * The enclosing query a correlated subquery is parsed in
+ * (satisfied by both VisitorContext and WhereContext)
+ */
+export interface SubqueryScope {
+  queryBuilderParam?: string;
+  tableParams: Set<string>;
+  queryParams: Set<string>;
+  helpersParam?: string;
+  autoParams: Map<string, unknown>;
+  autoParamCounter: number;
+  currentTable?: string;
+  joinResultParam?: string;
+  outerParams?: Map<string, string>;
+  subqueryDepth?: number;
+}
+
+/**
+ * Alias given to the FROM table of a correlated subquery at the given nesting level
+ */
+export function getSubqueryAlias(depth: number): string {
+  return `s${depth}`;
+}
+
+const EXISTS_METHODS = ["any", "all"] as const;
+const SCALAR_METHODS = [
+  "count",
+  "sum",
+  "average",
+  "min",
+  "max",
+  "first",
+  "firstOrDefault",
+] as const;
+
+/**
+ * Get the terminal method of a q.from(...)...any(...) / .all(...) chain,
+ * or null for any other call
+ */
+export function getExistsSubqueryMethod(
+  node: CallExpression,
+  queryBuilderParam: string | undefined,
+): (typeof EXISTS_METHODS)[number] | null {
+  return getQueryBuilderMethod(node, queryBuilderParam, EXISTS_METHODS);
+}
+
+/**
+ * Get the terminal method of a q.from(...)...count(...) / .max(...) / .firstOrDefault() / ...
+ * chain, or null for any other call
+ */
+export function getScalarSubqueryMethod(
+  node: CallExpression,
+  queryBuilderParam: string | undefined,
+): (typeof SCALAR_METHODS)[number] | null {
+  return getQueryBuilderMethod(node, queryBuilderParam, SCALAR_METHODS);
+}
+
+/**
+ * Check whether a call is q.from(...).select(...)...contains(value)
+ */
+export function isInSubquery(node: CallExpression, queryBuilderParam: string | undefined): boolean {
+  return getQueryBuilderMethod(node, queryBuilderParam, ["contains"]) !== null;
+}
+
+/**
+ * Parse q.from(...).select(...)...contains(value) into an IN expression
+ * The value is visited by the caller, in the enclosing query
+ */
+export function visitInSubquery(
+  node: CallExpression,
+  value: ValueExpression,
+  scope: SubqueryScope,
+): { value: InExpression; counter: number } {
+  const source = (node.callee as MemberExpression).object;
+  if (source.type !== "CallExpression") {
+    throw new Error('Failed to parse subquery. Expected q.from("table").select(selector)');
+  }
+
+  const { operation, counter } = visitSubquery(source as CallExpression, scope);
+  const selector = findSelect(operation ?? undefined)?.selector;
+  if (!operation || !selector || selector.type === "object" || selector.type === "allColumns") {
+    throw new Error(
+      'contains() on a subquery must select a single value, e.g. q.from("admins").select((a) => a.userId).contains(u.id)',
+    );
+  }
+
+  return { value: { type: "in", value, list: operation }, counter };
+}
+
+/**
+ * Parse q.from(...)...any/all(...) into an EXISTS expression
+ * Row parameters of the enclosing query become outer references, qualified by its table
+ * (or by its alias when the enclosing query is itself a subquery)
+ */
+export function visitExistsSubquery(
+  node: CallExpression,
+  scope: SubqueryScope,
+): { value: ExistsExpression; counter: number } {
+  const { operation, counter } = visitSubquery(node, scope);
+  if (!operation || (operation.operationType !== "any" && operation.operationType !== "all")) {
+    throw new Error(
+      'Failed to parse subquery. Expected q.from("table")...any(predicate) or .all(predicate)',
+    );
+  }
+
+  return {
+    value: { type: "exists", subquery: operation as AnyOperation | AllOperation },
+    counter,
+  };
+}
+
+/**
+ * Parse q.from(...)...count/sum/average/min/max/first/firstOrDefault(...) into a scalar subquery
+ */
+export function visitScalarSubquery(
+  node: CallExpression,
+  scope: SubqueryScope,
+): { value: ScalarSubqueryExpression; counter: number } {
+  const { operation, counter } = visitSubquery(node, scope);
+  if (!operation || !(SCALAR_METHODS as readonly string[]).includes(operation.operationType)) {
+    throw new Error(
+      'Failed to parse subquery. Expected q.from("table")... ending in count, sum, average, min, max, first or firstOrDefault',
+    );
+  }
+
+  // first()/firstOrDefault() must project a single value, not a whole row
+  if (operation.operationType === "first" || operation.operationType === "firstOrDefault") {
+    const select = findSelect((operation as FirstOperation | FirstOrDefaultOperation).source);
+    const selector = select?.selector;
+    if (!selector || selector.type === "object" || selector.type === "allColumns") {
+      throw new Error(
+        `Scalar subqueries using ${operation.operationType}() must select a single value, e.g. .select((o) => o.createdAt).${operation.operationType}()`,
+      );
+    }
+  }
+
+  return {
+    value: {
+      type: "scalarSubquery",
+      subquery: operation as ScalarSubqueryExpression["subquery"],
+    },
+    counter,
+  };
+}
+
+/**
+ * Parse a query builder chain nested one level below the given scope
+ */
+function visitSubquery(
+  node: CallExpression,
+  scope: SubqueryScope,
+): { operation: QueryOperation | null; counter: number } {
+  const depth = (scope.subqueryDepth ?? 0) + 1;
+  const result = convertAstToQueryOperationWithParams(
+    node,
+    scope.autoParamCounter,
+    scope.autoParams,
+    scope.queryBuilderParam,
+    scope.queryParams,
+    scope.helpersParam,
+    { outerParams: createOuterParams(scope), depth },
+  );
+
+  return { operation: result.operation, counter: result.visitorContext.autoParamCounter };
+}
+
+/**
+ * Find the projection a terminal operation reads, looking through ordering and paging
+ */
+function findSelect(operation: QueryOperation | undefined): SelectOperation | null {
+  let current = operation;
+  while (current) {
+    if (current.operationType === "select") {
+      return current as SelectOperation;
+    }
+    if (current.operationType === "from") {
+      return null;
+    }
+    current = (current as { source?: QueryOperation }).source;
+  }
+  return null;
+}
+
+/**
+ * Map every row parameter visible to the subquery to the SQL name that qualifies its columns
+ */
+function createOuterParams(scope: SubqueryScope): Map<string, string> {
+  if (scope.joinResultParam) {
+    throw new Error("Correlated subqueries are not supported after join()");
+  }
+
+  const qualifier = scope.subqueryDepth
+    ? getSubqueryAlias(scope.subqueryDepth)
+    : scope.currentTable;
+  if (!qualifier) {
+    throw new Error("Correlated subqueries require the outer query to read from a table");
+  }
+
+  const outerParams = new Map(scope.outerParams);
+  for (const param of scope.tableParams) {
+    outerParams.set(param, qualifier);
+  }
+  return outerParams;
+}
+
+/**
+ * Get the called method name when it is one of the given methods on a query builder chain
+ */
+function getQueryBuilderMethod<TMethod extends string>(
+  node: CallExpression,
+  queryBuilderParam: string | undefined,
+  methods: readonly TMethod[],
+): TMethod | null {
+  if (!queryBuilderParam || node.callee.type !== "MemberExpression") {
+    return null;
+  }
+
+  const callee = node.callee as MemberExpression;
+  if (callee.property.type !== "Identifier") {
+    return null;
+  }
+
+  const methodName = (callee.property as Identifier).name as TMethod;
+  if (!methods.includes(methodName)) {
+    return null;
+  }
+
+  return isQueryBuilderChain(callee.object, queryBuilderParam) ? methodName : null;
+}
+
+/**
+ * Check whether an expression is a method chain rooted at the query builder parameter
+ */
+function isQueryBuilderChain(node: ASTExpression, queryBuilderParam: string): boolean {
+  let current = node;
+  while (current.type === "CallExpression" || current.type === "MemberExpression") {
+    current =
+      current.type === "CallExpression"
+        ? (current as CallExpression).callee
+        : (current as MemberExpression).object;
+  }
+  return current.type === "Identifier" && (current as Identifier).name === queryBuilderParam;
+}
@@ -0,0 +1,201 @@
+/**
+ * Shared helpers for the full-text search helper functions
+ * (h.functions.textSearch(x.body, p.q), h.functions.textRank(x.body, p.q, { config: "english" }), ...)
+ */
+
+import type {
+  TextSearchExpression,
+  TextSearchFunctionExpression,
+  ValueExpression,
+} from "../../expressions/expression.js";
+import type {
+  Expression as ASTExpression,
+  CallExpression,
+  Identifier,
+  Literal,
+  MemberExpression,
+  ObjectExpression,
+} from "../../parser/ast-types.js";
+
+type TextSearchFunctionName = "textSearch" | "textRank" | "textHighlight" | "textSnippet";
+
+/**
+ * Option values a text search call may carry; they become part of the SQL text
+ */
+type TextSearchOptionValues = Omit<TextSearchFunctionExpression, "type" | "function" | "arguments">;
+
+/**
+ * The options each text search function accepts
+ */
+const ALLOWED_OPTIONS: Record<TextSearchFunctionName, (keyof TextSearchOptionValues)[]> = {
+  textSearch: ["config"],
+  textRank: ["config"],
+  textHighlight: ["config", "start", "end"],
+  textSnippet: ["config", "start", "end", "ellipsis", "tokens"],
+};
+
+const VALUE_FUNCTIONS: Record<string, TextSearchFunctionExpression["function"]> = {
+  textRank: "rank",
+  textHighlight: "highlight",
+  textSnippet: "snippet",
+};
+
+/**
+ * A parsed helpers.functions text search call with the AST arguments that still need visiting
+ */
+export interface TextSearchHelperCall {
+  functionName: TextSearchFunctionName;
+  options: TextSearchOptionValues;
+  valueArguments: [ASTExpression, ASTExpression];
+}
+
+/**
+ * Match helpers.functions.textSearch/textRank/textHighlight/textSnippet(...) and validate its options
+ */
+export function getTextSearchHelperCall(
+  node: CallExpression,
+  helpersParam: string | undefined,
+): TextSearchHelperCall | null {
+  if (!helpersParam || node.callee.type !== "MemberExpression") {
+    return null;
+  }
+
+  const callee = node.callee as MemberExpression;
+  if (callee.property.type !== "Identifier" || callee.object.type !== "MemberExpression") {
+    return null;
+  }
+
+  const functionName = (callee.property as Identifier).name as TextSearchFunctionName;
+  if (!Object.prototype.hasOwnProperty.call(ALLOWED_OPTIONS, functionName)) {
+    return null;
+  }
+
+  const functionsMember = callee.object as MemberExpression;
+  if (
+    functionsMember.property.type !== "Identifier" ||
+    (functionsMember.property as Identifier).name !== "functions" ||
+    functionsMember.object.type !== "Identifier" ||
+    (functionsMember.object as Identifier).name !== helpersParam
+  ) {
+    return null;
+  }
+
+  const args = node.arguments ?? [];
+  if (args.length < 2 || args.length > 3) {
+    throw new Error(`${functionName}() expects 2 or 3 arguments but got ${args.length}`);
+  }
+
+  return {
+    functionName,
+    options: getTextSearchOptions(args[2], functionName),
+    valueArguments: [args[0]!, args[1]!],
+  };
+}
+
+/**
+ * Create a textSearch condition from visited arguments
+ */
+export function createTextSearch(
+  call: TextSearchHelperCall,
+  args: ValueExpression[],
+): TextSearchExpression {
+  return {
+    type: "textSearch",
+    arguments: [args[0]!, args[1]!],
+    ...(call.options.config && { config: call.options.config }),
+  };
+}
+
+/**
+ * Create a textRank/textHighlight/textSnippet value from visited arguments
+ * Highlight and snippet markers get their defaults here so every dialect renders the same text
+ */
+export function createTextSearchFunction(
+  call: TextSearchHelperCall,
+  args: ValueExpression[],
+): TextSearchFunctionExpression {
+  const functionName = VALUE_FUNCTIONS[call.functionName];
+  if (!functionName) {
+    throw new Error(
+      "textSearch() is a condition and can only be used in where(); use textRank() for a value",
+    );
+  }
+
+  return {
+    type: "textSearchFunction",
+    function: functionName,
+    arguments: [args[0]!, args[1]!],
+    ...(functionName !== "rank" && { start: "<b>", end: "</b>" }),
+    ...(functionName === "snippet" && { ellipsis: "...", tokens: 10 }),
+    ...call.options,
+  };
+}
+
+/**
+ * Options become part of the SQL text (configuration names, markers), so they must be
+ * an object literal of literals rather than parameters
+ */
+function getTextSearchOptions(
+  node: ASTExpression | undefined,
+  functionName: TextSearchFunctionName,
+): TextSearchOptionValues {
+  if (!node) {
+    return {};
+  }
+  if (node.type !== "ObjectExpression") {
+    throw new Error(`${functionName}() options must be an object literal`);
+  }
+
+  const options: TextSearchOptionValues = {};
+  for (const property of (node as ObjectExpression).properties) {
+    if (property.type !== "Property" || property.kind !== "init") {
+      throw new Error(`${functionName}() options cannot use spread or accessor properties`);
+    }
+
+    const key =
+      property.key.type === "Identifier"
+        ? (property.key as Identifier).name
+        : String((property.key as Literal).value);
+    if (!ALLOWED_OPTIONS[functionName].includes(key as keyof TextSearchOptionValues)) {
+      throw new Error(
+        `${functionName}() does not take a "${key}" option; allowed: ${ALLOWED_OPTIONS[functionName].join(", ")}`,
+      );
+    }
+
+    const value = (property.value as { value?: unknown }).value;
+    if (
+      !["Literal", "StringLiteral", "NumericLiteral"].includes(property.value.type) ||
+      (typeof value !== "string" && typeof value !== "number")
+    ) {
+      throw new Error(`${functionName}() option "${key}" must be a literal`);
+    }
+
+    switch (key) {
+      case "config":
+        if (typeof value !== "string" || !/^[A-Za-z_][A-Za-z0-9_.]*$/.test(value)) {
+          throw new Error(
+            `${functionName}() config must name a text search configuration, e.g. "english"`,
+          );
+        }
+        options.config = value;
+        break;
+
+      case "tokens":
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 2 || value > 64) {
+          throw new Error(`${functionName}() tokens must be an integer between 2 and 64`);
+        }
+        options.tokens = value;
+        break;
+
+      default:
+        // start, end and ellipsis are quoted inside PostgreSQL headline options
+        if (typeof value !== "string" || value.includes('"')) {
+          throw new Error(
+            `${functionName}() option "${key}" must be a string without double quotes`,
+          );
+        }
+        options[key as "start" | "end" | "ellipsis"] = value;
+    }
+  }
+  return options;
+}
@@ -52,6 +52,7 @@ export function visitCountOperation(
           localQueryParams,
           visitorContext.autoParams,
           visitorContext.autoParamCounter,
+          visitorContext,
         );
         predicate = result.predicate;
         Object.assign(autoParams, result.autoParams);
@@ -49,6 +49,10 @@ export function visitGroupByOperation(
           localQueryParams,
           visitorContext.autoParams,
           visitorContext.autoParamCounter,
+          visitorContext.helpersParam,
+          paramName && visitorContext.currentResultShape
+            ? { param: paramName, shape: visitorContext.currentResultShape }
+            : undefined,
         );
 
         // Support any expression as key selector, including:
@@ -43,6 +43,7 @@ import { createAutoParam } from "./types.js";
 import { visitIdentifier } from "./common/identifier.js";
 import { visitLiteral } from "./common/literal.js";
 import { visitMemberAccess } from "./common/member-access.js";
+import { getRegexMatchNullCheck } from "./common/pattern-match.js";
 
 // Boolean visitors
 import { visitComparison } from "./boolean/comparison.js";
@@ -141,6 +142,16 @@ function visitBinaryExpression(
 ): Expression | null {
   const operator = node.operator;
 
+  // x.code.match(/^INV-/) !== null matches, === null does not
+  const regexNullCheck = getRegexMatchNullCheck(node);
+  if (regexNullCheck) {
+    const match = visitExpression(regexNullCheck.call, context);
+    if (!match || !isBooleanExpression(match) || !regexNullCheck.negated) {
+      return match;
+    }
+    return { type: "not", expression: match as BooleanExpression };
+  }
+
   // Comparison operators
   if (["==", "===", "!=", "!==", ">", ">=", "<", "<="].includes(operator)) {
     return visitComparison(node, context, (n, ctx) => visitExpression(n as ASTExpression, ctx));
@@ -226,6 +237,11 @@ function visitUnaryExpression(
   if (node.operator === "!") {
     const expr = visitExpression(node.argument, context);
 
+    // !q.from(...).any(...) becomes NOT EXISTS
+    if (expr?.type === "exists") {
+      return { ...expr, negated: !expr.negated };
+    }
+
     // Convert column to booleanColumn if needed
     let finalExpr = expr;
     if (expr?.type === "column") {
@@ -234,6 +250,7 @@ function visitUnaryExpression(
         type: "booleanColumn",
         name: col.name,
         ...(col.table ? { table: col.table } : {}),
+        ...(col.source ? { source: col.source } : {}),
       } as BooleanColumnExpression;
       finalExpr = boolCol;
     }
@@ -0,0 +1,213 @@
+/**
+ * Visitors for INSERT .onConflict(), .doNothing(), .doUpdateSet() and .where() operations
+ */
+
+import type { InsertOperation } from "../../query-tree/operations.js";
+import type {
+  BooleanExpression,
+  ColumnExpression,
+  ObjectExpression,
+} from "../../expressions/expression.js";
+import type {
+  CallExpression as ASTCallExpression,
+  ArrowFunctionExpression,
+  Expression as ASTExpression,
+  ArrayExpression as ASTArrayExpression,
+} from "../../parser/ast-types.js";
+import type { VisitorContext } from "../types.js";
+import { visitExpression } from "../index.js";
+
+export interface OnConflictVisitorResult {
+  operation: InsertOperation;
+  autoParams: Record<string, unknown>;
+}
+
+/**
+ * Visit an .onConflict() operation on an INSERT
+ */
+export function visitOnConflictOperation(
+  ast: ASTCallExpression,
+  source: InsertOperation,
+  visitorContext: VisitorContext,
+): OnConflictVisitorResult | null {
+  // .onConflict() or .onConflict((row) => row.email) or .onConflict((row) => [row.a, row.b])
+  const target: string[] = [];
+  const lambda = ast.arguments?.[0];
+
+  if (lambda) {
+    if (lambda.type !== "ArrowFunctionExpression") {
+      throw new Error("onConflict() requires a lambda expression");
+    }
+
+    const arrowFn = lambda as ArrowFunctionExpression;
+    const params = arrowFn.params;
+    if (!params || params.length === 0 || params[0]?.type !== "Identifier") {
+      throw new Error("onConflict() lambda must have a parameter");
+    }
+
+    // Add to table params temporarily for expression resolution
+    const originalTableParams = new Set(visitorContext.tableParams);
+    visitorContext.tableParams.add(params[0].name);
+
+    const bodyExpr = getLambdaBody(arrowFn, "onConflict");
+    const elements =
+      bodyExpr.type === "ArrayExpression"
+        ? ((bodyExpr as ASTArrayExpression).elements as ASTExpression[])
+        : [bodyExpr];
+
+    for (const element of elements) {
+      const expr = element ? visitExpression(element, visitorContext) : null;
+      if (!expr || expr.type !== "column") {
+        visitorContext.tableParams = originalTableParams;
+        throw new Error("onConflict() target must be a column or an array of columns");
+      }
+      target.push((expr as ColumnExpression).name);
+    }
+
+    // Restore table params
+    visitorContext.tableParams = originalTableParams;
+  }
+
+  return {
+    operation: {
+      ...source,
+      onConflict: { target },
+    },
+    autoParams: {},
+  };
+}
+
+/**
+ * Visit a .doNothing() operation on an INSERT
+ */
+export function visitDoNothingOperation(source: InsertOperation): OnConflictVisitorResult {
+  if (!source.onConflict) {
+    throw new Error("doNothing() must follow onConflict()");
+  }
+
+  return {
+    operation: {
+      ...source,
+      onConflict: { ...source.onConflict, action: "nothing" },
+    },
+    autoParams: {},
+  };
+}
+
+/**
+ * Visit a .doUpdateSet() operation on an INSERT
+ */
+export function visitDoUpdateSetOperation(
+  ast: ASTCallExpression,
+  source: InsertOperation,
+  visitorContext: VisitorContext,
+): OnConflictVisitorResult | null {
+  // .doUpdateSet((existing, excluded) => ({ name: excluded.name }))
+  if (!source.onConflict) {
+    throw new Error("doUpdateSet() must follow onConflict()");
+  }
+
+  const assignments = visitConflictLambda(ast, visitorContext, "doUpdateSet");
+  if (!assignments) {
+    return null;
+  }
+  if (assignments.type !== "object") {
+    throw new Error("doUpdateSet() lambda must return an object literal");
+  }
+
+  return {
+    operation: {
+      ...source,
+      onConflict: {
+        ...source.onConflict,
+        action: "update",
+        assignments: assignments as ObjectExpression,
+      },
+    },
+    autoParams: {},
+  };
+}
+
+/**
+ * Visit a .where() operation following .doUpdateSet() on an INSERT
+ */
+export function visitWhereConflictOperation(
+  ast: ASTCallExpression,
+  source: InsertOperation,
+  visitorContext: VisitorContext,
+): OnConflictVisitorResult | null {
+  // .where((existing, excluded) => existing.version < excluded.version)
+  if (source.onConflict?.action !== "update") {
+    throw new Error("where() on an INSERT must follow onConflict().doUpdateSet()");
+  }
+
+  const predicate = visitConflictLambda(ast, visitorContext, "where");
+  if (!predicate) {
+    return null;
+  }
+
+  return {
+    operation: {
+      ...source,
+      onConflict: {
+        ...source.onConflict,
+        predicate: predicate as BooleanExpression,
+      },
+    },
+    autoParams: {},
+  };
+}
+
+/**
+ * Visit a (existing, excluded) => ... lambda
+ * The parameters are registered as join params so columns carry which row they come from
+ */
+function visitConflictLambda(
+  ast: ASTCallExpression,
+  visitorContext: VisitorContext,
+  label: string,
+): ReturnType<typeof visitExpression> {
+  const lambda = ast.arguments?.[0];
+  if (!lambda || lambda.type !== "ArrowFunctionExpression") {
+    throw new Error(`${label}() requires a lambda expression`);
+  }
+
+  const arrowFn = lambda as ArrowFunctionExpression;
+  const params = arrowFn.params;
+  if (!params || params.length === 0 || params[0]?.type !== "Identifier") {
+    throw new Error(`${label}() lambda must have a parameter`);
+  }
+
+  const originalTableParams = new Set(visitorContext.tableParams);
+  const originalJoinParams = visitorContext.joinParams;
+  visitorContext.joinParams = new Map();
+
+  params.forEach((param, index) => {
+    if (param?.type === "Identifier") {
+      visitorContext.tableParams.add(param.name);
+      visitorContext.joinParams!.set(param.name, index);
+    }
+  });
+
+  try {
+    return visitExpression(getLambdaBody(arrowFn, label), visitorContext);
+  } finally {
+    visitorContext.tableParams = originalTableParams;
+    visitorContext.joinParams = originalJoinParams;
+  }
+}
+
+function getLambdaBody(arrowFn: ArrowFunctionExpression, label: string): ASTExpression {
+  let bodyExpr = arrowFn.body;
+
+  // Handle block statement with return
+  if (bodyExpr.type === "BlockStatement") {
+    const returnStmt = bodyExpr.body?.find((stmt) => stmt.type === "ReturnStatement");
+    if (!returnStmt || !returnStmt.argument) {
+      throw new Error(`${label}() lambda must return a value`);
+    }
+    bodyExpr = returnStmt.argument;
+  }
+
+  return bodyExpr as ASTExpression;
+}
@@ -3,7 +3,7 @@
  */
 
 import type { InsertOperation } from "../../query-tree/operations.js";
-import type { ObjectExpression } from "../../expressions/expression.js";
+import type { ObjectExpression, ParameterExpression } from "../../expressions/expression.js";
 import type {
   CallExpression as ASTCallExpression,
   ObjectExpression as ASTObjectExpression,
@@ -35,9 +35,28 @@ export function visitValuesOperation(
     return null;
   }
 
+  // .values(params.rows) - multi-row insert from an array parameter
+  if (firstArg.type === "MemberExpression" || firstArg.type === "Identifier") {
+    const rowsExpr = visitExpression(firstArg, visitorContext);
+    if (!rowsExpr || rowsExpr.type !== "param") {
+      throw new Error(
+        "values() must be an object literal or an array parameter (e.g. params.rows)",
+      );
+    }
+
+    return {
+      operation: {
+        ...source,
+        values: { type: "object", properties: {} },
+        rows: rowsExpr as ParameterExpression,
+      },
+      autoParams: {},
+    };
+  }
+
   // Must be an object expression
   if (firstArg.type !== "ObjectExpression") {
-    throw new Error("values() must be an object literal");
+    throw new Error("values() must be an object literal or an array parameter (e.g. params.rows)");
   }
 
   // Visit the object expression to get column-value mappings
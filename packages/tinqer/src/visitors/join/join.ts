@@ -1,6 +1,7 @@
 /**
  * JOIN operation visitor
- * Handles JOIN operations with various forms
+ * Handles join, leftJoin, rightJoin, fullJoin and crossJoin in their key selector,
+ * compound key and predicate forms
  */
 
 import type {
@@ -10,64 +11,78 @@ import type {
   ReferenceShapeNode,
   ColumnShapeNode,
   ObjectShapeNode,
+  ResultShape,
 } from "../../query-tree/operations.js";
 import type {
+  BooleanExpression,
   ColumnExpression,
   Expression,
   ComparisonExpression,
+  ObjectExpression,
+  ValueExpression,
 } from "../../expressions/expression.js";
 import type {
   CallExpression as ASTCallExpression,
   ArrowFunctionExpression,
   Expression as ASTExpression,
   Identifier,
+  ParenthesizedExpression,
 } from "../../parser/ast-types.js";
 import type { VisitorContext } from "../types.js";
 import type { JoinContext } from "./context.js";
 import { getParameterName, getReturnExpression } from "../visitor-utils.js";
 import { visitGenericExpression } from "../shared/generic-visitor.js";
+import { visitExpression } from "../index.js";
+import { isBooleanExpression } from "../utils.js";
 import { visitAstToQueryOperation } from "../ast-visitor.js";
 import { visitJoinResultSelector } from "./result-selector.js";
-import { buildResultShape } from "./shape.js";
+import { buildResultShape, getReferenceJoinKeys, setReferenceJoinKeys } from "./shape.js";
+
+/**
+ * Join type of each join method (plain join() leaves it unset, meaning INNER JOIN)
+ */
+const JOIN_TYPES: Record<string, JoinOperation["joinType"]> = {
+  leftJoin: "left",
+  rightJoin: "right",
+  fullJoin: "full",
+  crossJoin: "cross",
+};
+
+type ResultSelectorInfo = {
+  resultSelector: Expression | undefined;
+  outerParam: string | null;
+  innerParam: string | null;
+  autoParams: Record<string, unknown>;
+};
 
 export function visitJoinOperation(
   ast: ASTCallExpression,
   source: QueryOperation,
-  _methodName: string,
+  methodName: string,
   visitorContext: VisitorContext,
 ): { operation: JoinOperation; autoParams: Record<string, unknown> } | null {
+  const joinType = JOIN_TYPES[methodName];
+
+  // crossJoin(inner, resultSelector)
+  if (joinType === "cross") {
+    return visitCrossJoin(ast, source, visitorContext);
+  }
+
+  // Predicate form: join(inner, (o, i) => condition, resultSelector)
+  if (ast.arguments && ast.arguments.length === 3) {
+    return visitPredicateJoin(ast, source, joinType, visitorContext);
+  }
+
   // Handle 2-argument form: join(inner, predicate)
   if (ast.arguments && ast.arguments.length === 2) {
     const firstArg = ast.arguments[0];
     const predicateArg = ast.arguments[1];
 
-    // Parse inner source
     const innerSourceResult = firstArg
-      ? visitAstToQueryOperation(
-          firstArg as ASTExpression,
-          visitorContext.tableParams,
-          visitorContext.queryParams,
-          visitorContext,
-        )
+      ? visitInnerSource(firstArg as ASTExpression, visitorContext)
       : null;
     const innerSource = innerSourceResult?.operation || null;
 
-    // Update visitor context with inner source's auto-params and counter
-    if (innerSourceResult?.autoParams) {
-      // Find the highest param number used
-      let maxParamNum = visitorContext.autoParamCounter;
-      for (const key of Object.keys(innerSourceResult.autoParams)) {
-        if (key.startsWith("__p")) {
-          const num = parseInt(key.substring(3), 10);
-          if (!isNaN(num) && num > maxParamNum) {
-            maxParamNum = num;
-          }
-        }
-      }
-      // Update the counter to be the next available number
-      visitorContext.autoParamCounter = maxParamNum;
-    }
-
     if (innerSource && predicateArg && predicateArg.type === "ArrowFunctionExpression") {
       const predicateArrow = predicateArg as ArrowFunctionExpression;
       const params = predicateArrow.params;
@@ -179,31 +194,10 @@ export function visitJoinOperation(
     // join(inner, outerKeySelector, innerKeySelector, resultSelector)
     const firstArg = ast.arguments[0];
     const innerSourceResult = firstArg
-      ? visitAstToQueryOperation(
-          firstArg as ASTExpression,
-          visitorContext.tableParams,
-          visitorContext.queryParams,
-          visitorContext,
-        )
+      ? visitInnerSource(firstArg as ASTExpression, visitorContext)
       : null;
     const innerSource = innerSourceResult?.operation || null;
 
-    // Update visitor context with inner source's auto-params and counter
-    if (innerSourceResult?.autoParams) {
-      // Find the highest param number used
-      let maxParamNum = visitorContext.autoParamCounter;
-      for (const key of Object.keys(innerSourceResult.autoParams)) {
-        if (key.startsWith("__p")) {
-          const num = parseInt(key.substring(3), 10);
-          if (!isNaN(num) && num > maxParamNum) {
-            maxParamNum = num;
-          }
-        }
-      }
-      // Update the counter to be the next available number
-      visitorContext.autoParamCounter = maxParamNum;
-    }
-
     const outerKeySelectorAst = ast.arguments[1];
     const innerKeySelectorAst = ast.arguments[2];
     const resultSelectorAst = ast.arguments[3]; // Capture the result selector
@@ -211,13 +205,40 @@ export function visitJoinOperation(
     let outerKey: string | null = null;
     let innerKey: string | null = null;
     let outerKeySource: number | undefined = undefined;
-    let outerParam: string | null = null;
-    let innerParam: string | null = null;
     const autoParams: Record<string, unknown> = {};
 
     // Check if source operation is a JOIN with a result shape
-    const sourceJoin = source.operationType === "join" ? (source as JoinOperation) : null;
-    const previousResultShape = sourceJoin?.resultShape;
+    const previousResultShape = getPreviousResultShape(source);
+
+    // Compound keys: (o) => ({ a: o.a, b: o.b }), (i) => ({ a: i.x, b: i.y })
+    if (
+      innerSource &&
+      isObjectKeySelector(outerKeySelectorAst) &&
+      isObjectKeySelector(innerKeySelectorAst)
+    ) {
+      const innerTableIndex = getInnerTableIndex(previousResultShape);
+      const on = visitCompoundKeys(
+        outerKeySelectorAst as ArrowFunctionExpression,
+        innerKeySelectorAst as ArrowFunctionExpression,
+        previousResultShape,
+        innerTableIndex,
+        visitorContext,
+      );
+      const selector = visitResultSelectorArrow(
+        resultSelectorAst,
+        previousResultShape,
+        innerTableIndex,
+        visitorContext,
+      );
+      if (!selector) {
+        return null;
+      }
+
+      return createConditionJoin(source, innerSource, joinType, on, selector, previousResultShape, {
+        ...innerSourceResult?.autoParams,
+        ...selector.autoParams,
+      });
+    }
 
     // Process outer key selector
     if (outerKeySelectorAst && outerKeySelectorAst.type === "ArrowFunctionExpression") {
@@ -253,6 +274,10 @@ export function visitJoinOperation(
           outerContext.queryParams,
           visitorContext.autoParams,
           visitorContext.autoParamCounter,
+          undefined,
+          paramName && previousResultShape
+            ? { param: paramName, shape: previousResultShape }
+            : undefined,
         );
         if (result) {
           const expr = result.expression;
@@ -324,97 +349,16 @@ export function visitJoinOperation(
     }
 
     // Process the result selector
-    let resultSelector: Expression | undefined = undefined;
-    if (resultSelectorAst && resultSelectorAst.type === "ArrowFunctionExpression") {
-      const resultArrow = resultSelectorAst as ArrowFunctionExpression;
-
-      // Store the parameter names for the result selector
-      // These will be needed to map properties back to their source tables
-      const params = resultArrow.params;
-      outerParam =
-        params && params[0] && params[0].type === "Identifier"
-          ? (params[0] as Identifier).name
-          : null;
-      innerParam =
-        params && params[1] && params[1].type === "Identifier"
-          ? (params[1] as Identifier).name
-          : null;
-
-      // Create a special context that tracks which parameter maps to which table
-      const resultContext: JoinContext = {
-        tableParams: new Set(visitorContext.tableParams),
-        queryParams: new Set(visitorContext.queryParams),
-        joinParams: new Map<string, number>(), // parameter name -> table index (0 for outer, 1+ for inner)
-      };
-
-      // If we're chaining JOINs and the outer param comes from a previous JOIN result,
-      // pass through its shape information
-      if (outerParam && previousResultShape) {
-        resultContext.currentResultShape = previousResultShape;
-        resultContext.joinResultParam = outerParam;
-      }
-
-      // For chained JOINs, we need to determine the correct table index for the inner param
-      let innerTableIndex = 1;
-      if (previousResultShape) {
-        // Count the number of tables already in the result shape
-        // This tells us what index the new inner table should have
-        let maxTableIndex = 0;
-        for (const [, node] of previousResultShape.properties) {
-          const findMaxIndex = (n: ShapeNode): number => {
-            if (n.type === "reference" || n.type === "column") {
-              return (n as ReferenceShapeNode | ColumnShapeNode).sourceTable || 0;
-            } else if (n.type === "object") {
-              const objNode = n as ObjectShapeNode;
-              let max = 0;
-              for (const [, child] of objNode.properties) {
-                max = Math.max(max, findMaxIndex(child));
-              }
-              return max;
-            }
-            return 0;
-          };
-          maxTableIndex = Math.max(maxTableIndex, findMaxIndex(node));
-        }
-        innerTableIndex = maxTableIndex + 1;
-      }
-
-      if (outerParam) {
-        // Note: outerParam doesn't get a single index for chained JOINs
-        // It represents the entire previous JOIN result, not a single table
-        // We don't add it to joinParams for chained JOINs, it's handled differently
-        if (!previousResultShape) {
-          resultContext.joinParams?.set(outerParam, 0);
-        }
-        resultContext.tableParams.add(outerParam); // Also add to tableParams for validation
-      }
-      if (innerParam) {
-        resultContext.joinParams?.set(innerParam, innerTableIndex);
-        resultContext.tableParams.add(innerParam); // Also add to tableParams for validation
-      }
-
-      // Convert the result selector body to an expression
-      let bodyExpr: ASTExpression | null = null;
-      if (resultArrow.body.type === "BlockStatement") {
-        bodyExpr = getReturnExpression(resultArrow.body.body);
-      } else {
-        bodyExpr = resultArrow.body;
-      }
-
-      if (bodyExpr) {
-        // Use a custom visitor that tracks JOIN parameters
-        const result = visitJoinResultSelector(
-          bodyExpr,
-          resultContext,
-          visitorContext.autoParamCounter,
-        );
-        if (result) {
-          resultSelector = result.expression || undefined;
-          Object.assign(autoParams, result.autoParams);
-          visitorContext.autoParamCounter = result.counter;
-        }
-      }
-    }
+    const selector = visitResultSelectorArrow(
+      resultSelectorAst,
+      previousResultShape,
+      getInnerTableIndex(previousResultShape),
+      visitorContext,
+    );
+    const resultSelector = selector?.resultSelector;
+    const outerParam = selector?.outerParam ?? null;
+    const innerParam = selector?.innerParam ?? null;
+    Object.assign(autoParams, selector?.autoParams);
 
     if (innerSource && outerKey && innerKey) {
       // Build the result shape from the result selector
@@ -424,6 +368,15 @@ export function visitJoinOperation(
         innerParam,
         previousResultShape,
       );
+      setReferenceJoinKeys(
+        resultShape,
+        getOptionalSideKeys(
+          joinType,
+          previousResultShape,
+          getInnerTableIndex(previousResultShape),
+          (side) => (side === 0 ? outerKey : innerKey),
+        ),
+      );
 
       // Merge auto params from inner source if present
       if (innerSourceResult?.autoParams) {
@@ -441,6 +394,7 @@ export function visitJoinOperation(
           outerKeySource, // Track which source table the key comes from
           resultSelector, // Include the result selector
           resultShape, // Include the result shape
+          ...(joinType ? { joinType } : {}),
         },
         autoParams,
       };
@@ -448,3 +402,484 @@ export function visitJoinOperation(
   }
   return null;
 }
+
+/**
+ * Handle crossJoin(inner, resultSelector)
+ */
+function visitCrossJoin(
+  ast: ASTCallExpression,
+  source: QueryOperation,
+  visitorContext: VisitorContext,
+): { operation: JoinOperation; autoParams: Record<string, unknown> } | null {
+  const [innerArg, resultSelectorAst] = ast.arguments as (ASTExpression | undefined)[];
+  const innerSourceResult = innerArg ? visitInnerSource(innerArg, visitorContext) : null;
+  if (!innerSourceResult?.operation) {
+    return null;
+  }
+
+  const previousResultShape = getPreviousResultShape(source);
+  const selector = visitResultSelectorArrow(
+    resultSelectorAst,
+    previousResultShape,
+    getInnerTableIndex(previousResultShape),
+    visitorContext,
+  );
+  if (!selector) {
+    throw new Error(
+      "crossJoin() requires a result selector, e.g. .crossJoin(q.from(...), (a, b) => ({ a, b }))",
+    );
+  }
+
+  return {
+    operation: {
+      type: "queryOperation",
+      operationType: "join",
+      source,
+      inner: innerSourceResult.operation,
+      outerKey: "__cross",
+      innerKey: "__cross",
+      resultSelector: selector.resultSelector,
+      resultShape: buildResultShape(
+        selector.resultSelector,
+        selector.outerParam,
+        selector.innerParam,
+        previousResultShape,
+      ),
+      joinType: "cross",
+    },
+    autoParams: { ...innerSourceResult.autoParams, ...selector.autoParams },
+  };
+}
+
+/**
+ * Handle join(inner, (o, i) => condition, resultSelector) and its outer join variants
+ */
+function visitPredicateJoin(
+  ast: ASTCallExpression,
+  source: QueryOperation,
+  joinType: JoinOperation["joinType"],
+  visitorContext: VisitorContext,
+): { operation: JoinOperation; autoParams: Record<string, unknown> } | null {
+  const [innerArg, predicateAst, resultSelectorAst] = ast.arguments as (
+    | ASTExpression
+    | undefined
+  )[];
+  const innerSourceResult = innerArg ? visitInnerSource(innerArg, visitorContext) : null;
+  if (!innerSourceResult?.operation || predicateAst?.type !== "ArrowFunctionExpression") {
+    return null;
+  }
+
+  const previousResultShape = getPreviousResultShape(source);
+  const innerTableIndex = getInnerTableIndex(previousResultShape);
+
+  const predicateArrow = predicateAst as ArrowFunctionExpression;
+  const [outerParam, innerParam] = getArrowParamNames(predicateArrow);
+  const body = getArrowBody(predicateArrow);
+  const on =
+    outerParam && innerParam && body
+      ? visitJoinSideExpression(
+          body,
+          [
+            { param: outerParam, outer: true },
+            { param: innerParam, outer: false },
+          ],
+          previousResultShape,
+          innerTableIndex,
+          visitorContext,
+        )
+      : null;
+  if (!on || !isBooleanExpression(on)) {
+    throw new Error(
+      "The join condition must be a boolean expression over both rows, e.g. (o, i) => o.id == i.orderId && i.quantity > 0",
+    );
+  }
+
+  const selector = visitResultSelectorArrow(
+    resultSelectorAst,
+    previousResultShape,
+    innerTableIndex,
+    visitorContext,
+  );
+  if (!selector) {
+    return null;
+  }
+
+  return createConditionJoin(
+    source,
+    innerSourceResult.operation,
+    joinType,
+    on as BooleanExpression,
+    selector,
+    previousResultShape,
+    { ...innerSourceResult.autoParams, ...selector.autoParams },
+  );
+}
+
+/**
+ * Build a join whose ON clause is an arbitrary condition rather than a single key pair
+ */
+function createConditionJoin(
+  source: QueryOperation,
+  inner: QueryOperation,
+  joinType: JoinOperation["joinType"],
+  on: BooleanExpression,
+  selector: ResultSelectorInfo,
+  previousResultShape: ResultShape | undefined,
+  autoParams: Record<string, unknown>,
+): { operation: JoinOperation; autoParams: Record<string, unknown> } {
+  const resultShape = buildResultShape(
+    selector.resultSelector,
+    selector.outerParam,
+    selector.innerParam,
+    previousResultShape,
+  );
+  setReferenceJoinKeys(
+    resultShape,
+    getOptionalSideKeys(
+      joinType,
+      previousResultShape,
+      getInnerTableIndex(previousResultShape),
+      (side) => getEqualityKey(on, side),
+    ),
+  );
+
+  return {
+    operation: {
+      type: "queryOperation",
+      operationType: "join",
+      source,
+      inner,
+      outerKey: "__on",
+      innerKey: "__on",
+      on,
+      resultSelector: selector.resultSelector,
+      resultShape,
+      ...(joinType ? { joinType } : {}),
+    },
+    autoParams,
+  };
+}
+
+/**
+ * Get the join key of each table the join can leave empty, keyed by table index,
+ * including the tables earlier joins left optional
+ * Only the inner side of a leftJoin and the (single table) outer side of a rightJoin
+ * qualify: their key is never NULL on a matched row. A fullJoin keeps unmatched rows
+ * of both sides, so a NULL key there does not tell a missing row apart.
+ */
+function getOptionalSideKeys(
+  joinType: JoinOperation["joinType"],
+  previousResultShape: ResultShape | undefined,
+  innerTableIndex: number,
+  getKey: (tableIndex: number) => string | null,
+): Map<number, string> {
+  const keys = getReferenceJoinKeys(previousResultShape);
+  const optionalTable =
+    joinType === "left" ? innerTableIndex : joinType === "right" && !previousResultShape ? 0 : null;
+  if (optionalTable !== null) {
+    const key = getKey(optionalTable);
+    if (key) {
+      keys.set(optionalTable, key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Find a column of the given table compared with == in the AND chain of a join condition
+ */
+function getEqualityKey(on: BooleanExpression, tableIndex: number): string | null {
+  if (on.type === "logical" && on.operator === "and") {
+    return getEqualityKey(on.left, tableIndex) ?? getEqualityKey(on.right, tableIndex);
+  }
+  if (on.type !== "comparison" || on.operator !== "==") {
+    return null;
+  }
+
+  for (const side of [on.left, on.right]) {
+    if (
+      side.type === "column" &&
+      side.source?.type === "joinParam" &&
+      side.source.paramIndex === tableIndex
+    ) {
+      return side.name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn matching compound key selectors into an AND of column equalities
+ */
+function visitCompoundKeys(
+  outerArrow: ArrowFunctionExpression,
+  innerArrow: ArrowFunctionExpression,
+  previousResultShape: ResultShape | undefined,
+  innerTableIndex: number,
+  visitorContext: VisitorContext,
+): BooleanExpression {
+  const [outerParam] = getArrowParamNames(outerArrow);
+  const [innerParam] = getArrowParamNames(innerArrow);
+  const outerBody = getArrowBody(outerArrow);
+  const innerBody = getArrowBody(innerArrow);
+
+  const outerKeys =
+    outerParam && outerBody
+      ? visitJoinSideExpression(
+          outerBody,
+          [{ param: outerParam, outer: true }],
+          previousResultShape,
+          innerTableIndex,
+          visitorContext,
+        )
+      : null;
+  const innerKeys =
+    innerParam && innerBody
+      ? visitJoinSideExpression(
+          innerBody,
+          [{ param: innerParam, outer: false }],
+          previousResultShape,
+          innerTableIndex,
+          visitorContext,
+        )
+      : null;
+
+  if (outerKeys?.type !== "object" || innerKeys?.type !== "object") {
+    throw new Error("Compound join keys must be object literals, e.g. (o) => ({ a: o.a, b: o.b })");
+  }
+
+  const outerProps = (outerKeys as ObjectExpression).properties;
+  const innerProps = (innerKeys as ObjectExpression).properties;
+  const names = Object.keys(outerProps);
+  if (
+    names.length === 0 ||
+    names.length !== Object.keys(innerProps).length ||
+    names.some((name) => !innerProps[name])
+  ) {
+    throw new Error(
+      `Compound join keys must have the same properties on both sides (outer: ${names.join(", ")}; inner: ${Object.keys(innerProps).join(", ")})`,
+    );
+  }
+
+  const equalities: BooleanExpression[] = names.map((name) => ({
+    type: "comparison",
+    operator: "==",
+    left: outerProps[name] as ValueExpression,
+    right: innerProps[name] as ValueExpression,
+  }));
+
+  return equalities.reduce((left, right) => ({
+    type: "logical",
+    operator: "and",
+    left,
+    right,
+  }));
+}
+
+/**
+ * Visit an expression over the outer and/or inner row of a join, resolving each row's
+ * columns to its table (or, for chained joins, through the previous join's result shape)
+ */
+function visitJoinSideExpression(
+  body: ASTExpression,
+  bindings: { param: string; outer: boolean }[],
+  previousResultShape: ResultShape | undefined,
+  innerTableIndex: number,
+  visitorContext: VisitorContext,
+): Expression | null {
+  const context: VisitorContext = {
+    ...visitorContext,
+    tableParams: new Set(visitorContext.tableParams),
+    joinParams: new Map<string, number>(),
+    joinResultParam: undefined,
+    currentResultShape: undefined,
+  };
+
+  for (const { param, outer } of bindings) {
+    context.tableParams.add(param);
+    if (!outer) {
+      context.joinParams!.set(param, innerTableIndex);
+    } else if (previousResultShape) {
+      context.joinResultParam = param;
+      context.currentResultShape = previousResultShape;
+    } else {
+      context.joinParams!.set(param, 0);
+    }
+  }
+
+  const expression = visitExpression(body, context);
+  visitorContext.autoParamCounter = context.autoParamCounter;
+  return expression;
+}
+
+/**
+ * Visit the (outer, inner) => ({ ... }) result selector of a join
+ */
+function visitResultSelectorArrow(
+  resultSelectorAst: ASTExpression | undefined,
+  previousResultShape: ResultShape | undefined,
+  innerTableIndex: number,
+  visitorContext: VisitorContext,
+): ResultSelectorInfo | null {
+  if (!resultSelectorAst || resultSelectorAst.type !== "ArrowFunctionExpression") {
+    return null;
+  }
+
+  const resultArrow = resultSelectorAst as ArrowFunctionExpression;
+
+  // Store the parameter names for the result selector
+  // These will be needed to map properties back to their source tables
+  const params = resultArrow.params;
+  const outerParam =
+    params && params[0] && params[0].type === "Identifier" ? (params[0] as Identifier).name : null;
+  const innerParam =
+    params && params[1] && params[1].type === "Identifier" ? (params[1] as Identifier).name : null;
+
+  // Create a special context that tracks which parameter maps to which table
+  const resultContext: JoinContext = {
+    tableParams: new Set(visitorContext.tableParams),
+    queryParams: new Set(visitorContext.queryParams),
+    joinParams: new Map<string, number>(), // parameter name -> table index (0 for outer, 1+ for inner)
+  };
+
+  // If we're chaining JOINs and the outer param comes from a previous JOIN result,
+  // pass through its shape information
+  if (outerParam && previousResultShape) {
+    resultContext.currentResultShape = previousResultShape;
+    resultContext.joinResultParam = outerParam;
+  }
+
+  if (outerParam) {
+    // Note: outerParam doesn't get a single index for chained JOINs
+    // It represents the entire previous JOIN result, not a single table
+    // We don't add it to joinParams for chained JOINs, it's handled differently
+    if (!previousResultShape) {
+      resultContext.joinParams?.set(outerParam, 0);
+    }
+    resultContext.tableParams.add(outerParam); // Also add to tableParams for validation
+  }
+  if (innerParam) {
+    resultContext.joinParams?.set(innerParam, innerTableIndex);
+    resultContext.tableParams.add(innerParam); // Also add to tableParams for validation
+  }
+
+  const info: ResultSelectorInfo = {
+    resultSelector: undefined,
+    outerParam,
+    innerParam,
+    autoParams: {},
+  };
+
+  // Convert the result selector body to an expression
+  const bodyExpr = getArrowBody(resultArrow);
+  if (bodyExpr) {
+    // Use a custom visitor that tracks JOIN parameters
+    const result = visitJoinResultSelector(
+      bodyExpr,
+      resultContext,
+      visitorContext.autoParamCounter,
+    );
+    if (result) {
+      info.resultSelector = result.expression || undefined;
+      info.autoParams = result.autoParams;
+      visitorContext.autoParamCounter = result.counter;
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Parse the inner query of a join and advance the auto-param counter past its parameters
+ */
+function visitInnerSource(
+  innerArg: ASTExpression,
+  visitorContext: VisitorContext,
+): { operation: QueryOperation | null; autoParams: Record<string, unknown> } | null {
+  const result = visitAstToQueryOperation(
+    innerArg,
+    visitorContext.tableParams,
+    visitorContext.queryParams,
+    visitorContext,
+  );
+
+  let maxParamNum = visitorContext.autoParamCounter;
+  for (const key of Object.keys(result?.autoParams ?? {})) {
+    if (key.startsWith("__p")) {
+      const num = parseInt(key.substring(3), 10);
+      if (!isNaN(num) && num > maxParamNum) {
+        maxParamNum = num;
+      }
+    }
+  }
+  visitorContext.autoParamCounter = maxParamNum;
+
+  return result;
+}
+
+/**
+ * Get the result shape of a join this join is chained onto
+ */
+function getPreviousResultShape(source: QueryOperation): ResultShape | undefined {
+  return source.operationType === "join" ? (source as JoinOperation).resultShape : undefined;
+}
+
+/**
+ * Get the table index of a join's inner side: it comes after every table already joined
+ */
+function getInnerTableIndex(previousResultShape: ResultShape | undefined): number {
+  if (!previousResultShape) {
+    return 1;
+  }
+
+  const findMaxIndex = (n: ShapeNode): number => {
+    if (n.type === "reference" || n.type === "column") {
+      return (n as ReferenceShapeNode | ColumnShapeNode).sourceTable || 0;
+    } else if (n.type === "object") {
+      const objNode = n as ObjectShapeNode;
+      let max = 0;
+      for (const [, child] of objNode.properties) {
+        max = Math.max(max, findMaxIndex(child));
+      }
+      return max;
+    }
+    return 0;
+  };
+
+  let maxTableIndex = 0;
+  for (const [, node] of previousResultShape.properties) {
+    maxTableIndex = Math.max(maxTableIndex, findMaxIndex(node));
+  }
+  return maxTableIndex + 1;
+}
+
+/**
+ * Check whether a key selector returns an object literal: (o) => ({ a: o.a, b: o.b })
+ */
+function isObjectKeySelector(node: ASTExpression | undefined): boolean {
+  if (node?.type !== "ArrowFunctionExpression") {
+    return false;
+  }
+
+  let body = getArrowBody(node as ArrowFunctionExpression);
+  while (body?.type === "ParenthesizedExpression") {
+    body = (body as ParenthesizedExpression).expression;
+  }
+  return body?.type === "ObjectExpression";
+}
+
+/**
+ * Get the parameter names of an arrow function (null for destructured parameters)
+ */
+function getArrowParamNames(arrow: ArrowFunctionExpression): (string | null)[] {
+  return arrow.params.map((param) =>
+    param.type === "Identifier" ? (param as Identifier).name : null,
+  );
+}
+
+/**
+ * Get the expression an arrow function returns
+ */
+function getArrowBody(arrow: ArrowFunctionExpression): ASTExpression | null {
+  return arrow.body.type === "BlockStatement" ? getReturnExpression(arrow.body.body) : arrow.body;
+}
@@ -203,3 +203,44 @@ export function buildShapeNode(
 
   return undefined;
 }
+
+/**
+ * Record the join key of each table an outer join can leave empty on its references,
+ * so row.d === null can become a NULL check on that column
+ */
+export function setReferenceJoinKeys(
+  node: ShapeNode | undefined,
+  joinKeys: Map<number, string>,
+): void {
+  if (!node || joinKeys.size === 0) {
+    return;
+  }
+
+  if (node.type === "reference") {
+    const key = joinKeys.get(node.sourceTable);
+    if (key !== undefined && node.joinKey === undefined) {
+      node.joinKey = key;
+    }
+  } else if (node.type === "object") {
+    for (const child of node.properties.values()) {
+      setReferenceJoinKeys(child, joinKeys);
+    }
+  }
+}
+
+/**
+ * Collect the join keys already recorded on a shape's references, keyed by table index
+ */
+export function getReferenceJoinKeys(
+  node: ShapeNode | undefined,
+  joinKeys: Map<number, string> = new Map(),
+): Map<number, string> {
+  if (node?.type === "reference" && node.joinKey !== undefined) {
+    joinKeys.set(node.sourceTable, node.joinKey);
+  } else if (node?.type === "object") {
+    for (const child of node.properties.values()) {
+      getReferenceJoinKeys(child, joinKeys);
+    }
+  }
+  return joinKeys;
+}
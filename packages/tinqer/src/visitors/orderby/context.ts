@@ -10,6 +10,9 @@ export interface OrderByContext {
   // External query parameters (p in (p) => ...)
   queryParams: Set<string>;
 
+  // Helpers parameter (h in (q, p, h) => h.functions.*)
+  helpersParam?: string;
+
   // Auto-generated parameters for literals
   autoParams: Map<string, unknown>;
   autoParamCounter: number;
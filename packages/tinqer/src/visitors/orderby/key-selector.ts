@@ -9,6 +9,7 @@ import type {
   ParameterExpression,
   ArithmeticExpression,
   ConcatExpression,
+  JsonPathExpression,
 } from "../../expressions/expression.js";
 
 import type {
@@ -23,6 +24,22 @@ import type {
 
 import type { OrderByContext } from "./context.js";
 import { createAutoParam } from "./context.js";
+import {
+  createStringMethod,
+  getSplitIndexAccess,
+  isStringLengthAccess,
+  isStringMethod,
+  isStringOperand,
+  validateStringMethodArguments,
+} from "../common/string-method.js";
+import { createMathFunction, getMathFunctionCall } from "../common/math-function.js";
+import {
+  createDateFunction,
+  getDateHelperCall,
+  getDatePartMethod,
+} from "../common/date-function.js";
+import { createTextSearchFunction, getTextSearchHelperCall } from "../common/text-search.js";
+import { visitJsonPath } from "../common/json-path.js";
 
 /**
  * Visit key selector expression for ORDER BY
@@ -36,7 +53,11 @@ export function visitKeySelector(
 
   switch (node.type) {
     case "MemberExpression":
-      return visitMemberAccess(node as MemberExpression, context);
+      return (
+        visitStringAccess(node as MemberExpression, context) ||
+        visitJsonPathAccess(node as MemberExpression, context) ||
+        visitMemberAccess(node as MemberExpression, context)
+      );
 
     case "Identifier":
       return visitIdentifier(node as Identifier, context);
@@ -72,6 +93,42 @@ export function visitKeySelector(
   }
 }
 
+/**
+ * Visit .length and split(separator)[index] on a string value
+ */
+function visitStringAccess(
+  node: MemberExpression,
+  context: OrderByContext,
+): ValueExpression | null {
+  const split = getSplitIndexAccess(node);
+  if (split) {
+    const target = visitKeySelector(split.target, context);
+    const separator = visitKeySelector(split.separator, context);
+    const index = visitKeySelector(split.index, context);
+    if (!isStringOperand(target) || !separator || !index) return null;
+    return createStringMethod(target!, "splitPart", [separator, index]);
+  }
+
+  if (isStringLengthAccess(node)) {
+    const target = visitKeySelector(node.object, context);
+    if (isStringOperand(target)) {
+      return createStringMethod(target!, "length", []);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Visit JSON document access (e.g., x.metadata.address.city, x.tags[0])
+ */
+function visitJsonPathAccess(
+  node: MemberExpression,
+  context: OrderByContext,
+): JsonPathExpression | null {
+  return visitJsonPath(node, context, (column) => visitMemberAccess(column, context));
+}
+
 /**
  * Visit member access (e.g., x.name, x.address.city)
  */
@@ -225,6 +282,33 @@ function visitBinaryExpression(
  * Visit method call (e.g., x.name.toLowerCase())
  */
 function visitMethodCall(node: CallExpression, context: OrderByContext): ValueExpression | null {
+  // Math.round(x), Math.abs(x), Math.max(a, b), h.functions.round(x, 2), ...
+  const mathCall = getMathFunctionCall(node, context.helpersParam);
+  if (mathCall) {
+    const args = mathCall.arguments.map((arg) => visitKeySelector(arg, context));
+    if (args.some((arg) => !arg)) return null;
+
+    return createMathFunction(mathCall.functionName, args as ValueExpression[]);
+  }
+
+  // h.functions.dateAdd(x.createdAt, "day", 7), h.functions.dateTrunc("month", x.createdAt), ...
+  const dateHelper = getDateHelperCall(node, context.helpersParam);
+  if (dateHelper) {
+    const args = dateHelper.valueArguments.map((arg) => visitKeySelector(arg, context));
+    if (args.some((arg) => !arg)) return null;
+
+    return createDateFunction(dateHelper.functionName, dateHelper.unit, args as ValueExpression[]);
+  }
+
+  // h.functions.textRank(x.body, p.q), h.functions.textSnippet(x.body, p.q, { tokens: 8 }), ...
+  const textSearchHelper = getTextSearchHelperCall(node, context.helpersParam);
+  if (textSearchHelper) {
+    const args = textSearchHelper.valueArguments.map((arg) => visitKeySelector(arg, context));
+    if (args.some((arg) => !arg)) return null;
+
+    return createTextSearchFunction(textSearchHelper, args as ValueExpression[]);
+  }
+
   if (node.callee.type !== "MemberExpression") return null;
 
   const memberCallee = node.callee as MemberExpression;
@@ -232,16 +316,25 @@ function visitMethodCall(node: CallExpression, context: OrderByContext): ValueEx
 
   const methodName = (memberCallee.property as Identifier).name;
 
-  // String methods for sorting
-  if (["toLowerCase", "toUpperCase"].includes(methodName)) {
+  // String methods for sorting (toLowerCase, trim, substring, ...)
+  if (isStringMethod(methodName)) {
+    validateStringMethodArguments(methodName, node.arguments);
     const obj = visitKeySelector(memberCallee.object, context);
     if (!obj) return null;
 
-    return {
-      type: "stringMethod",
-      object: obj,
-      method: methodName as "toLowerCase" | "toUpperCase",
-    };
+    const args = node.arguments.map((arg) => visitKeySelector(arg, context));
+    if (args.some((arg) => !arg)) return null;
+
+    return createStringMethod(obj, methodName, args as ValueExpression[]);
+  }
+
+  // Date getters for sorting (getFullYear, getMonth, getDate, getHours, ...)
+  const datePart = getDatePartMethod(methodName, node.arguments);
+  if (datePart) {
+    const obj = visitKeySelector(memberCallee.object, context);
+    if (!obj) return null;
+
+    return createDateFunction("datePart", datePart, [obj]);
   }
 
   return null;
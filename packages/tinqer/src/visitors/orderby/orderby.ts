@@ -30,6 +30,7 @@ export function visitOrderByOperation(
     queryParams: Set<string>;
     autoParams: Map<string, unknown>;
     autoParamCounter: number;
+    helpersParam?: string;
   },
 ): { operation: OrderByOperation; autoParams: Record<string, unknown> } | null {
   // ORDER BY expects a lambda: orderBy(x => x.name)
@@ -50,6 +51,7 @@ export function visitOrderByOperation(
     visitorContext.queryParams,
     visitorContext.autoParamCounter,
   );
+  context.helpersParam = visitorContext.helpersParam;
 
   // Add lambda parameter to context
   if (lambda.params && lambda.params.length > 0) {
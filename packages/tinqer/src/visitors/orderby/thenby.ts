@@ -12,6 +12,9 @@ import type {
   Identifier,
 } from "../../parser/ast-types.js";
 
+import type { OrderByContext } from "./context.js";
+import type { VisitorContext } from "../types.js";
+
 import { createOrderByContext } from "./context.js";
 import { visitKeySelector } from "./key-selector.js";
 
@@ -28,6 +31,7 @@ export function visitThenByOperation(
     queryParams: Set<string>;
     autoParams: Map<string, unknown>;
     autoParamCounter: number;
+    helpersParam?: string;
   },
 ): { operation: ThenByOperation; autoParams: Record<string, unknown> } | null {
   // THEN BY expects a lambda: thenBy(x => x.age)
@@ -48,6 +52,7 @@ export function visitThenByOperation(
     visitorContext.queryParams,
     visitorContext.autoParamCounter,
   );
+  context.helpersParam = visitorContext.helpersParam;
 
   // Add lambda parameter to context
   if (lambda.params && lambda.params.length > 0) {
@@ -55,6 +60,17 @@ export function visitThenByOperation(
     if (firstParam && firstParam.type === "Identifier") {
       const paramName = (firstParam as Identifier).name;
       context.tableParams.add(paramName);
+
+      // If we have a JOIN result shape, map the parameter to it
+      const extVisitorContext = visitorContext as VisitorContext & { currentResultShape?: unknown };
+      const extContext = context as OrderByContext & {
+        currentResultShape?: unknown;
+        joinResultParam?: string;
+      };
+      if (extVisitorContext.currentResultShape) {
+        extContext.currentResultShape = extVisitorContext.currentResultShape;
+        extContext.joinResultParam = paramName;
+      }
     }
 
     // Check for second parameter (external params)
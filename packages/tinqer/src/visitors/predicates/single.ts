@@ -59,6 +59,7 @@ export function visitSingleOperation(
           localQueryParams,
           visitorContext.autoParams,
           visitorContext.autoParamCounter,
+          visitorContext,
         );
         predicate = result.predicate;
         Object.assign(autoParams, result.autoParams);
@@ -0,0 +1,118 @@
+/**
+ * SEEK operation visitor
+ * Handles .seekAfter(cursor) and .seekBefore(cursor) keyset pagination
+ */
+
+import type { ParamRef, QueryOperation, SeekOperation } from "../../query-tree/operations.js";
+import type {
+  ArrayExpression as ASTArrayExpression,
+  CallExpression as ASTCallExpression,
+  Expression as ASTExpression,
+  Identifier,
+  Literal,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+import type { VisitorContext } from "../types.js";
+import { createAutoParam } from "../types.js";
+
+/**
+ * Visit SEEK operation
+ * The cursor is a parameter (p.after) or an array literal with one value per ordering key
+ */
+export function visitSeekOperation(
+  ast: ASTCallExpression,
+  source: QueryOperation,
+  methodName: string,
+  visitorContext: VisitorContext,
+): { operation: SeekOperation; autoParams: Record<string, unknown> } | null {
+  const arg = ast.arguments?.[0] as ASTExpression | undefined;
+  const cursor = arg ? visitCursor(arg, visitorContext) : null;
+  if (!cursor) {
+    throw new Error(
+      `${methodName}() expects a cursor parameter holding the ordering key values, e.g. .${methodName}(p.cursor)`,
+    );
+  }
+
+  const direction = methodName === "seekBefore" ? "before" : "after";
+  const autoParams: Record<string, unknown> = {};
+  if (cursor.param.startsWith("__p")) {
+    autoParams[cursor.param] = visitorContext.autoParams.get(cursor.param);
+  }
+
+  return { operation: createSeekOperation(source, direction, cursor), autoParams };
+}
+
+/**
+ * Build a SEEK operation, checking that the source is ordered
+ */
+export function createSeekOperation(
+  source: QueryOperation,
+  direction: "after" | "before",
+  cursor: ParamRef,
+): SeekOperation {
+  const methodName = direction === "after" ? "seekAfter" : "seekBefore";
+
+  let current: QueryOperation | undefined = source;
+  while (current && current.operationType !== "orderBy") {
+    if (current.operationType === "groupBy" || current.operationType === "seek") {
+      throw new Error(
+        `${methodName}() is not supported after ${current.operationType === "seek" ? "another seek" : "groupBy()"}`,
+      );
+    }
+    current = (current as { source?: QueryOperation }).source;
+  }
+  if (!current) {
+    throw new Error(
+      `${methodName}() requires an ordered query, e.g. .orderBy(...).${methodName}(p.cursor)`,
+    );
+  }
+
+  return {
+    type: "queryOperation",
+    operationType: "seek",
+    source,
+    direction,
+    cursor,
+  };
+}
+
+function visitCursor(arg: ASTExpression, visitorContext: VisitorContext): ParamRef | null {
+  // External parameter (e.g., p.after)
+  if (arg.type === "MemberExpression") {
+    const memberExpr = arg as MemberExpression;
+    if (memberExpr.object.type === "Identifier" && memberExpr.property.type === "Identifier") {
+      const objectName = (memberExpr.object as Identifier).name;
+      if (visitorContext.queryParams.has(objectName)) {
+        return {
+          type: "param",
+          param: objectName,
+          property: (memberExpr.property as Identifier).name,
+        };
+      }
+    }
+    return null;
+  }
+
+  // Direct identifier (e.g., after)
+  if (arg.type === "Identifier") {
+    const name = (arg as Identifier).name;
+    return visitorContext.queryParams.has(name) ? { type: "param", param: name } : null;
+  }
+
+  // Literal key values (e.g., [100, 42]) become a single array auto-param
+  if (arg.type === "ArrayExpression") {
+    const values: unknown[] = [];
+    for (const element of (arg as ASTArrayExpression).elements) {
+      if (
+        !element ||
+        !["Literal", "NumericLiteral", "StringLiteral", "BooleanLiteral"].includes(element.type)
+      ) {
+        return null;
+      }
+      values.push((element as Literal).value);
+    }
+    return { type: "param", param: createAutoParam(visitorContext, values) };
+  }
+
+  return null;
+}
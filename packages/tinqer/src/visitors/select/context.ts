@@ -15,6 +15,13 @@ export interface SelectContext {
   // Helpers parameter (h in (p, h) => ...)
   helpersParam?: string;
 
+  // Query builder parameter (q in (q, p) => ...), used by correlated subqueries
+  queryBuilderParam?: string;
+
+  // Row parameters of enclosing queries (inside a correlated subquery)
+  outerParams?: Map<string, string>;
+  subqueryDepth?: number;
+
   // Auto-generated parameters for literals
   autoParams: Map<string, unknown>;
   autoParamCounter: number;
@@ -3,11 +3,7 @@
  * Orchestrates projection parsing for SELECT clauses
  */
 
-import type {
-  SelectOperation,
-  QueryOperation,
-  GroupByOperation,
-} from "../../query-tree/operations.js";
+import type { SelectOperation, QueryOperation } from "../../query-tree/operations.js";
 import type {
   ValueExpression,
   ObjectExpression,
@@ -23,6 +19,7 @@ import type {
 
 import { visitProjection } from "./projection.js";
 import { createSelectContext } from "./context.js";
+import { findGroupBySource } from "../visitor-utils.js";
 import { VisitorContext } from "../types.js";
 
 /**
@@ -54,6 +51,10 @@ export function visitSelectOperation(
     visitorContext.helpersParam,
   );
   context.inProjection = true;
+  context.queryBuilderParam = visitorContext.queryBuilderParam;
+  context.currentTable = visitorContext.currentTable;
+  context.outerParams = visitorContext.outerParams;
+  context.subqueryDepth = visitorContext.subqueryDepth;
 
   // Pass JOIN context if available
   if (visitorContext.joinResultParam) {
@@ -62,11 +63,11 @@ export function visitSelectOperation(
     context.joinParams = visitorContext.joinParams;
   }
 
-  // Check if source is a GROUP BY operation
-  if (source.operationType === "groupBy") {
+  // Check if source is a GROUP BY operation (possibly filtered by where/having)
+  const groupByOp = findGroupBySource(source);
+  if (groupByOp) {
     context.isGroupedSource = true;
     // Store the GROUP BY key expression for reference
-    const groupByOp = source as GroupByOperation;
     context.groupKeyExpression = groupByOp.keySelector;
   }
 
@@ -188,6 +189,7 @@ function checkHasTableReference(expr: Expression): boolean {
 
   switch (expr.type) {
     case "column":
+    case "jsonPath":
       return true;
 
     case "object": {
@@ -216,8 +218,17 @@ function checkHasTableReference(expr: Expression): boolean {
     }
 
     case "stringMethod": {
-      const methodExpr = expr as { object: Expression };
-      return checkHasTableReference(methodExpr.object);
+      const methodExpr = expr as { object: Expression; arguments?: Expression[] };
+      return (
+        checkHasTableReference(methodExpr.object) ||
+        (methodExpr.arguments ?? []).some((arg) => checkHasTableReference(arg))
+      );
+    }
+
+    case "mathFunction":
+    case "dateFunction": {
+      const functionExpr = expr as { arguments: Expression[] };
+      return functionExpr.arguments.some((arg) => checkHasTableReference(arg));
     }
 
     case "aggregate": {
@@ -4,6 +4,7 @@
  */
 
 import type {
+  AggregateExpression,
   Expression,
   ObjectExpression,
   ValueExpression,
@@ -12,7 +13,6 @@ import type {
   ConcatExpression,
   BooleanExpression,
   CaseExpression,
-  ComparisonExpression,
   LogicalExpression,
   NotExpression,
   IsNullExpression,
@@ -33,7 +33,34 @@ import type {
 
 import type { SelectContext } from "./context.js";
 import { createAutoParam } from "./context.js";
+import { isValueExpression } from "../utils.js";
 import { isWindowFunctionCall, visitWindowFunction } from "../window/index.js";
+import {
+  createStringMethod,
+  getSplitIndexAccess,
+  isStringLengthAccess,
+  isStringMethod,
+  isStringOperand,
+  validateStringMethodArguments,
+} from "../common/string-method.js";
+import { createMathFunction, getMathFunctionCall } from "../common/math-function.js";
+import {
+  createDateFunction,
+  getDateHelperCall,
+  getDatePartMethod,
+} from "../common/date-function.js";
+import { createTextSearchFunction, getTextSearchHelperCall } from "../common/text-search.js";
+import { visitJsonPath } from "../common/json-path.js";
+import { resolveJoinReferenceComparison } from "../common/join-reference.js";
+import {
+  getExistsSubqueryMethod,
+  getScalarSubqueryMethod,
+  isInSubquery,
+  visitExistsSubquery,
+  visitInSubquery,
+  visitScalarSubquery,
+} from "../common/subquery.js";
+import { visitAggregatePredicate } from "../where/grouping.js";
 
 /**
  * Visit a projection expression in SELECT context
@@ -49,6 +76,20 @@ export function visitProjection(node: ASTExpression, context: SelectContext): Ex
     }
 
     case "MemberExpression": {
+      // String length and split element access: x.name.length, x.path.split("/")[1]
+      const stringAccess = visitStringAccessProjection(node as MemberExpression, context);
+      if (stringAccess) {
+        return stringAccess;
+      }
+
+      // JSON document access: x.metadata.address.city, x.tags[0]
+      const jsonPath = visitJsonPath(node as MemberExpression, context, (column) =>
+        visitColumnProjection(column, context),
+      );
+      if (jsonPath) {
+        return jsonPath;
+      }
+
       // Column projection: x.name
       return visitColumnProjection(node as MemberExpression, context);
     }
@@ -110,6 +151,12 @@ export function visitProjection(node: ASTExpression, context: SelectContext): Ex
       return visitProjection(paren.expression, context);
     }
 
+    case "ChainExpression": {
+      // Optional chaining on the nullable side of an outer join: row.dept?.name
+      const chain = node as { expression: ASTExpression };
+      return visitProjection(chain.expression, context);
+    }
+
     default:
       return null;
   }
@@ -157,6 +204,35 @@ function visitObjectProjection(
   };
 }
 
+/**
+ * Visit .length and split(separator)[index] on a string value
+ */
+function visitStringAccessProjection(
+  node: MemberExpression,
+  context: SelectContext,
+): Expression | null {
+  const split = getSplitIndexAccess(node);
+  if (split) {
+    const target = visitProjection(split.target, context);
+    const separator = visitProjection(split.separator, context);
+    const index = visitProjection(split.index, context);
+    if (!isStringOperand(target) || !separator || !index) return null;
+    return createStringMethod(target as ValueExpression, "splitPart", [
+      separator as ValueExpression,
+      index as ValueExpression,
+    ]);
+  }
+
+  if (isStringLengthAccess(node)) {
+    const target = visitProjection(node.object, context);
+    if (isStringOperand(target)) {
+      return createStringMethod(target as ValueExpression, "length", []);
+    }
+  }
+
+  return null;
+}
+
 /**
  * Visit column projection
  */
@@ -224,6 +300,16 @@ function visitColumnProjection(node: MemberExpression, context: SelectContext):
         };
       }
 
+      // Row of an enclosing query (inside a correlated subquery)
+      const outerQualifier = context.outerParams?.get(objectName);
+      if (outerQualifier) {
+        return {
+          type: "column",
+          name: propertyName,
+          source: { type: "table", alias: outerQualifier },
+        };
+      }
+
       // Query parameter property
       if (context.queryParams.has(objectName)) {
         return {
@@ -399,12 +485,15 @@ function visitBinaryProjection(node: BinaryExpression, context: SelectContext):
     if (!left || !right) return null;
 
     const op = node.operator === "===" ? "==" : node.operator === "!==" ? "!=" : node.operator;
-    return {
-      type: "comparison",
-      operator: op as "==" | "!=" | ">" | ">=" | "<" | "<=",
-      left: left as ValueExpression,
-      right: right as ValueExpression,
-    } as ComparisonExpression;
+    return resolveJoinReferenceComparison(
+      {
+        type: "comparison",
+        operator: op as "==" | "!=" | ">" | ">=" | "<" | "<=",
+        left: left as ValueExpression,
+        right: right as ValueExpression,
+      },
+      context,
+    );
   }
 
   // Arithmetic operators
@@ -439,6 +528,27 @@ function visitBinaryProjection(node: BinaryExpression, context: SelectContext):
  * Visit method call in projection
  */
 function visitMethodProjection(node: CallExpression, context: SelectContext): Expression | null {
+  // Correlated subqueries: q.from("orders").count((o) => o.userId === u.id), .any(...), .contains(...)
+  if (getScalarSubqueryMethod(node, context.queryBuilderParam)) {
+    const result = visitScalarSubquery(node, context);
+    context.autoParamCounter = result.counter;
+    return result.value;
+  }
+  if (getExistsSubqueryMethod(node, context.queryBuilderParam)) {
+    const result = visitExistsSubquery(node, context);
+    context.autoParamCounter = result.counter;
+    return result.value;
+  }
+  if (isInSubquery(node, context.queryBuilderParam)) {
+    const value = node.arguments[0] ? visitProjection(node.arguments[0], context) : null;
+    if (!value || !isValueExpression(value)) {
+      throw new Error("contains() on a subquery requires a value to look up");
+    }
+    const result = visitInSubquery(node, value as ValueExpression, context);
+    context.autoParamCounter = result.counter;
+    return result.value;
+  }
+
   // Check for window function calls first
   const windowFunctionType = isWindowFunctionCall(node, context);
   if (windowFunctionType) {
@@ -448,6 +558,33 @@ function visitMethodProjection(node: CallExpression, context: SelectContext): Ex
     return visitWindowFunction(node, windowFunctionType, context, expressionVisitor);
   }
 
+  // Math.round(x), Math.abs(x), Math.max(a, b), h.functions.round(x, 2), ...
+  const mathCall = getMathFunctionCall(node, context.helpersParam);
+  if (mathCall) {
+    const args = mathCall.arguments.map((arg) => visitProjection(arg, context));
+    if (args.some((arg) => !arg)) return null;
+
+    return createMathFunction(mathCall.functionName, args as ValueExpression[]);
+  }
+
+  // h.functions.dateAdd(x.createdAt, "day", 7), h.functions.dateTrunc("month", x.createdAt), ...
+  const dateHelper = getDateHelperCall(node, context.helpersParam);
+  if (dateHelper) {
+    const args = dateHelper.valueArguments.map((arg) => visitProjection(arg, context));
+    if (args.some((arg) => !arg)) return null;
+
+    return createDateFunction(dateHelper.functionName, dateHelper.unit, args as ValueExpression[]);
+  }
+
+  // h.functions.textRank(x.body, p.q), h.functions.textSnippet(x.body, p.q, { tokens: 8 }), ...
+  const textSearchHelper = getTextSearchHelperCall(node, context.helpersParam);
+  if (textSearchHelper) {
+    const args = textSearchHelper.valueArguments.map((arg) => visitProjection(arg, context));
+    if (args.some((arg) => !arg)) return null;
+
+    return createTextSearchFunction(textSearchHelper, args as ValueExpression[]);
+  }
+
   if (node.callee.type !== "MemberExpression") return null;
 
   const memberCallee = node.callee as MemberExpression;
@@ -462,9 +599,12 @@ function visitMethodProjection(node: CallExpression, context: SelectContext): Ex
     if (context.groupingParams.has(objectName)) {
       // Handle aggregate methods on grouping parameter
       if (methodName === "count") {
+        // count() takes an optional predicate: g.count((x) => x.status === "open")
+        const filter = parseAggregateFilter(node.arguments?.[0], methodName, context);
         return {
           type: "aggregate",
           function: "count",
+          ...(filter && { filter }),
         } as Expression;
       } else if (methodName === "sum") {
         // sum() requires a selector argument
@@ -475,15 +615,19 @@ function visitMethodProjection(node: CallExpression, context: SelectContext): Ex
             // Parse the selector lambda
             const selector = parseSelectorLambda(lambda, context);
             if (selector) {
+              const filter = parseAggregateFilter(node.arguments[1], methodName, context);
               // Accept any value expression, not just columns
               return {
                 type: "aggregate",
                 function: "sum",
                 expression: selector,
+                ...(filter && { filter }),
               } as Expression;
             }
           }
         }
+      } else if (["stringAgg", "arrayAgg", "jsonAgg"].includes(methodName)) {
+        return visitCollectingAggregate(node, methodName, context);
       } else if (["avg", "average", "min", "max"].includes(methodName)) {
         // Similar handling for other aggregates
         if (node.arguments && node.arguments.length > 0) {
@@ -492,6 +636,7 @@ function visitMethodProjection(node: CallExpression, context: SelectContext): Ex
             const lambda = arg as ArrowFunctionExpression;
             const selector = parseSelectorLambda(lambda, context);
             if (selector) {
+              const filter = parseAggregateFilter(node.arguments[1], methodName, context);
               // Accept any value expression, not just columns
               // Map "average" to "avg" for SQL
               const functionName = methodName === "average" ? "avg" : methodName;
@@ -499,6 +644,7 @@ function visitMethodProjection(node: CallExpression, context: SelectContext): Ex
                 type: "aggregate",
                 function: functionName,
                 expression: selector,
+                ...(filter && { filter }),
               } as Expression;
             }
           }
@@ -507,16 +653,25 @@ function visitMethodProjection(node: CallExpression, context: SelectContext): Ex
     }
   }
 
-  // String methods
-  if (["toLowerCase", "toUpperCase"].includes(methodName)) {
+  // String methods (toLowerCase, trim, substring, replace, indexOf, ...)
+  if (isStringMethod(methodName)) {
+    validateStringMethodArguments(methodName, node.arguments);
     const obj = visitProjection(memberCallee.object, context);
     if (!obj) return null;
 
-    return {
-      type: "stringMethod",
-      object: obj as ValueExpression,
-      method: methodName as "toLowerCase" | "toUpperCase",
-    };
+    const args = node.arguments.map((arg) => visitProjection(arg, context));
+    if (args.some((arg) => !arg)) return null;
+
+    return createStringMethod(obj as ValueExpression, methodName, args as ValueExpression[]);
+  }
+
+  // Date getters (getFullYear, getMonth, getDate, getHours, ...)
+  const datePart = getDatePartMethod(methodName, node.arguments);
+  if (datePart) {
+    const obj = visitProjection(memberCallee.object, context);
+    if (!obj) return null;
+
+    return createDateFunction("datePart", datePart, [obj as ValueExpression]);
   }
 
   // Check for unsupported Date methods
@@ -539,25 +694,106 @@ function visitMethodProjection(node: CallExpression, context: SelectContext): Ex
 }
 
 /**
- * Helper to parse selector lambda in aggregate functions
+ * Visit g.stringAgg(selector, separator, options?), g.arrayAgg(selector, options?)
+ * and g.jsonAgg(selector, options?)
  */
-function parseSelectorLambda(
-  lambda: ArrowFunctionExpression,
+function visitCollectingAggregate(
+  node: CallExpression,
+  methodName: string,
   context: SelectContext,
-): Expression | null {
-  // Get the lambda body
-  let bodyExpr: ASTExpression | null = null;
-  if (lambda.body.type === "BlockStatement") {
-    const returnStmt = lambda.body.body.find(
-      (stmt: unknown) => (stmt as { type?: string }).type === "ReturnStatement",
-    );
-    if (returnStmt) {
-      bodyExpr = (returnStmt as { argument?: ASTExpression }).argument || null;
+): AggregateExpression {
+  const [selectorArg, ...restArgs] = node.arguments;
+  const selector =
+    selectorArg?.type === "ArrowFunctionExpression"
+      ? parseSelectorLambda(selectorArg as ArrowFunctionExpression, context)
+      : null;
+  if (!selector) {
+    throw new Error(`${methodName}() requires a selector, e.g. g.${methodName}((x) => x.name)`);
+  }
+
+  const aggregate: AggregateExpression = {
+    type: "aggregate",
+    function: methodName as AggregateExpression["function"],
+  };
+  if (selector.type === "object") {
+    if (methodName !== "jsonAgg") {
+      throw new Error(`${methodName}() requires a single value selector`);
     }
+    aggregate.object = selector as ObjectExpression;
+  } else if (isValueExpression(selector)) {
+    aggregate.expression = selector as ValueExpression;
   } else {
-    bodyExpr = lambda.body;
+    throw new Error(`Unsupported selector in ${methodName}()`);
+  }
+
+  if (methodName === "stringAgg") {
+    const separator = restArgs[0] ? visitProjection(restArgs.shift()!, context) : null;
+    if (!separator || !isValueExpression(separator)) {
+      throw new Error('stringAgg() requires a separator, e.g. g.stringAgg((x) => x.name, ", ")');
+    }
+    aggregate.separator = separator as ValueExpression;
+  }
+
+  const optionsArg = restArgs[0];
+  if (optionsArg) {
+    if (optionsArg.type !== "ObjectExpression") {
+      throw new Error(
+        `${methodName}() options must be an object literal, e.g. { orderBy: (x) => x.name }`,
+      );
+    }
+    aggregate.orderBy = visitAggregateOrderOptions(
+      optionsArg as ASTObjectExpression,
+      methodName,
+      context,
+    );
+  }
+
+  return aggregate;
+}
+
+/**
+ * Read { orderBy, descending } options of a collecting aggregate
+ */
+function visitAggregateOrderOptions(
+  node: ASTObjectExpression,
+  methodName: string,
+  context: SelectContext,
+): AggregateExpression["orderBy"] {
+  let orderBy: ValueExpression | null = null;
+  let descending = false;
+
+  for (const prop of node.properties) {
+    const key = prop.key?.type === "Identifier" ? (prop.key as Identifier).name : null;
+    if (key === "orderBy" && prop.value?.type === "ArrowFunctionExpression") {
+      const expression = parseSelectorLambda(prop.value as ArrowFunctionExpression, context);
+      if (!expression || !isValueExpression(expression)) {
+        throw new Error(`${methodName}() orderBy must select a single value`);
+      }
+      orderBy = expression as ValueExpression;
+    } else if (
+      key === "descending" &&
+      (prop.value?.type === "Literal" || prop.value?.type === "BooleanLiteral") &&
+      typeof (prop.value as Literal).value === "boolean"
+    ) {
+      descending = (prop.value as Literal).value as boolean;
+    } else {
+      throw new Error(
+        `Unsupported ${methodName}() option "${key}". Use orderBy (a selector) and descending (a boolean literal)`,
+      );
+    }
   }
 
+  return orderBy ? [{ expression: orderBy, direction: descending ? "desc" : "asc" }] : undefined;
+}
+
+/**
+ * Helper to parse selector lambda in aggregate functions
+ */
+function parseSelectorLambda(
+  lambda: ArrowFunctionExpression,
+  context: SelectContext,
+): Expression | null {
+  const bodyExpr = getLambdaBody(lambda);
   if (!bodyExpr) return null;
 
   // Add lambda parameter to table params temporarily
@@ -571,7 +807,37 @@ function parseSelectorLambda(
     }
   }
 
-  return visitProjection(bodyExpr, tempContext);
+  const result = visitProjection(bodyExpr, tempContext);
+  // Keep auto-parameter numbering in step with the outer context
+  context.autoParamCounter = tempContext.autoParamCounter;
+  return result;
+}
+
+/**
+ * Parse the optional predicate of g.count(predicate) / g.sum(selector, predicate) / ...
+ * into the aggregate's FILTER (WHERE ...) condition
+ */
+function parseAggregateFilter(
+  arg: ASTExpression | undefined,
+  methodName: string,
+  context: SelectContext,
+): BooleanExpression | undefined {
+  const result = visitAggregatePredicate(arg, methodName, context);
+  context.autoParamCounter = result.counter;
+  return result.value ?? undefined;
+}
+
+/**
+ * Get the expression an arrow function returns
+ */
+function getLambdaBody(lambda: ArrowFunctionExpression): ASTExpression | null {
+  if (lambda.body.type !== "BlockStatement") {
+    return lambda.body;
+  }
+  const returnStmt = lambda.body.body.find(
+    (stmt: unknown) => (stmt as { type?: string }).type === "ReturnStatement",
+  );
+  return (returnStmt as { argument?: ASTExpression } | undefined)?.argument || null;
 }
 
 /**
@@ -677,12 +943,15 @@ function visitBooleanCondition(
         if (left && right) {
           const op =
             node.operator === "===" ? "==" : node.operator === "!==" ? "!=" : node.operator;
-          return {
-            type: "comparison",
-            operator: op as "==" | "!=" | ">" | ">=" | "<" | "<=",
-            left: left as ValueExpression,
-            right: right as ValueExpression,
-          } as ComparisonExpression;
+          return resolveJoinReferenceComparison(
+            {
+              type: "comparison",
+              operator: op as "==" | "!=" | ">" | ">=" | "<" | "<=",
+              left: left as ValueExpression,
+              right: right as ValueExpression,
+            },
+            context,
+          );
         }
       }
       break;
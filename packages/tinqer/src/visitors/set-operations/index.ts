@@ -0,0 +1,62 @@
+/**
+ * Set operation visitor
+ * Handles .union(), .concat(), .intersect() and .except()
+ */
+
+import type { QueryOperation, SetOperation } from "../../query-tree/operations.js";
+import type {
+  CallExpression as ASTCallExpression,
+  Expression as ASTExpression,
+} from "../../parser/ast-types.js";
+import type { VisitorContext } from "../types.js";
+import { visitAstToQueryOperation } from "../ast-visitor.js";
+
+/**
+ * Visit a set operation
+ * The single argument is parsed as an independent sub-query
+ */
+export function visitSetOperatorOperation(
+  ast: ASTCallExpression,
+  source: QueryOperation,
+  methodName: string,
+  visitorContext: VisitorContext,
+): { operation: SetOperation; autoParams: Record<string, unknown> } | null {
+  const secondArg = ast.arguments && ast.arguments[0];
+  if (!secondArg) {
+    throw new Error(`${methodName}() requires a query argument`);
+  }
+
+  const secondResult = visitAstToQueryOperation(
+    secondArg as ASTExpression,
+    visitorContext.tableParams,
+    visitorContext.queryParams,
+    visitorContext,
+  );
+  if (!secondResult || !secondResult.operation) {
+    throw new Error(
+      `${methodName}() argument must be a query, e.g. q.from("table").where(...).select(...)`,
+    );
+  }
+
+  // The sub-query shares the auto-param map, so continue numbering after its params
+  let maxParamNum = visitorContext.autoParamCounter;
+  for (const key of Object.keys(secondResult.autoParams)) {
+    if (key.startsWith("__p")) {
+      const num = parseInt(key.substring(3), 10);
+      if (!isNaN(num) && num > maxParamNum) {
+        maxParamNum = num;
+      }
+    }
+  }
+  visitorContext.autoParamCounter = maxParamNum;
+
+  return {
+    operation: {
+      type: "queryOperation",
+      operationType: methodName as SetOperation["operationType"],
+      source,
+      second: secondResult.operation,
+    },
+    autoParams: secondResult.autoParams,
+  };
+}
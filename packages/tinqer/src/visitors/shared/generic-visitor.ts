@@ -6,6 +6,7 @@
 
 import type { Expression } from "../../expressions/expression.js";
 import type { Expression as ASTExpression } from "../../parser/ast-types.js";
+import type { ObjectShapeNode } from "../../query-tree/operations.js";
 import type { VisitorContext } from "../types.js";
 import { visitExpression as visitExpressionImpl } from "../index.js";
 
@@ -28,14 +29,22 @@ export function visitGenericExpression(
   queryParams: Set<string>,
   existingAutoParams: Map<string, unknown>,
   startCounter: number = 0,
+  helpersParam?: string,
+  joinResult?: { param: string; shape: ObjectShapeNode },
 ): ExpressionResult {
   // Create visitor context
   const context: VisitorContext = {
     tableParams,
     queryParams,
+    helpersParam,
     autoParams: existingAutoParams,
     autoParamCounter: startCounter,
   };
+  if (joinResult) {
+    // The lambda parameter is the row of a previous JOIN (joined => joined.u.name)
+    context.joinResultParam = joinResult.param;
+    context.currentResultShape = joinResult.shape;
+  }
 
   // Visit the expression
   const expression = visitExpressionImpl(node, context);
@@ -33,13 +33,21 @@ export function visitPredicate(
   queryParams: Set<string>,
   existingAutoParams: Map<string, unknown>,
   startCounter: number = 0,
+  parentContext?: VisitorContext,
 ): PredicateResult {
-  // Create visitor context
+  // Create visitor context (correlated subqueries need the parent's query builder and scope)
   const context: VisitorContext = {
     tableParams,
     queryParams,
     autoParams: existingAutoParams,
     autoParamCounter: startCounter,
+    ...(parentContext && {
+      queryBuilderParam: parentContext.queryBuilderParam,
+      helpersParam: parentContext.helpersParam,
+      currentTable: parentContext.currentTable,
+      outerParams: parentContext.outerParams,
+      subqueryDepth: parentContext.subqueryDepth,
+    }),
   };
 
   // Visit the expression
@@ -57,6 +65,7 @@ export function visitPredicate(
         type: "booleanColumn",
         name: (expr as ColumnExpression).name,
         ...((expr as ColumnExpression).table ? { table: (expr as ColumnExpression).table } : {}),
+        ...((expr as ColumnExpression).source ? { source: (expr as ColumnExpression).source } : {}),
       } as BooleanColumnExpression;
     }
   }
@@ -29,13 +29,21 @@ export function visitValue(
   queryParams: Set<string>,
   existingAutoParams: Map<string, unknown>,
   startCounter: number = 0,
+  parentContext?: VisitorContext,
 ): ValueResult {
-  // Create visitor context
+  // Create visitor context (correlated subqueries need the parent's query builder and scope)
   const context: VisitorContext = {
     tableParams,
     queryParams,
     autoParams: existingAutoParams,
     autoParamCounter: startCounter,
+    ...(parentContext && {
+      queryBuilderParam: parentContext.queryBuilderParam,
+      helpersParam: parentContext.helpersParam,
+      currentTable: parentContext.currentTable,
+      outerParams: parentContext.outerParams,
+      subqueryDepth: parentContext.subqueryDepth,
+    }),
   };
 
   // Visit the expression
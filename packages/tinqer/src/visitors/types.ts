@@ -70,6 +70,10 @@ export interface VisitorContext {
   joinResultParam?: string; // JOIN result parameter name
   currentResultShape?: ObjectShapeNode; // Shape of JOIN result
 
+  // Correlated subquery context
+  outerParams?: Map<string, string>; // Outer lambda params visible in a subquery -> SQL qualifier
+  subqueryDepth?: number; // Nesting level of the correlated subquery being parsed
+
   // Current parsing context
   currentTable?: string; // Current table being processed
   inSelectProjection?: boolean; // Whether we're in a SELECT projection
@@ -242,6 +246,7 @@ interface SerializedObjectShapeNode {
 interface SerializedReferenceShapeNode {
   type: "reference";
   sourceTable: number;
+  joinKey?: string;
 }
 
 interface SerializedArrayShapeNode {
@@ -295,6 +300,7 @@ function serializeShapeNode(node: ShapeNode): SerializedShapeNode {
       return {
         type: "reference",
         sourceTable: node.sourceTable,
+        ...(node.joinKey !== undefined && { joinKey: node.joinKey }),
       };
     case "array":
       return {
@@ -328,6 +334,7 @@ function deserializeShapeNode(serialized: SerializedShapeNode): ShapeNode {
       return {
         type: "reference",
         sourceTable: serialized.sourceTable,
+        ...(serialized.joinKey !== undefined && { joinKey: serialized.joinKey }),
       };
     case "array":
       return {
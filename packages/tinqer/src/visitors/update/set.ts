@@ -3,9 +3,11 @@
  */
 
 import type { UpdateOperation } from "../../query-tree/operations.js";
-import type { ObjectExpression } from "../../expressions/expression.js";
+import type { Expression, ObjectExpression } from "../../expressions/expression.js";
 import type {
+  ArrowFunctionExpression,
   CallExpression as ASTCallExpression,
+  Expression as ASTExpression,
   ObjectExpression as ASTObjectExpression,
 } from "../../parser/ast-types.js";
 import type { VisitorContext } from "../types.js";
@@ -32,7 +34,7 @@ export function visitSetOperation(
     throw new Error("set() can only be called once per UPDATE query");
   }
 
-  // .set({ column1: value1, column2: value2 })
+  // .set({ column1: value1, column2: value2 }) or .set((row) => ({ column1: row.column1 + 1 }))
   const args = ast.arguments;
   if (!args || args.length === 0) {
     return null;
@@ -43,13 +45,16 @@ export function visitSetOperation(
     return null;
   }
 
-  // Must be an object expression
-  if (firstArg.type !== "ObjectExpression") {
-    throw new Error("set() must be an object literal");
+  let assignmentsExpr: Expression | null;
+  if (firstArg.type === "ArrowFunctionExpression") {
+    assignmentsExpr = visitSetLambda(firstArg as ArrowFunctionExpression, visitorContext);
+  } else if (firstArg.type === "ObjectExpression") {
+    // Visit the object expression to get column-value assignments
+    assignmentsExpr = visitExpression(firstArg as ASTObjectExpression, visitorContext);
+  } else {
+    throw new Error("set() must be an object literal or a lambda returning an object literal");
   }
 
-  // Visit the object expression to get column-value assignments
-  const assignmentsExpr = visitExpression(firstArg as ASTObjectExpression, visitorContext);
   if (!assignmentsExpr || assignmentsExpr.type !== "object") {
     return null;
   }
@@ -70,3 +75,52 @@ export function visitSetOperation(
     autoParams: {},
   };
 }
+
+/**
+ * Visit a .set((row, params) => ({ ... })) lambda
+ * Assignment values can reference the current row, so they are resolved as column references
+ */
+function visitSetLambda(
+  arrowFn: ArrowFunctionExpression,
+  visitorContext: VisitorContext,
+): Expression | null {
+  const params = arrowFn.params;
+  if (!params || params.length === 0 || params[0]?.type !== "Identifier") {
+    throw new Error("set() lambda must have a parameter");
+  }
+
+  const paramName = params[0].name;
+
+  // Add to table params temporarily for expression resolution
+  const originalTableParams = new Set(visitorContext.tableParams);
+  visitorContext.tableParams.add(paramName);
+
+  // Check for second parameter (external params)
+  if (params.length > 1 && params[1]?.type === "Identifier") {
+    visitorContext.queryParams.add(params[1].name);
+  }
+
+  let bodyExpr: ASTExpression | undefined = arrowFn.body as ASTExpression;
+
+  // Handle block statement with return
+  if (arrowFn.body.type === "BlockStatement") {
+    const returnStmt = arrowFn.body.body?.find((stmt) => stmt.type === "ReturnStatement");
+    bodyExpr = returnStmt?.argument ?? undefined;
+  }
+
+  while (bodyExpr?.type === "ParenthesizedExpression") {
+    bodyExpr = bodyExpr.expression;
+  }
+
+  if (!bodyExpr || bodyExpr.type !== "ObjectExpression") {
+    visitorContext.tableParams = originalTableParams;
+    throw new Error("set() lambda must return an object literal");
+  }
+
+  const assignmentsExpr = visitExpression(bodyExpr, visitorContext);
+
+  // Restore table params
+  visitorContext.tableParams = originalTableParams;
+
+  return assignmentsExpr;
+}
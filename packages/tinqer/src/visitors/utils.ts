@@ -20,6 +20,12 @@ export function isBooleanExpression(expr: Expression | unknown): boolean {
     "booleanColumn",
     "booleanMethod",
     "booleanConstant",
+    "exists",
+    "jsonContains",
+    "arrayFunction",
+    "like",
+    "regexMatch",
+    "textSearch",
   ].includes(type);
 }
 
@@ -37,11 +43,16 @@ export function isValueExpression(expr: Expression | unknown): boolean {
     "arithmetic",
     "concat",
     "stringMethod",
+    "mathFunction",
+    "dateFunction",
     "case",
     "coalesce",
     "aggregate",
     "windowFunction",
     "groupKey",
+    "jsonPath",
+    "arrayLength",
+    "textSearchFunction",
   ].includes(type);
 }
 
@@ -1,6 +1,7 @@
 /**
  * Visitor for call expressions (method calls, function calls)
- * Handles string methods, boolean methods, aggregate functions
+ * Handles string methods, boolean methods, Math and date functions, aggregate functions,
+ * correlated EXISTS and IN subqueries
  */
 
 import type {
@@ -8,6 +9,8 @@ import type {
   ValueExpression,
   BooleanMethodExpression,
   StringMethodExpression,
+  MathFunctionExpression,
+  DateFunctionExpression,
   AggregateExpression,
   InExpression,
   ArrayExpression,
@@ -28,9 +31,39 @@ import type {
 } from "../../parser/ast-types.js";
 
 import type { VisitorContext } from "../types.js";
+import { createAutoParam } from "../types.js";
 import { visitLiteral } from "../common/literal.js";
 import { isValueExpression, getParameterName, getReturnExpression } from "../utils.js";
 import { isWindowFunctionCall, visitWindowFunction } from "../window/index.js";
+import {
+  isStringMethod,
+  validateStringMethodArguments,
+  createStringMethod,
+} from "../common/string-method.js";
+import {
+  getMathFunctionCall,
+  createMathFunction,
+  type MathFunctionCall,
+} from "../common/math-function.js";
+import {
+  getDatePartMethod,
+  getDateHelperCall,
+  createDateFunction,
+} from "../common/date-function.js";
+import { createTextSearchFunction, getTextSearchHelperCall } from "../common/text-search.js";
+import {
+  getLikeCallArguments,
+  getRegexMatchCall,
+  createLike,
+  createRegexMatch,
+} from "../common/pattern-match.js";
+import {
+  getExistsSubqueryMethod,
+  visitExistsSubquery,
+  isInSubquery,
+  visitInSubquery,
+} from "../common/subquery.js";
+import { visitAggregatePredicate } from "../where/grouping.js";
 
 /**
  * Visit a call expression
@@ -40,6 +73,22 @@ export function visitCall(
   context: VisitorContext,
   visitExpression: (node: unknown, ctx: VisitorContext) => Expression | null,
 ): Expression | null {
+  // Correlated subquery: q.from("orders").any((o) => o.userId === u.id)
+  if (getExistsSubqueryMethod(node, context.queryBuilderParam)) {
+    const result = visitExistsSubquery(node, context);
+    context.autoParamCounter = result.counter;
+    return result.value;
+  }
+  if (isInSubquery(node, context.queryBuilderParam)) {
+    const value = node.arguments[0] ? visitExpression(node.arguments[0], context) : null;
+    if (!value || !isValueExpression(value)) {
+      throw new Error("contains() on a subquery requires a value to look up");
+    }
+    const result = visitInSubquery(node, value as ValueExpression, context);
+    context.autoParamCounter = result.counter;
+    return result.value;
+  }
+
   // Check for window function calls first
   const windowFunctionType = isWindowFunctionCall(node, context);
   if (windowFunctionType) {
@@ -56,6 +105,59 @@ export function visitCall(
 
   const memberCallee = node.callee as ASTMemberExpression;
 
+  // Math.round(x), Math.abs(x), Math.max(a, b), h.functions.round(x, 2), ...
+  const mathCall = getMathFunctionCall(node, context.helpersParam);
+  if (mathCall) {
+    return handleMathFunction(mathCall, context, visitExpression);
+  }
+
+  // h.functions.dateAdd(x.createdAt, "day", 7), h.functions.dateTrunc("month", x.createdAt), ...
+  const dateHelper = getDateHelperCall(node, context.helpersParam);
+  if (dateHelper) {
+    const args = dateHelper.valueArguments.map((arg) =>
+      isLiteralNode(arg) ? visitLiteral(arg, context) : visitExpression(arg, context),
+    );
+    if (!args.every((arg) => arg && isValueExpression(arg))) {
+      return null;
+    }
+    return createDateFunction(dateHelper.functionName, dateHelper.unit, args as ValueExpression[]);
+  }
+
+  // h.functions.textRank(x.body, p.q), h.functions.textSnippet(x.body, p.q, { tokens: 8 }), ...
+  const textSearchHelper = getTextSearchHelperCall(node, context.helpersParam);
+  if (textSearchHelper) {
+    const args = textSearchHelper.valueArguments.map((arg) =>
+      isLiteralNode(arg) ? visitLiteral(arg, context) : visitExpression(arg, context),
+    );
+    if (!args.every((arg) => arg && isValueExpression(arg))) {
+      return null;
+    }
+    return createTextSearchFunction(textSearchHelper, args as ValueExpression[]);
+  }
+
+  // h.functions.like(x.code, "AB_%")
+  const likeArguments = getLikeCallArguments(node, context.helpersParam);
+  if (likeArguments) {
+    const args = likeArguments.map((arg) =>
+      isLiteralNode(arg) ? visitLiteral(arg, context) : visitExpression(arg, context),
+    );
+    if (!args.every((arg) => arg && isValueExpression(arg))) {
+      return null;
+    }
+    return createLike(args[0] as ValueExpression, args[1] as ValueExpression);
+  }
+
+  // /^INV-\d+$/i.test(x.code), x.code.match(/^INV-/)
+  const regexMatch = getRegexMatchCall(node);
+  if (regexMatch) {
+    const value = visitExpression(regexMatch.valueNode, context);
+    if (!value || !isValueExpression(value)) {
+      return null;
+    }
+    const paramName = createAutoParam(context, regexMatch.pattern);
+    return createRegexMatch(regexMatch, value as ValueExpression, paramName);
+  }
+
   // Check for aggregate methods on grouping parameters
   if (memberCallee.object.type === "Identifier" && memberCallee.property.type === "Identifier") {
     const objName = (memberCallee.object as Identifier).name;
@@ -107,44 +209,73 @@ function handleAggregateMethod(
   const aggregateFunc = normalizeAggregateFunction(methodName);
   if (!aggregateFunc) return null;
 
-  // Handle selector argument if present
-  if (args && args.length > 0) {
-    const selectorArg = args[0];
-    if (selectorArg && (selectorArg as { type?: string }).type === "ArrowFunctionExpression") {
-      const arrowFunc = selectorArg as ArrowFunctionExpression;
-      const paramName = getParameterName(arrowFunc);
-
-      // Add parameter to context
-      if (paramName) {
-        context.tableParams.add(paramName);
-      }
+  // count(predicate?) has no selector; sum/avg/min/max take (selector, predicate?)
+  const selectorArg = aggregateFunc === "count" ? undefined : args?.[0];
+  const predicateArg = aggregateFunc === "count" ? args?.[0] : args?.[1];
 
-      // Get body expression
-      const bodyExpr =
-        arrowFunc.body.type === "BlockStatement"
-          ? getReturnExpression(arrowFunc.body.body)
-          : arrowFunc.body;
-
-      if (bodyExpr) {
-        const expr = visitExpression(bodyExpr as ASTExpression, context);
-        if (expr && isValueExpression(expr)) {
-          return {
-            type: "aggregate",
-            function: aggregateFunc,
-            expression: expr as ValueExpression,
-          } as AggregateExpression;
-        }
-      }
-    }
-  }
+  const filterResult = visitAggregatePredicate(
+    predicateArg as ASTExpression | undefined,
+    methodName,
+    context,
+  );
+  context.autoParamCounter = filterResult.counter;
+  const filter = filterResult.value;
 
-  // No arguments - COUNT(*) or similar
+  const expr = visitAggregateLambda(selectorArg, context, visitExpression);
   return {
     type: "aggregate",
     function: aggregateFunc,
+    ...(expr && isValueExpression(expr) && { expression: expr as ValueExpression }),
+    ...(filter && { filter }),
   } as AggregateExpression;
 }
 
+/**
+ * Visit the body of an aggregate selector or predicate lambda
+ */
+function visitAggregateLambda(
+  arg: unknown,
+  context: VisitorContext,
+  visitExpression: (node: unknown, ctx: VisitorContext) => Expression | null,
+): Expression | null {
+  if (!arg || (arg as { type?: string }).type !== "ArrowFunctionExpression") {
+    return null;
+  }
+
+  const arrowFunc = arg as ArrowFunctionExpression;
+  const paramName = getParameterName(arrowFunc);
+
+  // Add parameter to context
+  if (paramName) {
+    context.tableParams.add(paramName);
+  }
+
+  // Get body expression
+  const bodyExpr =
+    arrowFunc.body.type === "BlockStatement"
+      ? getReturnExpression(arrowFunc.body.body)
+      : arrowFunc.body;
+
+  return bodyExpr ? visitExpression(bodyExpr as ASTExpression, context) : null;
+}
+
+/**
+ * Handle Math.* function calls
+ */
+function handleMathFunction(
+  mathCall: MathFunctionCall,
+  context: VisitorContext,
+  visitExpression: (node: unknown, ctx: VisitorContext) => Expression | null,
+): MathFunctionExpression | null {
+  const convertedArgs = mathCall.arguments.map((arg: unknown) =>
+    isLiteralNode(arg) ? visitLiteral(arg, context) : visitExpression(arg, context),
+  );
+  if (!convertedArgs.every((arg) => arg && isValueExpression(arg))) {
+    return null;
+  }
+  return createMathFunction(mathCall.functionName, convertedArgs as ValueExpression[]);
+}
+
 /**
  * Handle array.includes() method
  */
@@ -179,7 +310,7 @@ function handleValueMethods(
   args: unknown[],
   context: VisitorContext,
   visitExpression: (node: unknown, ctx: VisitorContext) => Expression | null,
-): BooleanMethodExpression | StringMethodExpression | null {
+): BooleanMethodExpression | StringMethodExpression | DateFunctionExpression | null {
   // Boolean methods
   if (["startsWith", "endsWith", "includes", "contains"].includes(methodName)) {
     // Convert arguments
@@ -199,13 +330,22 @@ function handleValueMethods(
     } as BooleanMethodExpression;
   }
 
-  // String methods
-  if (["toLowerCase", "toUpperCase"].includes(methodName)) {
-    return {
-      type: "stringMethod",
-      object: obj,
-      method: methodName as "toLowerCase" | "toUpperCase",
-    } as StringMethodExpression;
+  // String methods (trim, substring, replace, indexOf, padStart, ...)
+  if (isStringMethod(methodName)) {
+    validateStringMethodArguments(methodName, args as ASTExpression[]);
+    const convertedArgs = args.map((arg: unknown) =>
+      isLiteralNode(arg) ? visitLiteral(arg, context) : visitExpression(arg, context),
+    );
+    if (!convertedArgs.every((arg) => arg && isValueExpression(arg))) {
+      return null;
+    }
+    return createStringMethod(obj, methodName, convertedArgs as ValueExpression[]);
+  }
+
+  // Date getters (getFullYear, getMonth, getDate, getHours, ...)
+  const datePart = getDatePartMethod(methodName, args as ASTExpression[]);
+  if (datePart) {
+    return createDateFunction("datePart", datePart, [obj]);
   }
 
   return null;
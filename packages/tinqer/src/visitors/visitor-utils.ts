@@ -9,6 +9,12 @@ import type {
   Expression as ASTExpression,
   Identifier,
 } from "../parser/ast-types.js";
+import type {
+  GroupByOperation,
+  HavingOperation,
+  QueryOperation,
+  WhereOperation,
+} from "../query-tree/operations.js";
 
 /**
  * Get the parameter name from an arrow function
@@ -44,12 +50,14 @@ export function isBooleanExpression(expr: Expression): expr is BooleanExpression
   const booleanTypes = [
     "comparison",
     "logical",
+    "not",
     "negation",
     "in",
     "booleanLiteral",
     "booleanColumn",
     "isNull",
     "isNotNull",
+    "exists",
   ];
 
   return booleanTypes.includes(expr.type);
@@ -75,3 +83,20 @@ export function isValueExpression(expr: Expression): expr is ValueExpression {
 
   return valueTypes.includes(expr.type);
 }
+
+/**
+ * Find the groupBy() an operation applies to, looking through where/having filters
+ */
+export function findGroupBySource(source: QueryOperation): GroupByOperation | null {
+  let current: QueryOperation | undefined = source;
+  while (current) {
+    if (current.operationType === "groupBy") {
+      return current as GroupByOperation;
+    }
+    if (current.operationType !== "where" && current.operationType !== "having") {
+      return null;
+    }
+    current = (current as WhereOperation | HavingOperation).source;
+  }
+  return null;
+}
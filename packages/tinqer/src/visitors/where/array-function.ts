@@ -0,0 +1,115 @@
+/**
+ * Array function visitor for WHERE clauses
+ * Handles h.functions.overlaps(x.tags, p.tags) and h.functions.containsAll(x.tags, ["a", "b"])
+ */
+
+import type { ArrayFunctionExpression } from "../../expressions/expression.js";
+import type {
+  ArrayExpression,
+  CallExpression,
+  Expression as ASTExpression,
+  Identifier,
+  Literal,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+import type { WhereContext, VisitorResult } from "./context.js";
+import { visitValue } from "./value.js";
+
+type ArrayFunctionName = "overlaps" | "containsAll";
+
+/**
+ * Get the array function a call invokes (helpers.functions.overlaps(...)), or null
+ */
+export function getArrayFunctionName(
+  node: CallExpression,
+  helpersParam?: string,
+): ArrayFunctionName | null {
+  if (!helpersParam || node.callee.type !== "MemberExpression") {
+    return null;
+  }
+
+  const callee = node.callee as MemberExpression;
+  if (callee.property.type !== "Identifier" || callee.object.type !== "MemberExpression") {
+    return null;
+  }
+  const name = (callee.property as Identifier).name;
+  if (name !== "overlaps" && name !== "containsAll") {
+    return null;
+  }
+
+  const functionsMember = callee.object as MemberExpression;
+  return functionsMember.property.type === "Identifier" &&
+    (functionsMember.property as Identifier).name === "functions" &&
+    functionsMember.object.type === "Identifier" &&
+    (functionsMember.object as Identifier).name === helpersParam
+    ? name
+    : null;
+}
+
+/**
+ * Visit helpers.functions.overlaps(array, values) / containsAll(array, values)
+ * The array must be a column; the values are an array literal (bound as a single
+ * parameter), a query parameter or another column
+ */
+export function visitArrayFunction(
+  node: CallExpression,
+  functionName: ArrayFunctionName,
+  context: WhereContext,
+): VisitorResult<ArrayFunctionExpression> {
+  const [arrayArg, valuesArg] = node.arguments as (ASTExpression | undefined)[];
+  if (!arrayArg || !valuesArg || node.arguments.length !== 2) {
+    throw new Error(`${functionName}() expects 2 arguments but got ${node.arguments.length}`);
+  }
+
+  const arrayResult = visitValue(arrayArg, context);
+  if (!arrayResult.value || arrayResult.value.type !== "column") {
+    throw new Error(`${functionName}() expects an array column as its first argument, e.g. x.tags`);
+  }
+  let currentCounter = arrayResult.counter;
+
+  if (valuesArg.type === "ArrayExpression") {
+    const values: unknown[] = [];
+    for (const element of (valuesArg as ArrayExpression).elements) {
+      if (
+        !element ||
+        !["Literal", "NumericLiteral", "StringLiteral", "BooleanLiteral"].includes(element.type)
+      ) {
+        throw new Error(
+          `${functionName}() array values must be literals; use a query parameter instead`,
+        );
+      }
+      values.push((element as Literal).value);
+    }
+
+    currentCounter++;
+    const paramName = `__p${currentCounter}`;
+    context.autoParams.set(paramName, values);
+    return {
+      value: {
+        type: "arrayFunction",
+        function: functionName,
+        arguments: [arrayResult.value, { type: "param", param: paramName }],
+      },
+      counter: currentCounter,
+    };
+  }
+
+  const valuesResult = visitValue(valuesArg, { ...context, autoParamCounter: currentCounter });
+  if (
+    !valuesResult.value ||
+    (valuesResult.value.type !== "param" && valuesResult.value.type !== "column")
+  ) {
+    throw new Error(
+      `${functionName}() expects an array literal, a query parameter or an array column as its second argument`,
+    );
+  }
+
+  return {
+    value: {
+      type: "arrayFunction",
+      function: functionName,
+      arguments: [arrayResult.value, valuesResult.value],
+    },
+    counter: valuesResult.counter,
+  };
+}
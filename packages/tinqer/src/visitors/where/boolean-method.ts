@@ -19,6 +19,7 @@ import type {
 } from "../../parser/ast-types.js";
 import type { WhereContext, VisitorResult } from "./context.js";
 import { visitValue } from "./value.js";
+import { getRegexMatchCall, createRegexMatch } from "../common/pattern-match.js";
 
 /**
  * Visit boolean method calls
@@ -55,6 +56,20 @@ export function visitBooleanMethod(
     }
   }
 
+  // Regular expressions: /^INV-\d+$/i.test(x.code) and x.code.match(/^INV-/)
+  const regexMatch = getRegexMatchCall(node);
+  if (regexMatch) {
+    const valueResult = visitValue(regexMatch.valueNode, context);
+    if (!valueResult.value) return { value: null, counter: currentCounter };
+    currentCounter = valueResult.counter + 1;
+    const paramName = `__p${currentCounter}`;
+    context.autoParams.set(paramName, regexMatch.pattern);
+    return {
+      value: createRegexMatch(regexMatch, valueResult.value, paramName),
+      counter: currentCounter,
+    };
+  }
+
   // Track if we've already visited the object for includes
   let visitedObjForIncludes: { value: ValueExpression | null; counter: number } | undefined;
 
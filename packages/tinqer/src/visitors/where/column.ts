@@ -55,6 +55,16 @@ export function visitColumnAccess(
           name: propertyName,
         };
       }
+
+      // Outer row reference inside a correlated subquery
+      const outerQualifier = context.outerParams?.get(objectName);
+      if (outerQualifier) {
+        return {
+          type: "column",
+          name: propertyName,
+          source: { type: "table", alias: outerQualifier },
+        };
+      }
     }
 
     // Nested member access: x.address.city
@@ -12,6 +12,7 @@ import type {
 import type { BinaryExpression } from "../../parser/ast-types.js";
 import type { WhereContext, VisitorResult } from "./context.js";
 import { visitValue } from "./value.js";
+import { resolveJoinReferenceComparison } from "../common/join-reference.js";
 
 /**
  * Check if node is a literal
@@ -133,12 +134,15 @@ export function visitComparison(
   if (!left || !right) return { value: null, counter: currentCounter };
 
   return {
-    value: {
-      type: "comparison",
-      operator,
-      left: left as ValueExpression,
-      right: right as ValueExpression,
-    },
+    value: resolveJoinReferenceComparison(
+      {
+        type: "comparison",
+        operator,
+        left: left as ValueExpression,
+        right: right as ValueExpression,
+      },
+      context,
+    ),
     counter: currentCounter,
   };
 }
@@ -21,6 +21,13 @@ export interface WhereContext {
   // Helpers parameter (_ in (params, h) => h.functions.*)
   helpersParam?: string;
 
+  // Query builder parameter (q in (q, p) => ...) for correlated subqueries
+  queryBuilderParam?: string;
+
+  // Outer lambda params visible in a correlated subquery -> SQL qualifier
+  outerParams?: Map<string, string>;
+  subqueryDepth?: number;
+
   // Auto-generated parameters for literals
   autoParams: Map<string, unknown>;
   autoParamCounter: number;
@@ -35,6 +42,10 @@ export interface WhereContext {
   // JOIN result shape tracking
   currentResultShape?: unknown; // ResultShape from JOIN
   joinResultParam?: string; // Parameter name representing JOIN result
+
+  // GROUP BY context (where() following groupBy())
+  groupingParams?: Set<string>; // Parameter names representing a grouping
+  groupKeyExpression?: unknown; // Expression from GROUP BY keySelector
 }
 
 /**
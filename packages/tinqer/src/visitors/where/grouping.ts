@@ -0,0 +1,243 @@
+/**
+ * Grouping access visitor for WHERE clauses that follow groupBy()
+ * Resolves g.key and aggregate calls such as g.count() and g.sum(x => x.amount, x => x.paid)
+ */
+
+import type {
+  AggregateExpression,
+  BooleanExpression,
+  Expression,
+  ObjectExpression,
+  ValueExpression,
+} from "../../expressions/expression.js";
+import type {
+  ArrowFunctionExpression,
+  CallExpression,
+  Expression as ASTExpression,
+  Identifier,
+  MemberExpression,
+} from "../../parser/ast-types.js";
+import type { WhereContext, VisitorResult } from "./context.js";
+import { createWhereContext } from "./context.js";
+import { visitPredicate } from "./predicate.js";
+import { visitValue } from "./value.js";
+
+/**
+ * Visit g.key or g.key.property on a grouping parameter
+ */
+export function visitGroupingMember(
+  node: MemberExpression,
+  context: WhereContext,
+): ValueExpression | null {
+  if (!context.groupingParams || node.computed || node.property.type !== "Identifier") {
+    return null;
+  }
+
+  const propertyName = (node.property as Identifier).name;
+
+  // g.key
+  if (node.object.type === "Identifier") {
+    const objectName = (node.object as Identifier).name;
+    if (context.groupingParams.has(objectName) && propertyName === "key") {
+      return (context.groupKeyExpression as ValueExpression) || null;
+    }
+    return null;
+  }
+
+  // g.key.category for composite keys
+  if (node.object.type === "MemberExpression") {
+    const keyExpr = visitGroupingMember(node.object as MemberExpression, context);
+    if (keyExpr && (keyExpr as Expression).type === "object") {
+      return ((keyExpr as unknown as ObjectExpression).properties[propertyName] ||
+        null) as ValueExpression | null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Visit an aggregate call on a grouping parameter (g.count(), g.sum(x => x.amount), ...)
+ */
+export function visitGroupingAggregate(
+  node: CallExpression,
+  context: WhereContext,
+): VisitorResult<AggregateExpression | null> {
+  const currentCounter = context.autoParamCounter;
+
+  if (
+    !context.groupingParams ||
+    node.callee.type !== "MemberExpression" ||
+    (node.callee as MemberExpression).object.type !== "Identifier"
+  ) {
+    return { value: null, counter: currentCounter };
+  }
+
+  const callee = node.callee as MemberExpression;
+  const objectName = (callee.object as Identifier).name;
+  if (!context.groupingParams.has(objectName) || callee.property.type !== "Identifier") {
+    return { value: null, counter: currentCounter };
+  }
+
+  const methodName = (callee.property as Identifier).name;
+
+  if (methodName === "count") {
+    // count() takes an optional predicate: g.count((x) => x.status === "open")
+    const filterResult = visitAggregateFilter(
+      node.arguments?.[0],
+      methodName,
+      context,
+      currentCounter,
+    );
+    return {
+      value: {
+        type: "aggregate",
+        function: "count",
+        ...(filterResult.value && { filter: filterResult.value }),
+      },
+      counter: filterResult.counter,
+    };
+  }
+
+  if (!["sum", "avg", "average", "min", "max"].includes(methodName)) {
+    return { value: null, counter: currentCounter };
+  }
+
+  const lambdaArg = node.arguments?.[0];
+  if (!lambdaArg || lambdaArg.type !== "ArrowFunctionExpression") {
+    throw new Error(`${methodName}() on a grouping requires a selector lambda`);
+  }
+
+  const selectorResult = visitElementLambda(
+    lambdaArg as ArrowFunctionExpression,
+    context,
+    currentCounter,
+    visitValue,
+  );
+  if (!selectorResult.value) {
+    return { value: null, counter: currentCounter };
+  }
+
+  const filterResult = visitAggregateFilter(
+    node.arguments[1],
+    methodName,
+    context,
+    selectorResult.counter,
+  );
+
+  return {
+    value: {
+      type: "aggregate",
+      function: (methodName === "average" ? "avg" : methodName) as AggregateExpression["function"],
+      expression: selectorResult.value,
+      ...(filterResult.value && { filter: filterResult.value }),
+    },
+    counter: filterResult.counter,
+  };
+}
+
+/**
+ * Query scope an aggregate predicate is parsed in, provided by the SELECT and generic visitor
+ * contexts. Their predicates parse like where() conditions on one element of the group
+ */
+export interface AggregateFilterScope {
+  tableParams: Set<string>;
+  queryParams: Set<string>;
+  helpersParam?: string;
+  queryBuilderParam?: string;
+  outerParams?: Map<string, string>;
+  subqueryDepth?: number;
+  autoParams: Map<string, unknown>;
+  autoParamCounter: number;
+  currentTable?: string;
+  currentResultShape?: unknown;
+}
+
+/**
+ * Visit the optional predicate of an aggregate in a SELECT projection or the generic visitor
+ * The caller continues auto-parameter numbering from the returned counter
+ */
+export function visitAggregatePredicate(
+  arg: ASTExpression | undefined,
+  methodName: string,
+  scope: AggregateFilterScope,
+): VisitorResult<BooleanExpression | null> {
+  const context = createWhereContext(scope.tableParams, scope.queryParams, scope.autoParamCounter);
+  context.autoParams = scope.autoParams;
+  context.helpersParam = scope.helpersParam;
+  context.queryBuilderParam = scope.queryBuilderParam;
+  context.outerParams = scope.outerParams;
+  context.subqueryDepth = scope.subqueryDepth;
+  context.currentTable = scope.currentTable;
+  context.currentResultShape = scope.currentResultShape;
+
+  return visitAggregateFilter(arg, methodName, context, scope.autoParamCounter);
+}
+
+/**
+ * Visit the optional predicate of an aggregate into its FILTER (WHERE ...) condition
+ */
+function visitAggregateFilter(
+  arg: ASTExpression | undefined,
+  methodName: string,
+  context: WhereContext,
+  counter: number,
+): VisitorResult<BooleanExpression | null> {
+  if (!arg) {
+    return { value: null, counter };
+  }
+  if (arg.type !== "ArrowFunctionExpression") {
+    throw new Error(`${methodName}() predicate must be an arrow function`);
+  }
+
+  const result = visitElementLambda(
+    arg as ArrowFunctionExpression,
+    context,
+    counter,
+    visitPredicate,
+  );
+  if (!result.value) {
+    throw new Error(`${methodName}() predicate must be a condition on the group's elements`);
+  }
+  return result;
+}
+
+/**
+ * Visit the body of a selector or predicate lambda whose parameter is a row of the group
+ */
+function visitElementLambda<T>(
+  lambda: ArrowFunctionExpression,
+  context: WhereContext,
+  counter: number,
+  visit: (node: ASTExpression, context: WhereContext) => VisitorResult<T | null>,
+): VisitorResult<T | null> {
+  const firstParam = lambda.params?.[0];
+  if (!firstParam || firstParam.type !== "Identifier") {
+    return { value: null, counter };
+  }
+  const paramName = (firstParam as Identifier).name;
+
+  let bodyExpr: ASTExpression | null = null;
+  if (lambda.body.type === "BlockStatement") {
+    const returnStmt = lambda.body.body.find(
+      (stmt: unknown) => (stmt as { type?: string }).type === "ReturnStatement",
+    );
+    bodyExpr = (returnStmt as { argument?: ASTExpression } | undefined)?.argument || null;
+  } else {
+    bodyExpr = lambda.body;
+  }
+  if (!bodyExpr) {
+    return { value: null, counter };
+  }
+
+  const elementContext: WhereContext = {
+    ...context,
+    tableParams: new Set([...context.tableParams, paramName]),
+    autoParamCounter: counter,
+  };
+  if (context.currentResultShape) {
+    elementContext.joinResultParam = paramName;
+  }
+
+  return visit(bodyExpr, elementContext);
+}
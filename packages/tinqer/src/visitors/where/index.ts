@@ -3,8 +3,12 @@
  * Orchestrates predicate parsing for WHERE clauses
  */
 
-import type { WhereOperation, QueryOperation } from "../../query-tree/operations.js";
-import type { BooleanExpression } from "../../expressions/expression.js";
+import type {
+  WhereOperation,
+  HavingOperation,
+  QueryOperation,
+} from "../../query-tree/operations.js";
+import type { BooleanExpression, Expression } from "../../expressions/expression.js";
 import type {
   CallExpression as ASTCallExpression,
   ArrowFunctionExpression,
@@ -15,16 +19,18 @@ import type {
 import type { VisitorContext } from "../types.js";
 import { visitPredicate } from "./predicate.js";
 import { createWhereContext } from "./context.js";
+import { findGroupBySource } from "../visitor-utils.js";
 
 /**
  * Visit WHERE operation
- * Produces WhereOperation with BooleanExpression predicate
+ * Produces WhereOperation with BooleanExpression predicate, or a HavingOperation
+ * when the predicate filters on aggregates of a preceding groupBy()
  */
 export function visitWhereOperation(
   ast: ASTCallExpression,
   source: QueryOperation,
   visitorContext: VisitorContext,
-): { operation: WhereOperation; autoParams: Record<string, unknown> } | null {
+): { operation: WhereOperation | HavingOperation; autoParams: Record<string, unknown> } | null {
   // WHERE expects a lambda: where(x => x.age > 18)
   if (!ast.arguments || ast.arguments.length === 0) {
     return null;
@@ -48,13 +54,24 @@ export function visitWhereOperation(
   context.autoParams = visitorContext.autoParams;
   context.autoParamInfos = visitorContext.autoParamInfos;
   context.helpersParam = visitorContext.helpersParam;
+  context.queryBuilderParam = visitorContext.queryBuilderParam;
+  context.outerParams = visitorContext.outerParams;
+  context.subqueryDepth = visitorContext.subqueryDepth;
+
+  // After groupBy() the lambda parameter is a grouping, not a row
+  const groupByOp = findGroupBySource(source);
 
   // Add lambda parameter to context
   if (lambda.params && lambda.params.length > 0) {
     const firstParam = lambda.params[0];
     if (firstParam && firstParam.type === "Identifier") {
       const paramName = (firstParam as Identifier).name;
-      context.tableParams.add(paramName);
+      if (groupByOp) {
+        context.groupingParams = new Set([paramName]);
+        context.groupKeyExpression = groupByOp.keySelector;
+      } else {
+        context.tableParams.add(paramName);
+      }
 
       // If we have a JOIN result shape, map the parameter to it
       if (visitorContext.currentResultShape) {
@@ -104,13 +121,71 @@ export function visitWhereOperation(
   // Update the global counter with the final value from this visitor
   visitorContext.autoParamCounter = predicateResult.counter;
 
+  const predicate = predicateResult.value as BooleanExpression;
+
+  // Filters on aggregates must run after grouping
+  if (groupByOp && containsAggregate(predicate)) {
+    return {
+      operation: {
+        type: "queryOperation",
+        operationType: "having",
+        source,
+        predicate,
+      },
+      autoParams: Object.fromEntries(context.autoParams),
+    };
+  }
+
   return {
     operation: {
       type: "queryOperation",
       operationType: "where",
       source,
-      predicate: predicateResult.value as BooleanExpression,
+      predicate,
     },
     autoParams: Object.fromEntries(context.autoParams),
   };
 }
+
+/**
+ * Check whether an expression references an aggregate such as COUNT(*) or SUM(x)
+ */
+function containsAggregate(expr: Expression | undefined): boolean {
+  if (!expr) {
+    return false;
+  }
+
+  switch (expr.type) {
+    case "aggregate":
+      return true;
+    case "comparison":
+    case "logical":
+    case "arithmetic":
+    case "concat":
+      return containsAggregate(expr.left) || containsAggregate(expr.right);
+    case "not":
+      return containsAggregate(expr.expression);
+    case "isNull":
+      return containsAggregate(expr.expression);
+    case "in":
+      return containsAggregate(expr.value);
+    case "stringMethod":
+      return containsAggregate(expr.object) || (expr.arguments ?? []).some(containsAggregate);
+    case "mathFunction":
+    case "dateFunction":
+      return expr.arguments.some(containsAggregate);
+    case "booleanMethod":
+      return containsAggregate(expr.object) || expr.arguments.some(containsAggregate);
+    case "caseInsensitiveFunction":
+      return expr.arguments.some(containsAggregate);
+    case "coalesce":
+      return expr.expressions.some(containsAggregate);
+    case "case":
+      return (
+        expr.conditions.some((c) => containsAggregate(c.when) || containsAggregate(c.then)) ||
+        containsAggregate(expr.else)
+      );
+    default:
+      return false;
+  }
+}
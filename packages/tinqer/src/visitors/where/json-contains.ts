@@ -0,0 +1,152 @@
+/**
+ * JSON containment visitor for WHERE clauses
+ * Handles h.functions.jsonContains(x.metadata, { tags: ["vip"] })
+ */
+
+import type {
+  ColumnExpression,
+  JsonContainsExpression,
+  JsonPathExpression,
+} from "../../expressions/expression.js";
+import type {
+  ArrayExpression,
+  CallExpression,
+  Expression as ASTExpression,
+  Identifier,
+  Literal,
+  MemberExpression,
+  ObjectExpression,
+  UnaryExpression,
+} from "../../parser/ast-types.js";
+import type { WhereContext, VisitorResult } from "./context.js";
+import { visitValue } from "./value.js";
+
+/**
+ * Check whether a call is helpers.functions.jsonContains(...)
+ */
+export function isJsonContainsCall(node: CallExpression, helpersParam?: string): boolean {
+  if (!helpersParam || node.callee.type !== "MemberExpression") {
+    return false;
+  }
+
+  const callee = node.callee as MemberExpression;
+  if (
+    callee.property.type !== "Identifier" ||
+    (callee.property as Identifier).name !== "jsonContains" ||
+    callee.object.type !== "MemberExpression"
+  ) {
+    return false;
+  }
+
+  const functionsMember = callee.object as MemberExpression;
+  return (
+    functionsMember.property.type === "Identifier" &&
+    (functionsMember.property as Identifier).name === "functions" &&
+    functionsMember.object.type === "Identifier" &&
+    (functionsMember.object as Identifier).name === helpersParam
+  );
+}
+
+/**
+ * Visit helpers.functions.jsonContains(document, value)
+ * The document must be a JSON column or a path into one; the value is an object or
+ * array literal (bound as a single parameter) or a query parameter
+ */
+export function visitJsonContains(
+  node: CallExpression,
+  context: WhereContext,
+): VisitorResult<JsonContainsExpression> {
+  const [documentArg, valueArg] = node.arguments as (ASTExpression | undefined)[];
+  if (!documentArg || !valueArg || node.arguments.length !== 2) {
+    throw new Error(`jsonContains() expects 2 arguments but got ${node.arguments.length}`);
+  }
+
+  const documentResult = visitValue(documentArg, context);
+  const document = documentResult.value;
+  if (!document || (document.type !== "column" && document.type !== "jsonPath")) {
+    throw new Error(
+      "jsonContains() expects a JSON column or a path into one as its first argument, e.g. x.metadata",
+    );
+  }
+  let currentCounter = documentResult.counter;
+
+  if (valueArg.type === "ObjectExpression" || valueArg.type === "ArrayExpression") {
+    currentCounter++;
+    const paramName = `__p${currentCounter}`;
+    context.autoParams.set(paramName, toJsonValue(valueArg));
+    return {
+      value: {
+        type: "jsonContains",
+        document: document as ColumnExpression | JsonPathExpression,
+        value: { type: "param", param: paramName },
+      },
+      counter: currentCounter,
+    };
+  }
+
+  const valueResult = visitValue(valueArg, { ...context, autoParamCounter: currentCounter });
+  if (!valueResult.value || valueResult.value.type !== "param") {
+    throw new Error(
+      "jsonContains() expects an object or array literal, or a query parameter, as its second argument",
+    );
+  }
+
+  return {
+    value: {
+      type: "jsonContains",
+      document: document as ColumnExpression | JsonPathExpression,
+      value: valueResult.value,
+    },
+    counter: valueResult.counter,
+  };
+}
+
+/**
+ * Convert an object or array literal made of literals into a plain value
+ */
+function toJsonValue(node: ASTExpression): unknown {
+  switch (node.type) {
+    case "ObjectExpression": {
+      const result: Record<string, unknown> = {};
+      for (const property of (node as ObjectExpression).properties) {
+        if (property.type !== "Property" || property.kind !== "init") {
+          throw new Error("jsonContains() values cannot use spread or accessor properties");
+        }
+        const key =
+          property.key.type === "Identifier"
+            ? (property.key as Identifier).name
+            : String((property.key as Literal).value);
+        result[key] = toJsonValue(property.value);
+      }
+      return result;
+    }
+
+    case "ArrayExpression":
+      return (node as ArrayExpression).elements.map((element) => {
+        if (!element) {
+          throw new Error("jsonContains() array values cannot have holes");
+        }
+        return toJsonValue(element);
+      });
+
+    case "Literal":
+    case "NumericLiteral":
+    case "StringLiteral":
+    case "BooleanLiteral":
+    case "NullLiteral":
+      return (node as Literal).value;
+
+    case "UnaryExpression": {
+      const unary = node as UnaryExpression;
+      const argument = unary.argument as Literal;
+      if (unary.operator === "-" && typeof argument.value === "number") {
+        return -argument.value;
+      }
+      break;
+    }
+  }
+
+  throw new Error(
+    "jsonContains() values must be built from literals; use a query parameter instead",
+  );
+}
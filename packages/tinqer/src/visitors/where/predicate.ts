@@ -3,7 +3,7 @@
  * Converts AST expressions to BooleanExpression for WHERE clauses
  */
 
-import type { BooleanExpression } from "../../expressions/expression.js";
+import type { BooleanExpression, ValueExpression } from "../../expressions/expression.js";
 
 import type {
   Expression as ASTExpression,
@@ -22,6 +22,22 @@ import { visitLogical } from "./logical.js";
 import { visitColumnAccess } from "./column.js";
 import { visitBooleanMethod } from "./boolean-method.js";
 import { visitCaseInsensitiveFunction } from "./case-insensitive-functions.js";
+import { isJsonContainsCall, visitJsonContains } from "./json-contains.js";
+import { getArrayFunctionName, visitArrayFunction } from "./array-function.js";
+import {
+  getLikeCallArguments,
+  createLike,
+  getRegexMatchNullCheck,
+} from "../common/pattern-match.js";
+import { getTextSearchHelperCall, createTextSearch } from "../common/text-search.js";
+import { visitValue } from "./value.js";
+import {
+  getExistsSubqueryMethod,
+  visitExistsSubquery,
+  isInSubquery,
+  visitInSubquery,
+} from "../common/subquery.js";
+import { visitJsonPath } from "../common/json-path.js";
 
 /**
  * Visit a predicate expression in WHERE context
@@ -38,6 +54,18 @@ export function visitPredicate(
   switch (node.type) {
     case "BinaryExpression": {
       const binary = node as BinaryExpression;
+      // x.code.match(/^INV-/) !== null matches, === null does not
+      const regexNullCheck = getRegexMatchNullCheck(binary);
+      if (regexNullCheck) {
+        const matchResult = visitPredicate(regexNullCheck.call, context);
+        if (!matchResult.value || !regexNullCheck.negated) {
+          return matchResult;
+        }
+        return {
+          value: { type: "not", expression: matchResult.value },
+          counter: matchResult.counter,
+        };
+      }
       // Check if it's a comparison
       if (["==", "===", "!=", "!==", ">", ">=", "<", "<="].includes(binary.operator)) {
         return visitComparison(binary, context);
@@ -56,6 +84,13 @@ export function visitPredicate(
           ...context,
           autoParamCounter: currentCounter,
         });
+        // !q.from(...).any(...) becomes NOT EXISTS
+        if (innerResult.value?.type === "exists") {
+          return {
+            value: { ...innerResult.value, negated: !innerResult.value.negated },
+            counter: innerResult.counter,
+          };
+        }
         if (innerResult.value) {
           return {
             value: {
@@ -70,14 +105,31 @@ export function visitPredicate(
     }
 
     case "MemberExpression": {
-      // Boolean column (e.g., x.isActive)
-      const column = visitColumnAccess(node as MemberExpression, context);
-      if (column) {
+      // Boolean JSON value (e.g., x.metadata.verified) compares against true
+      const jsonPath = visitJsonPath(node as MemberExpression, context, (column) =>
+        visitColumnAccess(column, context),
+      );
+      if (jsonPath) {
+        return {
+          value: {
+            type: "comparison",
+            operator: "==",
+            left: jsonPath,
+            right: { type: "constant", value: true, valueType: "boolean" },
+          },
+          counter: currentCounter,
+        };
+      }
+
+      // Boolean column (e.g., x.isActive, or row.u.isActive after a join)
+      const column = visitValue(node, context).value;
+      if (column?.type === "column") {
         return {
           value: {
             type: "booleanColumn",
             name: column.name,
             ...(column.table && { table: column.table }),
+            ...(column.source && { source: column.source }),
           },
           counter: currentCounter,
         };
@@ -99,6 +151,78 @@ export function visitPredicate(
     }
 
     case "CallExpression": {
+      // Correlated subquery: q.from("orders").any((o) => o.userId === u.id)
+      if (getExistsSubqueryMethod(node as CallExpression, context.queryBuilderParam)) {
+        return visitExistsSubquery(node as CallExpression, {
+          ...context,
+          autoParamCounter: currentCounter,
+        });
+      }
+
+      // IN subquery: q.from("admins").select((a) => a.userId).contains(u.id)
+      if (isInSubquery(node as CallExpression, context.queryBuilderParam)) {
+        return visitInSubqueryPredicate(node as CallExpression, {
+          ...context,
+          autoParamCounter: currentCounter,
+        });
+      }
+
+      // JSON containment (h.functions.jsonContains(x.metadata, { tags: ["vip"] }))
+      if (isJsonContainsCall(node as CallExpression, context.helpersParam)) {
+        return visitJsonContains(node as CallExpression, {
+          ...context,
+          autoParamCounter: currentCounter,
+        });
+      }
+
+      // Array overlap / containment (h.functions.overlaps(x.tags, p.tags))
+      const arrayFunctionName = getArrayFunctionName(node as CallExpression, context.helpersParam);
+      if (arrayFunctionName) {
+        return visitArrayFunction(node as CallExpression, arrayFunctionName, {
+          ...context,
+          autoParamCounter: currentCounter,
+        });
+      }
+
+      // LIKE pattern (h.functions.like(x.code, "AB_%"))
+      const likeArguments = getLikeCallArguments(node as CallExpression, context.helpersParam);
+      if (likeArguments) {
+        const valueResult = visitValue(likeArguments[0], {
+          ...context,
+          autoParamCounter: currentCounter,
+        });
+        const patternResult = visitValue(likeArguments[1], {
+          ...context,
+          autoParamCounter: valueResult.counter,
+        });
+        if (!valueResult.value || !patternResult.value) {
+          throw new Error(
+            "like() expects a string value and a string literal or parameter pattern",
+          );
+        }
+        return {
+          value: createLike(valueResult.value, patternResult.value),
+          counter: patternResult.counter,
+        };
+      }
+
+      // Full-text match (h.functions.textSearch(x.body, p.q, { config: "english" }))
+      const textSearchHelper = getTextSearchHelperCall(
+        node as CallExpression,
+        context.helpersParam,
+      );
+      if (textSearchHelper?.functionName === "textSearch") {
+        const args: ValueExpression[] = [];
+        let counter = currentCounter;
+        for (const arg of textSearchHelper.valueArguments) {
+          const argResult = visitValue(arg, { ...context, autoParamCounter: counter });
+          if (!argResult.value) return { value: null, counter };
+          counter = argResult.counter;
+          args.push(argResult.value);
+        }
+        return { value: createTextSearch(textSearchHelper, args), counter };
+      }
+
       // Try case-insensitive functions first (h.functions.iequals)
       const caseInsensitiveResult = visitCaseInsensitiveFunction(node as CallExpression, {
         ...context,
@@ -159,3 +283,22 @@ export function visitPredicate(
       return { value: null, counter: currentCounter };
   }
 }
+
+/**
+ * Visit q.from(...).select(...).contains(value), visiting the value in the enclosing query
+ */
+function visitInSubqueryPredicate(
+  node: CallExpression,
+  context: WhereContext,
+): VisitorResult<BooleanExpression | null> {
+  const arg = node.arguments[0];
+  const valueResult = arg ? visitValue(arg as ASTExpression, context) : null;
+  if (!valueResult?.value) {
+    throw new Error("contains() on a subquery requires a value to look up");
+  }
+
+  return visitInSubquery(node, valueResult.value, {
+    ...context,
+    autoParamCounter: valueResult.counter,
+  });
+}
@@ -12,7 +12,6 @@ import type {
   CoalesceExpression,
   CaseExpression,
   InExpression,
-  StringMethodExpression,
   ConstantExpression,
 } from "../../expressions/expression.js";
 
@@ -33,6 +32,22 @@ import { visitColumnAccess } from "./column.js";
 import { visitPredicate } from "./predicate.js";
 import { visitBooleanMethod } from "./boolean-method.js";
 import { visitMemberAccess } from "../common/member-access.js";
+import { visitGroupingAggregate, visitGroupingMember } from "./grouping.js";
+import {
+  createStringMethod,
+  getSplitIndexAccess,
+  isStringLengthAccess,
+  isStringMethod,
+  isStringOperand,
+  validateStringMethodArguments,
+} from "../common/string-method.js";
+import { createMathFunction, getMathFunctionCall } from "../common/math-function.js";
+import {
+  createDateFunction,
+  getDateHelperCall,
+  getDatePartMethod,
+} from "../common/date-function.js";
+import { createTextSearchFunction, getTextSearchHelperCall } from "../common/text-search.js";
 
 /**
  * Visit value expression (for comparison operands)
@@ -60,12 +75,54 @@ export function visitValue(
     case "MemberExpression": {
       const member = node as MemberExpression;
 
+      // Grouping key access after groupBy (g.key, g.key.category)
+      if (context.groupingParams) {
+        const keyExpr = visitGroupingMember(member, context);
+        if (keyExpr) {
+          return { value: keyExpr, counter: currentCounter };
+        }
+      }
+
+      // String length and split element access (x.name.length, x.path.split("/")[1])
+      const split = getSplitIndexAccess(member);
+      if (split) {
+        const parts: ValueExpression[] = [];
+        for (const part of [split.target, split.separator, split.index]) {
+          const partResult = visitValue(part, { ...context, autoParamCounter: currentCounter });
+          if (!partResult.value) return { value: null, counter: currentCounter };
+          currentCounter = partResult.counter;
+          parts.push(partResult.value);
+        }
+        if (!isStringOperand(parts[0]!)) return { value: null, counter: currentCounter };
+        return {
+          value: createStringMethod(parts[0]!, "splitPart", parts.slice(1)),
+          counter: currentCounter,
+        };
+      }
+      if (isStringLengthAccess(member)) {
+        const objectResult = visitValue(member.object, {
+          ...context,
+          autoParamCounter: currentCounter,
+        });
+        if (isStringOperand(objectResult.value)) {
+          return {
+            value: createStringMethod(objectResult.value!, "length", []),
+            counter: objectResult.counter,
+          };
+        }
+      }
+
       // First try using the common member access visitor which handles global constants
       const memberResult = visitMemberAccess(member, context as VisitorContext, (n, ctx) => {
         const result = visitValue(n as ASTExpression, ctx as WhereContext);
         return result.value;
       });
-      if (memberResult && (memberResult.type === "param" || memberResult.type === "column")) {
+      if (
+        memberResult &&
+        (memberResult.type === "param" ||
+          memberResult.type === "column" ||
+          memberResult.type === "jsonPath")
+      ) {
         // Update counter if it's an auto-param (like Number.MAX_SAFE_INTEGER)
         if (memberResult.type === "param" && !memberResult.property) {
           // This is likely an auto-param, counter was already incremented internally
@@ -357,6 +414,65 @@ export function visitValue(
     case "CallExpression": {
       const callNode = node as CallExpression;
 
+      // Aggregates on a grouping parameter (g.count(), g.sum(x => x.amount))
+      if (context.groupingParams) {
+        const aggregateResult = visitGroupingAggregate(callNode, {
+          ...context,
+          autoParamCounter: currentCounter,
+        });
+        if (aggregateResult.value) {
+          return aggregateResult;
+        }
+      }
+
+      // Math.round(x), Math.abs(x), Math.max(a, b), h.functions.round(x, 2), ...
+      const mathCall = getMathFunctionCall(callNode, context.helpersParam);
+      if (mathCall) {
+        const args: ValueExpression[] = [];
+        for (const arg of mathCall.arguments) {
+          const argResult = visitValue(arg, { ...context, autoParamCounter: currentCounter });
+          if (!argResult.value) return { value: null, counter: currentCounter };
+          currentCounter = argResult.counter;
+          args.push(argResult.value);
+        }
+
+        return { value: createMathFunction(mathCall.functionName, args), counter: currentCounter };
+      }
+
+      // h.functions.dateAdd(x.createdAt, "day", 7), h.functions.dateTrunc("month", x.createdAt), ...
+      const dateHelper = getDateHelperCall(callNode, context.helpersParam);
+      if (dateHelper) {
+        const args: ValueExpression[] = [];
+        for (const arg of dateHelper.valueArguments) {
+          const argResult = visitValue(arg, { ...context, autoParamCounter: currentCounter });
+          if (!argResult.value) return { value: null, counter: currentCounter };
+          currentCounter = argResult.counter;
+          args.push(argResult.value);
+        }
+
+        return {
+          value: createDateFunction(dateHelper.functionName, dateHelper.unit, args),
+          counter: currentCounter,
+        };
+      }
+
+      // h.functions.textRank(x.body, p.q), h.functions.textSnippet(x.body, p.q, { tokens: 8 }), ...
+      const textSearchHelper = getTextSearchHelperCall(callNode, context.helpersParam);
+      if (textSearchHelper) {
+        const args: ValueExpression[] = [];
+        for (const arg of textSearchHelper.valueArguments) {
+          const argResult = visitValue(arg, { ...context, autoParamCounter: currentCounter });
+          if (!argResult.value) return { value: null, counter: currentCounter };
+          currentCounter = argResult.counter;
+          args.push(argResult.value);
+        }
+
+        return {
+          value: createTextSearchFunction(textSearchHelper, args),
+          counter: currentCounter,
+        };
+      }
+
       // Check if this is array.includes() for IN operator
       const boolResult = visitBooleanMethod(callNode, {
         ...context,
@@ -376,22 +492,45 @@ export function visitValue(
         if (memberExpr.property.type === "Identifier") {
           const methodName = (memberExpr.property as Identifier).name;
 
-          // Handle string transformation methods
-          if (["toLowerCase", "toUpperCase"].includes(methodName)) {
-            // Visit the object being called
+          // Handle string methods (toLowerCase, trim, substring, replace, indexOf, ...)
+          if (isStringMethod(methodName)) {
+            validateStringMethodArguments(methodName, callNode.arguments);
+
+            // Visit the object being called, then its arguments
             const objectResult = visitValue(memberExpr.object, {
               ...context,
               autoParamCounter: currentCounter,
             });
-
-            if (objectResult.value) {
-              const stringMethod: StringMethodExpression = {
-                type: "stringMethod",
-                object: objectResult.value,
-                method: methodName as "toLowerCase" | "toUpperCase",
-              };
-              return { value: stringMethod, counter: objectResult.counter };
+            if (!objectResult.value) return { value: null, counter: currentCounter };
+            currentCounter = objectResult.counter;
+
+            const args: ValueExpression[] = [];
+            for (const arg of callNode.arguments) {
+              const argResult = visitValue(arg, { ...context, autoParamCounter: currentCounter });
+              if (!argResult.value) return { value: null, counter: currentCounter };
+              currentCounter = argResult.counter;
+              args.push(argResult.value);
             }
+
+            return {
+              value: createStringMethod(objectResult.value, methodName, args),
+              counter: currentCounter,
+            };
+          }
+
+          // Date getters (getFullYear, getMonth, getDate, getHours, ...)
+          const datePart = getDatePartMethod(methodName, callNode.arguments);
+          if (datePart) {
+            const objectResult = visitValue(memberExpr.object, {
+              ...context,
+              autoParamCounter: currentCounter,
+            });
+            if (!objectResult.value) return { value: null, counter: currentCounter };
+
+            return {
+              value: createDateFunction("datePart", datePart, [objectResult.value]),
+              counter: objectResult.counter,
+            };
           }
         }
       }
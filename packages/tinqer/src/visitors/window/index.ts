@@ -1,10 +1,13 @@
 /**
  * Window function visitor
- * Handles h.window.partitionBy(...).orderBy(...).rowNumber() chains
+ * Handles h.window.partitionBy(...).orderBy(...).rowNumber() chains, including
+ * rowsBetween()/rangeBetween() frames and value/aggregate terminals such as lag() and sum()
  */
 
 import type {
   WindowFunctionExpression,
+  WindowFrame,
+  WindowFrameBoundary,
   ValueExpression,
   Expression,
 } from "../../expressions/expression.js";
@@ -14,6 +17,7 @@ import type {
   Identifier,
   Expression as ASTExpression,
   ArrowFunctionExpression,
+  ObjectExpression,
 } from "../../parser/ast-types.js";
 import type { WindowFunctionType } from "../../linq/functions.js";
 import type { VisitorContext } from "../types.js";
@@ -24,6 +28,29 @@ interface WindowMethodCall {
   args: ASTExpression[];
 }
 
+/**
+ * Terminal window functions and how their arguments are passed
+ * none: no arguments, value: a value expression, selector: a row selector lambda,
+ * offset: a row selector lambda followed by an optional offset and default (lag/lead)
+ */
+const WINDOW_TERMINALS: Record<WindowFunctionType, "none" | "value" | "selector" | "offset"> = {
+  rowNumber: "none",
+  rank: "none",
+  denseRank: "none",
+  percentRank: "none",
+  cumeDist: "none",
+  count: "none",
+  ntile: "value",
+  lag: "offset",
+  lead: "offset",
+  firstValue: "selector",
+  lastValue: "selector",
+  sum: "selector",
+  avg: "selector",
+  min: "selector",
+  max: "selector",
+};
+
 /**
  * Check if this call expression is a window function chain
  * Returns the function type if it is, null otherwise
@@ -66,9 +93,9 @@ export function isWindowFunctionCall(
   if (chain.length === 0) return null;
   const lastMethod = chain[chain.length - 1]!;
 
-  if (lastMethod === "rowNumber") return "rowNumber";
-  if (lastMethod === "rank") return "rank";
-  if (lastMethod === "denseRank") return "denseRank";
+  if (Object.prototype.hasOwnProperty.call(WINDOW_TERMINALS, lastMethod)) {
+    return lastMethod as WindowFunctionType;
+  }
 
   return null;
 }
@@ -145,6 +172,7 @@ export function visitWindowFunction(
 
   const partitionBy: ValueExpression[] = [];
   const orderBy: Array<{ expression: ValueExpression; direction: "asc" | "desc" }> = [];
+  let frame: WindowFrame | undefined;
 
   // Process all methods except the last one (which is the terminal function)
   for (let i = 0; i < chain.length - 1; i++) {
@@ -185,6 +213,11 @@ export function visitWindowFunction(
           if (selector) orderBy.push({ expression: selector, direction: "desc" });
         }
         break;
+
+      case "rowsBetween":
+      case "rangeBetween":
+        frame = parseFrame(call);
+        break;
     }
   }
 
@@ -195,10 +228,149 @@ export function visitWindowFunction(
     );
   }
 
+  const terminal = chain[chain.length - 1]!;
+  const args = parseTerminalArguments(functionType, terminal.args, context, visitExpression);
+  if (!args) return null;
+
   return {
     type: "windowFunction" as const,
     function: functionType,
+    ...(args.length > 0 && { arguments: args }),
     partitionBy,
     orderBy,
+    ...(frame && { frame }),
   };
 }
+
+/**
+ * Visit the arguments of the terminal window function
+ */
+function parseTerminalArguments(
+  functionType: WindowFunctionType,
+  args: ASTExpression[],
+  context: VisitorContext,
+  visitExpression: (node: ASTExpression, ctx: VisitorContext) => Expression | null,
+): ValueExpression[] | null {
+  const kind = WINDOW_TERMINALS[functionType];
+  const count = args?.length ?? 0;
+
+  if (kind === "none") {
+    if (count > 0) {
+      throw new Error(`Window function ${functionType}() does not take arguments`);
+    }
+    return [];
+  }
+
+  if (kind === "value") {
+    if (count !== 1) {
+      throw new Error(`Window function ${functionType}() expects 1 argument but got ${count}`);
+    }
+    const value = visitExpression(args[0]!, context);
+    return value && isValueExpression(value) ? [value as ValueExpression] : null;
+  }
+
+  const maxArgs = kind === "offset" ? 3 : 1;
+  if (count < 1 || count > maxArgs || args[0]!.type !== "ArrowFunctionExpression") {
+    throw new Error(
+      kind === "offset"
+        ? `Window function ${functionType}() expects a selector lambda, an optional offset and an optional default value`
+        : `Window function ${functionType}() expects a selector lambda`,
+    );
+  }
+
+  const selector = parseSelector(args[0]!, context, visitExpression);
+  if (!selector) return null;
+
+  const result: ValueExpression[] = [selector];
+  for (const arg of args.slice(1)) {
+    const value = visitExpression(arg, context);
+    if (!value || !isValueExpression(value)) return null;
+    result.push(value as ValueExpression);
+  }
+  return result;
+}
+
+/**
+ * Parse rowsBetween(start, end) / rangeBetween(start, end)
+ */
+function parseFrame(call: WindowMethodCall): WindowFrame {
+  if (call.args.length !== 2) {
+    throw new Error(`${call.method}() expects a start and an end bound`);
+  }
+
+  const start = parseFrameBound(call.args[0]!, call.method);
+  const end = parseFrameBound(call.args[1]!, call.method);
+  if (
+    start.type === "unboundedFollowing" ||
+    end.type === "unboundedPreceding" ||
+    getFrameBoundPosition(start) > getFrameBoundPosition(end)
+  ) {
+    throw new Error(`${call.method}() start bound must not come after its end bound`);
+  }
+
+  return {
+    unit: call.method === "rowsBetween" ? "rows" : "range",
+    start,
+    end,
+  };
+}
+
+/**
+ * Position of a frame bound relative to the current row (preceding is negative)
+ */
+function getFrameBoundPosition(bound: WindowFrameBoundary): number {
+  switch (bound.type) {
+    case "unboundedPreceding":
+      return -Infinity;
+    case "preceding":
+      return -bound.offset;
+    case "currentRow":
+      return 0;
+    case "following":
+      return bound.offset;
+    case "unboundedFollowing":
+      return Infinity;
+  }
+}
+
+/**
+ * Parse a frame bound: "unboundedPreceding", "currentRow", "unboundedFollowing",
+ * { preceding: n } or { following: n }
+ * Offsets are inlined into the SQL, so they must be non-negative integer literals
+ */
+function parseFrameBound(node: ASTExpression, method: string): WindowFrameBoundary {
+  const literalValue = (node as { value?: unknown }).value;
+  if (
+    (node.type === "Literal" || node.type === "StringLiteral") &&
+    (literalValue === "unboundedPreceding" ||
+      literalValue === "currentRow" ||
+      literalValue === "unboundedFollowing")
+  ) {
+    return { type: literalValue };
+  }
+
+  if (node.type === "ObjectExpression") {
+    const properties = (node as ObjectExpression).properties;
+    const property = properties[0];
+    const key =
+      property?.key.type === "Identifier"
+        ? (property.key as Identifier).name
+        : (property?.key as { value?: unknown } | undefined)?.value;
+    const offset = (property?.value as { value?: unknown } | undefined)?.value;
+
+    if (
+      properties.length === 1 &&
+      (key === "preceding" || key === "following") &&
+      typeof offset === "number" &&
+      Number.isInteger(offset) &&
+      offset >= 0
+    ) {
+      return { type: key, offset };
+    }
+  }
+
+  throw new Error(
+    `${method}() bounds must be "unboundedPreceding", "currentRow", "unboundedFollowing", ` +
+      `{ preceding: n } or { following: n } with a non-negative integer literal n`,
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * WITH clause visitor
+ * Handles q.with(name, query) and q.withRecursive(name, anchor, step) ahead of from()
+ */
+
+import type { CommonTableExpression, QueryOperation } from "../../query-tree/operations.js";
+import type {
+  CallExpression as ASTCallExpression,
+  Expression as ASTExpression,
+  Identifier,
+  Literal,
+  MemberExpression as ASTMemberExpression,
+} from "../../parser/ast-types.js";
+import type { VisitorContext } from "../types.js";
+import { convertAstToQueryOperationWithParams } from "../../parser/ast-visitor.js";
+
+/**
+ * Check whether an expression is a q.with(...) / q.withRecursive(...) chain
+ */
+export function isWithClause(node: ASTExpression, queryBuilderParam: string | undefined): boolean {
+  if (!queryBuilderParam || node.type !== "CallExpression") {
+    return false;
+  }
+
+  const callee = (node as ASTCallExpression).callee;
+  if (callee.type !== "MemberExpression") {
+    return false;
+  }
+
+  const member = callee as ASTMemberExpression;
+  const methodName =
+    member.property.type === "Identifier" ? (member.property as Identifier).name : null;
+  if (methodName !== "with" && methodName !== "withRecursive") {
+    return false;
+  }
+
+  return (
+    (member.object.type === "Identifier" &&
+      (member.object as Identifier).name === queryBuilderParam) ||
+    isWithClause(member.object, queryBuilderParam)
+  );
+}
+
+/**
+ * Visit a q.with(...) / q.withRecursive(...) chain
+ * Returns the common table expressions in declaration order
+ */
+export function visitWithClause(
+  ast: ASTCallExpression,
+  visitorContext: VisitorContext,
+): CommonTableExpression[] {
+  const member = ast.callee as ASTMemberExpression;
+  const methodName = (member.property as Identifier).name;
+
+  // Earlier declarations come first; later CTEs may read them
+  const ctes = isWithClause(member.object, visitorContext.queryBuilderParam)
+    ? visitWithClause(member.object as ASTCallExpression, visitorContext)
+    : [];
+
+  const [nameArg, queryArg, stepArg] = ast.arguments as (ASTExpression | undefined)[];
+  if (
+    !nameArg ||
+    (nameArg.type !== "Literal" && nameArg.type !== "StringLiteral") ||
+    typeof (nameArg as Literal).value !== "string"
+  ) {
+    throw new Error(`${methodName}() requires a string literal name as its first argument`);
+  }
+  const name = (nameArg as Literal).value as string;
+
+  if (ctes.some((cte) => cte.name === name)) {
+    throw new Error(`Common table expression "${name}" is declared more than once`);
+  }
+
+  const query = queryArg ? visitCteQuery(queryArg, visitorContext) : null;
+  if (!query) {
+    throw new Error(
+      `${methodName}() requires a query argument, e.g. q.${methodName}("${name}", q.from("table").where(...))`,
+    );
+  }
+
+  if (methodName === "with") {
+    return [...ctes, { name, query }];
+  }
+
+  // The step is usually a lambda receiving a builder that knows the CTE: (r) => r.from(...)
+  const recursiveStep = stepArg ? visitCteQuery(stepArg, visitorContext) : null;
+  if (!recursiveStep) {
+    throw new Error(
+      `withRecursive() requires a recursive step, e.g. q.withRecursive("${name}", anchor, (r) => r.from("table").join(r.from("${name}"), ...))`,
+    );
+  }
+
+  return [...ctes, { name, query, recursiveStep }];
+}
+
+/**
+ * Parse the query of a CTE, sharing the enclosing query's parameters
+ */
+function visitCteQuery(ast: ASTExpression, visitorContext: VisitorContext): QueryOperation | null {
+  const result = convertAstToQueryOperationWithParams(
+    ast,
+    visitorContext.autoParamCounter,
+    visitorContext.autoParams,
+    visitorContext.queryBuilderParam,
+    visitorContext.queryParams,
+    visitorContext.helpersParam,
+  );
+  visitorContext.autoParamCounter = result.visitorContext.autoParamCounter;
+  return result.operation;
+}
@@ -0,0 +1,136 @@
+/**
+ * Tests for array columns declared on the schema and the array helper functions
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, defineDelete, parseQuery, createSchema } from "../dist/index.js";
+import type { QueryBuilder, QueryHelpers } from "../dist/index.js";
+import {
+  asSelectOperation,
+  asWhereOperation,
+  getOperation,
+} from "./test-utils/operation-helpers.js";
+
+interface Schema {
+  users: {
+    id: number;
+    name: string;
+    tags: string[];
+    scores: number[] | null;
+  };
+}
+
+const schema = createSchema<Schema>({ arrayColumns: { users: ["tags", "scores"] } });
+
+describe("Array columns", () => {
+  it("should turn includes() on an array column into an array function", () => {
+    const plan = defineSelect(schema, (q) =>
+      q.from("users").where((u) => u.tags.includes("admin")),
+    ).toPlan();
+
+    const where = asWhereOperation(plan.operation);
+    expect(where.predicate).to.deep.equal({
+      type: "arrayFunction",
+      function: "includes",
+      arguments: [
+        { type: "column", name: "tags" },
+        { type: "param", param: "__p1" },
+      ],
+    });
+    expect(plan.autoParams).to.deep.equal({ __p1: "admin" });
+  });
+
+  it("should keep includes() on other columns as a string search", () => {
+    const plan = defineSelect(schema, (q) =>
+      q.from("users").where((u) => u.name.includes("adm")),
+    ).toPlan();
+
+    const where = asWhereOperation(plan.operation);
+    expect(where.predicate.type).to.equal("booleanMethod");
+  });
+
+  it("should turn length on an array column into an array length", () => {
+    const plan = defineSelect(schema, (q) =>
+      q.from("users").select((u) => ({ name: u.name, tagCount: u.tags.length })),
+    ).toPlan();
+
+    const select = asSelectOperation(plan.operation);
+    expect(select.selector).to.deep.equal({
+      type: "object",
+      properties: {
+        name: { type: "column", name: "name" },
+        tagCount: { type: "arrayLength", array: { type: "column", name: "tags" } },
+      },
+    });
+  });
+
+  it("should resolve array columns in predicates added to a plan", () => {
+    const plan = defineSelect(schema, (q) => q.from("users"))
+      .where((u) => u.tags.length > 2)
+      .toPlan();
+
+    const where = asWhereOperation(plan.operation);
+    expect(where.predicate).to.deep.equal({
+      type: "comparison",
+      operator: ">",
+      left: { type: "arrayLength", array: { type: "column", name: "tags" } },
+      right: { type: "param", param: "__p1" },
+    });
+  });
+
+  it("should resolve array columns in DELETE predicates", () => {
+    const plan = defineDelete(schema, (q) =>
+      q.deleteFrom("users").where((u) => u.tags.includes("banned")),
+    ).toPlan();
+
+    expect((plan.operation as { predicate?: { type: string } }).predicate?.type).to.equal(
+      "arrayFunction",
+    );
+  });
+});
+
+describe("Array functions", () => {
+  it("should bind an array literal as a single parameter", () => {
+    const result = parseQuery(
+      (q: QueryBuilder<Schema>, _params: Record<string, never>, h: QueryHelpers) =>
+        q.from("users").where((u) => h.functions.overlaps(u.tags, ["admin", "staff"])),
+    );
+
+    const where = asWhereOperation(getOperation(result));
+    expect(where.predicate).to.deep.equal({
+      type: "arrayFunction",
+      function: "overlaps",
+      arguments: [
+        { type: "column", name: "tags" },
+        { type: "param", param: "__p1" },
+      ],
+    });
+    expect(result?.autoParams).to.deep.equal({ __p1: ["admin", "staff"] });
+  });
+
+  it("should accept a query parameter", () => {
+    const result = parseQuery(
+      (q: QueryBuilder<Schema>, params: { required: string[] }, h: QueryHelpers) =>
+        q.from("users").where((u) => h.functions.containsAll(u.tags, params.required)),
+    );
+
+    const where = asWhereOperation(getOperation(result));
+    expect(where.predicate).to.deep.equal({
+      type: "arrayFunction",
+      function: "containsAll",
+      arguments: [
+        { type: "column", name: "tags" },
+        { type: "param", param: "params", property: "required" },
+      ],
+    });
+  });
+
+  it("should reject values that are not literals, parameters or columns", () => {
+    expect(() =>
+      defineSelect(schema, (q, _params, h) =>
+        q.from("users").where((u) => h.functions.overlaps(u.tags, [u.name])),
+      ),
+    ).to.throw();
+  });
+});
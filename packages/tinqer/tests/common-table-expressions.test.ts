@@ -0,0 +1,96 @@
+/**
+ * Tests for common table expressions (with, withRecursive)
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { parseQuery, defineSelect } from "../dist/index.js";
+import type { QueryBuilder } from "../dist/index.js";
+import type { JoinOperation } from "../dist/query-tree/operations.js";
+import {
+  asFromOperation,
+  asSelectOperation,
+  asWhereOperation,
+  getOperation,
+} from "./test-utils/operation-helpers.js";
+import { schema, type TestSchema } from "./test-schema.js";
+
+describe("Common Table Expressions", () => {
+  it("should attach a with() query to the FROM that reads it", () => {
+    const query = (q: QueryBuilder<TestSchema>) =>
+      q
+        .with(
+          "bigOrders",
+          q.from("orders").where((o) => o.amount > 100),
+        )
+        .from("bigOrders")
+        .select((o) => o.userId);
+    const result = parseQuery(query);
+
+    const fromOp = asFromOperation(asSelectOperation(getOperation(result)).source);
+    expect(fromOp.table).to.equal("bigOrders");
+    expect(fromOp.ctes).to.have.length(1);
+    expect(fromOp.ctes![0]!.name).to.equal("bigOrders");
+    expect(fromOp.ctes![0]!.recursiveStep).to.be.undefined;
+    const cteWhere = asWhereOperation(fromOp.ctes![0]!.query);
+    expect(asFromOperation(cteWhere.source).table).to.equal("orders");
+  });
+
+  it("should number auto-params across CTEs and the main query", () => {
+    const query = (q: QueryBuilder<TestSchema>, p: { status: string }) =>
+      q
+        .with(
+          "adults",
+          q.from("users").where((u) => u.age >= 18),
+        )
+        .with("activeAdults", (w) =>
+          w.from("adults").where((u) => u.status == p.status && u.salary > 1000),
+        )
+        .from("activeAdults")
+        .where((u) => u.city == "Paris");
+    const result = parseQuery(query);
+
+    const fromOp = asFromOperation(asWhereOperation(getOperation(result)).source);
+    expect(fromOp.ctes!.map((cte) => cte.name)).to.deep.equal(["adults", "activeAdults"]);
+    expect(result?.autoParams).to.deep.equal({ __p1: 18, __p2: 1000, __p3: "Paris" });
+  });
+
+  it("should parse the recursive step with the builder it receives", () => {
+    const query = (q: QueryBuilder<TestSchema>) =>
+      q
+        .withRecursive(
+          "tree",
+          q
+            .from("categories")
+            .where((c) => c.parentId == 0)
+            .select((c) => ({ id: c.id, name: c.name })),
+          (r) =>
+            r
+              .from("categories")
+              .join(
+                r.from("tree"),
+                (c) => c.parentId,
+                (t) => t.id,
+                (c, t) => ({ c, t }),
+              )
+              .select((x) => ({ id: x.c.id, name: x.c.name })),
+        )
+        .from("tree");
+    const result = parseQuery(query);
+
+    const fromOp = asFromOperation(getOperation(result));
+    const cte = fromOp.ctes![0]!;
+    expect(cte.name).to.equal("tree");
+    const join = asSelectOperation(cte.recursiveStep!).source as JoinOperation;
+    expect(join.operationType).to.equal("join");
+    expect(asFromOperation(join.inner).table).to.equal("tree");
+  });
+
+  it("should reject CTE names declared twice", () => {
+    expect(() =>
+      defineSelect(schema, (q) =>
+        q.with("u", q.from("users")).with("u", q.from("users")).from("u"),
+      ),
+    ).to.throw();
+  });
+});
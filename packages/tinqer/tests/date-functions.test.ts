@@ -0,0 +1,123 @@
+/**
+ * Tests for Date getter and date helper translation (getFullYear, dateAdd, dateTrunc, now)
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { parseQuery } from "../dist/index.js";
+import type { QueryBuilder, QueryHelpers } from "../dist/index.js";
+import {
+  asGroupByOperation,
+  asOrderByOperation,
+  asSelectOperation,
+  asWhereOperation,
+  getOperation,
+} from "./test-utils/operation-helpers.js";
+import { type TestSchema } from "./test-schema.js";
+
+describe("Date functions", () => {
+  it("should parse Date getters in WHERE", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("orders").where((o) => o.date.getFullYear() == 2024 && o.date.getMonth() < 6),
+    );
+
+    const whereOp = asWhereOperation(getOperation(result));
+    expect(whereOp.predicate).to.deep.equal({
+      type: "logical",
+      operator: "and",
+      left: {
+        type: "comparison",
+        operator: "==",
+        left: {
+          type: "dateFunction",
+          function: "datePart",
+          unit: "year",
+          arguments: [{ type: "column", name: "date" }],
+        },
+        right: { type: "param", param: "__p1" },
+      },
+      right: {
+        type: "comparison",
+        operator: "<",
+        left: {
+          type: "dateFunction",
+          function: "datePart",
+          unit: "month",
+          arguments: [{ type: "column", name: "date" }],
+        },
+        right: { type: "param", param: "__p2" },
+      },
+    });
+    expect(result?.autoParams).to.deep.equal({ __p1: 2024, __p2: 6 });
+  });
+
+  it("should parse dateAdd, dateTrunc and now helpers in SELECT", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>, p: { days: number }, h: QueryHelpers) =>
+      q.from("orders").select((o) => ({
+        due: h.functions.dateAdd(o.date, "day", p.days),
+        month: h.functions.dateTrunc("month", o.date),
+        checkedAt: h.functions.now(),
+      })),
+    );
+
+    const selectOp = asSelectOperation(getOperation(result));
+    expect(selectOp.selector).to.deep.equal({
+      type: "object",
+      properties: {
+        due: {
+          type: "dateFunction",
+          function: "dateAdd",
+          unit: "day",
+          arguments: [
+            { type: "column", name: "date" },
+            { type: "param", param: "p", property: "days" },
+          ],
+        },
+        month: {
+          type: "dateFunction",
+          function: "dateTrunc",
+          unit: "month",
+          arguments: [{ type: "column", name: "date" }],
+        },
+        checkedAt: { type: "dateFunction", function: "now", arguments: [] },
+      },
+    });
+  });
+
+  it("should parse date functions in GROUP BY and ORDER BY", () => {
+    const result = parseQuery(
+      (q: QueryBuilder<TestSchema>, _p: Record<string, never>, h: QueryHelpers) =>
+        q
+          .from("orders")
+          .groupBy((o) => h.functions.dateTrunc("year", o.date))
+          .select((g) => ({ year: g.key, total: g.sum((o) => o.total) }))
+          .orderBy((r) => r.year),
+    );
+
+    const orderByOp = asOrderByOperation(getOperation(result));
+    expect(orderByOp.keySelector).to.equal("year");
+
+    const selectOp = asSelectOperation(orderByOp.source);
+    const groupByOp = asGroupByOperation(selectOp.source);
+    expect(groupByOp.keySelector).to.deep.equal({
+      type: "dateFunction",
+      function: "dateTrunc",
+      unit: "year",
+      arguments: [{ type: "column", name: "date" }],
+    });
+  });
+
+  it("should parse Date getters in ORDER BY", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").orderBy((u) => u.createdAt.getHours()),
+    );
+
+    const orderByOp = asOrderByOperation(getOperation(result));
+    expect(orderByOp.keySelector).to.deep.equal({
+      type: "dateFunction",
+      function: "datePart",
+      unit: "hour",
+      arguments: [{ type: "column", name: "createdAt" }],
+    });
+  });
+});
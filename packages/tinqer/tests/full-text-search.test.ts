@@ -0,0 +1,121 @@
+/**
+ * Tests for the full-text search helper functions
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, createSchema } from "../dist/index.js";
+import {
+  asOrderByOperation,
+  asSelectOperation,
+  asWhereOperation,
+} from "./test-utils/operation-helpers.js";
+
+interface Schema {
+  articles: {
+    id: number;
+    title: string;
+    body: string;
+  };
+}
+
+const schema = createSchema<Schema>();
+
+describe("Full-text search functions", () => {
+  it("should parse textSearch() into a text search condition", () => {
+    const plan = defineSelect(schema, (q, params: { q: string }, h) =>
+      q
+        .from("articles")
+        .where((a) => h.functions.textSearch(a.body, params.q, { config: "english" })),
+    ).toPlan();
+
+    const where = asWhereOperation(plan.operation);
+    expect(where.predicate).to.deep.equal({
+      type: "textSearch",
+      arguments: [
+        { type: "column", name: "body" },
+        { type: "param", param: "params", property: "q" },
+      ],
+      config: "english",
+    });
+  });
+
+  it("should bind a literal query as a parameter", () => {
+    const plan = defineSelect(schema, (q, _params, h) =>
+      q.from("articles").where((a) => h.functions.textSearch(a.body, "fox")),
+    ).toPlan();
+
+    const where = asWhereOperation(plan.operation);
+    expect(where.predicate).to.deep.equal({
+      type: "textSearch",
+      arguments: [
+        { type: "column", name: "body" },
+        { type: "param", param: "__p1" },
+      ],
+    });
+    expect(plan.autoParams).to.deep.equal({ __p1: "fox" });
+  });
+
+  it("should parse textRank() in orderBy and fill highlight and snippet defaults", () => {
+    const plan = defineSelect(schema, (q, params: { q: string }, h) =>
+      q
+        .from("articles")
+        .orderByDescending((a) => h.functions.textRank(a.body, params.q))
+        .select((a) => ({
+          highlighted: h.functions.textHighlight(a.body, params.q),
+          snippet: h.functions.textSnippet(a.body, params.q, { tokens: 6, ellipsis: "…" }),
+        })),
+    ).toPlan();
+
+    const select = asSelectOperation(plan.operation);
+    const orderBy = asOrderByOperation(select.source);
+    const args = [
+      { type: "column", name: "body" },
+      { type: "param", param: "params", property: "q" },
+    ];
+    expect(orderBy.keySelector).to.deep.equal({
+      type: "textSearchFunction",
+      function: "rank",
+      arguments: args,
+    });
+    expect(select.selector).to.deep.equal({
+      type: "object",
+      properties: {
+        highlighted: {
+          type: "textSearchFunction",
+          function: "highlight",
+          arguments: args,
+          start: "<b>",
+          end: "</b>",
+        },
+        snippet: {
+          type: "textSearchFunction",
+          function: "snippet",
+          arguments: args,
+          start: "<b>",
+          end: "</b>",
+          ellipsis: "…",
+          tokens: 6,
+        },
+      },
+    });
+  });
+
+  it("should reject options that are not literals or out of range", () => {
+    expect(() =>
+      defineSelect(schema, (q, params: { q: string; config: string }, h) =>
+        q
+          .from("articles")
+          .where((a) => h.functions.textSearch(a.body, params.q, { config: params.config })),
+      ),
+    ).to.throw();
+
+    expect(() =>
+      defineSelect(schema, (q, params: { q: string }, h) =>
+        q
+          .from("articles")
+          .select((a) => ({ s: h.functions.textSnippet(a.body, params.q, { tokens: 100 }) })),
+      ),
+    ).to.throw();
+  });
+});
@@ -5,15 +5,17 @@
 
 import { describe, it } from "mocha";
 import { expect } from "chai";
-import { parseQuery } from "../dist/index.js";
+import { parseQuery, defineSelect } from "../dist/index.js";
 import type { QueryBuilder } from "../dist/index.js";
 import {
   asGroupByOperation,
+  asHavingOperation,
+  asWhereOperation,
   asSelectOperation,
   asOrderByOperation,
   getOperation,
 } from "./test-utils/operation-helpers.js";
-import { type TestSchema } from "./test-schema.js";
+import { schema, type TestSchema } from "./test-schema.js";
 
 describe("GROUP BY Operation", () => {
   describe("groupBy()", () => {
@@ -75,4 +77,368 @@ describe("GROUP BY Operation", () => {
       expect(orderByOp.source.operationType).to.equal("groupBy");
     });
   });
+
+  describe("where() after groupBy()", () => {
+    it("should parse an aggregate filter as HAVING", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .where((g) => g.count() > 5);
+      const result = parseQuery(query);
+
+      const havingOp = asHavingOperation(getOperation(result));
+      expect(havingOp.source.operationType).to.equal("groupBy");
+      expect(havingOp.predicate).to.deep.equal({
+        type: "comparison",
+        operator: ">",
+        left: { type: "aggregate", function: "count" },
+        right: { type: "param", param: "__p1" },
+      });
+      expect(result?.autoParams).to.deep.equal({ __p1: 5 });
+    });
+
+    it("should parse aggregate selectors and the group key in HAVING", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .where((g) => g.key != "misc" && g.sum((x) => x.price) >= 1000);
+      const result = parseQuery(query);
+
+      const havingOp = asHavingOperation(getOperation(result));
+      expect(havingOp.predicate).to.deep.equal({
+        type: "logical",
+        operator: "and",
+        left: {
+          type: "comparison",
+          operator: "!=",
+          left: { type: "column", name: "category" },
+          right: { type: "param", param: "__p1" },
+        },
+        right: {
+          type: "comparison",
+          operator: ">=",
+          left: {
+            type: "aggregate",
+            function: "sum",
+            expression: { type: "column", name: "price" },
+          },
+          right: { type: "param", param: "__p2" },
+        },
+      });
+    });
+
+    it("should keep a filter on the group key only as WHERE", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .where((g) => g.key == "tools");
+      const result = parseQuery(query);
+
+      const whereOp = asWhereOperation(getOperation(result));
+      expect(whereOp.source.operationType).to.equal("groupBy");
+      expect(whereOp.predicate).to.deep.equal({
+        type: "comparison",
+        operator: "==",
+        left: { type: "column", name: "category" },
+        right: { type: "param", param: "__p1" },
+      });
+    });
+
+    it("should keep the grouping context for select after HAVING", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .where((g) => g.count() > 1)
+          .select((g) => ({ category: g.key, total: g.count() }));
+      const result = parseQuery(query);
+
+      const selectOp = asSelectOperation(getOperation(result));
+      expect(selectOp.source.operationType).to.equal("having");
+      expect(selectOp.selector).to.deep.equal({
+        type: "object",
+        properties: {
+          category: { type: "column", name: "category" },
+          total: { type: "aggregate", function: "count" },
+        },
+      });
+    });
+  });
+
+  describe("collecting aggregates", () => {
+    it("should parse stringAgg with a separator and ordering", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .select((g) => ({
+            names: g.stringAgg((x) => x.name, "; ", { orderBy: (x) => x.price, descending: true }),
+          }));
+      const result = parseQuery(query);
+
+      const selectOp = asSelectOperation(getOperation(result));
+      expect(selectOp.selector).to.deep.equal({
+        type: "object",
+        properties: {
+          names: {
+            type: "aggregate",
+            function: "stringAgg",
+            expression: { type: "column", name: "name" },
+            separator: { type: "param", param: "__p1" },
+            orderBy: [{ expression: { type: "column", name: "price" }, direction: "desc" }],
+          },
+        },
+      });
+      expect(result?.autoParams).to.deep.equal({ __p1: "; " });
+    });
+
+    it("should parse arrayAgg and an object jsonAgg", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .select((g) => ({
+            ids: g.arrayAgg((x) => x.id),
+            items: g.jsonAgg((x) => ({ id: x.id, name: x.name })),
+          }));
+      const result = parseQuery(query);
+
+      const selectOp = asSelectOperation(getOperation(result));
+      expect(selectOp.selector).to.deep.equal({
+        type: "object",
+        properties: {
+          ids: {
+            type: "aggregate",
+            function: "arrayAgg",
+            expression: { type: "column", name: "id" },
+          },
+          items: {
+            type: "aggregate",
+            function: "jsonAgg",
+            object: {
+              type: "object",
+              properties: {
+                id: { type: "column", name: "id" },
+                name: { type: "column", name: "name" },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    it("should reject an object selector outside jsonAgg", () => {
+      expect(() =>
+        defineSelect(schema, (q) =>
+          q
+            .from("products")
+            .groupBy((x) => x.category)
+            .select((g) => ({ ids: g.arrayAgg((x) => ({ id: x.id })) })),
+        ),
+      ).to.throw();
+    });
+  });
+
+  describe("conditional aggregates", () => {
+    it("should parse count() and sum() predicates into aggregate filters", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .select((g) => ({
+            expensive: g.count((x) => x.price > 100),
+            stockValue: g.sum(
+              (x) => x.price * x.quantity,
+              (x) => x.inStock,
+            ),
+          }));
+      const result = parseQuery(query);
+
+      const selectOp = asSelectOperation(getOperation(result));
+      expect(selectOp.selector).to.deep.equal({
+        type: "object",
+        properties: {
+          expensive: {
+            type: "aggregate",
+            function: "count",
+            filter: {
+              type: "comparison",
+              operator: ">",
+              left: { type: "column", name: "price" },
+              right: { type: "param", param: "__p1" },
+            },
+          },
+          stockValue: {
+            type: "aggregate",
+            function: "sum",
+            expression: {
+              type: "arithmetic",
+              operator: "*",
+              left: { type: "column", name: "price" },
+              right: { type: "column", name: "quantity" },
+            },
+            filter: { type: "booleanColumn", name: "inStock" },
+          },
+        },
+      });
+      expect(result?.autoParams).to.deep.equal({ __p1: 100 });
+    });
+
+    it("should number auto-parameters in selectors and predicates in order", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .select((g) => ({
+            discounted: g.avg(
+              (x) => x.price * 0.9,
+              (x) => x.name !== "sample" && !x.inStock,
+            ),
+            cheapest: g.min(
+              (x) => x.price,
+              (x) => x.quantity >= 5,
+            ),
+          }));
+      const result = parseQuery(query);
+
+      const selectOp = asSelectOperation(getOperation(result));
+      const properties = (selectOp.selector as { properties: Record<string, unknown> }).properties;
+      expect(properties.discounted).to.deep.include({ function: "avg" });
+      expect((properties.discounted as { filter: unknown }).filter).to.deep.equal({
+        type: "logical",
+        operator: "and",
+        left: {
+          type: "comparison",
+          operator: "!=",
+          left: { type: "column", name: "name" },
+          right: { type: "param", param: "__p2" },
+        },
+        right: { type: "not", expression: { type: "booleanColumn", name: "inStock" } },
+      });
+      expect(result?.autoParams).to.deep.equal({ __p1: 0.9, __p2: "sample", __p3: 5 });
+    });
+
+    it("should parse aggregate predicates in HAVING conditions", () => {
+      const plan = defineSelect(schema, (q) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .where((g) => g.count((x) => x.inStock) > 2)
+          .select((g) => ({ category: g.key })),
+      ).toPlan();
+
+      const selectOp = asSelectOperation(plan.operation);
+      const whereOp = selectOp.source as unknown as { predicate: unknown };
+      expect(whereOp.predicate).to.deep.equal({
+        type: "comparison",
+        operator: ">",
+        left: {
+          type: "aggregate",
+          function: "count",
+          filter: { type: "booleanColumn", name: "inStock" },
+        },
+        right: { type: "param", param: "__p1" },
+      });
+    });
+
+    it("should parse method calls and IN lists in aggregate predicates", () => {
+      const plan = defineSelect(schema, (q, p: { ids: number[] }) =>
+        q
+          .from("products")
+          .groupBy((x) => x.category)
+          .where((g) => g.count((x) => x.name.endsWith("kit")) > 0)
+          .select((g) => ({
+            named: g.count((x) => x.name.startsWith("a")),
+            picked: g.sum(
+              (x) => x.price,
+              (x) => p.ids.includes(x.id),
+            ),
+          })),
+      ).toPlan();
+
+      const selectOp = asSelectOperation(plan.operation);
+      expect(selectOp.selector).to.deep.equal({
+        type: "object",
+        properties: {
+          named: {
+            type: "aggregate",
+            function: "count",
+            filter: {
+              type: "booleanMethod",
+              method: "startsWith",
+              object: { type: "column", name: "name" },
+              arguments: [{ type: "param", param: "__p3" }],
+            },
+          },
+          picked: {
+            type: "aggregate",
+            function: "sum",
+            expression: { type: "column", name: "price" },
+            filter: {
+              type: "in",
+              value: { type: "column", name: "id" },
+              list: { type: "param", param: "p", property: "ids" },
+            },
+          },
+        },
+      });
+      const havingOp = selectOp.source as unknown as { predicate: { left: unknown } };
+      expect(havingOp.predicate.left).to.deep.equal({
+        type: "aggregate",
+        function: "count",
+        filter: {
+          type: "booleanMethod",
+          method: "endsWith",
+          object: { type: "column", name: "name" },
+          arguments: [{ type: "param", param: "__p1" }],
+        },
+      });
+      expect(plan.autoParams).to.deep.equal({ __p1: "kit", __p2: 0, __p3: "a" });
+    });
+
+    it("should resolve aggregate predicates on joined rows", () => {
+      const plan = defineSelect(schema, (q) =>
+        q
+          .from("products")
+          .join(
+            q.from("categories"),
+            (p) => p.categoryId,
+            (c) => c.id,
+            (p, c) => ({ p, c }),
+          )
+          .groupBy((r) => r.c.name)
+          .select((g) => ({ inStock: g.count((r) => r.p.inStock) })),
+      ).toPlan();
+
+      const selectOp = asSelectOperation(plan.operation);
+      expect(selectOp.selector).to.deep.equal({
+        type: "object",
+        properties: {
+          inStock: {
+            type: "aggregate",
+            function: "count",
+            filter: {
+              type: "booleanColumn",
+              name: "inStock",
+              source: { type: "joinResult", tableIndex: 0 },
+            },
+          },
+        },
+      });
+    });
+
+    it("should reject a predicate that is not a condition", () => {
+      expect(() =>
+        defineSelect(schema, (q) =>
+          q
+            .from("products")
+            .groupBy((x) => x.category)
+            .select((g) => ({ total: g.count((x) => (x.price + 1) as unknown as boolean) })),
+        ),
+      ).to.throw();
+    });
+  });
 });
@@ -108,6 +108,68 @@ describe("InsertPlanHandle", () => {
     });
   });
 
+  describe("Multi-row values", () => {
+    it("should record an array parameter as the rows source", () => {
+      const plan = defineInsert(
+        testSchema,
+        (qb: QueryBuilder<TestSchema>, params: { rows: { name: string; age: number }[] }) =>
+          qb.insertInto("users").values(params.rows),
+      );
+
+      expect(plan).to.be.instanceOf(InsertPlanHandleWithValues);
+      const insertOp = plan.toPlan().operation as InsertOperation;
+      expect(insertOp.rows).to.deep.equal({ type: "param", param: "params", property: "rows" });
+      expect(insertOp.values.properties).to.deep.equal({});
+    });
+
+    it("should auto-parameterize an array of rows passed to the plan handle", () => {
+      const rows = [{ name: "Alice" }, { name: "Bob" }];
+      const plan = defineInsert(testSchema, (qb: QueryBuilder<TestSchema>) =>
+        qb.insertInto("users"),
+      ).values(rows);
+
+      const sql = plan.finalize({});
+      const insertOp = sql.operation as InsertOperation;
+      expect(insertOp.rows).to.deep.equal({ type: "param", param: "__p1" });
+      expect(sql.params.__p1).to.deep.equal(rows);
+    });
+  });
+
+  describe("Conflict handling", () => {
+    it("should record the conflict target and DO NOTHING action", () => {
+      const plan = defineInsert(testSchema, (qb: QueryBuilder<TestSchema>) =>
+        qb
+          .insertInto("users")
+          .values({ email: "a@example.com" })
+          .onConflict((u) => [u.email])
+          .doNothing(),
+      );
+
+      expect(plan).to.be.instanceOf(InsertPlanHandleWithValues);
+      const insertOp = plan.toPlan().operation as InsertOperation;
+      expect(insertOp.onConflict).to.deep.equal({ target: ["email"], action: "nothing" });
+    });
+
+    it("should tag existing and excluded columns in DO UPDATE", () => {
+      const plan = defineInsert(testSchema, (qb: QueryBuilder<TestSchema>) =>
+        qb
+          .insertInto("users")
+          .values({ email: "a@example.com", name: "A" })
+          .onConflict((u) => u.email)
+          .doUpdateSet((existing, excluded) => ({ name: excluded.name, age: existing.age }))
+          .where((existing) => existing.isActive === true),
+      );
+
+      const insertOp = plan.toPlan().operation as InsertOperation;
+      expect(insertOp.onConflict?.action).to.equal("update");
+      expect(insertOp.onConflict?.assignments?.properties).to.deep.equal({
+        name: { type: "column", name: "name", source: { type: "joinParam", paramIndex: 1 } },
+        age: { type: "column", name: "age", source: { type: "joinParam", paramIndex: 0 } },
+      });
+      expect(insertOp.onConflict?.predicate).to.have.property("type", "comparison");
+    });
+  });
+
   describe("Returning operation", () => {
     it("should support returning specific columns", () => {
       const plan = defineInsert(testSchema, (qb: QueryBuilder<TestSchema>) =>
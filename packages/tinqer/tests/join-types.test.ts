@@ -0,0 +1,211 @@
+/**
+ * Tests for leftJoin, rightJoin, fullJoin, crossJoin and condition joins
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { parseQuery, defineSelect } from "../dist/index.js";
+import type { QueryBuilder } from "../dist/index.js";
+import type { JoinOperation } from "../dist/query-tree/operations.js";
+import {
+  asFromOperation,
+  asSelectOperation,
+  asWhereOperation,
+  getOperation,
+} from "./test-utils/operation-helpers.js";
+import { schema, type TestSchema } from "./test-schema.js";
+
+describe("Join types", () => {
+  it("should mark key joins with their join type", () => {
+    const left = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").leftJoin(
+        q.from("orders"),
+        (u) => u.id,
+        (o) => o.userId,
+        (u, o) => ({ u, o }),
+      ),
+    );
+    const right = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").rightJoin(
+        q.from("orders"),
+        (u) => u.id,
+        (o) => o.userId,
+        (u, o) => ({ u, o }),
+      ),
+    );
+    const full = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").fullJoin(
+        q.from("orders"),
+        (u) => u.id,
+        (o) => o.userId,
+        (u, o) => ({ u, o }),
+      ),
+    );
+
+    const joins = [left, right, full].map((result) => getOperation(result) as JoinOperation);
+    expect(joins.map((join) => join.joinType)).to.deep.equal(["left", "right", "full"]);
+    expect(joins.map((join) => [join.outerKey, join.innerKey])).to.deep.equal([
+      ["id", "userId"],
+      ["id", "userId"],
+      ["id", "userId"],
+    ]);
+  });
+
+  it("should keep plain join() without a join type", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").join(
+        q.from("orders"),
+        (u) => u.id,
+        (o) => o.userId,
+        (u, o) => ({ u, o }),
+      ),
+    );
+
+    const join = getOperation(result) as JoinOperation;
+    expect(join.joinType).to.be.undefined;
+    expect(join.on).to.be.undefined;
+  });
+
+  it("should parse crossJoin without keys", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q
+        .from("departments")
+        .crossJoin(q.from("employees"), (d, e) => ({ d, e }))
+        .select((row) => ({ dept: row.d.name, employee: row.e.name })),
+    );
+
+    const join = asSelectOperation(getOperation(result)).source as JoinOperation;
+    expect(join.joinType).to.equal("cross");
+    expect(asFromOperation(join.inner).table).to.equal("employees");
+    expect(join.resultShape?.properties.size).to.equal(2);
+  });
+
+  it("should turn a predicate into the join condition", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").leftJoin(
+        q.from("orders"),
+        (u, o) => u.id == o.userId && o.amount > 100,
+        (u, o) => ({ u, o }),
+      ),
+    );
+
+    const join = getOperation(result) as JoinOperation;
+    expect(join.joinType).to.equal("left");
+    expect(join.on).to.deep.equal({
+      type: "logical",
+      operator: "and",
+      left: {
+        type: "comparison",
+        operator: "==",
+        left: { type: "column", name: "id", source: { type: "joinParam", paramIndex: 0 } },
+        right: { type: "column", name: "userId", source: { type: "joinParam", paramIndex: 1 } },
+      },
+      right: {
+        type: "comparison",
+        operator: ">",
+        left: { type: "column", name: "amount", source: { type: "joinParam", paramIndex: 1 } },
+        right: { type: "param", param: "__p1" },
+      },
+    });
+    expect(result?.autoParams).to.deep.equal({ __p1: 100 });
+  });
+
+  it("should turn compound keys into an AND of equalities", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("orders").join(
+        q.from("products"),
+        (o) => ({ productId: o.productId, category: o.status }),
+        (p) => ({ productId: p.id, category: p.category }),
+        (o, p) => ({ o, p }),
+      ),
+    );
+
+    const join = getOperation(result) as JoinOperation;
+    expect(join.on?.type).to.equal("logical");
+    expect(join.resultShape?.properties.size).to.equal(2);
+  });
+
+  it("should resolve a chained key join through the table of the previous join result", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q
+        .from("users")
+        .leftJoin(
+          q.from("orders"),
+          (u) => u.id,
+          (o) => o.userId,
+          (u, o) => ({ u, o }),
+        )
+        .leftJoin(
+          q.from("products"),
+          (r) => r.o?.productId,
+          (p) => p.id,
+          (r, p) => ({ ...r, p }),
+        ),
+    );
+
+    const join = getOperation(result) as JoinOperation;
+    expect(join.outerKey).to.equal("productId");
+    expect(join.outerKeySource).to.equal(1);
+    expect(join.resultShape?.properties.get("o")).to.deep.equal({
+      type: "reference",
+      sourceTable: 1,
+      joinKey: "userId",
+    });
+    expect(join.resultShape?.properties.get("p")).to.deep.equal({
+      type: "reference",
+      sourceTable: 2,
+      joinKey: "id",
+    });
+  });
+
+  it("should compare a joined table to null through its join key", () => {
+    const plan = defineSelect(schema, (q) =>
+      q
+        .from("users")
+        .leftJoin(
+          q.from("orders"),
+          (u) => u.id,
+          (o) => o.userId,
+          (u, o) => ({ u, o }),
+        )
+        .where((r) => r.o === null),
+    ).toPlan();
+
+    expect(asWhereOperation(plan.operation).predicate).to.deep.equal({
+      type: "comparison",
+      operator: "==",
+      left: { type: "column", name: "userId", source: { type: "joinResult", tableIndex: 1 } },
+      right: { type: "constant", value: null, valueType: "null" },
+    });
+  });
+
+  it("should reject comparing a table an inner join always matches to null", () => {
+    expect(() =>
+      defineSelect(schema, (q) =>
+        q
+          .from("users")
+          .join(
+            q.from("orders"),
+            (u) => u.id,
+            (o) => o.userId,
+            (u, o) => ({ u, o }),
+          )
+          .where((r) => r.o === null),
+      ),
+    ).to.throw();
+  });
+
+  it("should reject compound keys with different properties", () => {
+    expect(() =>
+      defineSelect(schema, (q) =>
+        q.from("orders").join(
+          q.from("products"),
+          (o) => ({ productId: o.productId }),
+          // Mismatched keys only get past the type checker through a cast
+          (p) => ({ id: p.id }) as unknown as { productId: number },
+          (o, p) => ({ o, p }),
+        ),
+      ),
+    ).to.throw();
+  });
+});
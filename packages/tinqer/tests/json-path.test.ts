@@ -0,0 +1,235 @@
+/**
+ * Tests for JSON column path access and jsonContains
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { parseQuery, defineSelect, createSchema } from "../dist/index.js";
+import type { QueryBuilder, QueryHelpers } from "../dist/index.js";
+import {
+  asOrderByOperation,
+  asSelectOperation,
+  asWhereOperation,
+  getOperation,
+} from "./test-utils/operation-helpers.js";
+
+interface Schema {
+  profiles: {
+    id: number;
+    name: string;
+    metadata: {
+      address: { city: string; zip: string };
+      tags: string[];
+      score: number;
+      verified: boolean;
+    };
+    history: { year: number; title: string }[];
+  };
+}
+
+const schema = createSchema<Schema>({ jsonColumns: { profiles: ["metadata", "history"] } });
+
+describe("JSON path access", () => {
+  it("should turn nested member access on a column into a JSON path", () => {
+    const result = parseQuery((q: QueryBuilder<Schema>) =>
+      q.from("profiles").where((p) => p.metadata.address.city == "Paris"),
+    );
+
+    const where = asWhereOperation(getOperation(result));
+    expect(where.predicate).to.deep.equal({
+      type: "comparison",
+      operator: "==",
+      left: {
+        type: "jsonPath",
+        column: { type: "column", name: "metadata" },
+        path: ["address", "city"],
+      },
+      right: { type: "param", param: "__p1" },
+    });
+    expect(result?.autoParams).to.deep.equal({ __p1: "Paris" });
+  });
+
+  it("should read array indexes into the path", () => {
+    const result = parseQuery((q: QueryBuilder<Schema>) =>
+      q.from("profiles").select((p) => ({
+        firstTag: p.metadata.tags[0],
+        firstTitle: p.history[0]!.title,
+      })),
+    );
+
+    const select = asSelectOperation(getOperation(result));
+    expect(select.selector).to.deep.equal({
+      type: "object",
+      properties: {
+        firstTag: {
+          type: "jsonPath",
+          column: { type: "column", name: "metadata" },
+          path: ["tags", 0],
+        },
+        firstTitle: {
+          type: "jsonPath",
+          column: { type: "column", name: "history" },
+          path: [0, "title"],
+        },
+      },
+    });
+  });
+
+  it("should order by a JSON path", () => {
+    const result = parseQuery((q: QueryBuilder<Schema>) =>
+      q.from("profiles").orderByDescending((p) => p.metadata.score),
+    );
+
+    const orderBy = asOrderByOperation(getOperation(result));
+    expect(orderBy.keySelector).to.deep.equal({
+      type: "jsonPath",
+      column: { type: "column", name: "metadata" },
+      path: ["score"],
+    });
+  });
+
+  it("should compare a boolean JSON value used as a predicate with true", () => {
+    const result = parseQuery((q: QueryBuilder<Schema>) =>
+      q.from("profiles").where((p) => p.metadata.verified),
+    );
+
+    const where = asWhereOperation(getOperation(result));
+    expect(where.predicate).to.deep.equal({
+      type: "comparison",
+      operator: "==",
+      left: {
+        type: "jsonPath",
+        column: { type: "column", name: "metadata" },
+        path: ["verified"],
+      },
+      right: { type: "constant", value: true, valueType: "boolean" },
+    });
+  });
+
+  it("should leave JOIN result member access as columns", () => {
+    const result = parseQuery((q: QueryBuilder<Schema>) =>
+      q
+        .from("profiles")
+        .join(
+          q.from("profiles"),
+          (a) => a.id,
+          (b) => b.id,
+          (a, b) => ({ a, b }),
+        )
+        .select((row) => ({ name: row.b.name })),
+    );
+
+    const select = asSelectOperation(getOperation(result));
+    expect(select.selector).to.deep.equal({
+      type: "object",
+      properties: {
+        name: { type: "column", name: "name", source: { type: "joinParam", paramIndex: 1 } },
+      },
+    });
+  });
+
+  it("should read JSON paths on the columns of joined tables", () => {
+    const result = parseQuery((q: QueryBuilder<Schema>) =>
+      q
+        .from("profiles")
+        .join(
+          q.from("profiles"),
+          (a) => a.id,
+          (b) => b.id,
+          (a, b) => ({ a, b }),
+        )
+        .where((row) => row.b.metadata.address.city == "Paris")
+        .select((row) => ({ city: row.b.metadata.address.city })),
+    );
+
+    const path = {
+      type: "jsonPath",
+      column: { type: "column", name: "metadata", source: { type: "joinResult", tableIndex: 1 } },
+      path: ["address", "city"],
+    };
+    const select = asSelectOperation(getOperation(result));
+    expect(select.selector).to.deep.equal({ type: "object", properties: { city: path } });
+    const where = asWhereOperation(select.source);
+    expect(where.predicate).to.deep.include({ left: path });
+  });
+
+  it("should accept JSON paths on any column when jsonColumns is not declared", () => {
+    const plan = defineSelect(createSchema<Schema>(), (q) =>
+      q.from("profiles").where((p) => p.metadata.address.city == "Paris"),
+    ).toPlan();
+
+    expect(asWhereOperation(plan.operation).predicate).to.deep.include({
+      left: {
+        type: "jsonPath",
+        column: { type: "column", name: "metadata" },
+        path: ["address", "city"],
+      },
+    });
+  });
+
+  it("should reject JSON paths on columns not declared in jsonColumns", () => {
+    expect(() =>
+      defineSelect(createSchema<Schema>({ jsonColumns: { profiles: ["history"] } }), (q) =>
+        q.from("profiles").where((p) => p.metadata.address.city == "Paris"),
+      ),
+    ).to.throw('"metadata" of table "profiles" is not a JSON column');
+    expect(() =>
+      defineSelect(createSchema<Schema>({ jsonColumns: { profiles: ["history"] } }), (q) =>
+        q
+          .from("profiles")
+          .join(
+            q.from("profiles"),
+            (a) => a.id,
+            (b) => b.id,
+            (a, b) => ({ a, b }),
+          )
+          .select((row) => ({ city: row.b.metadata.address.city })),
+      ),
+    ).to.throw('"metadata" of table "profiles" is not a JSON column');
+  });
+});
+
+describe("jsonContains", () => {
+  it("should bind an object literal as a single parameter", () => {
+    const result = parseQuery(
+      (q: QueryBuilder<Schema>, _params: Record<string, never>, h: QueryHelpers) =>
+        q
+          .from("profiles")
+          .where((p) => h.functions.jsonContains(p.metadata, { tags: ["vip"], score: -1 })),
+    );
+
+    const where = asWhereOperation(getOperation(result));
+    expect(where.predicate).to.deep.equal({
+      type: "jsonContains",
+      document: { type: "column", name: "metadata" },
+      value: { type: "param", param: "__p1" },
+    });
+    expect(result?.autoParams).to.deep.equal({ __p1: { tags: ["vip"], score: -1 } });
+  });
+
+  it("should accept a path and a query parameter", () => {
+    const result = parseQuery(
+      (q: QueryBuilder<Schema>, params: { tags: string[] }, h: QueryHelpers) =>
+        q.from("profiles").where((p) => h.functions.jsonContains(p.metadata.tags, params.tags)),
+    );
+
+    const where = asWhereOperation(getOperation(result));
+    expect(where.predicate).to.deep.equal({
+      type: "jsonContains",
+      document: {
+        type: "jsonPath",
+        column: { type: "column", name: "metadata" },
+        path: ["tags"],
+      },
+      value: { type: "param", param: "params", property: "tags" },
+    });
+  });
+
+  it("should reject values that are not literals or parameters", () => {
+    expect(() =>
+      defineSelect(schema, (q, _params, h) =>
+        q.from("profiles").where((p) => h.functions.jsonContains(p.metadata, { score: p.id })),
+      ),
+    ).to.throw();
+  });
+});
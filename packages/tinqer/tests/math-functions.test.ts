@@ -0,0 +1,124 @@
+/**
+ * Tests for Math function translation (round, floor, ceil, abs, pow, sqrt, min, max)
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { parseQuery } from "../dist/index.js";
+import type { QueryBuilder, QueryHelpers } from "../dist/index.js";
+import {
+  asOrderByOperation,
+  asSelectOperation,
+  asWhereOperation,
+  getOperation,
+} from "./test-utils/operation-helpers.js";
+import { type TestSchema } from "./test-schema.js";
+
+describe("Math functions", () => {
+  it("should parse Math calls in SELECT with auto-params for literals", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("orders").select((o) => ({
+        rounded: Math.round(o.total * 1.2),
+        spread: Math.abs(o.amount - o.total),
+        largest: Math.max(o.amount, o.total, 0),
+      })),
+    );
+
+    const selectOp = asSelectOperation(getOperation(result));
+    expect(selectOp.selector).to.deep.equal({
+      type: "object",
+      properties: {
+        rounded: {
+          type: "mathFunction",
+          function: "round",
+          arguments: [
+            {
+              type: "arithmetic",
+              operator: "*",
+              left: { type: "column", name: "total" },
+              right: { type: "param", param: "__p1" },
+            },
+          ],
+        },
+        spread: {
+          type: "mathFunction",
+          function: "abs",
+          arguments: [
+            {
+              type: "arithmetic",
+              operator: "-",
+              left: { type: "column", name: "amount" },
+              right: { type: "column", name: "total" },
+            },
+          ],
+        },
+        largest: {
+          type: "mathFunction",
+          function: "max",
+          arguments: [
+            { type: "column", name: "amount" },
+            { type: "column", name: "total" },
+            { type: "param", param: "__p2" },
+          ],
+        },
+      },
+    });
+    expect(result?.autoParams).to.deep.equal({ __p1: 1.2, __p2: 0 });
+  });
+
+  it("should parse round() with decimal places and Math.pow in WHERE", () => {
+    const result = parseQuery(
+      (q: QueryBuilder<TestSchema>, p: { limit: number }, h: QueryHelpers) =>
+        q
+          .from("products")
+          .where((x) => h.functions.round(x.price, 2) > Math.pow(x.cost, 2) + p.limit),
+    );
+
+    const whereOp = asWhereOperation(getOperation(result));
+    expect(whereOp.predicate).to.deep.equal({
+      type: "comparison",
+      operator: ">",
+      left: {
+        type: "mathFunction",
+        function: "round",
+        arguments: [
+          { type: "column", name: "price" },
+          { type: "param", param: "__p1" },
+        ],
+      },
+      right: {
+        type: "arithmetic",
+        operator: "+",
+        left: {
+          type: "mathFunction",
+          function: "pow",
+          arguments: [
+            { type: "column", name: "cost" },
+            { type: "param", param: "__p2" },
+          ],
+        },
+        right: { type: "param", param: "p", property: "limit" },
+      },
+    });
+    expect(result?.autoParams).to.deep.equal({ __p1: 2, __p2: 2 });
+  });
+
+  it("should parse Math calls in ORDER BY", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("products").orderBy((x) => Math.floor(Math.sqrt(x.quantity))),
+    );
+
+    const orderByOp = asOrderByOperation(getOperation(result));
+    expect(orderByOp.keySelector).to.deep.equal({
+      type: "mathFunction",
+      function: "floor",
+      arguments: [
+        {
+          type: "mathFunction",
+          function: "sqrt",
+          arguments: [{ type: "column", name: "quantity" }],
+        },
+      ],
+    });
+  });
+});
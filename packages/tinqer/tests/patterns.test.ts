@@ -0,0 +1,107 @@
+/**
+ * Tests for LIKE patterns and regular expression predicates
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { defineSelect, createSchema } from "../dist/index.js";
+import { asWhereOperation } from "./test-utils/operation-helpers.js";
+
+interface Schema {
+  invoices: {
+    id: number;
+    code: string;
+    note: string | null;
+  };
+}
+
+const schema = createSchema<Schema>();
+
+describe("Pattern predicates", () => {
+  it("should parse like() with a bound pattern", () => {
+    const plan = defineSelect(schema, (q, _params, h) =>
+      q.from("invoices").where((i) => h.functions.like(i.code, "AB\\_%")),
+    ).toPlan();
+
+    const where = asWhereOperation(plan.operation);
+    expect(where.predicate).to.deep.equal({
+      type: "like",
+      value: { type: "column", name: "code" },
+      pattern: { type: "param", param: "__p1" },
+    });
+    expect(plan.autoParams).to.deep.equal({ __p1: "AB\\_%" });
+  });
+
+  it("should parse regex test() with the i flag", () => {
+    const plan = defineSelect(schema, (q) =>
+      q.from("invoices").where((i) => /^INV-\d+$/i.test(i.code)),
+    ).toPlan();
+
+    const where = asWhereOperation(plan.operation);
+    expect(where.predicate).to.deep.equal({
+      type: "regexMatch",
+      value: { type: "column", name: "code" },
+      pattern: { type: "param", param: "__p1" },
+      ignoreCase: true,
+    });
+    expect(plan.autoParams).to.deep.equal({ __p1: "^INV-\\d+$" });
+  });
+
+  it("should parse match() and negated matches", () => {
+    const plan = defineSelect(schema, (q, params: { id: number }) =>
+      q.from("invoices").where((i) => i.id > params.id && !i.code.match(/draft/)),
+    ).toPlan();
+
+    const where = asWhereOperation(plan.operation);
+    expect(where.predicate).to.deep.equal({
+      type: "logical",
+      operator: "and",
+      left: {
+        type: "comparison",
+        operator: ">",
+        left: { type: "column", name: "id" },
+        right: { type: "param", param: "params", property: "id" },
+      },
+      right: {
+        type: "not",
+        expression: {
+          type: "regexMatch",
+          value: { type: "column", name: "code" },
+          pattern: { type: "param", param: "__p1" },
+        },
+      },
+    });
+    expect(plan.autoParams).to.deep.equal({ __p1: "draft" });
+  });
+
+  it("should parse match() compared to null", () => {
+    const matches = defineSelect(schema, (q) =>
+      q.from("invoices").where((i) => i.code.match(/^A/) !== null),
+    ).toPlan();
+    expect(asWhereOperation(matches.operation).predicate).to.deep.equal({
+      type: "regexMatch",
+      value: { type: "column", name: "code" },
+      pattern: { type: "param", param: "__p1" },
+    });
+    expect(matches.autoParams).to.deep.equal({ __p1: "^A" });
+
+    const misses = defineSelect(schema, (q) =>
+      q.from("invoices").where((i) => null === i.code.match(/^a/i)),
+    ).toPlan();
+    expect(asWhereOperation(misses.operation).predicate).to.deep.equal({
+      type: "not",
+      expression: {
+        type: "regexMatch",
+        value: { type: "column", name: "code" },
+        pattern: { type: "param", param: "__p1" },
+        ignoreCase: true,
+      },
+    });
+  });
+
+  it("should reject flags other than i", () => {
+    expect(() =>
+      defineSelect(schema, (q) => q.from("invoices").where((i) => /inv/g.test(i.code))),
+    ).to.throw();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for seekAfter / seekBefore keyset pagination and seek cursor tokens
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { parseQuery, defineSelect, createSeekCursor, readSeekCursor } from "../dist/index.js";
+import type { OrderedQueryable, QueryBuilder } from "../dist/index.js";
+import type { SeekOperation } from "../dist/query-tree/operations.js";
+import { asTakeOperation, getOperation } from "./test-utils/operation-helpers.js";
+import { schema, type TestSchema } from "./test-schema.js";
+
+describe("Seek Operations", () => {
+  it("should parse seekAfter with a cursor parameter", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>, p: { after: number[] }) =>
+      q
+        .from("users")
+        .orderBy((u) => u.age)
+        .thenBy((u) => u.id)
+        .seekAfter(p.after)
+        .take(10),
+    );
+
+    const seek = asTakeOperation(getOperation(result)).source as SeekOperation;
+    expect(seek.operationType).to.equal("seek");
+    expect(seek.direction).to.equal("after");
+    expect(seek.cursor).to.deep.equal({ type: "param", param: "p", property: "after" });
+    expect(seek.source.operationType).to.equal("thenBy");
+  });
+
+  it("should turn an array literal cursor into one auto-param", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q
+        .from("users")
+        .orderByDescending((u) => u.id)
+        .seekBefore([42]),
+    );
+
+    const seek = getOperation(result) as SeekOperation;
+    expect(seek.direction).to.equal("before");
+    expect(seek.cursor).to.deep.equal({ type: "param", param: "__p1" });
+    expect(result?.autoParams).to.deep.equal({ __p1: [42] });
+  });
+
+  it("should reject seek on an unordered query", () => {
+    expect(() =>
+      defineSelect(schema, (q, p: { after: number[] }) =>
+        // seekAfter is only typed on ordered queries
+        (q.from("users") as unknown as OrderedQueryable<TestSchema["users"]>).seekAfter(p.after),
+      ),
+    ).to.throw();
+  });
+
+  it("should append a seek through the plan handle", () => {
+    const plan = defineSelect(schema, (q) => q.from("users").orderBy((u) => u.id)).seekAfter([5]);
+    const { operation, params } = plan.finalize({});
+
+    expect(operation.operationType).to.equal("seek");
+    expect(params).to.deep.equal({ __p1: [5] });
+  });
+
+  it("should round-trip cursor tokens, including dates", () => {
+    const createdAt = new Date("2024-03-01T10:00:00.000Z");
+    const token = createSeekCursor({ id: 7, name: "Bob", createdAt }, (u) => [
+      u.createdAt,
+      u.name,
+      u.id,
+    ]);
+
+    expect(token).to.match(/^[A-Za-z0-9_-]+$/);
+    expect(readSeekCursor(token)).to.deep.equal([createdAt, "Bob", 7]);
+  });
+
+  it("should round-trip non-ASCII text in cursor tokens", () => {
+    const token = createSeekCursor({ id: 3, name: "Zoë 🚀" }, (u) => [u.name, u.id]);
+
+    expect(token).to.match(/^[A-Za-z0-9_-]+$/);
+    expect(readSeekCursor(token)).to.deep.equal(["Zoë 🚀", 3]);
+  });
+
+  it("should reject malformed cursor tokens", () => {
+    expect(() => readSeekCursor("not a cursor")).to.throw("Invalid seek cursor");
+    expect(() => readSeekCursor(btoa('{"a":1}'))).to.throw("Invalid seek cursor");
+  });
+});
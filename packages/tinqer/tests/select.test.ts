@@ -8,7 +8,17 @@ import { parseQuery } from "../dist/index.js";
 import type { QueryBuilder } from "../dist/index.js";
 import { type TestSchema } from "./test-schema.js";
 import { asSelectOperation, getOperation } from "./test-utils/operation-helpers.js";
-import type { ObjectExpression, ColumnExpression } from "../dist/expressions/expression.js";
+import type {
+  ObjectExpression,
+  ColumnExpression,
+  ScalarSubqueryExpression,
+} from "../dist/expressions/expression.js";
+import type {
+  CountOperation,
+  FirstOrDefaultOperation,
+  MaxOperation,
+  SelectOperation,
+} from "../dist/query-tree/operations.js";
 
 describe("SELECT Operation", () => {
   describe("Simple Projections", () => {
@@ -109,4 +119,61 @@ describe("SELECT Operation", () => {
     // Test removed: String concatenation with external parameters in SELECT is not supported
     // SELECT projections must be simple column/field selection
   });
+
+  describe("Correlated Subqueries", () => {
+    it("should parse count() on a nested query as a scalar subquery", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q.from("users").select((u) => ({
+          ...u,
+          orderCount: q.from("orders").count((o) => o.userId === u.id),
+        }));
+      const result = parseQuery(query);
+
+      const selectOp = asSelectOperation(getOperation(result));
+      const objectSelector = selectOp.selector as ObjectExpression;
+      expect(objectSelector.properties.__spread__).to.deep.equal({ type: "allColumns" });
+      const orderCount = objectSelector.properties.orderCount as ScalarSubqueryExpression;
+      expect(orderCount.type).to.equal("scalarSubquery");
+      const countOp = orderCount.subquery as CountOperation;
+      expect(countOp.operationType).to.equal("count");
+      expect(countOp.predicate).to.deep.equal({
+        type: "comparison",
+        operator: "==",
+        left: { type: "column", name: "userId" },
+        right: { type: "column", name: "id", source: { type: "table", alias: "users" } },
+      });
+    });
+
+    it("should parse aggregates and firstOrDefault() over filtered nested queries", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q.from("users").select((u) => ({
+          lastOrder: q
+            .from("orders")
+            .where((o) => o.userId === u.id && o.amount > 10)
+            .max((o) => o.createdAt),
+          firstStatus: q
+            .from("orders")
+            .where((o) => o.userId === u.id)
+            .orderBy((o) => o.createdAt)
+            .select((o) => o.status)
+            .firstOrDefault(),
+        }));
+      const result = parseQuery(query);
+
+      const objectSelector = asSelectOperation(getOperation(result)).selector as ObjectExpression;
+      const lastOrder = objectSelector.properties.lastOrder as ScalarSubqueryExpression;
+      const maxOp = lastOrder.subquery as MaxOperation;
+      expect(maxOp.operationType).to.equal("max");
+      expect(maxOp.selectorExpression).to.deep.equal({ type: "column", name: "createdAt" });
+
+      const firstStatus = objectSelector.properties.firstStatus as ScalarSubqueryExpression;
+      const firstOp = firstStatus.subquery as FirstOrDefaultOperation;
+      expect(firstOp.operationType).to.equal("firstOrDefault");
+      expect((firstOp.source as SelectOperation).selector).to.deep.equal({
+        type: "column",
+        name: "status",
+      });
+      expect(result?.autoParams).to.deep.equal({ __p1: 10 });
+    });
+  });
 });
@@ -0,0 +1,94 @@
+/**
+ * Tests for set operations (union, concat, intersect, except)
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { parseQuery, defineSelect } from "../dist/index.js";
+import type { QueryBuilder } from "../dist/index.js";
+import {
+  asFromOperation,
+  asOrderByOperation,
+  asSelectOperation,
+  asSetOperation,
+  asTakeOperation,
+  asWhereOperation,
+  getOperation,
+} from "./test-utils/operation-helpers.js";
+import { schema, type TestSchema } from "./test-schema.js";
+
+describe("Set Operations", () => {
+  it("should parse union with the second query as its own tree", () => {
+    const query = (q: QueryBuilder<TestSchema>) =>
+      q
+        .from("users")
+        .select((u) => ({ name: u.name }))
+        .union(q.from("customers").select((c) => ({ name: c.name })));
+    const result = parseQuery(query);
+
+    const unionOp = asSetOperation(getOperation(result));
+    expect(unionOp.operationType).to.equal("union");
+    expect(asFromOperation(asSelectOperation(unionOp.source).source).table).to.equal("users");
+    expect(asFromOperation(asSelectOperation(unionOp.second).source).table).to.equal("customers");
+  });
+
+  it("should map each method to its own operation type", () => {
+    const concat = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").concat(q.from("users")),
+    );
+    const intersect = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").intersect(q.from("users")),
+    );
+    const except = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").except(q.from("users")),
+    );
+
+    expect(getOperation(concat)?.operationType).to.equal("concat");
+    expect(getOperation(intersect)?.operationType).to.equal("intersect");
+    expect(getOperation(except)?.operationType).to.equal("except");
+  });
+
+  it("should continue auto-param numbering into the second query", () => {
+    const query = (q: QueryBuilder<TestSchema>, p: { minAge: number }) =>
+      q
+        .from("users")
+        .where((u) => u.age > p.minAge && u.status == "active")
+        .union(q.from("users").where((u) => u.age < p.minAge && u.city == "Paris"))
+        .take(5);
+    const result = parseQuery(query);
+
+    expect(result?.autoParams).to.deep.equal({ __p1: "active", __p2: "Paris", __p3: 5 });
+
+    const takeOp = asTakeOperation(getOperation(result));
+    const unionOp = asSetOperation(asFromOperation(takeOp.source).subquery!);
+    const secondWhere = asWhereOperation(unionOp.second);
+    expect(JSON.stringify(secondWhere.predicate)).to.contain('"property":"minAge"');
+  });
+
+  it("should wrap the set operation in a subquery when followed by orderBy", () => {
+    const query = (q: QueryBuilder<TestSchema>) =>
+      q
+        .from("users")
+        .select((u) => ({ name: u.name }))
+        .concat(q.from("customers").select((c) => ({ name: c.name })))
+        .orderBy((r) => r.name);
+    const result = parseQuery(query);
+
+    const orderByOp = asOrderByOperation(getOperation(result));
+    const fromOp = asFromOperation(orderByOp.source);
+    expect(fromOp.subquery?.operationType).to.equal("concat");
+  });
+
+  it("should wrap when chaining on a select plan", () => {
+    const plan = defineSelect(schema, (q) =>
+      q
+        .from("users")
+        .select((u) => ({ id: u.id }))
+        .except(q.from("orders").select((o) => ({ id: o.userId }))),
+    ).orderBy((r) => r.id);
+
+    const operation = plan.toPlan().operation;
+    const orderByOp = asOrderByOperation(operation);
+    expect(asFromOperation(orderByOp.source).subquery?.operationType).to.equal("except");
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for string method translation (length, trim, substring, replace, indexOf, padStart, split)
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { parseQuery } from "../dist/index.js";
+import type { QueryBuilder } from "../dist/index.js";
+import {
+  asOrderByOperation,
+  asSelectOperation,
+  asWhereOperation,
+  getOperation,
+} from "./test-utils/operation-helpers.js";
+import { type TestSchema } from "./test-schema.js";
+
+describe("String methods", () => {
+  it("should parse .length and trim() in WHERE", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").where((u) => u.name.trim().length > 3),
+    );
+
+    const whereOp = asWhereOperation(getOperation(result));
+    expect(whereOp.predicate).to.deep.equal({
+      type: "comparison",
+      operator: ">",
+      left: {
+        type: "stringMethod",
+        object: {
+          type: "stringMethod",
+          object: { type: "column", name: "name" },
+          method: "trim",
+        },
+        method: "length",
+      },
+      right: { type: "param", param: "__p1" },
+    });
+  });
+
+  it("should parse substring, slice and indexOf arguments as auto-params", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").select((u) => ({
+        initials: u.name.substring(0, 2),
+        rest: u.name.slice(2),
+        at: u.email.indexOf("@"),
+      })),
+    );
+
+    const selectOp = asSelectOperation(getOperation(result));
+    expect(selectOp.selector).to.deep.equal({
+      type: "object",
+      properties: {
+        initials: {
+          type: "stringMethod",
+          object: { type: "column", name: "name" },
+          method: "substring",
+          arguments: [
+            { type: "param", param: "__p1" },
+            { type: "param", param: "__p2" },
+          ],
+        },
+        rest: {
+          type: "stringMethod",
+          object: { type: "column", name: "name" },
+          method: "substring",
+          arguments: [{ type: "param", param: "__p3" }],
+        },
+        at: {
+          type: "stringMethod",
+          object: { type: "column", name: "email" },
+          method: "indexOf",
+          arguments: [{ type: "param", param: "__p4" }],
+        },
+      },
+    });
+    expect(result?.autoParams).to.deep.equal({ __p1: 0, __p2: 2, __p3: 2, __p4: "@" });
+  });
+
+  it("should parse split(separator)[index] as splitPart", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>, p: { separator: string }) =>
+      q.from("users").where((u) => u.email.split(p.separator)[1] == "example.com"),
+    );
+
+    const whereOp = asWhereOperation(getOperation(result));
+    expect(whereOp.predicate).to.deep.equal({
+      type: "comparison",
+      operator: "==",
+      left: {
+        type: "stringMethod",
+        object: { type: "column", name: "email" },
+        method: "splitPart",
+        arguments: [
+          { type: "param", param: "p", property: "separator" },
+          { type: "param", param: "__p1" },
+        ],
+      },
+      right: { type: "param", param: "__p2" },
+    });
+  });
+
+  it("should parse padStart and replace in ORDER BY", () => {
+    const result = parseQuery((q: QueryBuilder<TestSchema>) =>
+      q.from("users").orderBy((u) => u.name.replace("Dr. ", "").padStart(10, " ")),
+    );
+
+    const orderByOp = asOrderByOperation(getOperation(result));
+    expect(orderByOp.keySelector).to.deep.equal({
+      type: "stringMethod",
+      object: {
+        type: "stringMethod",
+        object: { type: "column", name: "name" },
+        method: "replace",
+        arguments: [
+          { type: "param", param: "__p1" },
+          { type: "param", param: "__p2" },
+        ],
+      },
+      method: "padStart",
+      arguments: [
+        { type: "param", param: "__p3" },
+        { type: "param", param: "__p4" },
+      ],
+    });
+  });
+});
@@ -12,6 +12,8 @@ import type {
   TakeOperation,
   SkipOperation,
   GroupByOperation,
+  HavingOperation,
+  SetOperation,
 } from "../../src/query-tree/operations.js";
 import type { ParseResult } from "../../src/parser/parse-query.js";
 
@@ -101,3 +103,23 @@ export function asGroupByOperation(op: QueryOperation | null): GroupByOperation
   }
   return op as GroupByOperation;
 }
+
+/**
+ * Type guard and accessor for HavingOperation
+ */
+export function asHavingOperation(op: QueryOperation | null): HavingOperation {
+  if (!op || op.operationType !== "having") {
+    throw new Error(`Expected HavingOperation but got ${op?.operationType || "null"}`);
+  }
+  return op as HavingOperation;
+}
+
+/**
+ * Type guard and accessor for SetOperation (union, concat, intersect, except)
+ */
+export function asSetOperation(op: QueryOperation | null): SetOperation {
+  if (!op || !["union", "concat", "intersect", "except"].includes(op.operationType as string)) {
+    throw new Error(`Expected SetOperation but got ${op?.operationType || "null"}`);
+  }
+  return op as SetOperation;
+}
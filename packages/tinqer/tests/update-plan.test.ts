@@ -117,6 +117,35 @@ describe("UpdatePlanHandle", () => {
       // null should not be auto-parameterized
       expect(Object.keys(planData.autoParams)).to.have.length(0);
     });
+
+    it("should resolve row references in a set lambda", () => {
+      const plan = defineUpdate(testSchema, (qb: QueryBuilder<TestSchema>) =>
+        qb.update("posts"),
+      ).set<{ step: number }>((p, params) => ({
+        viewCount: p.viewCount + params.step,
+        title: p.title.trim(),
+      }));
+
+      const updateOp = plan.toPlan().operation as UpdateOperation;
+
+      expect(updateOp.assignments).to.deep.equal({
+        type: "object",
+        properties: {
+          viewCount: {
+            type: "arithmetic",
+            operator: "+",
+            left: { type: "column", name: "viewCount" },
+            right: { type: "param", param: "params", property: "step" },
+          },
+          title: {
+            type: "stringMethod",
+            method: "trim",
+            object: { type: "column", name: "title" },
+          },
+        },
+      });
+      expect(plan).to.be.instanceOf(UpdatePlanHandleWithSet);
+    });
   });
 
   describe("WHERE operation", () => {
@@ -15,8 +15,16 @@ import type {
   ColumnExpression,
   ConstantExpression,
   ParameterExpression,
+  ExistsExpression,
+  InExpression,
+  NotExpression,
 } from "../dist/expressions/expression.js";
-import type { ParamRef } from "../dist/query-tree/operations.js";
+import type {
+  FromOperation,
+  ParamRef,
+  SelectOperation,
+  WhereOperation,
+} from "../dist/query-tree/operations.js";
 
 describe("WHERE Operation", () => {
   describe("Comparison Operators", () => {
@@ -230,4 +238,127 @@ describe("WHERE Operation", () => {
       expect(rightParamRef.property).to.equal("maxAge");
     });
   });
+
+  describe("Correlated Subqueries", () => {
+    it("should parse any() on a nested query as a correlated EXISTS", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("users")
+          .where((u) => q.from("orders").any((o) => o.userId === u.id && o.amount > 100));
+      const result = parseQuery(query);
+
+      const whereOp = asWhereOperation(getOperation(result));
+      const exists = whereOp.predicate as ExistsExpression;
+      expect(exists.type).to.equal("exists");
+      expect(exists.negated).to.be.undefined;
+      expect(exists.subquery.operationType).to.equal("any");
+      expect((exists.subquery.source as FromOperation).aliasHint).to.equal("s1");
+      const predicate = (exists.subquery.predicate as LogicalExpression)
+        .left as ComparisonExpression;
+      expect(predicate.left).to.deep.equal({ type: "column", name: "userId" });
+      expect(predicate.right).to.deep.equal({
+        type: "column",
+        name: "id",
+        source: { type: "table", alias: "users" },
+      });
+      expect(result?.autoParams).to.deep.equal({ __p1: 100 });
+    });
+
+    it("should parse negated any() and all() subqueries", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("users")
+          .where((u) => !q.from("orders").any((o) => o.userId === u.id))
+          .where((u) => q.from("orders").all((o) => o.userId !== u.id || o.amount > 0));
+      const result = parseQuery(query);
+
+      const outerWhere = asWhereOperation(getOperation(result));
+      const allExists = outerWhere.predicate as ExistsExpression;
+      expect(allExists.type).to.equal("exists");
+      expect(allExists.subquery.operationType).to.equal("all");
+
+      const innerWhere = asWhereOperation(outerWhere.source);
+      const anyExists = innerWhere.predicate as ExistsExpression;
+      expect(anyExists.subquery.operationType).to.equal("any");
+      expect(anyExists.negated).to.equal(true);
+    });
+
+    it("should qualify outer references by the enclosing subquery alias when nested", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("users")
+          .where((u) =>
+            q
+              .from("orders")
+              .any(
+                (o) =>
+                  o.userId === u.id &&
+                  q.from("products").any((p) => p.id === o.productId && p.price > u.salary),
+              ),
+          );
+      const result = parseQuery(query);
+
+      const whereOp = asWhereOperation(getOperation(result));
+      const outer = whereOp.predicate as ExistsExpression;
+      const nested = (outer.subquery.predicate as LogicalExpression).right as ExistsExpression;
+      expect((nested.subquery.source as FromOperation).aliasHint).to.equal("s2");
+      const nestedPredicate = nested.subquery.predicate as LogicalExpression;
+      expect((nestedPredicate.left as ComparisonExpression).right).to.deep.equal({
+        type: "column",
+        name: "productId",
+        source: { type: "table", alias: "s1" },
+      });
+      expect(
+        ((nestedPredicate.right as ComparisonExpression).right as ColumnExpression).source,
+      ).to.deep.equal({
+        type: "table",
+        alias: "users",
+      });
+    });
+
+    it("should parse contains() on a nested query as IN (subquery)", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q.from("users").where((u) =>
+          q
+            .from("orders")
+            .where((o) => o.amount > 100)
+            .select((o) => o.userId)
+            .contains(u.id),
+        );
+      const result = parseQuery(query);
+
+      const whereOp = asWhereOperation(getOperation(result));
+      const inExpr = whereOp.predicate as InExpression;
+      expect(inExpr.type).to.equal("in");
+      expect(inExpr.value).to.deep.equal({ type: "column", name: "id" });
+      const subquery = inExpr.list as SelectOperation;
+      expect(subquery.operationType).to.equal("select");
+      expect(subquery.selector).to.deep.equal({ type: "column", name: "userId" });
+      const innerWhere = subquery.source as WhereOperation;
+      expect((innerWhere.source as FromOperation).aliasHint).to.equal("s1");
+      expect(result?.autoParams).to.deep.equal({ __p1: 100 });
+    });
+
+    it("should parse negated contains() subqueries and merge their auto-params", () => {
+      const query = (q: QueryBuilder<TestSchema>) =>
+        q
+          .from("users")
+          .where((u) => u.age > 18)
+          .where(
+            (u) =>
+              !q
+                .from("orders")
+                .where((o) => o.status === "cancelled")
+                .select((o) => o.userId)
+                .contains(u.id),
+          );
+      const result = parseQuery(query);
+
+      const whereOp = asWhereOperation(getOperation(result));
+      const not = whereOp.predicate as NotExpression;
+      expect(not.type).to.equal("not");
+      expect((not.expression as InExpression).type).to.equal("in");
+      expect(result?.autoParams).to.deep.equal({ __p1: 18, __p2: "cancelled" });
+    });
+  });
 });